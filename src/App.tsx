@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
 import {
   ReactFlow,
   Background,
@@ -16,23 +16,59 @@ import {
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import { Toaster, toast } from 'react-hot-toast';
-import { Menu, Github, Cloud, Link } from 'lucide-react';
+import { Menu, Github, Cloud, Link, FolderOpen, FileDown, FileUp, Download, Undo2, Redo2, History, AlertCircle, AlertTriangle, Wand2, Image, Share2, BookOpen, Layers } from 'lucide-react';
 
 import { TableNode } from './components/TableNode';
+import { SubjectAreaNode } from './components/SubjectAreaNode';
+import { SubjectAreaSummaryNode } from './components/SubjectAreaSummaryNode';
+import { SubjectAreasPanel } from './components/SubjectAreasPanel';
 import { AdvancedTableEditor } from './components/AdvancedTableEditor';
 import { SQLCodePanel } from './components/SQLCodePanel';
+import { OrmCodePanel } from './components/OrmCodePanel';
 import { NavigationPanel } from './components/NavigationPanel';
 import { QueryEditor } from './components/QueryEditor';
 import { SettingsModal } from './components/SettingsModal';
 import { RelationshipEditorModal } from './components/RelationshipEditorModal';
+import { CustomTypeEditorModal } from './components/CustomTypeEditorModal';
+import { Dropdown } from './components/Dropdown';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ValidationPanel } from './components/ValidationPanel';
+import { ConvertDialectModal } from './components/ConvertDialectModal';
+import { ExportSQLModal } from './components/ExportSQLModal';
+import { FakeDataModal } from './components/FakeDataModal';
+import { ExportDiagramModal } from './components/ExportDiagramModal';
+import { ErDiagramModal } from './components/ErDiagramModal';
+import { DocsModal } from './components/DocsModal';
+import { AutoLayoutMenu } from './components/AutoLayoutMenu';
 import { useProject } from './hooks/useProject';
+import { useQueryEngine } from './hooks/useQueryEngine';
+import { useProjectPersistence } from './hooks/useProjectPersistence';
 import { useSupabase } from './hooks/useSupabase';
 import { useGitHub } from './hooks/useGitHub';
-import { TableData, RelationshipData } from './types';
-import { SQLGenerator } from './utils/sqlGenerator';
+import { TableData, RelationshipData, ValidationIssue, LayoutAlgorithm, ManyToManyOptions, CustomTypeData, SQLDialect, TableGroupData } from './types';
+import { SQLParser, ParsedSchema } from './utils/sqlParser';
+import { validateProject } from './utils/schemaValidator';
+import { downloadFile } from './utils/download';
+import { generatePrismaSchema, parsePrismaSchema } from './utils/prismaSchema';
+import { dbmlExportWarnings, generateDBML, parseDBML } from './utils/dbmlSchema';
+import { relationshipLabel } from './utils/diagramExport';
+import { computeLayout } from './utils/autoLayout';
+import { viewProject, subjectAreaFrames, activeDiagramView, SUBJECT_AREA_COLORS } from './utils/diagramViews';
+import { junctionLinks } from './utils/junctionTables';
 
 const nodeTypes = {
   table: TableNode,
+  subjectArea: SubjectAreaNode,
+  subjectAreaSummary: SubjectAreaSummaryNode,
+};
+
+// Prisma and DBML files may name their dialect, and DBML carries table groups
+type ImportedSchema = ParsedSchema & { dialect?: SQLDialect; tableGroups?: TableGroupData[] };
+
+const IMPORT_SOURCES = {
+  sql: { label: 'SQL', item: 'table', issue: 'statement', empty: 'No CREATE TABLE statements found in the SQL file.' },
+  prisma: { label: 'Prisma', item: 'model', issue: 'part', empty: 'No models found in the Prisma schema.' },
+  dbml: { label: 'DBML', item: 'table', issue: 'part', empty: 'No tables found in the DBML file.' },
 };
 
 function App() {
@@ -43,7 +79,9 @@ function App() {
     updateTable,
     deleteTable,
     updateTablePosition,
+    updateTablePositions,
     addRelationship,
+    addManyToMany,
     updateRelationship,
     deleteRelationship,
     addIndex,
@@ -51,11 +89,32 @@ function App() {
     addProcedure,
     addTrigger,
     addUser,
+    setDisabledRules,
+    setConstraintNaming,
+    addCustomType,
+    updateCustomType,
+    deleteCustomType,
+    addTableGroup,
+    updateTableGroup,
+    deleteTableGroup,
+    addDiagramView,
+    updateDiagramView,
+    deleteDiagramView,
+    setActiveView,
     setProjectName,
     setDialect,
+    convertDialect,
     setCurrentDatabase,
     exportProject,
-    importProject
+    importProject,
+    openProject,
+    history,
+    historyIndex,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    jumpToHistory
   } = useProject();
 
   const {
@@ -67,73 +126,236 @@ function App() {
     procedures,
     triggers,
     users,
-    projectName,
+    name: projectName,
     dialect,
     currentDatabase,
+    disabledRules = [],
+    customTypes = [],
   } = project;
 
   const supabase = useSupabase();
   const github = useGitHub();
+  const queryEngine = useQueryEngine(project);
+  const persistence = useProjectPersistence(project, openProject);
 
-  const [nodes, setNodes, onNodesChange] = useNodesState([]);
+  const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [editingTable, setEditingTable] = useState<TableData | null>(null);
   const [editingRelationship, setEditingRelationship] = useState<Partial<RelationshipData> | null>(null);
+  const [editingCustomType, setEditingCustomType] = useState<Partial<CustomTypeData> | null>(null);
   const [isTableEditorOpen, setIsTableEditorOpen] = useState(false);
   const [isRelationshipEditorOpen, setIsRelationshipEditorOpen] = useState(false);
   const [showCodePanel, setShowCodePanel] = useState(false);
+  const [showOrmPanel, setShowOrmPanel] = useState(false);
   const [showQueryEditor, setShowQueryEditor] = useState(false);
   const [showNavigationPanel, setShowNavigationPanel] = useState(true);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const [showSubjectAreasPanel, setShowSubjectAreasPanel] = useState(false);
+  const [showValidationPanel, setShowValidationPanel] = useState(false);
+  const [showConvertDialectModal, setShowConvertDialectModal] = useState(false);
+  const [showExportSQLModal, setShowExportSQLModal] = useState(false);
+  const [showFakeDataModal, setShowFakeDataModal] = useState(false);
+  const [showExportDiagramModal, setShowExportDiagramModal] = useState(false);
+  const [showErDiagramModal, setShowErDiagramModal] = useState(false);
+  const [showDocsModal, setShowDocsModal] = useState(false);
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const canvasProject = useMemo(() => viewProject(project), [project]);
+  const areaFrames = useMemo(() => subjectAreaFrames(canvasProject), [canvasProject]);
+  const junctions = useMemo(() => junctionLinks(canvasProject), [canvasProject]);
+  const selectedTableIds = useMemo(() => nodes.filter(node => node.selected && node.type === 'table').map(node => node.id), [nodes]);
+  const validationIssues = useMemo(() => validateProject(project), [project]);
+  const errorCount = validationIssues.filter(issue => issue.severity === 'error').length;
+  const warningCount = validationIssues.length - errorCount;
 
-  // Convert tables to nodes
+  const setJunctionCollapsed = useCallback((tableId: string, collapsed: boolean) => {
+    const table = tables.find(t => t.id === tableId);
+    if (table?.junction) updateTable({ ...table, junction: { ...table.junction, collapsed } });
+  }, [tables, updateTable]);
+
+  // Convert tables to nodes, behind them the frames of the subject areas. A collapsed area replaces its tables
+  // with one summary node, and a collapsed junction table is drawn as an M:N edge instead.
   React.useEffect(() => {
-    const newNodes: Node[] = tables.map(table => ({
+    const hidden = new Set(areaFrames.filter(frame => frame.group.collapsed).flatMap(frame => frame.tables.map(table => table.id)));
+    junctions.filter(link => link.table.junction!.collapsed).forEach(link => hidden.add(link.table.id));
+    const junctionIds = new Set(junctions.map(link => link.table.id));
+    const areaNodes: Node[] = areaFrames.map(({ group, tables: members, position, width, height }) => {
+      const color = group.color ?? SUBJECT_AREA_COLORS[0];
+      return group.collapsed
+        ? {
+            id: `group:${group.id}`,
+            type: 'subjectAreaSummary',
+            position,
+            data: {
+              name: group.name,
+              color,
+              tableNames: members.map(table => table.name),
+              note: group.note,
+              onExpand: () => updateTableGroup({ ...group, collapsed: false }),
+            },
+          }
+        : {
+            id: `group:${group.id}`,
+            type: 'subjectArea',
+            position,
+            style: { width, height, pointerEvents: 'none' },
+            zIndex: -1,
+            draggable: false,
+            selectable: false,
+            data: {
+              name: group.name,
+              color,
+              tableCount: members.length,
+              onCollapse: () => updateTableGroup({ ...group, collapsed: true }),
+            },
+          };
+    });
+
+    const tableNodes: Node[] = canvasProject.tables.filter(table => !hidden.has(table.id)).map(table => ({
       id: table.id,
       type: 'table',
       position: table.position,
       data: {
         name: table.name,
         columns: table.columns,
+        issues: validationIssues.filter(issue => issue.tableId === table.id),
         onEdit: () => {
-          setEditingTable(table);
+          // The model's table, not the copy placed in a view
+          setEditingTable(tables.find(t => t.id === table.id) ?? table);
           setIsTableEditorOpen(true);
-        }
+        },
+        onCollapseJunction: junctionIds.has(table.id) ? () => setJunctionCollapsed(table.id, true) : undefined,
       }
     }));
-    setNodes(newNodes);
-  }, [tables, setNodes]);
+    setNodes([...areaNodes, ...tableNodes]);
+  }, [canvasProject, tables, areaFrames, junctions, validationIssues, setNodes, updateTableGroup, setJunctionCollapsed]);
 
-  // Convert relationships to edges
+  // Convert relationships to edges. Relationships into a collapsed subject area end at its summary node,
+  // merged when they connect the same handles. The two relationships of a collapsed junction table become
+  // one M:N edge between the tables it links.
   React.useEffect(() => {
-    const newEdges: Edge[] = relationships.map(rel => ({
-      id: rel.id,
-      source: rel.sourceTable,
-      target: rel.targetTable,
-      sourceHandle: rel.sourceColumn,
-      targetHandle: rel.targetColumn,
+    const collapsedArea = new Map<string, string>();
+    areaFrames.filter(frame => frame.group.collapsed).forEach(frame => {
+      frame.tables.forEach(table => collapsedArea.set(table.id, `group:${frame.group.id}`));
+    });
+    const edgeStyle = {
       type: 'smoothstep',
       markerEnd: {
         type: MarkerType.ArrowClosed,
         width: 20,
         height: 20,
       },
-      label: rel.type === 'one-to-many' ? '1:N' : '1:1',
-      data: rel,
       style: { strokeWidth: 2, stroke: '#6b7280' },
-    }));
+    };
+
+    const folded = junctions.filter(link => link.table.junction!.collapsed);
+    const foldedIds = new Set(folded.flatMap(link => link.relationships.map(rel => rel.id)));
+    const junctionOf = new Map<string, string>();
+    const manyToMany = folded.map(({ table, relationships: [first, second] }): RelationshipData => {
+      const id = `junction:${table.id}`;
+      junctionOf.set(id, table.id);
+      return {
+        ...first,
+        id,
+        sourceTable: first.targetTable,
+        targetTable: second.targetTable,
+        sourceColumn: first.targetColumn,
+        targetColumn: second.targetColumn,
+        columnPairs: undefined,
+        type: 'many-to-many',
+      };
+    });
+
+    const direct: RelationshipData[] = [];
+    const merged = new Map<string, { source: string; target: string; sourceHandle?: string; targetHandle?: string; relationships: RelationshipData[] }>();
+    [...canvasProject.relationships.filter(rel => !foldedIds.has(rel.id)), ...manyToMany].forEach(rel => {
+      const sourceArea = collapsedArea.get(rel.sourceTable);
+      const targetArea = collapsedArea.get(rel.targetTable);
+      if (!sourceArea && !targetArea) {
+        direct.push(rel);
+        return;
+      }
+      // Relationships inside one collapsed area are not drawn
+      if (sourceArea && sourceArea === targetArea) return;
+      const source = sourceArea ?? rel.sourceTable;
+      const target = targetArea ?? rel.targetTable;
+      const sourceHandle = sourceArea ? undefined : rel.sourceColumn;
+      const targetHandle = targetArea ? undefined : rel.targetColumn;
+      const key = `${source}:${sourceHandle ?? ''}>${target}:${targetHandle ?? ''}`;
+      const entry = merged.get(key) ?? { source, target, sourceHandle, targetHandle, relationships: [] };
+      entry.relationships.push(rel);
+      merged.set(key, entry);
+    });
+    const newEdges: Edge[] = [
+      ...direct.map(rel => ({
+        ...edgeStyle,
+        ...(junctionOf.has(rel.id) && { markerStart: edgeStyle.markerEnd }),
+        id: rel.id,
+        source: rel.sourceTable,
+        target: rel.targetTable,
+        sourceHandle: rel.sourceColumn,
+        targetHandle: rel.targetColumn,
+        label: relationshipLabel(rel.type),
+        data: junctionOf.has(rel.id) ? { junctionTableId: junctionOf.get(rel.id) } : rel,
+      })),
+      ...[...merged].map(([key, entry]) => ({
+        ...edgeStyle,
+        id: `merged:${key}`,
+        source: entry.source,
+        target: entry.target,
+        sourceHandle: entry.sourceHandle,
+        targetHandle: entry.targetHandle,
+        label: entry.relationships.length === 1 ? relationshipLabel(entry.relationships[0].type) : `${entry.relationships.length} FKs`,
+      })),
+    ];
     setEdges(newEdges);
-  }, [relationships, setEdges]);
+  }, [canvasProject, areaFrames, junctions, setEdges]);
   
+  // Undo/redo shortcuts, left to the browser while a text field has focus
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   const handleNodesChange = useCallback((changes: any[]) => {
     onNodesChange(changes);
     changes.forEach(change => {
       if (change.type === 'position' && change.position && !change.dragging) {
-        updateTablePosition(change.id, change.position);
+        const frame = areaFrames.find(f => `group:${f.group.id}` === change.id);
+        if (frame) {
+          // Dropping a collapsed subject area moves its tables along
+          const dx = change.position.x - frame.position.x;
+          const dy = change.position.y - frame.position.y;
+          updateTablePositions(
+            Object.fromEntries(frame.tables.map(table => [table.id, { x: table.position.x + dx, y: table.position.y + dy }])),
+            `Move subject area ${frame.group.name}`
+          );
+        } else {
+          updateTablePosition(change.id, change.position);
+        }
       }
     });
-  }, [onNodesChange, updateTablePosition]);
+  }, [onNodesChange, updateTablePosition, updateTablePositions, areaFrames]);
 
   const onConnect = useCallback((connection: Connection) => {
     if (connection.source && connection.target && connection.sourceHandle && connection.targetHandle) {
@@ -154,6 +376,11 @@ function App() {
     setIsTableEditorOpen(true);
   }, [addTable]);
 
+  const handleAutoLayout = useCallback((algorithm: LayoutAlgorithm) => {
+    updateTablePositions(computeLayout(canvasProject, algorithm), 'Auto layout');
+    toast.success('Layout applied. Press Ctrl+Z to undo.');
+  }, [canvasProject, updateTablePositions]);
+
   const handleSaveTable = useCallback((table: TableData) => {
     updateTable(table);
     toast.success('Table saved successfully!');
@@ -161,7 +388,7 @@ function App() {
   
   const handleDeleteTable = useCallback((tableId: string) => {
     deleteTable(tableId);
-    toast.success('Table deleted successfully!');
+    toast.success('Table deleted. Press Ctrl+Z to undo.');
   }, [deleteTable]);
 
   const handleSaveRelationship = useCallback((relationship: RelationshipData) => {
@@ -174,41 +401,82 @@ function App() {
     }
   }, [addRelationship, updateRelationship]);
 
+  const handleSaveManyToMany = useCallback((options: ManyToManyOptions) => {
+    const link = addManyToMany(options);
+    if (link) toast.success(`Linked through junction table ${link.table.name}. Click the M:N edge to show it.`);
+  }, [addManyToMany]);
+
   const handleDeleteRelationship = useCallback((relationshipId: string) => {
     deleteRelationship(relationshipId);
     toast.success('Relationship deleted successfully!');
   }, [deleteRelationship]);
 
+  const handleSaveCustomType = useCallback((customType: CustomTypeData) => {
+    if (customType.id) {
+      updateCustomType(customType);
+      toast.success(`Type ${customType.name} updated`);
+    } else {
+      addCustomType(customType);
+      toast.success(`Type ${customType.name} created`);
+    }
+  }, [addCustomType, updateCustomType]);
+
+  // Columns of a deleted type keep the built-in type it is stored as
+  const handleDeleteCustomType = useCallback((customTypeId: string) => {
+    const customType = customTypes.find(t => t.id === customTypeId);
+    const usage = tables.flatMap(t => t.columns).filter(c => c.customTypeId === customTypeId).length;
+    const note = usage > 0 ? ` ${usage} column${usage !== 1 ? 's' : ''} will use its storage type instead.` : '';
+    if (customType && confirm(`Delete type "${customType.name}"?${note}`)) {
+      deleteCustomType(customTypeId);
+      toast.success('Type deleted. Press Ctrl+Z to undo.');
+    }
+  }, [customTypes, tables, deleteCustomType]);
+
   const handleExportSQL = useCallback(() => {
-    const generator = new SQLGenerator(dialect);
-    const sql = generator.generateFullSQL(tables, relationships);
-    
-    const blob = new Blob([sql], { type: 'text/sql' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${projectName.replace(/\s+/g, '_')}.sql`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    if (errorCount > 0 && !confirm(`The schema has ${errorCount} validation error${errorCount !== 1 ? 's' : ''} and the SQL may not run. Export anyway?`)) {
+      setShowValidationPanel(true);
+      return;
+    }
+    setShowExportSQLModal(true);
+  }, [errorCount]);
+
+  const handleDownloadSQL = useCallback((sql: string) => {
+    downloadFile(sql, `${projectName.replace(/\s+/g, '_')}.sql`, 'text/sql');
     
-    toast.success('SQL exported successfully!');
-  }, [tables, relationships, dialect, projectName]);
+    if (warningCount > 0) {
+      toast(`SQL exported with ${warningCount} validation warning${warningCount !== 1 ? 's' : ''}.`, { icon: '⚠️' });
+    } else {
+      toast.success('SQL exported successfully!');
+    }
+  }, [projectName, warningCount]);
+
+  const handleLoadFakeData = useCallback(async (sql: string) => {
+    try {
+      await queryEngine.execute(sql);
+      toast.success('Fake data loaded into the query engine');
+      setShowQueryEditor(true);
+    } catch (error) {
+      toast.error(`Failed to load fake data: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }, [queryEngine]);
+
+  const handleSelectIssue = useCallback((issue: ValidationIssue) => {
+    const table = tables.find(t => t.id === issue.tableId);
+    const relationship = relationships.find(r => r.id === issue.relationshipId);
+    if (table) {
+      setEditingTable(table);
+      setIsTableEditorOpen(true);
+    } else if (relationship) {
+      setEditingRelationship(relationship);
+      setIsRelationshipEditorOpen(true);
+    }
+  }, [tables, relationships]);
 
   const handleExportJSON = useCallback(() => {
     const projectData = exportProject();
     const json = JSON.stringify(projectData, null, 2);
-    
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${projectName.replace(/\s+/g, '_')}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(json, `${projectName.replace(/\s+/g, '_')}.json`, 'application/json');
     
     toast.success('Project exported successfully!');
   }, [exportProject, projectName]);
@@ -227,13 +495,85 @@ function App() {
     reader.readAsText(file);
   }, [importProject]);
 
-  const handleExecuteQuery = useCallback(async (query: string) => {
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 1000 + 500));
-    if (query.toLowerCase().includes('select')) {
-      return [{ id: 1, name: 'John Doe' }, { id: 2, name: 'Jane Smith' }];
+  // Imported schemas replace the model; views, routines and users of the previous one would refer to tables that are gone
+  const applyImportedSchema = useCallback((schema: ImportedSchema, source: keyof typeof IMPORT_SOURCES) => {
+    const { label, item, issue, empty } = IMPORT_SOURCES[source];
+    if (schema.tables.length === 0) {
+      toast.error(empty);
+      return;
     }
-    return 'Query executed successfully';
-  }, []);
+
+    importProject({
+      ...project,
+      dialect: schema.dialect ?? dialect,
+      tables: schema.tables,
+      relationships: schema.relationships,
+      indexes: schema.indexes,
+      customTypes: schema.customTypes,
+      views: [],
+      procedures: [],
+      triggers: [],
+      users: [],
+      tableGroups: schema.tableGroups ?? [],
+      diagramViews: [],
+      activeViewId: undefined,
+    });
+
+    schema.warnings.forEach(warning => console.warn(`[${label} import] ${warning}`));
+    toast.success(`Imported ${schema.tables.length} ${item}${schema.tables.length !== 1 ? 's' : ''} from ${label}.`);
+    if (schema.warnings.length > 0) {
+      toast(`${schema.warnings.length} ${issue}${schema.warnings.length !== 1 ? 's' : ''} could not be fully imported. See the console for details.`, { icon: '⚠️' });
+    }
+  }, [dialect, project, importProject]);
+
+  const handleImportSQL = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => applyImportedSchema(new SQLParser(dialect).parse(e.target?.result as string), 'sql');
+    reader.readAsText(file);
+  }, [dialect, applyImportedSchema]);
+
+  const handleImportPrisma = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => applyImportedSchema(parsePrismaSchema(e.target?.result as string, dialect), 'prisma');
+    reader.readAsText(file);
+  }, [dialect, applyImportedSchema]);
+
+  const handleExportPrisma = useCallback(() => {
+    downloadFile(generatePrismaSchema(project), 'schema.prisma', 'text/plain');
+    toast.success('Prisma schema exported successfully!');
+  }, [project]);
+
+  const handleImportDBML = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => applyImportedSchema(parseDBML(e.target?.result as string, dialect), 'dbml');
+    reader.readAsText(file);
+  }, [dialect, applyImportedSchema]);
+
+  const handleExportDBML = useCallback(() => {
+    downloadFile(generateDBML(project), `${project.name.replace(/\s+/g, '_')}.dbml`, 'text/plain');
+    toast.success('DBML exported successfully!');
+    const warnings = dbmlExportWarnings(project);
+    warnings.forEach(warning => console.warn(`[DBML export] ${warning}`));
+    if (warnings.length > 0) {
+      toast(`${warnings.length} part${warnings.length !== 1 ? 's' : ''} of the schema could not be fully exported. See the console for details.`, { icon: '⚠️' });
+    }
+  }, [project]);
+
+  const handleImportFile = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      if (file.name.toLowerCase().endsWith('.sql')) {
+        handleImportSQL(file);
+      } else if (file.name.toLowerCase().endsWith('.prisma')) {
+        handleImportPrisma(file);
+      } else if (file.name.toLowerCase().endsWith('.dbml')) {
+        handleImportDBML(file);
+      } else {
+        handleImportJSON(file);
+      }
+      event.target.value = '';
+    }
+  }, [handleImportSQL, handleImportPrisma, handleImportDBML, handleImportJSON]);
 
   const handleNavigationAction = useCallback((type: string, item?: any) => {
     switch (type) {
@@ -251,17 +591,28 @@ function App() {
         if (item.type === 'table') {
           setEditingTable(item.data);
           setIsTableEditorOpen(true);
+        } else if (item.type === 'customType') {
+          setEditingCustomType(item.data);
         }
         break;
       case 'delete':
         if (item.type === 'table' && confirm(`Are you sure you want to delete table "${item.data.name}"?`)) {
           handleDeleteTable(item.data.id);
+        } else if (item.type === 'customType') {
+          handleDeleteCustomType(item.data.id);
         }
         break;
     }
-  }, [addDatabase, handleAddTable, handleDeleteTable]);
+  }, [addDatabase, handleAddTable, handleDeleteTable, handleDeleteCustomType]);
 
   const onEdgeClick = (_event: React.MouseEvent, edge: Edge) => {
+    // Edges merged into a collapsed subject area stand for several relationships
+    if (!edge.data) return;
+    // An M:N edge opens up into its junction table
+    if (typeof edge.data.junctionTableId === 'string') {
+      setJunctionCollapsed(edge.data.junctionTableId, false);
+      return;
+    }
     setEditingRelationship(edge.data);
     setIsRelationshipEditorOpen(true);
   };
@@ -275,8 +626,28 @@ function App() {
         
         {showNavigationPanel && (
           <NavigationPanel
+            projects={persistence.projects}
+            currentProjectId={persistence.projectId}
+            snapshots={persistence.snapshots}
+            onProjectSelect={persistence.selectProject}
+            onCreateProject={() => {
+              const name = prompt('Enter project name:');
+              if (name) {
+                persistence.createProject(name);
+              }
+            }}
+            onDeleteProject={(storedProject) => {
+              if (confirm(`Delete project "${storedProject.name}" and all of its snapshots from this browser?`)) {
+                persistence.deleteProject(storedProject.id);
+              }
+            }}
+            onRestoreSnapshot={(snapshot) => {
+              importProject(snapshot.data);
+              toast.success(`Restored snapshot from ${new Date(snapshot.savedAt).toLocaleString()}`);
+            }}
             databases={databases}
             tables={tables}
+            customTypes={customTypes}
             indexes={indexes}
             views={views}
             procedures={procedures}
@@ -286,6 +657,7 @@ function App() {
             onDatabaseSelect={(id) => setCurrentDatabase(id)}
             onCreateDatabase={() => handleNavigationAction('createDatabase')}
             onCreateTable={() => handleNavigationAction('createTable')}
+            onCreateType={() => setEditingCustomType({ kind: 'ENUM' })}
             onCreateIndex={() => toast.info('Index editor coming soon!')}
             onCreateView={() => toast.info('View editor coming soon!')}
             onCreateProcedure={() => toast.info('Procedure editor coming soon!')}
@@ -314,9 +686,133 @@ function App() {
               <span className="text-sm text-gray-500 dark:text-gray-400">
                 {databases.find(db => db.id === currentDatabase)?.name || 'No DB selected'}
               </span>
+              {persistence.lastSavedAt && (
+                <span className="text-xs text-gray-400 dark:text-gray-500">
+                  Saved {new Date(persistence.lastSavedAt).toLocaleTimeString()}
+                </span>
+              )}
             </div>
             
             <div className="flex items-center gap-2">
+              <div className="flex items-center gap-1 mr-2">
+                <button
+                  onClick={undo}
+                  disabled={!canUndo}
+                  title="Undo (Ctrl+Z)"
+                  className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md text-gray-600 dark:text-gray-300 disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  <Undo2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={!canRedo}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md text-gray-600 dark:text-gray-300 disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  <Redo2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => setShowHistoryPanel(!showHistoryPanel)}
+                  title="History"
+                  className={`p-2 rounded-md ${
+                    showHistoryPanel
+                      ? 'bg-blue-600 text-white'
+                      : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  <History className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => setShowSubjectAreasPanel(!showSubjectAreasPanel)}
+                  title="Views and subject areas"
+                  className={`p-2 rounded-md ${
+                    showSubjectAreasPanel
+                      ? 'bg-blue-600 text-white'
+                      : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  <Layers className="w-5 h-5" />
+                </button>
+              </div>
+              <input
+                type="file"
+                ref={importInputRef}
+                onChange={handleImportFile}
+                accept=".json,.sql,.prisma,.dbml"
+                className="hidden"
+              />
+              <Dropdown
+                trigger={
+                  <button className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors flex items-center gap-2">
+                    <FolderOpen className="w-4 h-4" />
+                    File
+                  </button>
+                }
+              >
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600 rounded"
+                >
+                  <FileUp className="w-4 h-4" />
+                  Import (.sql, .prisma, .dbml, .json)
+                </button>
+                <button
+                  onClick={handleExportSQL}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600 rounded"
+                >
+                  <FileDown className="w-4 h-4" />
+                  Export SQL
+                </button>
+                <button
+                  onClick={() => setShowFakeDataModal(true)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600 rounded"
+                >
+                  <Wand2 className="w-4 h-4" />
+                  Generate Fake Data
+                </button>
+                <button
+                  onClick={handleExportPrisma}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600 rounded"
+                >
+                  <FileDown className="w-4 h-4" />
+                  Export Prisma Schema
+                </button>
+                <button
+                  onClick={handleExportDBML}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600 rounded"
+                >
+                  <FileDown className="w-4 h-4" />
+                  Export DBML
+                </button>
+                <button
+                  onClick={() => setShowExportDiagramModal(true)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600 rounded"
+                >
+                  <Image className="w-4 h-4" />
+                  Export Diagram
+                </button>
+                <button
+                  onClick={() => setShowErDiagramModal(true)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600 rounded"
+                >
+                  <Share2 className="w-4 h-4" />
+                  Mermaid / PlantUML
+                </button>
+                <button
+                  onClick={() => setShowDocsModal(true)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600 rounded"
+                >
+                  <BookOpen className="w-4 h-4" />
+                  Generate Docs
+                </button>
+                <button
+                  onClick={handleExportJSON}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600 rounded"
+                >
+                  <Download className="w-4 h-4" />
+                  Export Project
+                </button>
+              </Dropdown>
               <button
                 onClick={() => setShowSettingsModal(true)}
                 className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors flex items-center gap-2"
@@ -331,7 +827,10 @@ function App() {
                 SQL Editor
               </button>
               <button
-                onClick={() => setShowCodePanel(!showCodePanel)}
+                onClick={() => {
+                  setShowCodePanel(!showCodePanel);
+                  setShowOrmPanel(false);
+                }}
                 className={`px-4 py-2 rounded-md transition-colors ${
                   showCodePanel 
                     ? 'bg-blue-600 text-white' 
@@ -340,9 +839,44 @@ function App() {
               >
                 View Code
               </button>
+              <button
+                onClick={() => {
+                  setShowOrmPanel(!showOrmPanel);
+                  setShowCodePanel(false);
+                }}
+                className={`px-4 py-2 rounded-md transition-colors ${
+                  showOrmPanel
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+              >
+                ORM Models
+              </button>
             </div>
           </div>
 
+          {persistence.newerCopy && (
+            <div className="bg-yellow-50 dark:bg-yellow-900/40 border-b border-yellow-200 dark:border-yellow-800 px-4 py-2 flex items-center justify-between text-sm text-yellow-800 dark:text-yellow-200">
+              <span>
+                A newer copy of "{persistence.newerCopy.name}" was saved at {new Date(persistence.newerCopy.updatedAt).toLocaleString()}, possibly in another tab.
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={persistence.recoverNewerCopy}
+                  className="px-3 py-1 bg-yellow-600 text-white rounded-md hover:bg-yellow-700"
+                >
+                  Recover previous session
+                </button>
+                <button
+                  onClick={persistence.dismissNewerCopy}
+                  className="px-3 py-1 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600"
+                >
+                  Keep current version
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="flex-1 relative" ref={reactFlowWrapper}>
             <ReactFlow
               nodes={nodes}
@@ -363,21 +897,84 @@ function App() {
                 maskColor="rgba(0, 0, 0, 0.1)"
               />
               
+              <Panel position="top-right">
+                <AutoLayoutMenu disabled={tables.length === 0} onLayout={handleAutoLayout} />
+              </Panel>
+
               <Panel position="bottom-center" className="bg-white dark:bg-gray-700 rounded-lg shadow-lg px-4 py-2 border border-gray-200 dark:border-gray-600">
                 <div className="text-center flex items-center gap-4">
                   <p className="text-sm text-gray-600 dark:text-gray-300">
                     {tables.length} table{tables.length !== 1 ? 's' : ''}
+                    {activeDiagramView(project) && ` · view ${activeDiagramView(project)!.name} shows ${canvasProject.tables.length}`}
                   </p>
                   <p className="text-sm text-gray-600 dark:text-gray-300 flex items-center gap-1">
                     <Link className="w-3 h-3" />
                     {relationships.length} relationship{relationships.length !== 1 ? 's' : ''}
                   </p>
-                  <p className="text-sm text-gray-600 dark:text-gray-300 font-mono bg-gray-100 dark:bg-gray-600 px-2 py-0.5 rounded">
+                  <button
+                    onClick={() => setShowConvertDialectModal(true)}
+                    title="Convert to another dialect"
+                    className="text-sm text-gray-600 dark:text-gray-300 font-mono bg-gray-100 dark:bg-gray-600 px-2 py-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-500"
+                  >
                     {dialect.toUpperCase()}
-                  </p>
+                  </button>
+                  <button
+                    onClick={() => setShowValidationPanel(!showValidationPanel)}
+                    className="text-sm flex items-center gap-2 px-2 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-600"
+                  >
+                    <span className={`flex items-center gap-1 ${errorCount > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                      <AlertCircle className="w-3 h-3" />
+                      {errorCount}
+                    </span>
+                    <span className={`flex items-center gap-1 ${warningCount > 0 ? 'text-yellow-600 dark:text-yellow-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                      <AlertTriangle className="w-3 h-3" />
+                      {warningCount}
+                    </span>
+                  </button>
                 </div>
               </Panel>
             </ReactFlow>
+
+            {showValidationPanel && (
+              <ValidationPanel
+                issues={validationIssues}
+                disabledRules={disabledRules}
+                onToggleRule={(ruleId, enabled) => setDisabledRules(
+                  enabled ? disabledRules.filter(id => id !== ruleId) : [...disabledRules, ruleId]
+                )}
+                onSelectIssue={handleSelectIssue}
+                onClose={() => setShowValidationPanel(false)}
+              />
+            )}
+
+            {showHistoryPanel && (
+              <HistoryPanel
+                entries={history}
+                currentIndex={historyIndex}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onUndo={undo}
+                onRedo={redo}
+                onJump={jumpToHistory}
+                onClose={() => setShowHistoryPanel(false)}
+              />
+            )}
+
+            {showSubjectAreasPanel && (
+              <SubjectAreasPanel
+                project={project}
+                canvasTables={canvasProject.tables}
+                selectedTableIds={selectedTableIds}
+                onAddGroup={addTableGroup}
+                onUpdateGroup={updateTableGroup}
+                onDeleteGroup={deleteTableGroup}
+                onAddView={addDiagramView}
+                onUpdateView={updateDiagramView}
+                onDeleteView={deleteDiagramView}
+                onSetActiveView={setActiveView}
+                onClose={() => setShowSubjectAreasPanel(false)}
+              />
+            )}
           </div>
         </div>
 
@@ -391,8 +988,22 @@ function App() {
           onSave={handleSaveTable}
           onDelete={editingTable ? () => handleDeleteTable(editingTable.id) : undefined}
           dialect={dialect}
+          constraintNaming={project.constraintNaming}
+          customTypes={customTypes}
         />
 
+        {editingCustomType && (
+          <CustomTypeEditorModal
+            isOpen={!!editingCustomType}
+            onClose={() => setEditingCustomType(null)}
+            onSave={handleSaveCustomType}
+            onDelete={handleDeleteCustomType}
+            customType={editingCustomType}
+            takenNames={customTypes.filter(t => t.id !== editingCustomType.id).map(t => t.name)}
+            dialect={dialect}
+          />
+        )}
+
         {editingRelationship && (
           <RelationshipEditorModal
             isOpen={isRelationshipEditorOpen}
@@ -401,9 +1012,65 @@ function App() {
               setEditingRelationship(null);
             }}
             onSave={handleSaveRelationship}
+            onSaveManyToMany={handleSaveManyToMany}
             onDelete={handleDeleteRelationship}
             relationship={editingRelationship}
             tables={tables}
+            indexes={indexes}
+          />
+        )}
+
+        {showConvertDialectModal && (
+          <ConvertDialectModal
+            isOpen={showConvertDialectModal}
+            onClose={() => setShowConvertDialectModal(false)}
+            project={project}
+            onConvert={(target, overrides) => {
+              convertDialect(target, overrides);
+              toast.success(`Converted project to ${target}`);
+            }}
+          />
+        )}
+
+        {showExportSQLModal && (
+          <ExportSQLModal
+            isOpen={showExportSQLModal}
+            onClose={() => setShowExportSQLModal(false)}
+            project={project}
+            onDownload={handleDownloadSQL}
+          />
+        )}
+
+        {showFakeDataModal && (
+          <FakeDataModal
+            isOpen={showFakeDataModal}
+            onClose={() => setShowFakeDataModal(false)}
+            project={project}
+            onLoadIntoEngine={handleLoadFakeData}
+          />
+        )}
+
+        {showExportDiagramModal && (
+          <ExportDiagramModal
+            isOpen={showExportDiagramModal}
+            onClose={() => setShowExportDiagramModal(false)}
+            project={canvasProject}
+          />
+        )}
+
+        {showErDiagramModal && (
+          <ErDiagramModal
+            isOpen={showErDiagramModal}
+            onClose={() => setShowErDiagramModal(false)}
+            project={project}
+          />
+        )}
+
+        {showDocsModal && (
+          <DocsModal
+            isOpen={showDocsModal}
+            onClose={() => setShowDocsModal(false)}
+            project={project}
           />
         )}
 
@@ -411,13 +1078,24 @@ function App() {
           tables={tables}
           relationships={relationships}
           dialect={dialect}
+          constraintNaming={project.constraintNaming}
+          customTypes={project.customTypes}
           isOpen={showCodePanel}
           onClose={() => setShowCodePanel(false)}
         />
 
+        <OrmCodePanel
+          project={project}
+          isOpen={showOrmPanel}
+          onClose={() => setShowOrmPanel(false)}
+        />
+
         <QueryEditor
           dialect={dialect}
-          onExecuteQuery={handleExecuteQuery}
+          onExecuteQuery={queryEngine.execute}
+          onResetDatabase={queryEngine.reset}
+          engineName={queryEngine.engineName}
+          bootstrapErrors={queryEngine.bootstrapErrors}
           isOpen={showQueryEditor}
           onClose={() => setShowQueryEditor(false)}
         />
@@ -429,6 +1107,7 @@ function App() {
           github={github}
           projectData={exportProject()}
           onProjectLoad={importProject}
+          onConstraintNamingChange={setConstraintNaming}
         />
       </div>
     </ReactFlowProvider>
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { X, Plus, Key, Link, Hash, Trash2, Settings, Database, ListTree, Zap } from 'lucide-react';
-import { TableData, Column, DATA_TYPES, ENGINES, CHARSETS, COLLATIONS, IndexData, TriggerData } from '../types';
+import { X, Plus, Key, Link, Hash, Trash2, Settings, Database, ListTree, Zap, Rows3, ShieldCheck } from 'lucide-react';
+import { TableData, Column, SeedRow, DATA_TYPES, ENGINES, CHARSETS, COLLATIONS, SQLITE_COLLATIONS, IndexData, TriggerData, TableConstraint, ConstraintKind, ConstraintNaming, ExclusionElement, GeneratedStorage, CustomTypeData } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { validateSeedRows } from '../utils/seedData';
+import { getConstraintNaming, suggestConstraintName } from '../utils/tableConstraints';
+import { isGeneratedColumn } from '../utils/generatedColumns';
 
 interface AdvancedTableEditorProps {
   table: TableData | null;
@@ -10,19 +13,32 @@ interface AdvancedTableEditorProps {
   onSave: (table: TableData) => void;
   onDelete?: () => void;
   dialect: string;
+  constraintNaming?: ConstraintNaming;
+  customTypes?: CustomTypeData[];
 }
 
+const CONSTRAINT_NOTES: Record<string, string> = {
+  mysql: 'CHECK constraints are enforced from MySQL 8.0.16; older servers accept and ignore them.',
+  sqlite: 'SQLite only declares constraints in CREATE TABLE. Changing them later means rebuilding the table; UNIQUE constraints are added as unique indexes.',
+  oracle: 'Oracle has no exclusion constraints.',
+  mariadb: 'MariaDB has no exclusion constraints.',
+};
+
 export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
   table,
   isOpen,
   onClose,
   onSave,
   onDelete,
-  dialect
+  dialect,
+  constraintNaming,
+  customTypes = []
 }) => {
   const [activeTab, setActiveTab] = useState('columns');
   const [tableName, setTableName] = useState('');
   const [columns, setColumns] = useState<Column[]>([]);
+  const [seedRows, setSeedRows] = useState<SeedRow[]>([]);
+  const [constraints, setConstraints] = useState<TableConstraint[]>([]);
   const [tableOptions, setTableOptions] = useState({
     engine: 'InnoDB',
     charset: 'utf8mb4',
@@ -37,6 +53,8 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
     if (table) {
       setTableName(table.name);
       setColumns([...table.columns]);
+      setSeedRows(table.seedRows ?? []);
+      setConstraints(table.constraints ?? []);
       setTableOptions({
         engine: table.engine || 'InnoDB',
         charset: table.charset || 'utf8mb4',
@@ -47,6 +65,8 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
     } else {
       setTableName('new_table');
       setColumns([]);
+      setSeedRows([]);
+      setConstraints([]);
       setTableOptions({
         engine: 'InnoDB',
         charset: 'utf8mb4',
@@ -68,9 +88,7 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
       isAutoIncrement: false,
       isUnique: false,
       defaultValue: '',
-      comment: '',
-      collation: tableOptions.collation,
-      charset: tableOptions.charset
+      comment: ''
     };
     setColumns([...columns, newColumn]);
   };
@@ -128,6 +146,21 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
     ));
   };
 
+  // Catalog types are listed as type:<id> so they cannot clash with a built-in type of the same name
+  const selectDataType = (columnId: string, value: string) => {
+    const customType = value.startsWith('type:') ? customTypes.find(t => t.id === value.slice(5)) : undefined;
+    updateColumn(columnId, customType
+      ? { dataType: customType.name, customTypeId: customType.id, length: undefined }
+      : { dataType: value, customTypeId: undefined });
+  };
+
+  // Generated columns get no default or auto increment; Oracle only has virtual ones
+  const setGenerated = (id: string, generated: boolean) => {
+    updateColumn(id, generated
+      ? { generatedExpression: '', generatedStorage: dialect === 'oracle' ? 'VIRTUAL' : 'STORED', defaultValue: '', isAutoIncrement: false }
+      : { generatedExpression: undefined, generatedStorage: undefined });
+  };
+
   const removeColumn = (id: string) => {
     setColumns(columns.filter(col => col.id !== id));
   };
@@ -144,14 +177,81 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
     setColumns(newColumns);
   };
 
+  const updateSeedValue = (rowIndex: number, columnId: string, value: string) => {
+    setSeedRows(seedRows.map((row, i) => i === rowIndex ? { ...row, [columnId]: value } : row));
+  };
+
+  const removeSeedRow = (rowIndex: number) => {
+    setSeedRows(seedRows.filter((_, i) => i !== rowIndex));
+  };
+
+  const suggestName = (kind: ConstraintKind, columnNames: string[], others: TableConstraint[]) =>
+    suggestConstraintName(getConstraintNaming(constraintNaming), { name: tableName, columns, constraints: others }, kind, columnNames);
+
+  const addConstraint = (kind: ConstraintKind) => {
+    const constraint: TableConstraint = {
+      id: uuidv4(),
+      name: suggestName(kind, [], constraints),
+      kind,
+      ...(kind === 'CHECK' ? { expression: '' } : kind === 'UNIQUE' ? { columns: [] } : { exclusions: [], using: 'gist' }),
+    };
+    setConstraints([...constraints, constraint]);
+  };
+
+  const updateConstraint = (id: string, updates: Partial<TableConstraint>) => {
+    setConstraints(constraints.map(constraint => constraint.id === id ? { ...constraint, ...updates } : constraint));
+  };
+
+  // A generated name follows the constraint's columns until it is edited by hand
+  const updateConstraintColumns = (constraint: TableConstraint, updates: Pick<TableConstraint, 'columns'> | Pick<TableConstraint, 'exclusions'>) => {
+    const columnNames = (c: TableConstraint) => c.kind === 'EXCLUDE' ? (c.exclusions ?? []).map(e => e.column) : c.columns ?? [];
+    const others = constraints.filter(c => c !== constraint);
+    const updated = { ...constraint, ...updates };
+    const name = constraint.name === suggestName(constraint.kind, columnNames(constraint), others)
+      ? suggestName(constraint.kind, columnNames(updated), others)
+      : constraint.name;
+    updateConstraint(constraint.id, { ...updates, name });
+  };
+
+  const toggleConstraintColumn = (constraint: TableConstraint, columnName: string) => {
+    const current = constraint.columns ?? [];
+    updateConstraintColumns(constraint, {
+      columns: current.includes(columnName) ? current.filter(name => name !== columnName) : [...current, columnName],
+    });
+  };
+
+  const updateExclusion = (constraint: TableConstraint, element: ExclusionElement, updates: Partial<ExclusionElement>) => {
+    updateConstraintColumns(constraint, {
+      exclusions: (constraint.exclusions ?? []).map(e => e === element ? { ...e, ...updates } : e),
+    });
+  };
+
   const handleSave = () => {
     if (!tableName.trim()) return;
 
+    // Constraints refer to columns by name, so they follow renamed columns
+    const renamed = new Map((table?.columns ?? []).map(col => [col.name, columns.find(c => c.id === col.id)?.name ?? col.name]));
+    const rename = (name: string) => renamed.get(name) ?? name;
+    const savedConstraints = constraints.map(constraint => ({
+      ...constraint,
+      columns: constraint.columns?.map(rename),
+      exclusions: constraint.exclusions?.map(e => ({ ...e, column: rename(e.column) })),
+    }));
+
+    // Drop the values of columns that were removed
+    const cleanRows = seedRows.map(row => Object.fromEntries(
+      columns.filter(col => row[col.id]).map(col => [col.id, row[col.id]])
+    ));
+
     const updatedTable: TableData = {
       id: table?.id || uuidv4(),
       name: tableName,
       columns,
       position: table?.position || { x: 100, y: 100 },
+      databaseId: table?.databaseId,
+      seedRows: cleanRows.length > 0 ? cleanRows : undefined,
+      junction: table?.junction,
+      constraints: savedConstraints.length > 0 ? savedConstraints : undefined,
       ...tableOptions
     };
 
@@ -161,9 +261,15 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
 
   if (!isOpen) return null;
 
+  const seedIssues = validateSeedRows(columns, seedRows, customTypes);
+  const seedIssueFor = (rowIndex: number, columnId: string) =>
+    seedIssues.find(issue => issue.rowIndex === rowIndex && issue.columnId === columnId);
+
   const tabs = [
     { id: 'columns', label: 'Columns', icon: Database },
     { id: 'options', label: 'Table Options', icon: Settings },
+    { id: 'constraints', label: 'Constraints', icon: ShieldCheck },
+    { id: 'data', label: 'Data', icon: Rows3 },
     { id: 'indexes', label: 'Indexes', icon: ListTree },
     { id: 'triggers', label: 'Triggers', icon: Zap }
   ];
@@ -280,13 +386,20 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                             Data Type
                           </label>
                           <select
-                            value={column.dataType}
-                            onChange={(e) => updateColumn(column.id, { dataType: e.target.value })}
+                            value={column.customTypeId ? `type:${column.customTypeId}` : column.dataType}
+                            onChange={(e) => selectDataType(column.id, e.target.value)}
                             className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                           >
                             {availableDataTypes.map(type => (
                               <option key={type} value={type}>{type}</option>
                             ))}
+                            {customTypes.length > 0 && (
+                              <optgroup label="Custom types">
+                                {customTypes.map(type => (
+                                  <option key={type.id} value={`type:${type.id}`}>{type.name}</option>
+                                ))}
+                              </optgroup>
+                            )}
                           </select>
                         </div>
 
@@ -299,8 +412,9 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                             type="text"
                             value={column.length || ''}
                             onChange={(e) => updateColumn(column.id, { length: e.target.value })}
-                            className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                            placeholder="e.g., 255, 10,2"
+                            disabled={!!column.customTypeId}
+                            className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                            placeholder={column.customTypeId ? 'Set by the type' : 'e.g., 255, 10,2'}
                           />
                         </div>
 
@@ -313,8 +427,9 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                             type="text"
                             value={column.defaultValue || ''}
                             onChange={(e) => updateColumn(column.id, { defaultValue: e.target.value })}
-                            className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                            placeholder="NULL, NOW(), etc."
+                            disabled={column.generatedExpression !== undefined}
+                            className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                            placeholder={column.generatedExpression !== undefined ? 'Generated' : 'NULL, NOW(), etc.'}
                           />
                         </div>
                       </div>
@@ -333,6 +448,89 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                         />
                       </div>
 
+                      {/* Generation expression */}
+                      {column.generatedExpression !== undefined && (
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+                          <div className="md:col-span-3">
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Generated As
+                            </label>
+                            <input
+                              type="text"
+                              value={column.generatedExpression}
+                              onChange={(e) => updateColumn(column.id, { generatedExpression: e.target.value })}
+                              className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              placeholder="price * quantity"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Storage
+                            </label>
+                            <select
+                              value={column.generatedStorage ?? 'STORED'}
+                              onChange={(e) => updateColumn(column.id, { generatedStorage: e.target.value as GeneratedStorage })}
+                              disabled={dialect === 'oracle'}
+                              className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                            >
+                              <option value="STORED">STORED</option>
+                              <option value="VIRTUAL">VIRTUAL{dialect === 'postgresql' ? ' (PostgreSQL 18+)' : ''}</option>
+                            </select>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Charset and collation; empty inherits the table's */}
+                      {dialect !== 'oracle' && (
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+                          {(dialect === 'mysql' || dialect === 'mariadb') && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Character Set
+                              </label>
+                              <select
+                                value={column.charset !== tableOptions.charset ? column.charset ?? '' : ''}
+                                onChange={(e) => updateColumn(column.id, { charset: e.target.value || undefined, collation: undefined })}
+                                className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              >
+                                <option value="">Table default</option>
+                                {CHARSETS.map(charset => (
+                                  <option key={charset} value={charset}>{charset}</option>
+                                ))}
+                              </select>
+                            </div>
+                          )}
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Collation
+                            </label>
+                            {dialect === 'postgresql' ? (
+                              <input
+                                type="text"
+                                value={column.collation !== tableOptions.collation ? column.collation ?? '' : ''}
+                                onChange={(e) => updateColumn(column.id, { collation: e.target.value || undefined })}
+                                className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="Database default, e.g. C"
+                              />
+                            ) : (
+                              <select
+                                value={column.collation !== tableOptions.collation ? column.collation ?? '' : ''}
+                                onChange={(e) => updateColumn(column.id, { collation: e.target.value || undefined })}
+                                className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              >
+                                <option value="">{dialect === 'sqlite' ? 'BINARY (default)' : 'Table default'}</option>
+                                {(dialect === 'sqlite'
+                                  ? SQLITE_COLLATIONS
+                                  : COLLATIONS[(column.charset || tableOptions.charset) as keyof typeof COLLATIONS] || []
+                                ).map(collation => (
+                                  <option key={collation} value={collation}>{collation}</option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
                       {/* Constraints and Actions */}
                       <div className="flex flex-wrap gap-4 mt-4 items-center">
                         <label className="flex items-center gap-2 text-sm">
@@ -361,11 +559,34 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                             type="checkbox"
                             checked={column.isAutoIncrement}
                             onChange={(e) => updateColumn(column.id, { isAutoIncrement: e.target.checked })}
+                            disabled={column.generatedExpression !== undefined}
                             className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                           />
                           Auto Increment
                         </label>
 
+                        <label className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={column.generatedExpression !== undefined}
+                            onChange={(e) => setGenerated(column.id, e.target.checked)}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          Generated
+                        </label>
+
+                        {(dialect === 'mysql' || dialect === 'mariadb') && (
+                          <label className="flex items-center gap-2 text-sm">
+                            <input
+                              type="checkbox"
+                              checked={column.isUnsigned || false}
+                              onChange={(e) => updateColumn(column.id, { isUnsigned: e.target.checked })}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            Unsigned
+                          </label>
+                        )}
+
                         <label className="flex items-center gap-2 text-sm">
                           <input
                             type="checkbox"
@@ -486,6 +707,241 @@ export const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
             </div>
           )}
 
+          {activeTab === 'constraints' && (
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-md font-medium text-gray-800">Table Constraints</h3>
+                  <p className="text-sm text-gray-500">
+                    CHECK, multi-column UNIQUE and exclusion constraints. Single-column UNIQUE stays on the Columns tab.
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {(['CHECK', 'UNIQUE', 'EXCLUDE'] as const)
+                    .filter(kind => kind !== 'EXCLUDE' || dialect === 'postgresql')
+                    .map(kind => (
+                      <button
+                        key={kind}
+                        onClick={() => addConstraint(kind)}
+                        className="flex items-center gap-2 px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+                      >
+                        <Plus className="w-4 h-4" />
+                        {kind}
+                      </button>
+                    ))}
+                </div>
+              </div>
+
+              {CONSTRAINT_NOTES[dialect] && (
+                <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+                  {CONSTRAINT_NOTES[dialect]}
+                </div>
+              )}
+
+              {constraints.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  No table constraints.
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {constraints.map(constraint => (
+                    <div key={constraint.id} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="px-2 py-0.5 text-xs font-semibold rounded bg-gray-100 text-gray-700">{constraint.kind}</span>
+                        <input
+                          type="text"
+                          value={constraint.name}
+                          onChange={(e) => updateConstraint(constraint.id, { name: e.target.value })}
+                          placeholder="Constraint name"
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        {constraint.kind === 'EXCLUDE' && (
+                          <input
+                            type="text"
+                            value={constraint.using ?? ''}
+                            onChange={(e) => updateConstraint(constraint.id, { using: e.target.value })}
+                            placeholder="gist"
+                            title="Index method"
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        )}
+                        <button
+                          onClick={() => setConstraints(constraints.filter(c => c.id !== constraint.id))}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      {constraint.kind === 'CHECK' && (
+                        <input
+                          type="text"
+                          value={constraint.expression ?? ''}
+                          onChange={(e) => updateConstraint(constraint.id, { expression: e.target.value })}
+                          placeholder="price >= 0"
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      )}
+
+                      {constraint.kind === 'UNIQUE' && (
+                        <div className="flex flex-wrap gap-2">
+                          {columns.map(column => {
+                            const position = (constraint.columns ?? []).indexOf(column.name);
+                            return (
+                              <button
+                                key={column.id}
+                                onClick={() => toggleConstraintColumn(constraint, column.name)}
+                                className={`px-2 py-0.5 rounded-md border text-sm ${
+                                  position !== -1
+                                    ? 'bg-blue-50 border-blue-400 text-blue-700'
+                                    : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                                }`}
+                              >
+                                {position !== -1 && <span className="mr-1 text-xs">{position + 1}</span>}
+                                {column.name}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+
+                      {constraint.kind === 'EXCLUDE' && (
+                        <div className="space-y-1">
+                          {(constraint.exclusions ?? []).map((element, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                              <select
+                                value={element.column}
+                                onChange={(e) => updateExclusion(constraint, element, { column: e.target.value })}
+                                className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                              >
+                                {!columns.some(c => c.name === element.column) && <option value={element.column}>{element.column}</option>}
+                                {columns.map(column => (
+                                  <option key={column.id} value={column.name}>{column.name}</option>
+                                ))}
+                              </select>
+                              <span className="text-sm text-gray-500">WITH</span>
+                              <input
+                                type="text"
+                                value={element.operator}
+                                onChange={(e) => updateExclusion(constraint, element, { operator: e.target.value })}
+                                placeholder="&&"
+                                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm font-mono"
+                              />
+                              <button
+                                onClick={() => updateConstraintColumns(constraint, { exclusions: constraint.exclusions!.filter(e => e !== element) })}
+                                className="text-gray-500 hover:text-red-600"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </div>
+                          ))}
+                          <button
+                            onClick={() => updateConstraintColumns(constraint, {
+                              exclusions: [...(constraint.exclusions ?? []), { column: columns[0]?.name ?? '', operator: '=' }],
+                            })}
+                            disabled={columns.length === 0}
+                            className="flex items-center gap-1 text-sm text-blue-600 hover:underline disabled:opacity-50"
+                          >
+                            <Plus className="w-3 h-3" />
+                            Add element
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'data' && (
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-md font-medium text-gray-800">Seed Data</h3>
+                  <p className="text-sm text-gray-500">
+                    Rows exported as INSERT statements. Empty cells insert NULL, or the default when the whole column is empty.
+                  </p>
+                </div>
+                <button
+                  onClick={() => setSeedRows([...seedRows, {}])}
+                  disabled={columns.length === 0}
+                  className="flex items-center gap-2 px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Row
+                </button>
+              </div>
+
+              {columns.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  Add columns before adding seed rows.
+                </div>
+              ) : seedRows.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  No seed rows. Click "Add Row" to start.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b border-gray-200">
+                        <th className="py-1 pr-2 font-medium w-8">#</th>
+                        {columns.map(column => (
+                          <th key={column.id} className="py-1 pr-2 font-medium whitespace-nowrap">
+                            {column.name}
+                            <span className="ml-1 text-xs font-normal text-gray-400">{column.dataType}</span>
+                          </th>
+                        ))}
+                        <th className="w-8" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {seedRows.map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-b border-gray-100">
+                          <td className="py-1 pr-2 text-gray-400">{rowIndex + 1}</td>
+                          {columns.map(column => {
+                            const issue = seedIssueFor(rowIndex, column.id);
+                            return (
+                              <td key={column.id} className="py-1 pr-2">
+                                <input
+                                  type="text"
+                                  value={row[column.id] ?? ''}
+                                  onChange={(e) => updateSeedValue(rowIndex, column.id, e.target.value)}
+                                  title={issue?.message}
+                                  placeholder={isGeneratedColumn(column) ? 'generated' : column.isAutoIncrement ? 'auto' : column.defaultValue || 'NULL'}
+                                  className={`w-full min-w-[6rem] px-2 py-0.5 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                                    issue ? 'border-red-400 bg-red-50' : 'border-gray-300'
+                                  }`}
+                                />
+                              </td>
+                            );
+                          })}
+                          <td className="py-1">
+                            <button
+                              onClick={() => removeSeedRow(rowIndex)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {seedIssues.length > 0 && (
+                <div className="mt-4 text-sm text-red-600 space-y-1">
+                  {seedIssues.map((issue, index) => (
+                    <div key={index}>Row {issue.rowIndex + 1}: {issue.message}</div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {activeTab === 'indexes' && (
             <div className="text-center py-8 text-gray-500">
               Index management will be available in the dedicated Index Editor.
@@ -0,0 +1,53 @@
+import React from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { LayoutGrid, GitFork, Network, Grid3x3, Boxes } from 'lucide-react';
+import { LayoutAlgorithm } from '../types';
+import { Dropdown } from './Dropdown';
+
+interface AutoLayoutMenuProps {
+  disabled: boolean;
+  onLayout: (algorithm: LayoutAlgorithm) => void;
+}
+
+const ALGORITHMS: { id: LayoutAlgorithm; label: string; icon: React.ElementType }[] = [
+  { id: 'hierarchical', label: 'Hierarchical', icon: GitFork },
+  { id: 'force', label: 'Force-directed', icon: Network },
+  { id: 'grid', label: 'Grid', icon: Grid3x3 },
+  { id: 'group', label: 'By group / database', icon: Boxes },
+];
+
+// Lives inside ReactFlow, so the view can be fitted to the new layout
+export const AutoLayoutMenu: React.FC<AutoLayoutMenuProps> = ({ disabled, onLayout }) => {
+  const { fitView } = useReactFlow();
+
+  const handleLayout = (algorithm: LayoutAlgorithm) => {
+    onLayout(algorithm);
+    // Wait for the nodes to pick up their new positions
+    setTimeout(() => fitView({ duration: 300 }), 50);
+  };
+
+  return (
+    <Dropdown
+      trigger={
+        <button
+          disabled={disabled}
+          className="px-3 py-2 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors flex items-center gap-2 text-sm disabled:opacity-50"
+        >
+          <LayoutGrid className="w-4 h-4" />
+          Auto Layout
+        </button>
+      }
+    >
+      {ALGORITHMS.map(algorithm => (
+        <button
+          key={algorithm.id}
+          onClick={() => handleLayout(algorithm.id)}
+          className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600 rounded"
+        >
+          <algorithm.icon className="w-4 h-4" />
+          {algorithm.label}
+        </button>
+      ))}
+    </Dropdown>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, ArrowRightLeft, AlertCircle, AlertTriangle, Info } from 'lucide-react';
+import { ProjectData, SQLDialect, ConversionSeverity, DATA_TYPES } from '../types';
+import { convertProject, collectSourceTypes, resolveTypeMapping, TypeMappingOverrides } from '../utils/dialectConverter';
+
+interface ConvertDialectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: ProjectData;
+  onConvert: (dialect: SQLDialect, overrides: TypeMappingOverrides) => void;
+}
+
+const DIALECTS: { id: SQLDialect; label: string }[] = [
+  { id: 'mysql', label: 'MySQL' },
+  { id: 'mariadb', label: 'MariaDB' },
+  { id: 'postgresql', label: 'PostgreSQL' },
+  { id: 'sqlite', label: 'SQLite' },
+  { id: 'oracle', label: 'Oracle' },
+];
+
+const SEVERITY_ICONS: Record<ConversionSeverity, React.ReactNode> = {
+  lossy: <AlertCircle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />,
+  ambiguous: <AlertTriangle className="w-4 h-4 text-yellow-500 shrink-0 mt-0.5" />,
+  info: <Info className="w-4 h-4 text-blue-500 shrink-0 mt-0.5" />,
+};
+
+export const ConvertDialectModal: React.FC<ConvertDialectModalProps> = ({
+  isOpen,
+  onClose,
+  project,
+  onConvert
+}) => {
+  const [target, setTarget] = useState<SQLDialect>(project.dialect === 'postgresql' ? 'mysql' : 'postgresql');
+  const [overrides, setOverrides] = useState<TypeMappingOverrides>({});
+  const [showInfo, setShowInfo] = useState(false);
+
+  useEffect(() => {
+    setOverrides({});
+  }, [target]);
+
+  const sourceTypes = useMemo(() => collectSourceTypes(project), [project]);
+  const conversion = useMemo(() => convertProject(project, target, overrides), [project, target, overrides]);
+
+  if (!isOpen) return null;
+
+  const countOf = (severity: ConversionSeverity) => conversion.notes.filter(note => note.severity === severity).length;
+  const visibleNotes = conversion.notes.filter(note => showInfo || note.severity !== 'info');
+
+  const handleConvert = () => {
+    onConvert(target, overrides);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+            <ArrowRightLeft className="w-5 h-5 text-blue-500" />
+            Convert Project Dialect
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md">
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-mono bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded">{project.dialect.toUpperCase()}</span>
+            <ArrowRightLeft className="w-4 h-4" />
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value as SQLDialect)}
+              className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {DIALECTS.filter(d => d.id !== project.dialect).map(d => (
+                <option key={d.id} value={d.id}>{d.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Type mapping */}
+          <div>
+            <h3 className="text-md font-medium text-gray-800 dark:text-gray-100 mb-2">Type mapping</h3>
+            {sourceTypes.length === 0 ? (
+              <div className="text-sm text-gray-500 dark:text-gray-400">The project has no columns yet.</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-1 font-medium">{project.dialect} type</th>
+                    <th className="py-1 font-medium">{target} type</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sourceTypes.map(type => (
+                    <tr key={type} className="border-b border-gray-100 dark:border-gray-700">
+                      <td className="py-1 font-mono text-gray-700 dark:text-gray-300">{type}</td>
+                      <td className="py-1">
+                        <input
+                          type="text"
+                          list={`convert-types-${target}`}
+                          value={overrides[type] ?? resolveTypeMapping(type, target).type}
+                          onChange={(e) => setOverrides({ ...overrides, [type]: e.target.value })}
+                          className="w-full px-2 py-0.5 font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <datalist id={`convert-types-${target}`}>
+              {(DATA_TYPES[target] as string[]).map(type => (
+                <option key={type} value={type} />
+              ))}
+            </datalist>
+          </div>
+
+          {/* Report */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-md font-medium text-gray-800 dark:text-gray-100">
+                Report ({countOf('lossy')} lossy, {countOf('ambiguous')} ambiguous, {countOf('info')} info)
+              </h3>
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={showInfo}
+                  onChange={(e) => setShowInfo(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Show info
+              </label>
+            </div>
+            {visibleNotes.length === 0 ? (
+              <div className="text-sm text-gray-500 dark:text-gray-400">Nothing to review.</div>
+            ) : (
+              <div className="space-y-1">
+                {visibleNotes.map((note, index) => (
+                  <div key={`${note.tableId}-${note.columnId ?? ''}-${index}`} className="flex gap-2 text-sm p-1">
+                    {SEVERITY_ICONS[note.severity]}
+                    <span className="text-gray-800 dark:text-gray-200 break-all">{note.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConvert}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2"
+          >
+            <ArrowRightLeft className="w-4 h-4" />
+            Convert to {DIALECTS.find(d => d.id === target)?.label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
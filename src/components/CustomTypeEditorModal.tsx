@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, Trash2, Shapes, Plus } from 'lucide-react';
+import { CustomTypeData, CustomTypeKind, CompositeField, SQLDialect } from '../types';
+import { CUSTOM_TYPE_KINDS } from '../utils/customTypes';
+
+interface CustomTypeEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (customType: CustomTypeData) => void;
+  onDelete?: (customTypeId: string) => void;
+  customType: Partial<CustomTypeData>;
+  // Names already used by other types
+  takenNames: string[];
+  dialect: SQLDialect;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+const smallInputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+export const CustomTypeEditorModal: React.FC<CustomTypeEditorModalProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  onDelete,
+  customType,
+  takenNames,
+  dialect
+}) => {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<CustomTypeKind>('ENUM');
+  const [comment, setComment] = useState('');
+  // ENUM values, one per line
+  const [valuesText, setValuesText] = useState('');
+  const [baseType, setBaseType] = useState('');
+  const [length, setLength] = useState('');
+  const [isNotNull, setIsNotNull] = useState(false);
+  const [defaultValue, setDefaultValue] = useState('');
+  const [check, setCheck] = useState('');
+  const [fields, setFields] = useState<CompositeField[]>([]);
+
+  useEffect(() => {
+    if (customType) {
+      setName(customType.name || '');
+      setKind(customType.kind || 'ENUM');
+      setComment(customType.comment || '');
+      setValuesText((customType.values ?? []).join('\n'));
+      setBaseType(customType.baseType || '');
+      setLength(customType.length || '');
+      setIsNotNull(!!customType.isNotNull);
+      setDefaultValue(customType.defaultValue || '');
+      setCheck(customType.check || '');
+      setFields(customType.fields?.length ? customType.fields : [{ name: '', dataType: '' }]);
+    }
+  }, [customType]);
+
+  if (!isOpen) return null;
+
+  const values = valuesText.split('\n').map(value => value.trim()).filter(Boolean);
+  const completeFields = fields.filter(field => field.name.trim() && field.dataType.trim());
+  const trimmedName = name.trim();
+  const isNameTaken = takenNames.some(taken => taken.toLowerCase() === trimmedName.toLowerCase());
+  const hasDuplicateValues = new Set(values).size !== values.length;
+  const isDefinitionComplete = kind === 'ENUM' ? values.length > 0 && !hasDuplicateValues
+    : kind === 'DOMAIN' ? !!baseType.trim()
+    : completeFields.length > 0;
+  const canSave = !!trimmedName && !isNameTaken && isDefinitionComplete;
+
+  const updateField = (index: number, changes: Partial<CompositeField>) =>
+    setFields(fields.map((field, i) => i === index ? { ...field, ...changes } : field));
+
+  const handleSave = () => {
+    const definition: Partial<CustomTypeData> = kind === 'ENUM' ? { values }
+      : kind === 'DOMAIN' ? {
+        baseType: baseType.trim(),
+        length: length.trim() || undefined,
+        isNotNull: isNotNull || undefined,
+        defaultValue: defaultValue.trim() || undefined,
+        check: check.trim() || undefined,
+      }
+      : { fields: completeFields.map(field => ({ name: field.name.trim(), dataType: field.dataType.trim(), length: field.length?.trim() || undefined })) };
+    onSave({
+      id: customType.id || '', // ID will be generated by the hook if it's new
+      name: trimmedName,
+      kind,
+      ...definition,
+      comment: comment.trim() || undefined,
+    });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (customType.id && onDelete) {
+      onDelete(customType.id);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+            <Shapes className="w-5 h-5 text-blue-500" />
+            {customType.id ? 'Edit Type' : 'Create Type'}
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md">
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="mood" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Kind</label>
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as CustomTypeKind)}
+                disabled={!!customType.id}
+                className={`${inputClass} disabled:opacity-60`}
+              >
+                {CUSTOM_TYPE_KINDS.map(option => <option key={option.kind} value={option.kind}>{option.label}</option>)}
+              </select>
+            </div>
+          </div>
+          {isNameTaken && (
+            <p className="-mt-4 text-sm text-red-600 dark:text-red-400">Another type is already called {trimmedName}.</p>
+          )}
+
+          {kind === 'ENUM' && (
+            <div>
+              <label className={labelClass}>Values</label>
+              <textarea
+                value={valuesText}
+                onChange={(e) => setValuesText(e.target.value)}
+                rows={5}
+                placeholder={'happy\nok\nsad'}
+                className={`${inputClass} font-mono text-sm`}
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">One value per line, in order.</p>
+              {hasDuplicateValues && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">Each value can only appear once.</p>
+              )}
+            </div>
+          )}
+
+          {kind === 'DOMAIN' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-[2fr_1fr] gap-4">
+                <div>
+                  <label className={labelClass}>Base Type</label>
+                  <input type="text" value={baseType} onChange={(e) => setBaseType(e.target.value)} placeholder="VARCHAR" className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Length</label>
+                  <input type="text" value={length} onChange={(e) => setLength(e.target.value)} placeholder="255" className={inputClass} />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Default</label>
+                <input type="text" value={defaultValue} onChange={(e) => setDefaultValue(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Check</label>
+                <input
+                  type="text"
+                  value={check}
+                  onChange={(e) => setCheck(e.target.value)}
+                  placeholder="VALUE ~ '^[^@]+@[^@]+$'"
+                  className={`${inputClass} font-mono text-sm`}
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Refer to the value as VALUE.</p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={isNotNull} onChange={(e) => setIsNotNull(e.target.checked)} />
+                NOT NULL
+              </label>
+            </div>
+          )}
+
+          {kind === 'COMPOSITE' && (
+            <div>
+              <div className="grid grid-cols-[1fr_1fr_5rem_auto] items-center gap-2 mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <span>Field</span>
+                <span>Type</span>
+                <span>Length</span>
+                <span className="w-7" />
+              </div>
+              <div className="space-y-2">
+                {fields.map((field, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_5rem_auto] items-center gap-2">
+                    <input type="text" value={field.name} onChange={(e) => updateField(index, { name: e.target.value })} className={smallInputClass} />
+                    <input type="text" value={field.dataType} onChange={(e) => updateField(index, { dataType: e.target.value })} className={smallInputClass} />
+                    <input type="text" value={field.length ?? ''} onChange={(e) => updateField(index, { length: e.target.value })} className={smallInputClass} />
+                    <button
+                      onClick={() => setFields(fields.filter(other => other !== field))}
+                      disabled={fields.length === 1}
+                      title="Remove field"
+                      className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-red-600 disabled:opacity-30 disabled:hover:bg-transparent"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => setFields([...fields, { name: '', dataType: '' }])}
+                className="mt-2 flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Plus className="w-4 h-4" />
+                Add field
+              </button>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Comment</label>
+            <input type="text" value={comment} onChange={(e) => setComment(e.target.value)} className={inputClass} />
+          </div>
+
+          {dialect !== 'postgresql' && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Only PostgreSQL creates named types. {dialect} columns of this type are written as
+              {kind === 'COMPOSITE' ? ' a JSON document.' : kind === 'ENUM' && (dialect === 'mysql' || dialect === 'mariadb') ? ' an inline ENUM.' : ' the built-in type with a CHECK constraint.'}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+          <div>
+            {customType.id && onDelete && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-2 px-4 py-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/50 rounded-md transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete Type
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState, useMemo } from 'react';
+import { X, FileDown, BookOpen } from 'lucide-react';
+import { ProjectData, DocsFormat } from '../types';
+import { generateDocs } from '../utils/docsGenerator';
+import { createZipArchive } from '../utils/zipArchive';
+import { downloadFile } from '../utils/download';
+
+interface DocsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: ProjectData;
+}
+
+const FORMATS: { id: DocsFormat; label: string }[] = [
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'html', label: 'HTML' },
+];
+
+export const DocsModal: React.FC<DocsModalProps> = ({
+  isOpen,
+  onClose,
+  project
+}) => {
+  const [format, setFormat] = useState<DocsFormat>('markdown');
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  const files = useMemo(() => generateDocs(project, format), [project, format]);
+  const selectedFile = files.find(file => file.path === selectedPath) ?? files[0];
+
+  if (!isOpen) return null;
+
+  const handleDownload = () => {
+    downloadFile(createZipArchive(files), `${project.name.replace(/\s+/g, '_')}_docs.zip`, 'application/zip');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-6xl h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+            <BookOpen className="w-5 h-5 text-blue-500" />
+            Data Dictionary
+          </h2>
+          <div className="flex items-center gap-2">
+            <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+              {FORMATS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setFormat(option.id)}
+                  className={`px-3 py-1 ${format === option.id ? 'bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md">
+              <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 flex min-h-0">
+          <div className="w-56 border-r border-gray-200 dark:border-gray-700 overflow-y-auto py-2">
+            {files.map(file => (
+              <button
+                key={file.path}
+                onClick={() => setSelectedPath(file.path)}
+                className={`w-full text-left px-4 py-1 text-sm font-mono truncate ${
+                  file === selectedFile ? 'bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-200' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                {file.path}
+              </button>
+            ))}
+          </div>
+          {format === 'html' ? (
+            // Links between pages only work once the bundle is unpacked
+            <iframe
+              title="Documentation preview"
+              srcDoc={selectedFile.content}
+              sandbox=""
+              className="flex-1 bg-white"
+            />
+          ) : (
+            <pre className="flex-1 overflow-auto p-4 text-sm text-gray-800 dark:text-gray-200 font-mono whitespace-pre-wrap">
+              {selectedFile.content}
+            </pre>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {files.length} file{files.length !== 1 ? 's' : ''}: an index page and one page per table
+          </p>
+          <button
+            onClick={handleDownload}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2"
+          >
+            <FileDown className="w-4 h-4" />
+            Download ZIP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState, useMemo } from 'react';
+import { X, FileDown, Copy, Check, Share2 } from 'lucide-react';
+import { ProjectData, ErDiagramFormat, ErDiagramOptions } from '../types';
+import { generateErDiagram, erDiagramTables } from '../utils/erDiagram';
+import { downloadFile } from '../utils/download';
+
+interface ErDiagramModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: ProjectData;
+}
+
+const FORMATS: { id: ErDiagramFormat; label: string; extension: string; fence: string }[] = [
+  { id: 'mermaid', label: 'Mermaid', extension: 'mmd', fence: 'mermaid' },
+  { id: 'plantuml', label: 'PlantUML', extension: 'puml', fence: 'plantuml' },
+];
+
+// 'all', 'selected' or a database id
+type Scope = string;
+
+export const ErDiagramModal: React.FC<ErDiagramModalProps> = ({
+  isOpen,
+  onClose,
+  project
+}) => {
+  const [format, setFormat] = useState<ErDiagramFormat>('mermaid');
+  const [scope, setScope] = useState<Scope>('all');
+  const [selectedTableIds, setSelectedTableIds] = useState<string[]>(() => project.tables.map(table => table.id));
+  const [markdown, setMarkdown] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const options = useMemo<ErDiagramOptions>(() => ({
+    format,
+    databaseId: scope !== 'all' && scope !== 'selected' ? scope : undefined,
+    tableIds: scope === 'selected' ? selectedTableIds : undefined,
+  }), [format, scope, selectedTableIds]);
+
+  const formatInfo = FORMATS.find(f => f.id === format)!;
+  const tableCount = erDiagramTables(project, options).length;
+  const output = useMemo(() => {
+    const diagram = generateErDiagram(project, options);
+    return markdown ? `\`\`\`${formatInfo.fence}\n${diagram}\`\`\`\n` : diagram;
+  }, [project, options, markdown, formatInfo]);
+
+  if (!isOpen) return null;
+
+  const toggleTable = (tableId: string) => {
+    setSelectedTableIds(selectedTableIds.includes(tableId)
+      ? selectedTableIds.filter(id => id !== tableId)
+      : [...selectedTableIds, tableId]);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    const extension = markdown ? 'md' : formatInfo.extension;
+    downloadFile(output, `${project.name.replace(/\s+/g, '_')}.${extension}`, 'text/plain');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+            <Share2 className="w-5 h-5 text-blue-500" />
+            ER Diagram as Text
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md">
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 flex min-h-0">
+          <div className="w-64 p-4 border-r border-gray-200 dark:border-gray-700 space-y-4 overflow-y-auto">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Format</label>
+              <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+                {FORMATS.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setFormat(option.id)}
+                    className={`flex-1 px-3 py-1 ${format === option.id ? 'bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tables</label>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100"
+              >
+                <option value="all">All tables</option>
+                {project.databases.map(database => (
+                  <option key={database.id} value={database.id}>Database {database.name}</option>
+                ))}
+                <option value="selected">Selected tables</option>
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {tableCount} table{tableCount !== 1 ? 's' : ''} in the diagram
+              </p>
+            </div>
+
+            {scope === 'selected' && (
+              <div className="space-y-1">
+                {project.tables.map(table => (
+                  <label key={table.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={selectedTableIds.includes(table.id)}
+                      onChange={() => toggleTable(table.id)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="truncate">{table.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={markdown}
+                onChange={(e) => setMarkdown(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Markdown code block
+            </label>
+          </div>
+          <pre className="flex-1 overflow-auto p-4 text-sm text-gray-800 dark:text-gray-200 font-mono whitespace-pre">
+            {output}
+          </pre>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={handleCopy}
+            className="px-4 py-2 text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 flex items-center gap-2"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            {copied ? 'Copied!' : 'Copy'}
+          </button>
+          <button
+            onClick={handleDownload}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2"
+          >
+            <FileDown className="w-4 h-4" />
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState, useMemo } from 'react';
+import { X, Image, FileDown } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { ProjectData, DiagramFormat, DiagramExportOptions } from '../types';
+import { generateDiagramSVG, renderDiagramPNG, renderDiagramPDF, pdfPageCount } from '../utils/diagramExport';
+import { downloadFile } from '../utils/download';
+
+interface ExportDiagramModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: ProjectData;
+}
+
+const FORMATS: { id: DiagramFormat; label: string }[] = [
+  { id: 'svg', label: 'SVG' },
+  { id: 'png', label: 'PNG' },
+  { id: 'pdf', label: 'PDF' },
+];
+
+const SCALES = [1, 2, 3];
+
+export const ExportDiagramModal: React.FC<ExportDiagramModalProps> = ({
+  isOpen,
+  onClose,
+  project
+}) => {
+  const [options, setOptions] = useState<DiagramExportOptions>({
+    format: 'png',
+    scale: 2,
+    transparent: false,
+    includeTitle: true,
+  });
+  const [exporting, setExporting] = useState(false);
+
+  // PDF pages are always printed on white
+  const transparent = options.transparent && options.format !== 'pdf';
+  const diagram = useMemo(
+    () => generateDiagramSVG(project, { transparent, includeTitle: options.includeTitle }),
+    [project, transparent, options.includeTitle]
+  );
+  const previewUrl = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagram.svg)}`, [diagram]);
+
+  if (!isOpen) return null;
+
+  const handleDownload = async () => {
+    const filename = project.name.replace(/\s+/g, '_');
+    setExporting(true);
+    try {
+      if (options.format === 'svg') {
+        downloadFile(diagram.svg, `${filename}.svg`, 'image/svg+xml');
+      } else if (options.format === 'png') {
+        downloadFile(await renderDiagramPNG(diagram, options.scale, transparent), `${filename}.png`, 'image/png');
+      } else {
+        downloadFile(await renderDiagramPDF(diagram), `${filename}.pdf`, 'application/pdf');
+      }
+      toast.success(`Diagram exported as ${options.format.toUpperCase()}`);
+      onClose();
+    } catch (error) {
+      toast.error(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const pages = pdfPageCount(diagram.width, diagram.height);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+            <Image className="w-5 h-5 text-blue-500" />
+            Export Diagram
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md">
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 flex min-h-0">
+          <div className="w-64 p-4 border-r border-gray-200 dark:border-gray-700 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Format</label>
+              <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+                {FORMATS.map(format => (
+                  <button
+                    key={format.id}
+                    onClick={() => setOptions({ ...options, format: format.id })}
+                    className={`flex-1 px-3 py-1 ${options.format === format.id ? 'bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                  >
+                    {format.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {options.format === 'png' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Scale</label>
+                <select
+                  value={options.scale}
+                  onChange={(e) => setOptions({ ...options, scale: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100"
+                >
+                  {SCALES.map(scale => (
+                    <option key={scale} value={scale}>{scale}x</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className={`flex items-center gap-2 text-sm ${options.format === 'pdf' ? 'text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'}`}>
+                <input
+                  type="checkbox"
+                  checked={transparent}
+                  disabled={options.format === 'pdf'}
+                  onChange={(e) => setOptions({ ...options, transparent: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Transparent background
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={options.includeTitle}
+                  onChange={(e) => setOptions({ ...options, includeTitle: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Title block
+              </label>
+            </div>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {options.format === 'png' && `${Math.round(diagram.width * options.scale)} × ${Math.round(diagram.height * options.scale)} px`}
+              {options.format === 'svg' && `${diagram.width} × ${diagram.height} px, scalable`}
+              {options.format === 'pdf' && `${pages} A4 landscape page${pages !== 1 ? 's' : ''}`}
+            </p>
+          </div>
+          <div className="flex-1 overflow-auto p-4 bg-gray-100 dark:bg-gray-900">
+            <img src={previewUrl} alt="Diagram preview" className="max-w-full shadow" />
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={exporting || project.tables.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 disabled:opacity-50"
+          >
+            <FileDown className="w-4 h-4" />
+            {exporting ? 'Exporting...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
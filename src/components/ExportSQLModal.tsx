@@ -0,0 +1,120 @@
+import React, { useState, useMemo } from 'react';
+import { X, FileDown, Copy, Check } from 'lucide-react';
+import { ProjectData, DumpOptions } from '../types';
+import { SQLGenerator, DEFAULT_DUMP_OPTIONS } from '../utils/sqlGenerator';
+
+interface ExportSQLModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: ProjectData;
+  onDownload: (sql: string) => void;
+}
+
+const OPTIONS: { id: keyof DumpOptions; label: string }[] = [
+  { id: 'includeDatabases', label: 'CREATE DATABASE' },
+  { id: 'includeIndexes', label: 'Indexes' },
+  { id: 'includeViews', label: 'Views' },
+  { id: 'includeRoutines', label: 'Procedures and functions' },
+  { id: 'includeTriggers', label: 'Triggers' },
+  { id: 'includeUsers', label: 'Users and grants' },
+  { id: 'includeData', label: 'Seed data' },
+  { id: 'ifNotExists', label: 'IF NOT EXISTS' },
+  { id: 'dropIfExists', label: 'DROP IF EXISTS first' },
+  { id: 'useTransaction', label: 'Wrap in a transaction' },
+];
+
+export const ExportSQLModal: React.FC<ExportSQLModalProps> = ({
+  isOpen,
+  onClose,
+  project,
+  onDownload
+}) => {
+  const [options, setOptions] = useState<DumpOptions>(DEFAULT_DUMP_OPTIONS);
+  const [copied, setCopied] = useState(false);
+
+  const sql = useMemo(() => new SQLGenerator(project.dialect, project.constraintNaming, project.customTypes).generateExportSQL(project, options), [project, options]);
+
+  if (!isOpen) return null;
+
+  // Only PostgreSQL and SQLite can roll back DDL
+  const transactional = project.dialect === 'postgresql' || project.dialect === 'sqlite';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(sql);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    onDownload(sql);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+            <FileDown className="w-5 h-5 text-blue-500" />
+            Export SQL Dump
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md">
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 flex min-h-0">
+          <div className="w-64 p-4 border-r border-gray-200 dark:border-gray-700 space-y-2">
+            {OPTIONS.map(option => (
+              <label
+                key={option.id}
+                className={`flex items-center gap-2 text-sm ${option.id === 'useTransaction' && !transactional ? 'text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={options[option.id]}
+                  disabled={option.id === 'useTransaction' && !transactional}
+                  onChange={(e) => setOptions({ ...options, [option.id]: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {option.label}
+              </label>
+            ))}
+            {!transactional && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 pt-2">
+                {project.dialect.toUpperCase()} commits DDL implicitly, so the dump cannot run in a transaction.
+              </p>
+            )}
+          </div>
+          <pre className="flex-1 overflow-auto p-4 text-sm text-gray-800 dark:text-gray-200 font-mono whitespace-pre-wrap">
+            {sql}
+          </pre>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={handleCopy}
+            className="px-4 py-2 text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 flex items-center gap-2"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            {copied ? 'Copied!' : 'Copy'}
+          </button>
+          <button
+            onClick={handleDownload}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2"
+          >
+            <FileDown className="w-4 h-4" />
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
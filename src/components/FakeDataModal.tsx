@@ -0,0 +1,203 @@
+import React, { useState, useMemo } from 'react';
+import { X, Wand2, Dices, FileDown, Play, AlertTriangle } from 'lucide-react';
+import { ProjectData } from '../types';
+import { generateFakeData, generateFakeDataSQL, toCSV } from '../utils/fakeDataGenerator';
+import { getEngineDialect } from '../utils/queryEngine';
+import { downloadFile } from '../utils/download';
+
+interface FakeDataModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: ProjectData;
+  onLoadIntoEngine: (sql: string) => Promise<void>;
+}
+
+const MAX_ROWS_PER_TABLE = 10000;
+const PREVIEW_ROWS = 10;
+
+export const FakeDataModal: React.FC<FakeDataModalProps> = ({
+  isOpen,
+  onClose,
+  project,
+  onLoadIntoEngine
+}) => {
+  const [rowsPerTable, setRowsPerTable] = useState(20);
+  const [seed, setSeed] = useState(1);
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const dataset = useMemo(() => generateFakeData(project, { rowsPerTable, seed }), [project, rowsPerTable, seed]);
+
+  if (!isOpen) return null;
+
+  const fileName = project.name.replace(/\s+/g, '_');
+  const selectedTable = project.tables.find(t => t.id === selectedTableId) ?? project.tables[0];
+  const previewRows = selectedTable ? (dataset.rows[selectedTable.id] ?? []).slice(0, PREVIEW_ROWS) : [];
+
+  const handleDownloadCSV = (tableId: string) => {
+    const table = project.tables.find(t => t.id === tableId)!;
+    downloadFile(toCSV(table, dataset.rows[table.id] ?? []), `${fileName}_${table.name}.csv`, 'text/csv');
+  };
+
+  const handleLoad = async () => {
+    setIsLoading(true);
+    try {
+      await onLoadIntoEngine(generateFakeDataSQL(project, dataset, getEngineDialect(project.dialect)));
+      onClose();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+            <Wand2 className="w-5 h-5 text-purple-500" />
+            Generate Fake Data
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md">
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 flex min-h-0">
+          <div className="w-72 p-4 border-r border-gray-200 dark:border-gray-700 space-y-4 overflow-y-auto">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Rows per table</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_ROWS_PER_TABLE}
+                value={rowsPerTable}
+                onChange={(e) => setRowsPerTable(Math.min(MAX_ROWS_PER_TABLE, Math.max(1, parseInt(e.target.value) || 1)))}
+                className="w-full px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Seed</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  value={seed}
+                  onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+                  className="flex-1 min-w-0 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  onClick={() => setSeed(Math.floor(Math.random() * 1000000))}
+                  title="Random seed"
+                  className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  <Dices className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tables</h3>
+              <div className="space-y-1">
+                {project.tables.map(table => (
+                  <div
+                    key={table.id}
+                    onClick={() => setSelectedTableId(table.id)}
+                    className={`flex items-center justify-between px-2 py-1 rounded cursor-pointer text-sm ${
+                      table.id === selectedTable?.id ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <span className="truncate">{table.name}</span>
+                    <span className="flex items-center gap-2 shrink-0">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{dataset.rows[table.id]?.length ?? 0}</span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDownloadCSV(table.id);
+                        }}
+                        className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        CSV
+                      </button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {dataset.warnings.length > 0 && (
+              <div className="space-y-1">
+                {dataset.warnings.map((warning, index) => (
+                  <div key={index} className="flex gap-2 text-xs text-yellow-700 dark:text-yellow-400">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>{warning}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-auto p-4">
+            {!selectedTable ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">The project has no tables yet.</div>
+            ) : (
+              <>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {selectedTable.name}: first {previewRows.length} of {dataset.rows[selectedTable.id]?.length ?? 0} rows
+                </h3>
+                <table className="text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      {selectedTable.columns.map(column => (
+                        <th key={column.id} className="py-1 pr-4 font-medium whitespace-nowrap">{column.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-b border-gray-100 dark:border-gray-700">
+                        {selectedTable.columns.map(column => (
+                          <td key={column.id} className="py-1 pr-4 font-mono text-gray-800 dark:text-gray-200 whitespace-nowrap max-w-xs truncate">
+                            {row[column.id] ?? <span className="text-gray-400">NULL</span>}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={() => project.tables.forEach(table => handleDownloadCSV(table.id))}
+            disabled={project.tables.length === 0}
+            className="px-4 py-2 text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 flex items-center gap-2"
+          >
+            <FileDown className="w-4 h-4" />
+            All CSV files
+          </button>
+          <button
+            onClick={() => downloadFile(generateFakeDataSQL(project, dataset, project.dialect), `${fileName}_data.sql`, 'text/sql')}
+            disabled={project.tables.length === 0}
+            className="px-4 py-2 text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 flex items-center gap-2"
+          >
+            <FileDown className="w-4 h-4" />
+            SQL INSERTs
+          </button>
+          <button
+            onClick={handleLoad}
+            disabled={project.tables.length === 0 || isLoading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            <Play className="w-4 h-4" />
+            {isLoading ? 'Loading...' : 'Load into Query Engine'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { History, Undo2, Redo2, X } from 'lucide-react';
+import { HistoryEntry } from '../hooks/useProject';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  currentIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  currentIndex,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump,
+  onClose
+}) => {
+  return (
+    <div className="absolute top-4 right-4 z-10 w-72 max-h-[70%] flex flex-col bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="font-medium text-gray-800 dark:text-gray-100 flex items-center gap-2">
+          <History className="w-4 h-4" />
+          History
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-40"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-40"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {/* Newest first; entries after the current one are redo steps */}
+        {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+          <button
+            key={entry.id}
+            onClick={() => onJump(index)}
+            className={`w-full text-left px-3 py-2 rounded-md text-sm flex items-center justify-between gap-2 ${
+              index === currentIndex
+                ? 'bg-blue-600 text-white'
+                : index > currentIndex
+                  ? 'text-gray-400 dark:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className={`text-xs flex-shrink-0 ${index === currentIndex ? 'text-blue-100' : 'text-gray-400'}`}>
+              {new Date(entry.timestamp).toLocaleTimeString()}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -11,13 +11,25 @@ import {
   ChevronRight,
   Plus,
   Trash2,
-  Edit
+  Edit,
+  FolderOpen,
+  History,
+  Shapes
 } from 'lucide-react';
-import { DatabaseData, TableData, IndexData, ViewData, StoredProcedureData, TriggerData, UserData } from '../types';
+import { DatabaseData, TableData, CustomTypeData, IndexData, ViewData, StoredProcedureData, TriggerData, UserData } from '../types';
+import { StoredProjectSummary, ProjectSnapshot } from '../utils/projectStorage';
 
 interface NavigationPanelProps {
+  projects: StoredProjectSummary[];
+  currentProjectId: string | null;
+  snapshots: ProjectSnapshot[];
+  onProjectSelect: (projectId: string) => void;
+  onCreateProject: () => void;
+  onDeleteProject: (project: StoredProjectSummary) => void;
+  onRestoreSnapshot: (snapshot: ProjectSnapshot) => void;
   databases: DatabaseData[];
   tables: TableData[];
+  customTypes: CustomTypeData[];
   indexes: IndexData[];
   views: ViewData[];
   procedures: StoredProcedureData[];
@@ -27,6 +39,7 @@ interface NavigationPanelProps {
   onDatabaseSelect: (databaseId: string) => void;
   onCreateDatabase: () => void;
   onCreateTable: () => void;
+  onCreateType: () => void;
   onCreateIndex: () => void;
   onCreateView: () => void;
   onCreateProcedure: () => void;
@@ -37,8 +50,16 @@ interface NavigationPanelProps {
 }
 
 export const NavigationPanel: React.FC<NavigationPanelProps> = ({
+  projects,
+  currentProjectId,
+  snapshots,
+  onProjectSelect,
+  onCreateProject,
+  onDeleteProject,
+  onRestoreSnapshot,
   databases,
   tables,
+  customTypes,
   indexes,
   views,
   procedures,
@@ -48,6 +69,7 @@ export const NavigationPanel: React.FC<NavigationPanelProps> = ({
   onDatabaseSelect,
   onCreateDatabase,
   onCreateTable,
+  onCreateType,
   onCreateIndex,
   onCreateView,
   onCreateProcedure,
@@ -57,8 +79,11 @@ export const NavigationPanel: React.FC<NavigationPanelProps> = ({
   onDeleteItem
 }) => {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
+    projects: false,
+    snapshots: false,
     databases: true,
     tables: true,
+    types: false,
     indexes: false,
     views: false,
     procedures: false,
@@ -85,7 +110,7 @@ export const NavigationPanel: React.FC<NavigationPanelProps> = ({
     icon: React.ComponentType<any>;
     label: string;
     count: number;
-    onAdd: () => void;
+    onAdd?: () => void;
     children?: React.ReactNode;
     expanded: boolean;
     onToggle: () => void;
@@ -104,12 +129,14 @@ export const NavigationPanel: React.FC<NavigationPanelProps> = ({
             {count}
           </span>
         </div>
-        <button
-          onClick={onAdd}
-          className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-600 rounded transition-opacity"
-        >
-          <Plus className="w-3 h-3" />
-        </button>
+        {onAdd && (
+          <button
+            onClick={onAdd}
+            className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-600 rounded transition-opacity"
+          >
+            <Plus className="w-3 h-3" />
+          </button>
+        )}
       </div>
       {expanded && <div className="pl-4 mt-1">{children}</div>}
     </div>
@@ -134,13 +161,13 @@ export const NavigationPanel: React.FC<NavigationPanelProps> = ({
       <span className="text-sm truncate flex-1 cursor-default">{item.host ? `${item.name}@${item.host}` : item.name}</span>
       <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
         <button
-          onClick={() => onEdit(type, item)}
+          onClick={(e) => { e.stopPropagation(); onEdit(type, item); }}
           className="p-1 hover:bg-gray-600 rounded"
         >
           <Edit className="w-3 h-3" />
         </button>
         <button
-          onClick={() => onDelete(type, item)}
+          onClick={(e) => { e.stopPropagation(); onDelete(type, item); }}
           className="p-1 hover:bg-red-800/50 rounded"
         >
           <Trash2 className="w-3 h-3 text-red-400" />
@@ -159,6 +186,51 @@ export const NavigationPanel: React.FC<NavigationPanelProps> = ({
       </div>
 
       <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {/* Projects stored in this browser */}
+        <NavigationItem
+          icon={FolderOpen}
+          label="Projects"
+          count={projects.length}
+          onAdd={onCreateProject}
+          expanded={expandedSections.projects}
+          onToggle={() => toggleSection('projects')}
+        >
+          <div className="space-y-1">
+            {projects.map(project => (
+              <div key={project.id} onClick={() => onProjectSelect(project.id)} className="cursor-pointer">
+                <ItemRow
+                  item={project}
+                  type="project"
+                  selected={project.id === currentProjectId}
+                  onEdit={() => onProjectSelect(project.id)}
+                  onDelete={() => onDeleteProject(project)}
+                />
+              </div>
+            ))}
+          </div>
+        </NavigationItem>
+
+        {/* Autosaved versions of the open project */}
+        <NavigationItem
+          icon={History}
+          label="Snapshots"
+          count={snapshots.length}
+          expanded={expandedSections.snapshots}
+          onToggle={() => toggleSection('snapshots')}
+        >
+          <div className="space-y-1">
+            {snapshots.map(snapshot => (
+              <button
+                key={snapshot.id}
+                onClick={() => onRestoreSnapshot(snapshot)}
+                className="w-full text-left p-1.5 pl-5 hover:bg-gray-700 rounded-md text-sm text-gray-400 hover:text-white"
+              >
+                {new Date(snapshot.savedAt).toLocaleString()}
+              </button>
+            ))}
+          </div>
+        </NavigationItem>
+
         {/* Databases */}
         <NavigationItem
           icon={Database}
@@ -205,6 +277,28 @@ export const NavigationPanel: React.FC<NavigationPanelProps> = ({
           </div>
         </NavigationItem>
 
+        {/* Enums, domains and composite types */}
+        <NavigationItem
+          icon={Shapes}
+          label="Types"
+          count={customTypes.length}
+          onAdd={onCreateType}
+          expanded={expandedSections.types}
+          onToggle={() => toggleSection('types')}
+        >
+          <div className="space-y-1">
+            {customTypes.map(type => (
+              <ItemRow
+                key={type.id}
+                item={type}
+                type="customType"
+                onEdit={onEditItem}
+                onDelete={onDeleteItem}
+              />
+            ))}
+          </div>
+        </NavigationItem>
+
         {/* Indexes */}
         <NavigationItem
           icon={ListTree}
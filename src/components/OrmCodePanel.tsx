@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { Copy, X, Check, FileDown } from 'lucide-react';
+import { ProjectData, OrmTarget } from '../types';
+import { generateOrmFiles } from '../utils/ormGenerator';
+import { createZipArchive } from '../utils/zipArchive';
+import { downloadFile } from '../utils/download';
+
+interface OrmCodePanelProps {
+  project: ProjectData;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TARGETS: { id: OrmTarget; label: string }[] = [
+  { id: 'typeorm', label: 'TypeORM' },
+  { id: 'drizzle', label: 'Drizzle' },
+  { id: 'sequelize', label: 'Sequelize' },
+];
+
+export const OrmCodePanel: React.FC<OrmCodePanelProps> = ({
+  project,
+  isOpen,
+  onClose
+}) => {
+  const [copied, setCopied] = React.useState(false);
+  const [target, setTarget] = React.useState<OrmTarget>('typeorm');
+  const [selectedPath, setSelectedPath] = React.useState<string | null>(null);
+
+  const files = useMemo(() => generateOrmFiles(project, target), [project, target]);
+  const selectedFile = files.find(file => file.path === selectedPath) ?? files[0];
+
+  const handleCopy = async () => {
+    if (!selectedFile) return;
+    try {
+      await navigator.clipboard.writeText(selectedFile.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    downloadFile(createZipArchive(files), `${project.name.replace(/\s+/g, '_')}_${target}.zip`, 'application/zip');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed right-0 top-0 h-full w-1/2 bg-white border-l border-gray-200 shadow-xl z-40 flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Generated Models</h3>
+          <p className="text-sm text-gray-600">One file per table</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+            {TARGETS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setTarget(option.id)}
+                className={`px-3 py-1 ${target === option.id ? 'bg-gray-200 text-gray-800' : 'text-gray-600 hover:bg-gray-100'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleCopy}
+            disabled={!selectedFile}
+            className="flex items-center gap-2 px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            {copied ? 'Copied!' : 'Copy'}
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={files.length === 0}
+            className="flex items-center gap-2 px-3 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors text-sm disabled:opacity-50"
+          >
+            <FileDown className="w-4 h-4" />
+            ZIP
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded-md"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      {selectedFile ? (
+        <div className="flex-1 flex min-h-0">
+          <div className="w-48 border-r border-gray-200 overflow-y-auto py-2">
+            {files.map(file => (
+              <button
+                key={file.path}
+                onClick={() => setSelectedPath(file.path)}
+                className={`w-full text-left px-4 py-1 text-sm font-mono truncate ${
+                  file === selectedFile ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {file.path}
+              </button>
+            ))}
+          </div>
+          <pre className="flex-1 overflow-auto p-4 text-sm text-gray-800 font-mono whitespace-pre">
+            {selectedFile.content}
+          </pre>
+        </div>
+      ) : (
+        <div className="p-4 text-center text-gray-500">
+          <p>No tables created yet.</p>
+          <p className="text-sm mt-1">Add tables to see generated model code.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,13 @@
 import React, { useState, useRef } from 'react';
-import { Play, Save, FileText, Download, Upload, Database, Clock, CheckCircle, XCircle } from 'lucide-react';
-import { SQLDialect } from '../types';
-import { SQLGenerator } from '../utils/sqlGenerator';
+import { Play, Save, FileText, Download, Upload, Database, Clock, CheckCircle, XCircle, RotateCcw, AlertTriangle } from 'lucide-react';
+import { SQLDialect, QueryResultSet } from '../types';
 
 interface QueryEditorProps {
   dialect: SQLDialect;
-  onExecuteQuery: (query: string) => Promise<any>;
+  onExecuteQuery: (query: string) => Promise<QueryResultSet[]>;
+  onResetDatabase: () => Promise<void>;
+  engineName: string | null;
+  bootstrapErrors: string[];
   isOpen: boolean;
   onClose: () => void;
 }
@@ -13,7 +15,7 @@ interface QueryEditorProps {
 interface QueryResult {
   id: string;
   query: string;
-  result: any;
+  result: QueryResultSet[] | null;
   executionTime: number;
   success: boolean;
   error?: string;
@@ -23,12 +25,16 @@ interface QueryResult {
 export const QueryEditor: React.FC<QueryEditorProps> = ({
   dialect,
   onExecuteQuery,
+  onResetDatabase,
+  engineName,
+  bootstrapErrors,
   isOpen,
   onClose
 }) => {
   const [query, setQuery] = useState('SELECT * FROM users LIMIT 10;');
   const [results, setResults] = useState<QueryResult[]>([]);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
   const [savedQueries, setSavedQueries] = useState<{ name: string; query: string }[]>([]);
   const [showSavedQueries, setShowSavedQueries] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -72,6 +78,70 @@ export const QueryEditor: React.FC<QueryEditorProps> = ({
     }
   };
 
+  const resetDatabase = async () => {
+    if (!confirm('Reset the database? All data written by your queries will be lost.')) return;
+
+    setIsResetting(true);
+    try {
+      await onResetDatabase();
+      setResults([]);
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined) return 'NULL';
+    if (value instanceof Uint8Array) return `<${value.length} bytes>`;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const renderResultSet = (resultSet: QueryResultSet, index: number) => {
+    if (resultSet.columns.length === 0) {
+      return (
+        <div key={index} className="bg-gray-50 p-3 rounded text-sm text-gray-700">
+          Query executed successfully. {resultSet.rowsAffected ?? 0} row{resultSet.rowsAffected === 1 ? '' : 's'} affected.
+        </div>
+      );
+    }
+
+    return (
+      <div key={index} className="border border-gray-200 rounded overflow-auto max-h-80">
+        <table className="min-w-full text-sm font-mono">
+          <thead className="bg-gray-100 sticky top-0">
+            <tr>
+              {resultSet.columns.map((column, i) => (
+                <th key={i} className="px-3 py-2 text-left border-b border-gray-200 whitespace-nowrap">
+                  <div className="font-medium text-gray-800">{column.name}</div>
+                  <div className="text-xs font-normal text-gray-500">{column.type}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {resultSet.rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="odd:bg-white even:bg-gray-50">
+                {row.map((value, i) => (
+                  <td
+                    key={i}
+                    className={`px-3 py-1 border-b border-gray-100 whitespace-nowrap ${value === null ? 'text-gray-400 italic' : 'text-gray-800'}`}
+                  >
+                    {formatValue(value)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="px-3 py-1 text-xs text-gray-500 bg-gray-50 border-t border-gray-200">
+          {resultSet.rows.length} row{resultSet.rows.length === 1 ? '' : 's'}
+        </div>
+      </div>
+    );
+  };
+
   const saveQuery = () => {
     const name = prompt('Enter a name for this query:');
     if (name && query.trim()) {
@@ -114,15 +184,24 @@ export const QueryEditor: React.FC<QueryEditorProps> = ({
   };
 
   const generateExampleQueries = () => {
-    const examples = [
-      'SELECT * FROM users LIMIT 10;',
-      'SHOW TABLES;',
-      'DESCRIBE users;',
-      'SELECT COUNT(*) FROM products;',
-      'SELECT * FROM orders WHERE created_at > DATE_SUB(NOW(), INTERVAL 30 DAY);',
-      'CREATE INDEX idx_user_email ON users(email);',
-      'SHOW INDEX FROM users;'
-    ];
+    const examples = dialect === 'postgresql'
+      ? [
+          'SELECT * FROM users LIMIT 10;',
+          "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public';",
+          "SELECT column_name, data_type FROM information_schema.columns WHERE table_name = 'users';",
+          'SELECT COUNT(*) FROM products;',
+          "SELECT * FROM orders WHERE created_at > NOW() - INTERVAL '30 days';",
+          'CREATE INDEX idx_user_email ON users(email);'
+        ]
+      : [
+          'SELECT * FROM users LIMIT 10;',
+          "SELECT name FROM sqlite_master WHERE type = 'table';",
+          "PRAGMA table_info('users');",
+          'SELECT COUNT(*) FROM products;',
+          "SELECT * FROM orders WHERE created_at > datetime('now', '-30 days');",
+          'CREATE INDEX idx_user_email ON users(email);',
+          "PRAGMA index_list('users');"
+        ];
     
     return examples.map(q => ({ name: `Example: ${q.split(' ').slice(0, 3).join(' ')}`, query: q }));
   };
@@ -145,8 +224,19 @@ export const QueryEditor: React.FC<QueryEditorProps> = ({
           <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
             <Database className="w-5 h-5 text-blue-600" />
             SQL Query Editor - {dialect.toUpperCase()}
+            {engineName && (
+              <span className="text-xs font-normal text-gray-500">({engineName})</span>
+            )}
           </h2>
           <div className="flex items-center gap-2">
+            <button
+              onClick={resetDatabase}
+              disabled={isResetting || isExecuting}
+              className="flex items-center gap-2 px-3 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50 transition-colors text-sm"
+            >
+              <RotateCcw className="w-4 h-4" />
+              {isResetting ? 'Resetting...' : 'Reset Database'}
+            </button>
             <button
               onClick={() => setShowSavedQueries(!showSavedQueries)}
               className="flex items-center gap-2 px-3 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors text-sm"
@@ -257,6 +347,20 @@ export const QueryEditor: React.FC<QueryEditorProps> = ({
             {/* Results */}
             <div className="flex-1 overflow-y-auto p-4">
               <h3 className="font-medium text-gray-800 mb-3">Query Results</h3>
+
+              {bootstrapErrors.length > 0 && (
+                <div className="mb-4 bg-yellow-50 border border-yellow-200 p-3 rounded text-sm text-yellow-800">
+                  <div className="flex items-center gap-2 font-medium mb-1">
+                    <AlertTriangle className="w-4 h-4" />
+                    Some schema statements failed to load into the {engineName ?? 'embedded'} database
+                  </div>
+                  <ul className="list-disc list-inside font-mono text-xs space-y-1">
+                    {bootstrapErrors.map((error, index) => (
+                      <li key={index}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               
               {results.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
@@ -294,12 +398,8 @@ export const QueryEditor: React.FC<QueryEditorProps> = ({
                         </div>
                         
                         {result.success ? (
-                          <div className="bg-gray-50 p-3 rounded font-mono text-sm">
-                            {typeof result.result === 'object' ? (
-                              <pre>{JSON.stringify(result.result, null, 2)}</pre>
-                            ) : (
-                              <div>{result.result || 'Query executed successfully'}</div>
-                            )}
+                          <div className="space-y-3">
+                            {result.result?.map(renderResultSet)}
                           </div>
                         ) : (
                           <div className="bg-red-50 border border-red-200 p-3 rounded text-sm text-red-800">
@@ -1,14 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { X, Save, Trash2, Link } from 'lucide-react';
-import { TableData, RelationshipData, ReferentialAction } from '../types';
+import { X, Save, Trash2, Link, Plus, ArrowRight, AlertTriangle } from 'lucide-react';
+import { TableData, RelationshipData, ReferentialAction, IndexData, ColumnPair, ManyToManyOptions } from '../types';
+import { columnPairFields, isUniqueKey } from '../utils/relationshipColumns';
+import { defaultJunctionName, junctionKeyColumns } from '../utils/junctionTables';
 
 interface RelationshipEditorModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (relationship: RelationshipData) => void;
   onDelete?: (relationshipId: string) => void;
+  // New links can be many-to-many, which creates or reuses a junction table
+  onSaveManyToMany?: (options: ManyToManyOptions) => void;
   relationship: Partial<RelationshipData>;
   tables: TableData[];
+  indexes: IndexData[];
 }
 
 export const RelationshipEditorModal: React.FC<RelationshipEditorModalProps> = ({
@@ -16,30 +21,72 @@ export const RelationshipEditorModal: React.FC<RelationshipEditorModalProps> = (
   onClose,
   onSave,
   onDelete,
+  onSaveManyToMany,
   relationship,
-  tables
+  tables,
+  indexes
 }) => {
-  const [type, setType] = useState<'one-to-one' | 'one-to-many'>('one-to-many');
+  const [type, setType] = useState<RelationshipData['type']>('one-to-many');
   const [onUpdate, setOnUpdate] = useState<ReferentialAction>('NO ACTION');
   const [onDeleteAction, setOnDeleteAction] = useState<ReferentialAction>('NO ACTION');
+  const [pairs, setPairs] = useState<ColumnPair[]>([]);
+  const [junctionTableId, setJunctionTableId] = useState('');
+  const [junctionName, setJunctionName] = useState('');
 
   useEffect(() => {
     if (relationship) {
+      setPairs(relationship.columnPairs?.length
+        ? relationship.columnPairs
+        : [{ sourceColumn: relationship.sourceColumn ?? '', targetColumn: relationship.targetColumn ?? '' }]);
       setType(relationship.type || 'one-to-many');
       setOnUpdate(relationship.onUpdate || 'NO ACTION');
       setOnDeleteAction(relationship.onDelete || 'NO ACTION');
+      setJunctionTableId('');
+      setJunctionName('');
     }
   }, [relationship]);
 
   if (!isOpen || !relationship.sourceTable || !relationship.targetTable) return null;
 
+  const sourceTable = tables.find(t => t.id === relationship.sourceTable);
+  const targetTable = tables.find(t => t.id === relationship.targetTable);
+
+  const updatePair = (index: number, changes: Partial<ColumnPair>) =>
+    setPairs(pairs.map((pair, i) => i === index ? { ...pair, ...changes } : pair));
+
+  // Each column appears once per side, and every pair needs both columns
+  const sourceIds = pairs.map(pair => pair.sourceColumn);
+  const targetIds = pairs.map(pair => pair.targetColumn);
+  const isComplete = pairs.every(pair => pair.sourceColumn && pair.targetColumn);
+  const hasDuplicates = new Set(sourceIds).size !== pairs.length || new Set(targetIds).size !== pairs.length;
+  const isTargetUnique = !targetTable || !isComplete || isUniqueKey(targetTable, targetIds, indexes);
+
+  const canBeManyToMany = !relationship.id && !!onSaveManyToMany;
+  const isManyToMany = type === 'many-to-many' && canBeManyToMany;
+  const keyNames = (table: TableData | undefined, columnId: string | undefined) =>
+    table ? junctionKeyColumns(table, columnId).map(column => column.name).join(', ') : '';
+  const canSave = isManyToMany || (isComplete && !hasDuplicates);
+
   const handleSave = () => {
+    if (isManyToMany) {
+      onSaveManyToMany!({
+        sourceTable: relationship.sourceTable!,
+        targetTable: relationship.targetTable!,
+        sourceColumn: relationship.sourceColumn,
+        targetColumn: relationship.targetColumn,
+        junctionTableId: junctionTableId || undefined,
+        junctionName: junctionName.trim() || defaultJunctionName(sourceTable!, targetTable!),
+        onUpdate,
+        onDelete: onDeleteAction,
+      });
+      onClose();
+      return;
+    }
     const finalRelationship: RelationshipData = {
       id: relationship.id || '', // ID will be generated by the hook if it's new
       sourceTable: relationship.sourceTable!,
       targetTable: relationship.targetTable!,
-      sourceColumn: relationship.sourceColumn!,
-      targetColumn: relationship.targetColumn!,
+      ...columnPairFields(pairs),
       type,
       onUpdate,
       onDelete: onDeleteAction,
@@ -55,11 +102,6 @@ export const RelationshipEditorModal: React.FC<RelationshipEditorModalProps> = (
     onClose();
   };
 
-  const sourceTable = tables.find(t => t.id === relationship.sourceTable);
-  const targetTable = tables.find(t => t.id === relationship.targetTable);
-  const sourceColumn = sourceTable?.columns.find(c => c.id === relationship.sourceColumn);
-  const targetColumn = targetTable?.columns.find(c => c.id === relationship.targetColumn);
-
   const referentialActions: ReferentialAction[] = ['CASCADE', 'SET NULL', 'NO ACTION', 'RESTRICT', 'SET DEFAULT'];
 
   return (
@@ -78,30 +120,110 @@ export const RelationshipEditorModal: React.FC<RelationshipEditorModalProps> = (
 
         {/* Content */}
         <div className="p-6 space-y-6">
-          <div className="text-center text-gray-700 dark:text-gray-300">
-            <p>
-              From <code className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded">{sourceTable?.name}.{sourceColumn?.name}</code>
-            </p>
-            <p className="my-2">to</p>
-            <p>
-              <code className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded">{targetTable?.name}.{targetColumn?.name}</code>
-            </p>
-          </div>
-
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Relationship Type
             </label>
             <select
               value={type}
-              onChange={(e) => setType(e.target.value as 'one-to-one' | 'one-to-many')}
+              onChange={(e) => setType(e.target.value as RelationshipData['type'])}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="one-to-many">One-to-Many</option>
               <option value="one-to-one">One-to-One</option>
+              {(canBeManyToMany || relationship.type === 'many-to-many') && <option value="many-to-many">Many-to-Many</option>}
             </select>
           </div>
 
+          {isManyToMany ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                A junction table references {sourceTable?.name} ({keyNames(sourceTable, relationship.sourceColumn)}) and{' '}
+                {targetTable?.name} ({keyNames(targetTable, relationship.targetColumn)}); together its foreign keys form its primary key.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Junction Table
+                </label>
+                <select
+                  value={junctionTableId}
+                  onChange={(e) => setJunctionTableId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Create a new table</option>
+                  {tables.filter(t => t.id !== sourceTable?.id && t.id !== targetTable?.id).map(t => (
+                    <option key={t.id} value={t.id}>Use {t.name}</option>
+                  ))}
+                </select>
+              </div>
+              {!junctionTableId && (
+                <input
+                  type="text"
+                  value={junctionName}
+                  onChange={(e) => setJunctionName(e.target.value)}
+                  placeholder={sourceTable && targetTable ? defaultJunctionName(sourceTable, targetTable) : ''}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              )}
+            </div>
+          ) : (
+            <div>
+              <div className="grid grid-cols-[1fr_auto_1fr_auto] items-center gap-2 mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <span>{sourceTable?.name}</span>
+                <span />
+                <span>{targetTable?.name}</span>
+                <span className="w-7" />
+              </div>
+              <div className="space-y-2">
+                {pairs.map((pair, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_auto_1fr_auto] items-center gap-2">
+                    <select
+                      value={pair.sourceColumn}
+                      onChange={(e) => updatePair(index, { sourceColumn: e.target.value })}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Select column</option>
+                      {sourceTable?.columns.map(column => <option key={column.id} value={column.id}>{column.name}</option>)}
+                    </select>
+                    <ArrowRight className="w-4 h-4 text-gray-400" />
+                    <select
+                      value={pair.targetColumn}
+                      onChange={(e) => updatePair(index, { targetColumn: e.target.value })}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Select column</option>
+                      {targetTable?.columns.map(column => <option key={column.id} value={column.id}>{column.name}</option>)}
+                    </select>
+                    <button
+                      onClick={() => setPairs(pairs.filter(other => other !== pair))}
+                      disabled={pairs.length === 1}
+                      title="Remove column pair"
+                      className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-red-600 disabled:opacity-30 disabled:hover:bg-transparent"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => setPairs([...pairs, { sourceColumn: '', targetColumn: '' }])}
+                className="mt-2 flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Plus className="w-4 h-4" />
+                Add column pair
+              </button>
+              {hasDuplicates && (
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400">Each column can only be used once per side.</p>
+              )}
+              {!isTargetUnique && (
+                <p className="mt-2 text-sm text-amber-600 dark:text-amber-400 flex items-start gap-1">
+                  <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                  The referenced columns are not the primary key or a unique index of {targetTable?.name}, which most databases require.
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -152,7 +274,8 @@ export const RelationshipEditorModal: React.FC<RelationshipEditorModalProps> = (
             </button>
             <button
               onClick={handleSave}
-              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center gap-2"
+              disabled={!canSave}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Save className="w-4 h-4" />
               Save
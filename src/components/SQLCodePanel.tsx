@@ -1,12 +1,14 @@
 import React, { useMemo } from 'react';
 import { Copy, X, Check } from 'lucide-react';
-import { TableData, RelationshipData, SQLDialect } from '../types';
+import { TableData, RelationshipData, SQLDialect, ConstraintNaming, CustomTypeData } from '../types';
 import { SQLGenerator } from '../utils/sqlGenerator';
 
 interface SQLCodePanelProps {
   tables: TableData[];
   relationships: RelationshipData[];
   dialect: SQLDialect;
+  constraintNaming?: ConstraintNaming;
+  customTypes?: CustomTypeData[];
   isOpen: boolean;
   onClose: () => void;
 }
@@ -15,15 +17,20 @@ export const SQLCodePanel: React.FC<SQLCodePanelProps> = ({
   tables,
   relationships,
   dialect,
+  constraintNaming,
+  customTypes,
   isOpen,
   onClose
 }) => {
   const [copied, setCopied] = React.useState(false);
+  const [script, setScript] = React.useState<'create' | 'drop'>('create');
 
   const sqlCode = useMemo(() => {
-    const generator = new SQLGenerator(dialect);
-    return generator.generateFullSQL(tables, relationships);
-  }, [tables, relationships, dialect]);
+    const generator = new SQLGenerator(dialect, constraintNaming, customTypes);
+    return script === 'create'
+      ? generator.generateFullSQL(tables, relationships)
+      : generator.generateDropSQL(tables, relationships);
+  }, [tables, relationships, dialect, constraintNaming, customTypes, script]);
 
   const handleCopy = async () => {
     try {
@@ -46,6 +53,17 @@ export const SQLCodePanel: React.FC<SQLCodePanelProps> = ({
           <p className="text-sm text-gray-600">Dialect: {dialect.toUpperCase()}</p>
         </div>
         <div className="flex items-center gap-2">
+          <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+            {(['create', 'drop'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setScript(option)}
+                className={`px-3 py-1 ${script === option ? 'bg-gray-200 text-gray-800' : 'text-gray-600 hover:bg-gray-100'}`}
+              >
+                {option === 'create' ? 'Create' : 'Drop'}
+              </button>
+            ))}
+          </div>
           <button
             onClick={handleCopy}
             className="flex items-center gap-2 px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
@@ -1,9 +1,11 @@
 import React, { useState, useMemo } from 'react';
-import { X, Cloud, Github, Database, Copy, Check, ExternalLink } from 'lucide-react';
+import { X, Cloud, Github, Database, Copy, Check, ExternalLink, GitCompare, Tag } from 'lucide-react';
 import { useSupabase } from '../hooks/useSupabase';
 import { useGitHub } from '../hooks/useGitHub';
-import { ProjectData } from '../types';
+import { ProjectData, ConstraintNaming } from '../types';
 import { SQLGenerator } from '../utils/sqlGenerator';
+import { DEFAULT_CONSTRAINT_NAMING, formatConstraintName, getConstraintNaming } from '../utils/tableConstraints';
+import { generateMigration, Migration } from '../utils/schemaDiff';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -12,15 +14,24 @@ interface SettingsModalProps {
   github: ReturnType<typeof useGitHub>;
   projectData: ProjectData;
   onProjectLoad: (data: ProjectData) => void;
+  onConstraintNamingChange: (naming: ConstraintNaming) => void;
 }
 
+const NAMING_FIELDS: { key: keyof ConstraintNaming; label: string; columns: string[] }[] = [
+  { key: 'unique', label: 'UNIQUE', columns: ['email'] },
+  { key: 'foreignKey', label: 'Foreign key', columns: ['customer_id'] },
+  { key: 'check', label: 'CHECK', columns: [] },
+  { key: 'exclude', label: 'EXCLUDE', columns: ['room', 'during'] },
+];
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
   supabase,
   github,
   projectData,
-  onProjectLoad
+  onProjectLoad,
+  onConstraintNamingChange
 }) => {
   const [activeTab, setActiveTab] = useState('supabase');
   const [supabaseUrl, setSupabaseUrl] = useState('');
@@ -28,10 +39,12 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   const [githubToken, setGithubToken] = useState('');
   const [showSql, setShowSql] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [migration, setMigration] = useState<Migration | null>(null);
+  const [migrationDirection, setMigrationDirection] = useState<'up' | 'down'>('up');
 
   const sqlCode = useMemo(() => {
     if (!showSql) return '';
-    const generator = new SQLGenerator('postgresql'); // Supabase uses PostgreSQL
+    const generator = new SQLGenerator('postgresql', projectData.constraintNaming, projectData.customTypes); // Supabase uses PostgreSQL
     return generator.generateFullSQL(projectData.tables, projectData.relationships);
   }, [showSql, projectData]);
 
@@ -71,19 +84,45 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     }
   };
 
+  const handleCompareWithGitHub = async () => {
+    const repoName = prompt('Enter repository name (e.g., username/repo):');
+    const filePath = prompt('Enter file path (e.g., sql-architect.json):', 'sql-architect.json');
+    if (repoName && filePath) {
+      try {
+        const savedProject = await github.loadProjectFromRepo(repoName, filePath);
+        if (savedProject) {
+          setMigration(generateMigration(savedProject, projectData, projectData.dialect));
+          setMigrationDirection('up');
+        }
+      } catch (e) {
+        alert(`Failed to load: ${e instanceof Error ? e.message : 'Unknown error'}`);
+      }
+    }
+  };
+
+  const handleCopyMigration = async () => {
+    if (!migration) return;
+    await navigator.clipboard.writeText(migration[migrationDirection]);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
   if (!isOpen) return null;
 
   const tabs = [
     { id: 'supabase', label: 'Supabase', icon: Database },
     { id: 'github', label: 'GitHub', icon: Github },
+    { id: 'naming', label: 'Naming', icon: Tag },
   ];
 
+  const naming = getConstraintNaming(projectData.constraintNaming);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
         <div className="flex items-center justify-between p-4 border-b border-gray-200">
           <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
-            <Cloud className="w-5 h-5" /> Integrations
+            <Cloud className="w-5 h-5" /> Settings
           </h2>
           <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-md">
             <X className="w-5 h-5 text-gray-500" />
@@ -235,10 +274,79 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                       Load Project from Repo
                     </button>
                   </div>
+
+                  <h4 className="text-lg font-semibold text-gray-800 mt-8 mb-2">Migrations</h4>
+                  <p className="text-sm text-gray-600 mb-4">
+                    Compare the canvas with a project saved in a repository and generate the ALTER script between them.
+                  </p>
+                  <button
+                    onClick={handleCompareWithGitHub}
+                    disabled={github.isLoading}
+                    className="flex items-center gap-2 px-4 py-2 bg-indigo-500 text-white rounded-md hover:bg-indigo-600 disabled:opacity-50"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                    Compare with Repo Version
+                  </button>
+                  {migration && (
+                    <div className="mt-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex gap-2">
+                          {(['up', 'down'] as const).map(direction => (
+                            <button
+                              key={direction}
+                              onClick={() => setMigrationDirection(direction)}
+                              className={`px-3 py-1 rounded-md text-sm ${
+                                migrationDirection === direction
+                                  ? 'bg-blue-600 text-white'
+                                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                              }`}
+                            >
+                              {direction === 'up' ? 'Up migration' : 'Down migration'}
+                            </button>
+                          ))}
+                        </div>
+                        <span className="text-xs text-gray-500">
+                          {migration.changes.length} change{migration.changes.length !== 1 ? 's' : ''}
+                        </span>
+                      </div>
+                      <div className="p-4 bg-gray-900 text-white rounded-lg relative">
+                        <button onClick={handleCopyMigration} className="absolute top-2 right-2 p-2 bg-gray-700 rounded-md hover:bg-gray-600">
+                          {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                        <pre className="text-sm whitespace-pre-wrap font-mono">{migration[migrationDirection]}</pre>
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           )}
+
+          {activeTab === 'naming' && (
+            <div className="space-y-4">
+              <h3 className="text-xl font-semibold text-gray-800">Constraint names</h3>
+              <p className="text-sm text-gray-600">
+                Templates for the names of generated constraints. <code>{'{table}'}</code> is the table name,{' '}
+                <code>{'{columns}'}</code> the column names joined with underscores and <code>{'{n}'}</code> a number
+                that keeps the name unique. Constraints you name yourself keep their names.
+              </p>
+              {NAMING_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                  <input
+                    key={naming[field.key]}
+                    defaultValue={naming[field.key]}
+                    placeholder={DEFAULT_CONSTRAINT_NAMING[field.key]}
+                    onBlur={(e) => e.target.value.trim() !== naming[field.key] && onConstraintNamingChange({ ...naming, [field.key]: e.target.value.trim() })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    For example {formatConstraintName(naming[field.key], 'orders', field.columns)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Minimize2 } from 'lucide-react';
+
+interface SubjectAreaNodeProps {
+  data: {
+    name: string;
+    color: string;
+    tableCount: number;
+    onCollapse: () => void;
+  };
+}
+
+// Coloured frame behind the tables of a subject area. Only the label takes clicks, so the tables and
+// the canvas inside stay usable.
+export const SubjectAreaNode: React.FC<SubjectAreaNodeProps> = ({ data }) => {
+  const { name, color, tableCount, onCollapse } = data;
+
+  return (
+    <div
+      className="w-full h-full rounded-xl border-2 border-dashed pointer-events-none"
+      style={{ borderColor: color, backgroundColor: `${color}14` }}
+    >
+      <div className="flex items-center gap-2 px-3 py-1.5 pointer-events-auto w-fit">
+        <span className="text-sm font-semibold" style={{ color }}>{name}</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {tableCount} table{tableCount !== 1 ? 's' : ''}
+        </span>
+        <button
+          onClick={onCollapse}
+          title="Collapse into one node"
+          className="p-0.5 rounded hover:bg-white/60 dark:hover:bg-gray-700/60"
+        >
+          <Minimize2 className="w-3 h-3" style={{ color }} />
+        </button>
+      </div>
+    </div>
+  );
+};
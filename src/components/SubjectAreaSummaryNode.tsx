@@ -0,0 +1,57 @@
+import React from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { Boxes, Maximize2 } from 'lucide-react';
+
+interface SubjectAreaSummaryNodeProps {
+  data: {
+    name: string;
+    color: string;
+    tableNames: string[];
+    note?: string;
+    onExpand: () => void;
+  };
+  selected: boolean;
+}
+
+const LISTED_TABLES = 8;
+
+// A collapsed subject area; relationships of its tables end here
+export const SubjectAreaSummaryNode: React.FC<SubjectAreaSummaryNodeProps> = ({ data, selected }) => {
+  const { name, color, tableNames, note, onExpand } = data;
+
+  return (
+    <div
+      className={`bg-white dark:bg-gray-800 rounded-lg shadow-lg border-2 min-w-64 ${selected ? 'border-blue-500' : 'border-gray-200 dark:border-gray-700'}`}
+      onDoubleClick={onExpand}
+    >
+      <Handle type="source" position={Position.Right} className="!w-3 !h-3 !bg-blue-500" />
+      <Handle type="target" position={Position.Left} className="!w-3 !h-3 !bg-green-500" />
+
+      <div className="text-white px-4 py-2 rounded-t-lg flex items-center gap-2" style={{ backgroundColor: color }}>
+        <Boxes className="w-4 h-4" />
+        <span className="font-semibold text-sm">{name}</span>
+        <button
+          onClick={onExpand}
+          title="Expand"
+          className="ml-auto p-0.5 rounded hover:bg-white/20"
+        >
+          <Maximize2 className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div className="px-4 py-2 space-y-0.5">
+        {note && <p className="text-xs text-gray-500 dark:text-gray-400 pb-1">{note}</p>}
+        {tableNames.slice(0, LISTED_TABLES).map(tableName => (
+          <div key={tableName} className="text-sm text-gray-800 dark:text-gray-200 truncate">{tableName}</div>
+        ))}
+        {tableNames.length > LISTED_TABLES && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">and {tableNames.length - LISTED_TABLES} more</div>
+        )}
+      </div>
+
+      <div className="px-4 py-2 bg-gray-50 dark:bg-gray-800/50 rounded-b-lg text-xs text-gray-600 dark:text-gray-400 border-t dark:border-gray-700">
+        {tableNames.length} table{tableNames.length !== 1 ? 's' : ''}, collapsed
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Layers, X, Plus, Minus, Trash2, Minimize2, Maximize2, Eye, ListChecks } from 'lucide-react';
+import { ProjectData, TableData, TableGroupData, DiagramViewData } from '../types';
+import { SUBJECT_AREA_COLORS } from '../utils/diagramViews';
+
+interface SubjectAreasPanelProps {
+  project: ProjectData;
+  // Tables on the canvas right now, at their canvas positions
+  canvasTables: TableData[];
+  selectedTableIds: string[];
+  onAddGroup: (group: Omit<TableGroupData, 'id'>) => void;
+  onUpdateGroup: (group: TableGroupData) => void;
+  onDeleteGroup: (id: string) => void;
+  onAddView: (view: Omit<DiagramViewData, 'id'>) => void;
+  onUpdateView: (view: DiagramViewData) => void;
+  onDeleteView: (id: string) => void;
+  onSetActiveView: (id: string | undefined) => void;
+  onClose: () => void;
+}
+
+export const SubjectAreasPanel: React.FC<SubjectAreasPanelProps> = ({
+  project,
+  canvasTables,
+  selectedTableIds,
+  onAddGroup,
+  onUpdateGroup,
+  onDeleteGroup,
+  onAddView,
+  onUpdateView,
+  onDeleteView,
+  onSetActiveView,
+  onClose
+}) => {
+  const [editingViewTables, setEditingViewTables] = useState(false);
+  const groups = project.tableGroups ?? [];
+  const views = project.diagramViews ?? [];
+  const activeView = views.find(view => view.id === project.activeViewId);
+
+  const handleAddView = () => {
+    // The new view starts from the selection, or else from what the canvas shows
+    const tables = selectedTableIds.length > 0
+      ? canvasTables.filter(table => selectedTableIds.includes(table.id))
+      : canvasTables;
+    onAddView({
+      name: `View ${views.length + 1}`,
+      tableIds: tables.map(table => table.id),
+      positions: Object.fromEntries(tables.map(table => [table.id, table.position])),
+    });
+  };
+
+  const handleAddGroup = () => {
+    onAddGroup({
+      name: `Area ${groups.length + 1}`,
+      tableIds: selectedTableIds,
+      color: SUBJECT_AREA_COLORS[groups.length % SUBJECT_AREA_COLORS.length],
+    });
+  };
+
+  const toggleViewTable = (view: DiagramViewData, tableId: string) => {
+    onUpdateView({
+      ...view,
+      tableIds: view.tableIds.includes(tableId) ? view.tableIds.filter(id => id !== tableId) : [...view.tableIds, tableId],
+    });
+  };
+
+  const nextColor = (group: TableGroupData) => {
+    const index = SUBJECT_AREA_COLORS.indexOf(group.color ?? '');
+    return SUBJECT_AREA_COLORS[(index + 1) % SUBJECT_AREA_COLORS.length];
+  };
+
+  return (
+    <div className="absolute top-4 left-4 z-10 w-80 max-h-[80%] flex flex-col bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="font-medium text-gray-800 dark:text-gray-100 flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Views & Subject Areas
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        {/* Views */}
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">Views</span>
+            <button
+              onClick={handleAddView}
+              title={selectedTableIds.length > 0 ? 'New view with the selected tables' : 'New view with the tables shown'}
+              className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <Plus className="w-3 h-3" />
+              New view
+            </button>
+          </div>
+          <button
+            onClick={() => onSetActiveView(undefined)}
+            className={`w-full text-left px-2 py-1 rounded text-sm flex items-center gap-2 ${!activeView ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-700 dark:text-blue-200' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+          >
+            <Eye className="w-3 h-3" />
+            All tables
+            <span className="ml-auto text-xs text-gray-400">{project.tables.length}</span>
+          </button>
+          {views.map(view => view === activeView ? (
+            <div key={view.id} className="px-2 py-1 rounded bg-blue-50 dark:bg-blue-900/40 space-y-1">
+              <div className="flex items-center gap-1">
+                <input
+                  key={view.name}
+                  defaultValue={view.name}
+                  onBlur={(e) => e.target.value.trim() && e.target.value !== view.name && onUpdateView({ ...view, name: e.target.value.trim() })}
+                  className="flex-1 min-w-0 px-1 py-0.5 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-800 dark:text-gray-100"
+                />
+                <button
+                  onClick={() => setEditingViewTables(!editingViewTables)}
+                  title="Choose tables"
+                  className={`p-1 rounded hover:bg-white dark:hover:bg-gray-700 ${editingViewTables ? 'text-blue-600' : 'text-gray-500'}`}
+                >
+                  <ListChecks className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onDeleteView(view.id)}
+                  title="Delete view"
+                  className="p-1 rounded hover:bg-white dark:hover:bg-gray-700 text-gray-500 hover:text-red-600"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              {editingViewTables && (
+                <div className="max-h-48 overflow-y-auto pl-1">
+                  {project.tables.map(table => (
+                    <label key={table.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={view.tableIds.includes(table.id)}
+                        onChange={() => toggleViewTable(view, table.id)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="truncate">{table.name}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <button
+              key={view.id}
+              onClick={() => onSetActiveView(view.id)}
+              className="w-full text-left px-2 py-1 rounded text-sm flex items-center gap-2 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <Eye className="w-3 h-3" />
+              <span className="truncate">{view.name}</span>
+              <span className="ml-auto text-xs text-gray-400">{view.tableIds.length}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Subject areas */}
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">Subject areas</span>
+            <button
+              onClick={handleAddGroup}
+              disabled={selectedTableIds.length === 0}
+              title="New subject area with the selected tables"
+              className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-40 disabled:no-underline"
+            >
+              <Plus className="w-3 h-3" />
+              From selection
+            </button>
+          </div>
+          {groups.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Select tables on the canvas (Shift+drag or Ctrl+click) to group them into a subject area.
+            </p>
+          )}
+          {groups.map(group => (
+            <div key={group.id} className="flex items-center gap-1 px-1 py-1 rounded hover:bg-gray-50 dark:hover:bg-gray-700">
+              <button
+                onClick={() => onUpdateGroup({ ...group, color: nextColor(group) })}
+                title="Change colour"
+                className="w-4 h-4 rounded-full shrink-0 border border-black/10"
+                style={{ backgroundColor: group.color ?? SUBJECT_AREA_COLORS[0] }}
+              />
+              <input
+                key={group.name}
+                defaultValue={group.name}
+                onBlur={(e) => e.target.value.trim() && e.target.value !== group.name && onUpdateGroup({ ...group, name: e.target.value.trim() })}
+                className="flex-1 min-w-0 px-1 py-0.5 text-sm bg-transparent border border-transparent hover:border-gray-300 dark:hover:border-gray-600 rounded text-gray-800 dark:text-gray-100"
+              />
+              <span className="text-xs text-gray-400 w-6 text-right">{group.tableIds.length}</span>
+              <button
+                onClick={() => onUpdateGroup({ ...group, tableIds: [...new Set([...group.tableIds, ...selectedTableIds])] })}
+                disabled={selectedTableIds.length === 0}
+                title="Add the selected tables"
+                className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-30"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onUpdateGroup({ ...group, tableIds: group.tableIds.filter(id => !selectedTableIds.includes(id)) })}
+                disabled={!selectedTableIds.some(id => group.tableIds.includes(id))}
+                title="Remove the selected tables"
+                className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-30"
+              >
+                <Minus className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onUpdateGroup({ ...group, collapsed: !group.collapsed })}
+                title={group.collapsed ? 'Expand' : 'Collapse into one node'}
+                className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-600"
+              >
+                {group.collapsed ? <Maximize2 className="w-3 h-3" /> : <Minimize2 className="w-3 h-3" />}
+              </button>
+              <button
+                onClick={() => onDeleteGroup(group.id)}
+                title="Delete subject area (keeps the tables)"
+                className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-600 hover:text-red-600"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,33 @@
 import React from 'react';
 import { Handle, Position } from '@xyflow/react';
-import { Database, Key, Link, Hash } from 'lucide-react';
-import { Column } from '../types';
+import { Database, Key, Link, Hash, AlertCircle, AlertTriangle, Minimize2 } from 'lucide-react';
+import { Column, ValidationIssue } from '../types';
 
 interface TableNodeProps {
   data: {
     name: string;
     columns: Column[];
+    issues?: ValidationIssue[];
     onEdit: () => void;
+    // Set on junction tables, which can fold into one M:N edge
+    onCollapseJunction?: () => void;
   };
   selected: boolean;
 }
 
 export const TableNode: React.FC<TableNodeProps> = ({ data, selected }) => {
-  const { name, columns, onEdit } = data;
+  const { name, columns, issues = [], onEdit, onCollapseJunction } = data;
+
+  const tableErrors = issues.filter(issue => issue.severity === 'error');
+  const tableWarnings = issues.filter(issue => issue.severity === 'warning');
+
+  const getIssueIcon = (columnIssues: ValidationIssue[]) => {
+    if (columnIssues.length === 0) return null;
+    const title = columnIssues.map(issue => issue.message).join('\n');
+    return columnIssues.some(issue => issue.severity === 'error')
+      ? <span title={title}><AlertCircle className="w-3 h-3 text-red-500 shrink-0" /></span>
+      : <span title={title}><AlertTriangle className="w-3 h-3 text-yellow-500 shrink-0" /></span>;
+  };
 
   const getColumnIcon = (column: Column) => {
     if (column.isPrimaryKey) return <Key className="w-3 h-3 text-yellow-500" />;
@@ -41,6 +55,35 @@ export const TableNode: React.FC<TableNodeProps> = ({ data, selected }) => {
       <div className="bg-blue-600 text-white px-4 py-2 rounded-t-lg flex items-center gap-2">
         <Database className="w-4 h-4" />
         <span className="font-semibold text-sm">{name}</span>
+        <div className="ml-auto flex items-center gap-1">
+          {tableErrors.length > 0 && (
+            <span
+              title={tableErrors.map(issue => issue.message).join('\n')}
+              className="flex items-center gap-1 bg-red-500 text-white text-xs px-1.5 py-0.5 rounded-full"
+            >
+              <AlertCircle className="w-3 h-3" />
+              {tableErrors.length}
+            </span>
+          )}
+          {tableWarnings.length > 0 && (
+            <span
+              title={tableWarnings.map(issue => issue.message).join('\n')}
+              className="flex items-center gap-1 bg-yellow-400 text-yellow-900 text-xs px-1.5 py-0.5 rounded-full"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {tableWarnings.length}
+            </span>
+          )}
+          {onCollapseJunction && (
+            <button
+              onClick={onCollapseJunction}
+              title="Collapse into an M:N edge"
+              className="p-0.5 rounded hover:bg-white/20"
+            >
+              <Minimize2 className="w-3 h-3" />
+            </button>
+          )}
+        </div>
       </div>
       
       {/* Columns */}
@@ -63,6 +106,7 @@ export const TableNode: React.FC<TableNodeProps> = ({ data, selected }) => {
                 <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
                   {column.name}
                 </span>
+                {getIssueIcon(issues.filter(issue => issue.columnId === column.id))}
               </div>
               <span className="text-xs text-gray-500 dark:text-gray-400 ml-2 shrink-0">
                 {getDataTypeDisplay(column)}
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { ShieldCheck, AlertCircle, AlertTriangle, X } from 'lucide-react';
+import { ValidationIssue } from '../types';
+import { VALIDATION_RULES } from '../utils/schemaValidator';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  disabledRules: string[];
+  onToggleRule: (ruleId: string, enabled: boolean) => void;
+  onSelectIssue: (issue: ValidationIssue) => void;
+  onClose: () => void;
+}
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({
+  issues,
+  disabledRules,
+  onToggleRule,
+  onSelectIssue,
+  onClose
+}) => {
+  const [activeTab, setActiveTab] = useState<'issues' | 'rules'>('issues');
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <div className="absolute top-4 left-4 z-10 w-96 max-h-[70%] flex flex-col bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="font-medium text-gray-800 dark:text-gray-100 flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4" />
+          Validation
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex border-b border-gray-200 dark:border-gray-700 text-sm">
+        {[
+          { id: 'issues' as const, label: `Issues (${errorCount} errors, ${warningCount} warnings)` },
+          { id: 'rules' as const, label: 'Rules' },
+        ].map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-3 py-2 border-b-2 ${
+              activeTab === tab.id
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-500 hover:text-gray-800 dark:hover:text-gray-200'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {activeTab === 'issues' && (
+          issues.length === 0 ? (
+            <div className="text-center py-6 text-sm text-gray-500 dark:text-gray-400">
+              No problems found.
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {issues.map((issue, index) => (
+                <button
+                  key={`${issue.ruleId}-${index}`}
+                  onClick={() => onSelectIssue(issue)}
+                  className="w-full text-left p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 flex gap-2"
+                >
+                  {issue.severity === 'error' ? (
+                    <AlertCircle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
+                  ) : (
+                    <AlertTriangle className="w-4 h-4 text-yellow-500 shrink-0 mt-0.5" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-800 dark:text-gray-200">{issue.message}</div>
+                    {issue.suggestion && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{issue.suggestion}</div>
+                    )}
+                    <div className="text-xs font-mono text-gray-400 mt-0.5">{issue.ruleId}</div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )
+        )}
+
+        {activeTab === 'rules' && (
+          <div className="space-y-1">
+            {VALIDATION_RULES.map(rule => (
+              <label
+                key={rule.id}
+                className="flex items-start gap-2 p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={!disabledRules.includes(rule.id)}
+                  onChange={(e) => onToggleRule(rule.id, e.target.checked)}
+                  className="mt-1"
+                />
+                <div>
+                  <div className="text-sm text-gray-800 dark:text-gray-200">{rule.description}</div>
+                  <div className="text-xs text-gray-400">
+                    <span className="font-mono">{rule.id}</span>
+                    {' · '}
+                    <span className={rule.severity === 'error' ? 'text-red-500' : 'text-yellow-600'}>{rule.severity}</span>
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
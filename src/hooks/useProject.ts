@@ -1,4 +1,4 @@
-import { useReducer, useCallback } from 'react';
+import { useReducer, useCallback, useMemo } from 'react';
 import { 
   TableData, 
   RelationshipData, 
@@ -9,11 +9,20 @@ import {
   ViewData, 
   StoredProcedureData, 
   TriggerData, 
-  UserData 
+  UserData,
+  TableGroupData,
+  DiagramViewData,
+  ManyToManyOptions,
+  ConstraintNaming,
+  CustomTypeData
 } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { convertProject, TypeMappingOverrides } from '../utils/dialectConverter';
+import { getColumnPairs } from '../utils/relationshipColumns';
+import { buildJunction, junctionKeyColumns, JunctionLink } from '../utils/junctionTables';
+import { withStorageType } from '../utils/customTypes';
 
-const initialProjectState: ProjectData = {
+export const initialProjectState: ProjectData = {
   databases: [{
     id: 'default_db_id',
     name: 'default_db',
@@ -36,6 +45,7 @@ type ProjectAction =
   | { type: 'SET_PROJECT'; payload: ProjectData }
   | { type: 'SET_PROJECT_NAME'; payload: string }
   | { type: 'SET_DIALECT'; payload: SQLDialect }
+  | { type: 'CONVERT_DIALECT'; payload: { dialect: SQLDialect; overrides: TypeMappingOverrides } }
   | { type: 'SET_CURRENT_DATABASE'; payload: string }
   | { type: 'ADD_DATABASE'; payload: DatabaseData }
   | { type: 'ADD_TABLE'; payload: TableData }
@@ -45,12 +55,45 @@ type ProjectAction =
   | { type: 'ADD_RELATIONSHIP'; payload: RelationshipData }
   | { type: 'UPDATE_RELATIONSHIP'; payload: RelationshipData }
   | { type: 'DELETE_RELATIONSHIP'; payload: string }
+  // A new or existing junction table with its two relationships
+  | { type: 'ADD_JUNCTION'; payload: JunctionLink }
   | { type: 'ADD_INDEX'; payload: IndexData }
   | { type: 'ADD_VIEW'; payload: ViewData }
   | { type: 'ADD_PROCEDURE'; payload: StoredProcedureData }
   | { type: 'ADD_TRIGGER'; payload: TriggerData }
   | { type: 'ADD_USER'; payload: UserData }
-  | { type: 'CLEAR_PROJECT' };
+  | { type: 'SET_DISABLED_RULES'; payload: string[] }
+  | { type: 'SET_CONSTRAINT_NAMING'; payload: ConstraintNaming }
+  | { type: 'ADD_TABLE_GROUP'; payload: TableGroupData }
+  | { type: 'UPDATE_TABLE_GROUP'; payload: TableGroupData }
+  | { type: 'DELETE_TABLE_GROUP'; payload: string }
+  | { type: 'ADD_DIAGRAM_VIEW'; payload: DiagramViewData }
+  | { type: 'UPDATE_DIAGRAM_VIEW'; payload: DiagramViewData }
+  | { type: 'DELETE_DIAGRAM_VIEW'; payload: string }
+  | { type: 'SET_ACTIVE_VIEW'; payload: string | undefined }
+  | { type: 'ADD_CUSTOM_TYPE'; payload: CustomTypeData }
+  | { type: 'UPDATE_CUSTOM_TYPE'; payload: CustomTypeData }
+  | { type: 'DELETE_CUSTOM_TYPE'; payload: string }
+  | { type: 'CLEAR_PROJECT' }
+  // Several changes applied as one undo step
+  | { type: 'BATCH'; payload: { label: string; actions: ProjectAction[] } };
+
+// The source columns hold the foreign key, as in the generated SQL and the imported schemas
+const markForeignKeyColumns = (tables: TableData[], rel: RelationshipData, marked: boolean): TableData[] => {
+  const pairs = getColumnPairs(rel);
+  return tables.map(t => t.id === rel.sourceTable
+    ? {
+        ...t,
+        columns: t.columns.map(c => {
+          const pair = pairs.find(p => p.sourceColumn === c.id);
+          if (!pair) return c;
+          return marked
+            ? { ...c, isForeignKey: true, referencesTable: rel.targetTable, referencesColumn: pair.targetColumn }
+            : { ...c, isForeignKey: false, referencesTable: undefined, referencesColumn: undefined };
+        }),
+      }
+    : t);
+};
 
 const projectReducer = (state: ProjectData, action: ProjectAction): ProjectData => {
   switch (action.type) {
@@ -60,12 +103,20 @@ const projectReducer = (state: ProjectData, action: ProjectAction): ProjectData
       return { ...state, name: action.payload };
     case 'SET_DIALECT':
       return { ...state, dialect: action.payload };
+    case 'CONVERT_DIALECT':
+      return convertProject(state, action.payload.dialect, action.payload.overrides).project;
     case 'SET_CURRENT_DATABASE':
       return { ...state, currentDatabase: action.payload };
     case 'ADD_DATABASE':
       return { ...state, databases: [...state.databases, action.payload] };
+    // New objects belong to the database that is selected when they are created
     case 'ADD_TABLE':
-      return { ...state, tables: [...state.tables, action.payload] };
+      return {
+        ...state,
+        tables: [...state.tables, { ...action.payload, databaseId: action.payload.databaseId ?? state.currentDatabase }],
+        // and to the diagram view that is open
+        diagramViews: state.diagramViews?.map(v => v.id === state.activeViewId ? { ...v, tableIds: [...v.tableIds, action.payload.id] } : v),
+      };
     case 'UPDATE_TABLE':
       return { ...state, tables: state.tables.map(t => t.id === action.payload.id ? action.payload : t) };
     case 'DELETE_TABLE':
@@ -75,62 +126,270 @@ const projectReducer = (state: ProjectData, action: ProjectAction): ProjectData
         relationships: state.relationships.filter(r => r.sourceTable !== action.payload && r.targetTable !== action.payload),
         indexes: state.indexes.filter(i => i.tableId !== action.payload),
         triggers: state.triggers.filter(t => t.tableId !== action.payload),
+        tableGroups: state.tableGroups?.map(g => ({ ...g, tableIds: g.tableIds.filter(id => id !== action.payload) })),
+        diagramViews: state.diagramViews?.map(v => {
+          const positions = { ...v.positions };
+          delete positions[action.payload];
+          return { ...v, tableIds: v.tableIds.filter(id => id !== action.payload), positions };
+        }),
       };
-    case 'UPDATE_TABLE_POSITION':
-      return { ...state, tables: state.tables.map(t => t.id === action.payload.id ? { ...t, position: action.payload.position } : t) };
-    case 'ADD_RELATIONSHIP': {
-      const newState = { ...state, relationships: [...state.relationships, action.payload] };
-      // Automatically mark the column as a foreign key
-      const targetTable = newState.tables.find(t => t.id === action.payload.targetTable);
-      if (targetTable) {
-        targetTable.columns = targetTable.columns.map(c => 
-          c.id === action.payload.targetColumn 
-            ? { ...c, isForeignKey: true, referencesTable: action.payload.sourceTable, referencesColumn: action.payload.sourceColumn }
-            : c
-        );
+    case 'UPDATE_TABLE_POSITION': {
+      // Within a diagram view, tables move in that view only
+      const view = state.diagramViews?.find(v => v.id === state.activeViewId);
+      if (view) {
+        return {
+          ...state,
+          diagramViews: state.diagramViews!.map(v => v === view
+            ? { ...v, positions: { ...v.positions, [action.payload.id]: action.payload.position } }
+            : v),
+        };
       }
-      return newState;
+      return { ...state, tables: state.tables.map(t => t.id === action.payload.id ? { ...t, position: action.payload.position } : t) };
+    }
+    case 'ADD_RELATIONSHIP':
+      return {
+        ...state,
+        relationships: [...state.relationships, action.payload],
+        // Automatically mark the columns as foreign keys
+        tables: markForeignKeyColumns(state.tables, action.payload, true),
+      };
+    case 'UPDATE_RELATIONSHIP': {
+      const previous = state.relationships.find(r => r.id === action.payload.id);
+      // Columns the relationship no longer uses stop being foreign keys before the new ones are marked
+      const tables = previous ? markForeignKeyColumns(state.tables, previous, false) : state.tables;
+      return {
+        ...state,
+        relationships: state.relationships.map(r => r.id === action.payload.id ? action.payload : r),
+        tables: markForeignKeyColumns(tables, action.payload, true),
+      };
     }
-    case 'UPDATE_RELATIONSHIP':
-      return { ...state, relationships: state.relationships.map(r => r.id === action.payload.id ? action.payload : r) };
     case 'DELETE_RELATIONSHIP': {
       const relToDelete = state.relationships.find(r => r.id === action.payload);
-      const newState = { ...state, relationships: state.relationships.filter(r => r.id !== action.payload) };
-      // Unset foreign key properties
-      if (relToDelete) {
-        const targetTable = newState.tables.find(t => t.id === relToDelete.targetTable);
-        if (targetTable) {
-          targetTable.columns = targetTable.columns.map(c => 
-            c.id === relToDelete.targetColumn 
-              ? { ...c, isForeignKey: false, referencesTable: undefined, referencesColumn: undefined }
-              : c
-          );
-        }
+      const relationships = state.relationships.filter(r => r.id !== action.payload);
+      if (!relToDelete) {
+        return { ...state, relationships };
       }
-      return newState;
+      return {
+        ...state,
+        relationships,
+        // Unset foreign key properties
+        tables: markForeignKeyColumns(state.tables, relToDelete, false),
+      };
+    }
+    case 'ADD_JUNCTION': {
+      const { table, relationships } = action.payload;
+      // Its columns are already marked, so the relationships are added as they are
+      const withTable = state.tables.some(t => t.id === table.id)
+        ? { ...state, tables: state.tables.map(t => t.id === table.id ? table : t) }
+        : projectReducer(state, { type: 'ADD_TABLE', payload: table });
+      return { ...withTable, relationships: [...withTable.relationships, ...relationships] };
     }
     case 'ADD_INDEX':
       return { ...state, indexes: [...state.indexes, action.payload] };
     case 'ADD_VIEW':
-      return { ...state, views: [...state.views, action.payload] };
+      return { ...state, views: [...state.views, { ...action.payload, databaseId: action.payload.databaseId ?? state.currentDatabase }] };
     case 'ADD_PROCEDURE':
-      return { ...state, procedures: [...state.procedures, action.payload] };
+      return { ...state, procedures: [...state.procedures, { ...action.payload, databaseId: action.payload.databaseId ?? state.currentDatabase }] };
     case 'ADD_TRIGGER':
       return { ...state, triggers: [...state.triggers, action.payload] };
     case 'ADD_USER':
       return { ...state, users: [...state.users, action.payload] };
+    case 'SET_DISABLED_RULES':
+      return { ...state, disabledRules: action.payload };
+    case 'SET_CONSTRAINT_NAMING':
+      return { ...state, constraintNaming: action.payload };
+    // A table belongs to one subject area at most
+    case 'ADD_TABLE_GROUP':
+    case 'UPDATE_TABLE_GROUP': {
+      const group = action.payload;
+      const others = (state.tableGroups ?? [])
+        .map(g => g.id === group.id ? g : { ...g, tableIds: g.tableIds.filter(id => !group.tableIds.includes(id)) });
+      return {
+        ...state,
+        tableGroups: action.type === 'ADD_TABLE_GROUP' ? [...others, group] : others.map(g => g.id === group.id ? group : g),
+      };
+    }
+    case 'DELETE_TABLE_GROUP':
+      return { ...state, tableGroups: state.tableGroups?.filter(g => g.id !== action.payload) };
+    case 'ADD_DIAGRAM_VIEW':
+      return { ...state, diagramViews: [...(state.diagramViews ?? []), action.payload], activeViewId: action.payload.id };
+    case 'UPDATE_DIAGRAM_VIEW':
+      return { ...state, diagramViews: state.diagramViews?.map(v => v.id === action.payload.id ? action.payload : v) };
+    case 'DELETE_DIAGRAM_VIEW':
+      return {
+        ...state,
+        diagramViews: state.diagramViews?.filter(v => v.id !== action.payload),
+        activeViewId: state.activeViewId === action.payload ? undefined : state.activeViewId,
+      };
+    case 'SET_ACTIVE_VIEW':
+      return { ...state, activeViewId: action.payload };
+    case 'ADD_CUSTOM_TYPE':
+      return { ...state, customTypes: [...(state.customTypes ?? []), action.payload] };
+    // Columns show the name of their type, so a rename carries over to them
+    case 'UPDATE_CUSTOM_TYPE': {
+      const customType = action.payload;
+      return {
+        ...state,
+        customTypes: state.customTypes?.map(t => t.id === customType.id ? customType : t),
+        tables: state.tables.map(t => t.columns.some(c => c.customTypeId === customType.id)
+          ? { ...t, columns: t.columns.map(c => c.customTypeId === customType.id ? { ...c, dataType: customType.name } : c) }
+          : t),
+      };
+    }
+    // Columns of a deleted type keep the built-in type it was stored as
+    case 'DELETE_CUSTOM_TYPE':
+      return {
+        ...state,
+        customTypes: state.customTypes?.filter(t => t.id !== action.payload),
+        tables: state.tables.map(t => t.columns.some(c => c.customTypeId === action.payload)
+          ? { ...t, columns: t.columns.map(c => c.customTypeId === action.payload ? withStorageType(c, state.customTypes, state.dialect) : c) }
+          : t),
+      };
     case 'CLEAR_PROJECT':
       return initialProjectState;
+    case 'BATCH':
+      return action.payload.actions.reduce(projectReducer, state);
     default:
       return state;
   }
 };
 
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+}
+
+interface HistoryState {
+  entries: (HistoryEntry & { project: ProjectData; coalesceKey?: string })[];
+  index: number;
+  nextId: number;
+}
+
+type HistoryAction =
+  | ProjectAction
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'JUMP_TO_HISTORY'; payload: number }
+  | { type: 'RESET_HISTORY'; payload: ProjectData };
+
+const MAX_HISTORY = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+const tableName = (state: ProjectData, id: string) => state.tables.find(t => t.id === id)?.name || 'table';
+
+const relationshipName = (state: ProjectData, rel: RelationshipData) =>
+  `${tableName(state, rel.sourceTable)} → ${tableName(state, rel.targetTable)}`;
+
+const describeAction = (state: ProjectData, action: ProjectAction): string => {
+  switch (action.type) {
+    case 'SET_PROJECT': return `Load project ${action.payload.name}`;
+    case 'SET_PROJECT_NAME': return 'Rename project';
+    case 'SET_DIALECT': return `Switch dialect to ${action.payload}`;
+    case 'CONVERT_DIALECT': return `Convert project to ${action.payload.dialect}`;
+    case 'SET_CURRENT_DATABASE': return 'Select database';
+    case 'ADD_DATABASE': return `Add database ${action.payload.name}`;
+    case 'ADD_TABLE': return `Add table ${action.payload.name}`;
+    case 'UPDATE_TABLE': return `Edit table ${action.payload.name}`;
+    case 'DELETE_TABLE': return `Delete table ${tableName(state, action.payload)}`;
+    case 'UPDATE_TABLE_POSITION': return `Move table ${tableName(state, action.payload.id)}`;
+    case 'ADD_RELATIONSHIP': return `Add relationship ${relationshipName(state, action.payload)}`;
+    case 'UPDATE_RELATIONSHIP': return `Edit relationship ${relationshipName(state, action.payload)}`;
+    case 'DELETE_RELATIONSHIP': {
+      const rel = state.relationships.find(r => r.id === action.payload);
+      return rel ? `Delete relationship ${relationshipName(state, rel)}` : 'Delete relationship';
+    }
+    case 'ADD_JUNCTION': {
+      const [a, b] = action.payload.relationships.map(r => tableName(state, r.targetTable));
+      return `Link ${a} and ${b} many-to-many`;
+    }
+    case 'ADD_INDEX': return `Add index ${action.payload.name}`;
+    case 'ADD_VIEW': return `Add view ${action.payload.name}`;
+    case 'ADD_PROCEDURE': return `Add procedure ${action.payload.name}`;
+    case 'ADD_TRIGGER': return `Add trigger ${action.payload.name}`;
+    case 'ADD_USER': return `Add user ${action.payload.username}`;
+    case 'SET_DISABLED_RULES': return 'Change validation rules';
+    case 'SET_CONSTRAINT_NAMING': return 'Change constraint naming';
+    case 'ADD_TABLE_GROUP': return `Add subject area ${action.payload.name}`;
+    case 'UPDATE_TABLE_GROUP': return `Edit subject area ${action.payload.name}`;
+    case 'DELETE_TABLE_GROUP': return `Delete subject area ${state.tableGroups?.find(g => g.id === action.payload)?.name ?? ''}`.trim();
+    case 'ADD_DIAGRAM_VIEW': return `Add view ${action.payload.name}`;
+    case 'UPDATE_DIAGRAM_VIEW': return `Edit view ${action.payload.name}`;
+    case 'DELETE_DIAGRAM_VIEW': return `Delete view ${state.diagramViews?.find(v => v.id === action.payload)?.name ?? ''}`.trim();
+    case 'SET_ACTIVE_VIEW': return `Show ${state.diagramViews?.find(v => v.id === action.payload)?.name ?? 'all tables'}`;
+    case 'ADD_CUSTOM_TYPE': return `Add type ${action.payload.name}`;
+    case 'UPDATE_CUSTOM_TYPE': return `Edit type ${action.payload.name}`;
+    case 'DELETE_CUSTOM_TYPE': return `Delete type ${state.customTypes?.find(t => t.id === action.payload)?.name ?? ''}`.trim();
+    case 'CLEAR_PROJECT': return 'Clear project';
+    case 'BATCH': return action.payload.label;
+    default: return 'Change';
+  }
+};
+
+// Rapid repeats of these actions (dragging tables around, typing a name) become a single undo step
+const coalesceKeyOf = (action: ProjectAction) => {
+  switch (action.type) {
+    case 'UPDATE_TABLE_POSITION':
+    case 'SET_PROJECT_NAME':
+      return action.type;
+    default:
+      return undefined;
+  }
+};
+
+const createHistoryState = (project: ProjectData, label: string): HistoryState => ({
+  entries: [{ id: 0, label, timestamp: Date.now(), project }],
+  index: 0,
+  nextId: 1,
+});
+
+const initialHistoryState = createHistoryState(initialProjectState, 'New project');
+
+const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'UNDO':
+      return { ...state, index: Math.max(0, state.index - 1) };
+    case 'REDO':
+      return { ...state, index: Math.min(state.entries.length - 1, state.index + 1) };
+    case 'JUMP_TO_HISTORY':
+      return { ...state, index: Math.min(Math.max(0, action.payload), state.entries.length - 1) };
+    case 'RESET_HISTORY':
+      return createHistoryState(action.payload, `Open ${action.payload.name}`);
+    default: {
+      const current = state.entries[state.index];
+      const project = projectReducer(current.project, action);
+      if (project === current.project) {
+        return state;
+      }
+
+      const now = Date.now();
+      const coalesceKey = coalesceKeyOf(action);
+      const isLatest = state.index === state.entries.length - 1;
+      if (coalesceKey && isLatest && state.index > 0 && current.coalesceKey === coalesceKey && now - current.timestamp < COALESCE_WINDOW_MS) {
+        // A multi-table drag dispatches one position update per table
+        const label = current.label === describeAction(current.project, action) ? current.label : 'Move tables';
+        const entries = [...state.entries];
+        entries[state.index] = { ...current, project, label, timestamp: now };
+        return { ...state, entries };
+      }
+
+      const entry = { id: state.nextId, label: describeAction(current.project, action), timestamp: now, project, coalesceKey };
+      const entries = [...state.entries.slice(0, state.index + 1), entry].slice(-MAX_HISTORY);
+      return { entries, index: entries.length - 1, nextId: state.nextId + 1 };
+    }
+  }
+};
+
 export const useProject = () => {
-  const [project, dispatch] = useReducer(projectReducer, initialProjectState);
+  const [historyState, dispatch] = useReducer(historyReducer, initialHistoryState);
+  const project = historyState.entries[historyState.index].project;
 
   const setProjectName = useCallback((name: string) => dispatch({ type: 'SET_PROJECT_NAME', payload: name }), []);
   const setDialect = useCallback((dialect: SQLDialect) => dispatch({ type: 'SET_DIALECT', payload: dialect }), []);
+  const convertDialect = useCallback(
+    (dialect: SQLDialect, overrides: TypeMappingOverrides = {}) => dispatch({ type: 'CONVERT_DIALECT', payload: { dialect, overrides } }),
+    []
+  );
   const setCurrentDatabase = useCallback((id: string) => dispatch({ type: 'SET_CURRENT_DATABASE', payload: id }), []);
 
   const addDatabase = useCallback((db: Omit<DatabaseData, 'id'>) => {
@@ -156,6 +415,13 @@ export const useProject = () => {
   const updateTable = useCallback((table: TableData) => dispatch({ type: 'UPDATE_TABLE', payload: table }), []);
   const deleteTable = useCallback((id: string) => dispatch({ type: 'DELETE_TABLE', payload: id }), []);
   const updateTablePosition = useCallback((id: string, position: { x: number; y: number }) => dispatch({ type: 'UPDATE_TABLE_POSITION', payload: { id, position } }), []);
+  const updateTablePositions = useCallback((positions: Record<string, { x: number; y: number }>, label: string) => dispatch({
+    type: 'BATCH',
+    payload: {
+      label,
+      actions: Object.entries(positions).map(([id, position]) => ({ type: 'UPDATE_TABLE_POSITION', payload: { id, position } })),
+    },
+  }), []);
 
   const addRelationship = useCallback((rel: Omit<RelationshipData, 'id'>) => {
     const newRel = { ...rel, id: uuidv4() };
@@ -165,6 +431,26 @@ export const useProject = () => {
   const updateRelationship = useCallback((rel: RelationshipData) => dispatch({ type: 'UPDATE_RELATIONSHIP', payload: rel }), []);
   const deleteRelationship = useCallback((id: string) => dispatch({ type: 'DELETE_RELATIONSHIP', payload: id }), []);
 
+  const addManyToMany = useCallback((options: ManyToManyOptions) => {
+    const source = project.tables.find(t => t.id === options.sourceTable);
+    const target = project.tables.find(t => t.id === options.targetTable);
+    if (!source || !target) return null;
+    const link = buildJunction(
+      [
+        { table: source, columns: junctionKeyColumns(source, options.sourceColumn) },
+        { table: target, columns: junctionKeyColumns(target, options.targetColumn) },
+      ],
+      {
+        table: project.tables.find(t => t.id === options.junctionTableId),
+        name: options.junctionName,
+        onUpdate: options.onUpdate,
+        onDelete: options.onDelete,
+      }
+    );
+    dispatch({ type: 'ADD_JUNCTION', payload: link });
+    return link;
+  }, [project]);
+
   const addIndex = useCallback((index: Omit<IndexData, 'id'>) => {
     const newIndex = { ...index, id: uuidv4() };
     dispatch({ type: 'ADD_INDEX', payload: newIndex });
@@ -195,30 +481,93 @@ export const useProject = () => {
     return newUser;
   }, []);
   
+  const setDisabledRules = useCallback((ruleIds: string[]) => dispatch({ type: 'SET_DISABLED_RULES', payload: ruleIds }), []);
+
+  const setConstraintNaming = useCallback((naming: ConstraintNaming) => dispatch({ type: 'SET_CONSTRAINT_NAMING', payload: naming }), []);
+
+  const addTableGroup = useCallback((group: Omit<TableGroupData, 'id'>) => {
+    const newGroup = { ...group, id: uuidv4() };
+    dispatch({ type: 'ADD_TABLE_GROUP', payload: newGroup });
+    return newGroup;
+  }, []);
+  const updateTableGroup = useCallback((group: TableGroupData) => dispatch({ type: 'UPDATE_TABLE_GROUP', payload: group }), []);
+  const deleteTableGroup = useCallback((id: string) => dispatch({ type: 'DELETE_TABLE_GROUP', payload: id }), []);
+
+  const addDiagramView = useCallback((view: Omit<DiagramViewData, 'id'>) => {
+    const newView = { ...view, id: uuidv4() };
+    dispatch({ type: 'ADD_DIAGRAM_VIEW', payload: newView });
+    return newView;
+  }, []);
+  const updateDiagramView = useCallback((view: DiagramViewData) => dispatch({ type: 'UPDATE_DIAGRAM_VIEW', payload: view }), []);
+  const deleteDiagramView = useCallback((id: string) => dispatch({ type: 'DELETE_DIAGRAM_VIEW', payload: id }), []);
+  const setActiveView = useCallback((id: string | undefined) => dispatch({ type: 'SET_ACTIVE_VIEW', payload: id }), []);
+
+  const addCustomType = useCallback((customType: Omit<CustomTypeData, 'id'>) => {
+    const newType = { ...customType, id: uuidv4() };
+    dispatch({ type: 'ADD_CUSTOM_TYPE', payload: newType });
+    return newType;
+  }, []);
+  const updateCustomType = useCallback((customType: CustomTypeData) => dispatch({ type: 'UPDATE_CUSTOM_TYPE', payload: customType }), []);
+  const deleteCustomType = useCallback((id: string) => dispatch({ type: 'DELETE_CUSTOM_TYPE', payload: id }), []);
+
   const exportProject = useCallback((): ProjectData => project, [project]);
   const importProject = useCallback((data: ProjectData) => dispatch({ type: 'SET_PROJECT', payload: data }), []);
   const clearProject = useCallback(() => dispatch({ type: 'CLEAR_PROJECT' }), []);
+  // Switches to another project; unlike importProject this starts a fresh history
+  const openProject = useCallback((data: ProjectData) => dispatch({ type: 'RESET_HISTORY', payload: data }), []);
+
+  const undo = useCallback(() => dispatch({ type: 'UNDO' }), []);
+  const redo = useCallback(() => dispatch({ type: 'REDO' }), []);
+  const jumpToHistory = useCallback((index: number) => dispatch({ type: 'JUMP_TO_HISTORY', payload: index }), []);
+
+  const history = useMemo(
+    (): HistoryEntry[] => historyState.entries.map(({ id, label, timestamp }) => ({ id, label, timestamp })),
+    [historyState.entries]
+  );
 
   return {
     project,
     setProjectName,
     setDialect,
+    convertDialect,
     setCurrentDatabase,
     addDatabase,
     addTable,
     updateTable,
     deleteTable,
     updateTablePosition,
+    updateTablePositions,
     addRelationship,
     updateRelationship,
     deleteRelationship,
+    addManyToMany,
     addIndex,
     addView,
     addProcedure,
     addTrigger,
     addUser,
+    setDisabledRules,
+    setConstraintNaming,
+    addTableGroup,
+    updateTableGroup,
+    deleteTableGroup,
+    addDiagramView,
+    updateDiagramView,
+    deleteDiagramView,
+    setActiveView,
+    addCustomType,
+    updateCustomType,
+    deleteCustomType,
     exportProject,
     importProject,
     clearProject,
+    openProject,
+    history,
+    historyIndex: historyState.index,
+    canUndo: historyState.index > 0,
+    canRedo: historyState.index < historyState.entries.length - 1,
+    undo,
+    redo,
+    jumpToHistory,
   };
 };
@@ -0,0 +1,198 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from 'react-hot-toast';
+import { v4 as uuidv4 } from 'uuid';
+import { ProjectData } from '../types';
+import { initialProjectState } from './useProject';
+import {
+  StoredProject,
+  StoredProjectSummary,
+  ProjectSnapshot,
+  getActiveProjectId,
+  setActiveProjectId,
+  listProjects,
+  loadProject,
+  saveProject,
+  deleteProject as deleteStoredProject,
+  listSnapshots,
+} from '../utils/projectStorage';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+export const useProjectPersistence = (project: ProjectData, openProject: (data: ProjectData) => void) => {
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<StoredProjectSummary[]>([]);
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [newerCopy, setNewerCopy] = useState<StoredProject | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+
+  // updatedAt of the stored copy this tab last loaded or wrote; anything newer was saved elsewhere
+  const syncedAtRef = useRef(0);
+  const savedDataRef = useRef<ProjectData | null>(null);
+  const projectRef = useRef(project);
+  projectRef.current = project;
+  const projectIdRef = useRef(projectId);
+  projectIdRef.current = projectId;
+
+  const refreshLists = useCallback(async (id: string) => {
+    const [storedProjects, storedSnapshots] = await Promise.all([listProjects(), listSnapshots(id)]);
+    setProjects(storedProjects);
+    setSnapshots(storedSnapshots);
+  }, []);
+
+  const markSynced = useCallback((record: StoredProject) => {
+    syncedAtRef.current = record.updatedAt;
+    savedDataRef.current = record.data;
+    setLastSavedAt(record.updatedAt);
+  }, []);
+
+  const save = useCallback(async () => {
+    const id = projectIdRef.current;
+    const data = projectRef.current;
+    if (!id || data === savedDataRef.current) return;
+
+    try {
+      // Never overwrite a copy saved by another tab without asking
+      const stored = await loadProject(id);
+      if (stored && stored.updatedAt > syncedAtRef.current) {
+        setNewerCopy(stored);
+        return;
+      }
+      markSynced(await saveProject(id, data));
+      await refreshLists(id);
+    } catch (error) {
+      console.error('Autosave failed:', error);
+    }
+  }, [markSynced, refreshLists]);
+
+  // Restore the last active project on startup
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+
+    const restore = async () => {
+      const activeId = getActiveProjectId();
+      const stored = activeId ? await loadProject(activeId) : null;
+      if (stored) {
+        markSynced(stored);
+        openProject(stored.data);
+        toast.success(`Restored "${stored.name}" from ${new Date(stored.updatedAt).toLocaleString()}`);
+      }
+      const id = stored?.id ?? uuidv4();
+      setActiveProjectId(id);
+      setProjectId(id);
+      await refreshLists(id);
+    };
+
+    restore().catch(error => {
+      console.error('Failed to restore project:', error);
+      setProjectId(uuidv4());
+    });
+  }, [markSynced, openProject, refreshLists]);
+
+  // Debounced autosave
+  useEffect(() => {
+    if (!projectId || newerCopy || project === savedDataRef.current) return;
+    const timeout = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [project, projectId, newerCopy, save]);
+
+  // Flush pending changes when the tab is hidden, and look for newer copies when it comes back
+  useEffect(() => {
+    const handleVisibilityChange = async () => {
+      const id = projectIdRef.current;
+      if (!id) return;
+      if (document.visibilityState === 'hidden') {
+        save();
+        return;
+      }
+      const stored = await loadProject(id).catch(() => null);
+      if (stored && stored.updatedAt > syncedAtRef.current) {
+        setNewerCopy(stored);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', save);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [save]);
+
+  const recoverNewerCopy = useCallback(() => {
+    if (!newerCopy) return;
+    markSynced(newerCopy);
+    openProject(newerCopy.data);
+    setNewerCopy(null);
+    toast.success('Recovered the newer copy of the project.');
+  }, [newerCopy, markSynced, openProject]);
+
+  // Keeps the loaded version; the next autosave overwrites the stored copy
+  const dismissNewerCopy = useCallback(() => {
+    if (!newerCopy) return;
+    syncedAtRef.current = newerCopy.updatedAt;
+    savedDataRef.current = null;
+    setNewerCopy(null);
+  }, [newerCopy]);
+
+  const switchTo = useCallback(async (id: string, data: ProjectData, record: StoredProject | null) => {
+    await save();
+    if (record) {
+      markSynced(record);
+    } else {
+      syncedAtRef.current = 0;
+      savedDataRef.current = null;
+      setLastSavedAt(null);
+    }
+    setNewerCopy(null);
+    setActiveProjectId(id);
+    setProjectId(id);
+    openProject(data);
+    await refreshLists(id);
+  }, [save, markSynced, openProject, refreshLists]);
+
+  const selectProject = useCallback(async (id: string) => {
+    if (id === projectIdRef.current) return;
+    const stored = await loadProject(id);
+    if (!stored) {
+      toast.error('Project not found in local storage.');
+      return;
+    }
+    await switchTo(id, stored.data, stored);
+  }, [switchTo]);
+
+  const createProject = useCallback(async (name: string) => {
+    await switchTo(uuidv4(), { ...initialProjectState, name }, null);
+  }, [switchTo]);
+
+  const deleteProject = useCallback(async (id: string) => {
+    await deleteStoredProject(id);
+    if (id !== projectIdRef.current) {
+      await refreshLists(projectIdRef.current!);
+      return;
+    }
+
+    // Deleting the open project moves on to the most recently edited remaining one
+    savedDataRef.current = projectRef.current;
+    const next = (await listProjects())[0];
+    const stored = next ? await loadProject(next.id) : null;
+    if (stored) {
+      await switchTo(stored.id, stored.data, stored);
+    } else {
+      await switchTo(uuidv4(), initialProjectState, null);
+    }
+  }, [refreshLists, switchTo]);
+
+  return {
+    projectId,
+    projects,
+    snapshots,
+    lastSavedAt,
+    newerCopy,
+    recoverNewerCopy,
+    dismissNewerCopy,
+    selectProject,
+    createProject,
+    deleteProject,
+  };
+};
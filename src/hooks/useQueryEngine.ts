@@ -0,0 +1,74 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { ProjectData, QueryResultSet } from '../types';
+import { QueryEngine, createQueryEngine } from '../utils/queryEngine';
+
+export const useQueryEngine = (project: ProjectData) => {
+  const [engineName, setEngineName] = useState<string | null>(null);
+  const [bootstrapErrors, setBootstrapErrors] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const engineRef = useRef<Promise<QueryEngine> | null>(null);
+  const projectRef = useRef(project);
+  projectRef.current = project;
+
+  // The engine is only rebuilt when the schema changes, not on canvas moves, seed rows or other
+  // project state, so only what the bootstrap statements are generated from goes into the key
+  const schemaKey = useMemo(() => JSON.stringify({
+    dialect: project.dialect,
+    tables: project.tables.map(table => ({ ...table, position: undefined, seedRows: undefined, junction: undefined })),
+    relationships: project.relationships,
+    indexes: project.indexes,
+    constraintNaming: project.constraintNaming,
+    customTypes: project.customTypes,
+  }), [project]);
+
+  const dispose = useCallback(() => {
+    const engine = engineRef.current;
+    engineRef.current = null;
+    setEngineName(null);
+    setBootstrapErrors([]);
+    engine?.then(e => e.close()).catch(() => undefined);
+  }, []);
+
+  useEffect(() => dispose, [schemaKey, dispose]);
+
+  const getEngine = useCallback(() => {
+    if (!engineRef.current) {
+      setIsLoading(true);
+      const engine = createQueryEngine(projectRef.current);
+      engineRef.current = engine;
+      engine
+        .then(e => {
+          if (engineRef.current === engine) {
+            setEngineName(e.name);
+            setBootstrapErrors(e.bootstrapErrors);
+          }
+        })
+        .catch(() => {
+          if (engineRef.current === engine) {
+            engineRef.current = null;
+          }
+        })
+        .finally(() => setIsLoading(false));
+    }
+    return engineRef.current;
+  }, []);
+
+  const execute = useCallback(async (sql: string): Promise<QueryResultSet[]> => {
+    const engine = await getEngine();
+    return engine.execute(sql);
+  }, [getEngine]);
+
+  // Throws away all data written by queries and reloads the schema
+  const reset = useCallback(async () => {
+    dispose();
+    await getEngine();
+  }, [dispose, getEngine]);
+
+  return {
+    engineName,
+    bootstrapErrors,
+    isLoading,
+    execute,
+    reset,
+  };
+};
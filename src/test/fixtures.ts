@@ -0,0 +1,58 @@
+import { Column, ProjectData, RelationshipData, TableData } from '../types';
+
+// Small builders for unit tests; ids default to names so tests can refer to objects by name
+
+export const column = (name: string, overrides: Partial<Column> = {}): Column => ({
+  id: name,
+  name,
+  dataType: 'INT',
+  isPrimaryKey: false,
+  isNotNull: false,
+  isAutoIncrement: false,
+  isUnique: false,
+  ...overrides,
+});
+
+export const primaryKey = (name = 'id', overrides: Partial<Column> = {}): Column =>
+  column(name, { isPrimaryKey: true, isNotNull: true, ...overrides });
+
+export const table = (name: string, columns: Column[], overrides: Partial<TableData> = {}): TableData => ({
+  id: name,
+  name,
+  columns,
+  position: { x: 0, y: 0 },
+  ...overrides,
+});
+
+// The source table holds the foreign key column, which references the target table
+export const relationship = (
+  source: string,
+  sourceColumn: string,
+  target: string,
+  targetColumn: string,
+  overrides: Partial<RelationshipData> = {}
+): RelationshipData => ({
+  id: `${source}.${sourceColumn}->${target}.${targetColumn}`,
+  sourceTable: source,
+  sourceColumn,
+  targetTable: target,
+  targetColumn,
+  type: 'one-to-many',
+  onUpdate: 'NO ACTION',
+  onDelete: 'NO ACTION',
+  ...overrides,
+});
+
+export const project = (overrides: Partial<ProjectData> = {}): ProjectData => ({
+  databases: [],
+  tables: [],
+  relationships: [],
+  indexes: [],
+  views: [],
+  procedures: [],
+  triggers: [],
+  users: [],
+  name: 'test',
+  dialect: 'postgresql',
+  ...overrides,
+});
@@ -0,0 +1,16 @@
+import { ParsedSchema } from '../utils/sqlParser';
+
+// Parsing gives every object a new id, so round trips are compared by name
+export const summarizeSchema = ({ tables, relationships }: ParsedSchema) => {
+  const columnName = (tableId: string, columnId: string) => {
+    const owner = tables.find(t => t.id === tableId)!;
+    return `${owner.name}.${owner.columns.find(c => c.id === columnId)!.name}`;
+  };
+  return {
+    tables: tables.map(t => ({
+      name: t.name,
+      columns: t.columns.map(c => [c.name, c.isPrimaryKey, c.isNotNull, c.isUnique, c.defaultValue ?? null]),
+    })),
+    relationships: relationships.map(r => [columnName(r.sourceTable, r.sourceColumn), columnName(r.targetTable, r.targetColumn), r.type, r.onDelete]),
+  };
+};
@@ -7,6 +7,7 @@ export interface Column {
   isNotNull: boolean;
   isAutoIncrement: boolean;
   isUnique: boolean;
+  isUnsigned?: boolean;
   defaultValue?: string;
   isForeignKey?: boolean;
   referencesTable?: string;
@@ -14,8 +15,15 @@ export interface Column {
   comment?: string;
   collation?: string;
   charset?: string;
+  // Computed from other columns of the row; such a column takes no default, auto increment or inserted value
+  generatedExpression?: string;
+  generatedStorage?: GeneratedStorage;
+  // A type from ProjectData.customTypes; dataType then holds the type's name
+  customTypeId?: string;
 }
 
+export type GeneratedStorage = 'STORED' | 'VIRTUAL';
+
 export interface TableData {
   id: string;
   name: string;
@@ -26,6 +34,57 @@ export interface TableData {
   collation?: string;
   comment?: string;
   autoIncrement?: number;
+  databaseId?: string;
+  seedRows?: SeedRow[];
+  junction?: JunctionData;
+  constraints?: TableConstraint[];
+  // Name of the primary key constraint; PostgreSQL names an unnamed one <table>_pkey
+  primaryKeyName?: string;
+}
+
+export type ConstraintKind = 'CHECK' | 'UNIQUE' | 'EXCLUDE';
+
+// A table-level constraint. CHECK uses the expression, UNIQUE the columns and EXCLUDE the
+// exclusions, compared with the index method in `using` (PostgreSQL only).
+export interface TableConstraint {
+  id: string;
+  name: string;
+  kind: ConstraintKind;
+  columns?: string[];
+  expression?: string;
+  exclusions?: ExclusionElement[];
+  using?: string;
+}
+
+export interface ExclusionElement {
+  column: string;
+  operator: string;
+}
+
+// Name templates for generated constraint names. {table} is the table name, {columns} the
+// column names joined with underscores and {n} a number that keeps the name unique.
+export interface ConstraintNaming {
+  unique: string;
+  foreignKey: string;
+  check: string;
+  exclude: string;
+}
+
+// Marks a table that links two others many-to-many, through one foreign key to each
+export interface JunctionData {
+  tableIds: [string, string];
+  // Drawn as one M:N edge between the two tables instead of the table and its relationships
+  collapsed?: boolean;
+}
+
+// Seed values keyed by column id, so they survive column renames. An empty or missing value
+// inserts NULL, or the column default when no row sets the column.
+export type SeedRow = Record<string, string>;
+
+export interface SeedIssue {
+  rowIndex: number;
+  columnId: string;
+  message: string;
 }
 
 export interface IndexData {
@@ -45,6 +104,7 @@ export interface ViewData {
   algorithm: 'UNDEFINED' | 'MERGE' | 'TEMPTABLE';
   sqlSecurity: 'DEFINER' | 'INVOKER';
   comment?: string;
+  databaseId?: string;
 }
 
 export interface StoredProcedureData {
@@ -57,6 +117,7 @@ export interface StoredProcedureData {
   comment?: string;
   sqlSecurity: 'DEFINER' | 'INVOKER';
   deterministic: boolean;
+  databaseId?: string;
 }
 
 export interface Parameter {
@@ -98,9 +159,31 @@ export interface RelationshipData {
   targetTable: string;
   sourceColumn: string;
   targetColumn: string;
+  // All column pairs of a composite key in order; the first pair is sourceColumn/targetColumn
+  columnPairs?: ColumnPair[];
   type: 'one-to-one' | 'one-to-many' | 'many-to-many';
   onUpdate: ReferentialAction;
   onDelete: ReferentialAction;
+  // Name of the FOREIGN KEY constraint, as imported; the project's naming template applies without one
+  name?: string;
+}
+
+export interface ManyToManyOptions {
+  sourceTable: string;
+  targetTable: string;
+  // The columns the link was drawn between, referenced when a side has no primary key
+  sourceColumn?: string;
+  targetColumn?: string;
+  // An existing table to link through; a new table named junctionName is created otherwise
+  junctionTableId?: string;
+  junctionName: string;
+  onUpdate: ReferentialAction;
+  onDelete: ReferentialAction;
+}
+
+export interface ColumnPair {
+  sourceColumn: string;
+  targetColumn: string;
 }
 
 export type ReferentialAction = 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'NO ACTION' | 'SET DEFAULT';
@@ -117,10 +200,190 @@ export interface ProjectData {
   name: string;
   dialect: SQLDialect;
   currentDatabase?: string;
+  disabledRules?: string[];
+  tableGroups?: TableGroupData[];
+  diagramViews?: DiagramViewData[];
+  // The canvas shows every table when no view is active
+  activeViewId?: string;
+  constraintNaming?: ConstraintNaming;
+  customTypes?: CustomTypeData[];
+}
+
+export type CustomTypeKind = 'ENUM' | 'DOMAIN' | 'COMPOSITE';
+
+export interface CompositeField {
+  name: string;
+  dataType: string;
+  length?: string;
+}
+
+// A named type columns can use. PostgreSQL creates it with CREATE TYPE or CREATE DOMAIN; other
+// dialects write its definition into every column that uses it.
+export interface CustomTypeData {
+  id: string;
+  name: string;
+  kind: CustomTypeKind;
+  // ENUM: the allowed values in order
+  values?: string[];
+  // DOMAIN: a base type with optional constraints; the CHECK expression calls the value VALUE
+  baseType?: string;
+  length?: string;
+  isNotNull?: boolean;
+  defaultValue?: string;
+  check?: string;
+  // COMPOSITE: the fields of the row type
+  fields?: CompositeField[];
+  comment?: string;
+}
+
+// A subject area: DBML table group, drawn as a coloured frame around its tables
+export interface TableGroupData {
+  id: string;
+  name: string;
+  tableIds: string[];
+  note?: string;
+  color?: string;
+  // Shown as a single summary node instead of its tables
+  collapsed?: boolean;
+}
+
+// A saved subset of the model with its own table positions
+export interface DiagramViewData {
+  id: string;
+  name: string;
+  tableIds: string[];
+  // Tables without a position here fall back to TableData.position
+  positions: Record<string, { x: number; y: number }>;
 }
 
 export type SQLDialect = 'mysql' | 'postgresql' | 'sqlite' | 'mariadb' | 'oracle';
 
+export interface ForeignKeyDefinition {
+  name: string;
+  tableName: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onUpdate: ReferentialAction;
+  onDelete: ReferentialAction;
+}
+
+export type SchemaChange =
+  | { type: 'CREATE_TABLE'; table: TableData }
+  | { type: 'DROP_TABLE'; table: TableData }
+  | { type: 'RENAME_TABLE'; from: TableData; to: TableData }
+  | { type: 'ADD_COLUMN'; table: TableData; column: Column }
+  | { type: 'DROP_COLUMN'; table: TableData; column: Column }
+  | { type: 'MODIFY_COLUMN'; table: TableData; from: Column; to: Column }
+  | { type: 'RENAME_COLUMN'; table: TableData; from: Column; to: Column }
+  | { type: 'ADD_PRIMARY_KEY'; table: TableData; columns: string[] }
+  | { type: 'DROP_PRIMARY_KEY'; table: TableData }
+  // Named by the naming template of the project the constraint belongs to
+  | { type: 'ADD_UNIQUE'; table: TableData; column: Column; constraintName: string }
+  | { type: 'DROP_UNIQUE'; table: TableData; column: Column; constraintName: string }
+  | { type: 'ADD_CONSTRAINT'; table: TableData; constraint: TableConstraint }
+  | { type: 'DROP_CONSTRAINT'; table: TableData; constraint: TableConstraint }
+  | { type: 'ADD_INDEX'; table: TableData; index: IndexData }
+  | { type: 'DROP_INDEX'; table: TableData; index: IndexData }
+  | { type: 'ADD_FOREIGN_KEY'; foreignKey: ForeignKeyDefinition }
+  | { type: 'DROP_FOREIGN_KEY'; foreignKey: ForeignKeyDefinition }
+  | { type: 'CREATE_TYPE'; customType: CustomTypeData }
+  | { type: 'DROP_TYPE'; customType: CustomTypeData }
+  | { type: 'ALTER_TYPE'; from: CustomTypeData; to: CustomTypeData };
+
+export interface FakeDataOptions {
+  rowsPerTable: number;
+  // Generating twice with the same seed and schema gives the same rows
+  seed: number;
+}
+
+export interface DumpOptions {
+  includeDatabases: boolean;
+  includeIndexes: boolean;
+  includeViews: boolean;
+  includeRoutines: boolean;
+  includeTriggers: boolean;
+  includeUsers: boolean;
+  includeData: boolean;
+  ifNotExists: boolean;
+  dropIfExists: boolean;
+  useTransaction: boolean;
+}
+
+export type OrmTarget = 'typeorm' | 'drizzle' | 'sequelize';
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+export type DiagramFormat = 'svg' | 'png' | 'pdf';
+
+export interface DiagramExportOptions {
+  format: DiagramFormat;
+  // Pixel ratio of PNG exports
+  scale: number;
+  transparent: boolean;
+  // Project name, dialect and generation date above the diagram
+  includeTitle: boolean;
+}
+
+export type ErDiagramFormat = 'mermaid' | 'plantuml';
+
+export interface ErDiagramOptions {
+  format: ErDiagramFormat;
+  // Only the tables of this database
+  databaseId?: string;
+  // Only these tables, ahead of databaseId
+  tableIds?: string[];
+}
+
+export type LayoutAlgorithm = 'hierarchical' | 'force' | 'grid' | 'group';
+
+// Data dictionary as Markdown files or a bundle of HTML pages
+export type DocsFormat = 'markdown' | 'html';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  ruleId: string;
+  severity: ValidationSeverity;
+  message: string;
+  suggestion?: string;
+  tableId?: string;
+  columnId?: string;
+  relationshipId?: string;
+}
+
+export type ConversionSeverity = 'info' | 'ambiguous' | 'lossy';
+
+export interface TypeMapping {
+  type: string;
+  length?: string;
+  keepLength?: boolean;
+  autoIncrement?: boolean;
+  severity?: ConversionSeverity;
+  note?: string;
+}
+
+export interface ConversionNote {
+  severity: ConversionSeverity;
+  message: string;
+  tableId: string;
+  columnId?: string;
+}
+
+export interface QueryResultColumn {
+  name: string;
+  type: string;
+}
+
+export interface QueryResultSet {
+  columns: QueryResultColumn[];
+  rows: unknown[][];
+  rowsAffected?: number;
+}
+
 export interface SupabaseConfig {
   url: string;
   anonKey: string;
@@ -173,6 +436,7 @@ export const COLLATIONS = {
   utf8: ['utf8_general_ci', 'utf8_unicode_ci', 'utf8_bin'],
   latin1: ['latin1_swedish_ci', 'latin1_general_ci', 'latin1_bin']
 };
+export const SQLITE_COLLATIONS = ['BINARY', 'NOCASE', 'RTRIM'];
 export const PRIVILEGES = [
   'ALL PRIVILEGES', 'SELECT', 'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'DROP',
   'RELOAD', 'SHUTDOWN', 'PROCESS', 'FILE', 'GRANT', 'REFERENCES', 'INDEX',
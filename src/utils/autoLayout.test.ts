@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { LayoutAlgorithm } from '../types';
+import { computeLayout } from './autoLayout';
+import { column, primaryKey, project, relationship, table } from '../test/fixtures';
+
+const ALGORITHMS: LayoutAlgorithm[] = ['hierarchical', 'force', 'grid', 'group'];
+
+const forum = project({
+  tables: [
+    table('users', [primaryKey()]),
+    table('posts', [primaryKey(), column('user_id')]),
+    table('comments', [primaryKey(), column('post_id'), column('parent_id')]),
+    table('settings', [primaryKey()]),
+  ],
+  relationships: [
+    relationship('posts', 'user_id', 'users', 'id'),
+    relationship('comments', 'post_id', 'posts', 'id'),
+    relationship('comments', 'parent_id', 'comments', 'id'),
+  ],
+});
+
+describe('computeLayout', () => {
+  it.each(ALGORITHMS)('%s places every table at a distinct, repeatable position', algorithm => {
+    const positions = computeLayout(forum, algorithm);
+
+    expect(Object.keys(positions).sort()).toEqual(['comments', 'posts', 'settings', 'users']);
+    expect(new Set(Object.values(positions).map(({ x, y }) => `${x},${y}`)).size).toBe(4);
+    expect(computeLayout(forum, algorithm)).toEqual(positions);
+  });
+
+  it('lays referencing tables out before the tables they reference', () => {
+    const { users, posts, comments } = computeLayout(forum, 'hierarchical');
+    expect(comments.x).toBeLessThan(posts.x);
+    expect(posts.x).toBeLessThan(users.x);
+  });
+
+  it.each(['hierarchical', 'group'] as LayoutAlgorithm[])('%s handles tables that only reference themselves', algorithm => {
+    const tree = project({
+      tables: [table('nodes', [primaryKey(), column('parent_id')]), table('tags', [primaryKey()])],
+      relationships: [relationship('nodes', 'parent_id', 'nodes', 'id')],
+    });
+
+    expect(Object.keys(computeLayout(tree, algorithm)).sort()).toEqual(['nodes', 'tags']);
+  });
+
+  it('ignores relationships to tables that no longer exist', () => {
+    const dangling = project({
+      tables: [table('posts', [primaryKey(), column('user_id')])],
+      relationships: [relationship('posts', 'user_id', 'users', 'id')],
+    });
+
+    expect(computeLayout(dangling, 'hierarchical')).toEqual({ posts: { x: 50, y: 50 } });
+  });
+});
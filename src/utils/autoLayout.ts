@@ -0,0 +1,388 @@
+import { ProjectData, TableData, LayoutAlgorithm } from '../types';
+import { tableNodeSize } from './diagramExport';
+
+type Point = { x: number; y: number };
+type Size = { width: number; height: number };
+
+interface LayoutGraph {
+  tables: TableData[];
+  sizes: Map<string, Size>;
+  // Foreign keys as table id pairs, from the referencing table to the referenced one
+  edges: [string, string][];
+}
+
+interface Block {
+  positions: Map<string, Point>;
+  width: number;
+  height: number;
+}
+
+const ORIGIN = { x: 50, y: 50 };
+// Columns leave room for edge labels between them
+const GAP_X = 120;
+const GAP_Y = 48;
+const GROUP_GAP = 200;
+const FORCE_ITERATIONS = 300;
+const FORCE_GRAVITY = 0.1;
+const FORCE_CUTOFF = 3;
+
+const subgraph = (graph: LayoutGraph, tables: TableData[]): LayoutGraph => {
+  const ids = new Set(tables.map(table => table.id));
+  return { tables, sizes: graph.sizes, edges: graph.edges.filter(([source, target]) => ids.has(source) && ids.has(target)) };
+};
+
+const neighbours = (graph: LayoutGraph) => {
+  const map = new Map<string, string[]>(graph.tables.map(table => [table.id, []]));
+  graph.edges.forEach(([source, target]) => {
+    map.get(source)?.push(target);
+    map.get(target)?.push(source);
+  });
+  return map;
+};
+
+// Breadth-first order through each connected component, so related tables end up next to each other
+const connectedOrder = (graph: LayoutGraph) => {
+  const adjacent = neighbours(graph);
+  const seen = new Set<string>();
+  const order: TableData[] = [];
+  const byId = new Map(graph.tables.map(table => [table.id, table]));
+  graph.tables.forEach(start => {
+    if (seen.has(start.id)) return;
+    const queue = [start.id];
+    seen.add(start.id);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(byId.get(id)!);
+      adjacent.get(id)!.forEach(next => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      });
+    }
+  });
+  return order;
+};
+
+const emptyBlock = (): Block => ({ positions: new Map(), width: 0, height: 0 });
+
+const gridBlock = (graph: LayoutGraph): Block => {
+  const tables = connectedOrder(graph);
+  if (tables.length === 0) return emptyBlock();
+  const perRow = Math.ceil(Math.sqrt(tables.length));
+  const columnWidths: number[] = [];
+  const rowHeights: number[] = [];
+  tables.forEach((table, i) => {
+    const size = graph.sizes.get(table.id)!;
+    const column = i % perRow;
+    const row = Math.floor(i / perRow);
+    columnWidths[column] = Math.max(columnWidths[column] ?? 0, size.width);
+    rowHeights[row] = Math.max(rowHeights[row] ?? 0, size.height);
+  });
+
+  const offset = (lengths: number[], index: number, gap: number) =>
+    lengths.slice(0, index).reduce((sum, length) => sum + length + gap, 0);
+  const positions = new Map(tables.map((table, i) => [table.id, {
+    x: offset(columnWidths, i % perRow, GAP_X),
+    y: offset(rowHeights, Math.floor(i / perRow), GAP_Y),
+  }]));
+  return {
+    positions,
+    width: offset(columnWidths, columnWidths.length, GAP_X) - GAP_X,
+    height: offset(rowHeights, rowHeights.length, GAP_Y) - GAP_Y,
+  };
+};
+
+const countCrossings = (layers: string[][], edges: [string, string][]) => {
+  const place = new Map<string, { layer: number; index: number }>();
+  layers.forEach((layer, l) => layer.forEach((id, index) => place.set(id, { layer: l, index })));
+  // Only edges between neighbouring layers are counted, each oriented left to right; edges to tables
+  // outside the layers, such as self-references of otherwise isolated tables, have no span
+  const spans = edges.flatMap(([source, target]) => {
+    const a = place.get(source);
+    const b = place.get(target);
+    if (!a || !b || Math.abs(a.layer - b.layer) !== 1) return [];
+    return [a.layer < b.layer ? [a, b] : [b, a]];
+  });
+  let crossings = 0;
+  for (let i = 0; i < spans.length; i++) {
+    for (let j = i + 1; j < spans.length; j++) {
+      const [a1, b1] = spans[i];
+      const [a2, b2] = spans[j];
+      if (a1.layer === a2.layer && (a1.index - a2.index) * (b1.index - b2.index) < 0) crossings++;
+    }
+  }
+  return crossings;
+};
+
+// Layered layout: each table sits left of the tables it references, since edges leave a table on its
+// right side and arrive on the left. Layers are reordered by the barycenter heuristic to cut crossings.
+const hierarchicalBlock = (graph: LayoutGraph): Block => {
+  const connected = new Set(graph.edges.filter(([source, target]) => source !== target).flat());
+  const tables = graph.tables.filter(table => connected.has(table.id));
+  const isolated = graph.tables.filter(table => !connected.has(table.id));
+
+  const outgoing = new Map<string, string[]>(tables.map(table => [table.id, []]));
+  graph.edges.forEach(([source, target]) => {
+    if (source !== target) outgoing.get(source)?.push(target);
+  });
+
+  // Longest path to a table referencing nothing; an edge back into the current path closes a cycle and is ignored
+  const depth = new Map<string, number>();
+  const visiting = new Set<string>();
+  const depthOf = (id: string): number => {
+    if (depth.has(id)) return depth.get(id)!;
+    visiting.add(id);
+    const targets = outgoing.get(id)!.filter(target => !visiting.has(target));
+    const value = targets.length === 0 ? 0 : 1 + Math.max(...targets.map(depthOf));
+    visiting.delete(id);
+    depth.set(id, value);
+    return value;
+  };
+  tables.forEach(table => depthOf(table.id));
+
+  const maxDepth = Math.max(0, ...depth.values());
+  const layers: string[][] = Array.from(Array(maxDepth + 1), () => []);
+  // Start from the current vertical order, so a re-run keeps what the user arranged
+  [...tables].sort((a, b) => a.position.y - b.position.y).forEach(table => {
+    layers[maxDepth - depth.get(table.id)!].push(table.id);
+  });
+
+  const layered = subgraph(graph, tables);
+  const layeredEdges = layered.edges.filter(([source, target]) => source !== target);
+  const adjacent = neighbours(layered);
+  const relative = (layer: string[], id: string) => (layer.indexOf(id) + 0.5) / layer.length;
+  const sweep = (from: number, to: number, step: number) => {
+    for (let l = from; l !== to; l += step) {
+      const previous = layers[l - step];
+      const barycenters = new Map(layers[l].map(id => {
+        const linked = adjacent.get(id)!.filter(other => previous.includes(other));
+        return [id, linked.length > 0
+          ? linked.reduce((sum, other) => sum + relative(previous, other), 0) / linked.length
+          : relative(layers[l], id)];
+      }));
+      layers[l].sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+    }
+  };
+
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countCrossings(layers, layeredEdges);
+  for (let pass = 0; pass < 8 && bestCrossings > 0; pass++) {
+    if (pass % 2 === 0) sweep(1, layers.length, 1);
+    else sweep(layers.length - 2, -1, -1);
+    const crossings = countCrossings(layers, layeredEdges);
+    if (crossings < bestCrossings) {
+      best = layers.map(layer => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+
+  const positions = new Map<string, Point>();
+  const columnHeights = best.map(layer =>
+    layer.reduce((sum, id) => sum + graph.sizes.get(id)!.height, 0) + GAP_Y * Math.max(0, layer.length - 1)
+  );
+  const layeredHeight = Math.max(0, ...columnHeights);
+  let x = 0;
+  best.forEach((layer, l) => {
+    // Shorter columns are centred against the tallest one
+    let y = (layeredHeight - columnHeights[l]) / 2;
+    const width = Math.max(...layer.map(id => graph.sizes.get(id)!.width));
+    layer.forEach(id => {
+      positions.set(id, { x, y });
+      y += graph.sizes.get(id)!.height + GAP_Y;
+    });
+    x += width + GAP_X;
+  });
+  const layeredWidth = Math.max(0, x - GAP_X);
+
+  // Tables without relationships go in a grid below
+  const rest = gridBlock(subgraph(graph, isolated));
+  const restTop = tables.length > 0 ? layeredHeight + GAP_Y * 2 : 0;
+  rest.positions.forEach((point, id) => positions.set(id, { x: point.x, y: point.y + restTop }));
+  return {
+    positions,
+    width: Math.max(layeredWidth, rest.width),
+    height: isolated.length > 0 ? restTop + rest.height : layeredHeight,
+  };
+};
+
+// Fruchterman-Reingold on table centres, then any remaining overlaps are pushed apart
+const forceBlock = (graph: LayoutGraph): Block => {
+  const { tables, sizes } = graph;
+  if (tables.length === 0) return emptyBlock();
+  const area = tables.reduce((sum, table) => {
+    const size = sizes.get(table.id)!;
+    return sum + (size.width + GAP_X) * (size.height + GAP_Y);
+  }, 0);
+  const k = Math.sqrt(area / tables.length);
+
+  // Start from the current positions, spreading tables that share a spot
+  const centres = new Map<string, Point>();
+  tables.forEach((table, i) => {
+    const size = sizes.get(table.id)!;
+    const taken = [...centres.values()].some(p => Math.abs(p.x - table.position.x - size.width / 2) < 1 && Math.abs(p.y - table.position.y - size.height / 2) < 1);
+    centres.set(table.id, {
+      x: table.position.x + size.width / 2 + (taken ? Math.cos(i) * k : 0),
+      y: table.position.y + size.height / 2 + (taken ? Math.sin(i) * k : 0),
+    });
+  });
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const temperature = k * (1 - iteration / FORCE_ITERATIONS);
+    const moves = new Map<string, Point>(tables.map(table => [table.id, { x: 0, y: 0 }]));
+    for (let i = 0; i < tables.length; i++) {
+      for (let j = i + 1; j < tables.length; j++) {
+        const a = centres.get(tables[i].id)!;
+        const b = centres.get(tables[j].id)!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.hypot(dx, dy);
+        // Far apart tables no longer push, as in the grid variant of the algorithm
+        if (distance > FORCE_CUTOFF * k) continue;
+        const force = (k * k) / distance;
+        const moveA = moves.get(tables[i].id)!;
+        const moveB = moves.get(tables[j].id)!;
+        moveA.x += (dx / distance) * force;
+        moveA.y += (dy / distance) * force;
+        moveB.x -= (dx / distance) * force;
+        moveB.y -= (dy / distance) * force;
+      }
+    }
+    graph.edges.forEach(([source, target]) => {
+      if (source === target) return;
+      const a = centres.get(source)!;
+      const b = centres.get(target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.hypot(dx, dy) || 0.01;
+      const force = (distance * distance) / k;
+      moves.get(source)!.x -= (dx / distance) * force;
+      moves.get(source)!.y -= (dy / distance) * force;
+      moves.get(target)!.x += (dx / distance) * force;
+      moves.get(target)!.y += (dy / distance) * force;
+    });
+    // Gravity towards the centre keeps unconnected tables from drifting away
+    const mean = [...centres.values()].reduce((sum, p) => ({ x: sum.x + p.x / tables.length, y: sum.y + p.y / tables.length }), { x: 0, y: 0 });
+    moves.forEach((move, id) => {
+      const centre = centres.get(id)!;
+      move.x -= (centre.x - mean.x) * FORCE_GRAVITY;
+      move.y -= (centre.y - mean.y) * FORCE_GRAVITY;
+    });
+    moves.forEach((move, id) => {
+      const length = Math.hypot(move.x, move.y);
+      if (length === 0) return;
+      const centre = centres.get(id)!;
+      const step = Math.min(length, temperature);
+      centre.x += (move.x / length) * step;
+      centre.y += (move.y / length) * step;
+    });
+  }
+
+  for (let pass = 0; pass < 100; pass++) {
+    let moved = false;
+    for (let i = 0; i < tables.length; i++) {
+      for (let j = i + 1; j < tables.length; j++) {
+        const a = centres.get(tables[i].id)!;
+        const b = centres.get(tables[j].id)!;
+        const sizeA = sizes.get(tables[i].id)!;
+        const sizeB = sizes.get(tables[j].id)!;
+        const overlapX = (sizeA.width + sizeB.width) / 2 + GAP_X / 2 - Math.abs(a.x - b.x);
+        const overlapY = (sizeA.height + sizeB.height) / 2 + GAP_Y / 2 - Math.abs(a.y - b.y);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+        moved = true;
+        // Separate along the axis that needs the smaller push
+        if (overlapX < overlapY) {
+          const shift = (overlapX / 2) * (a.x < b.x ? -1 : 1);
+          a.x += shift;
+          b.x -= shift;
+        } else {
+          const shift = (overlapY / 2) * (a.y < b.y ? -1 : 1);
+          a.y += shift;
+          b.y -= shift;
+        }
+      }
+    }
+    if (!moved) break;
+  }
+
+  const corners = tables.map(table => {
+    const centre = centres.get(table.id)!;
+    const size = sizes.get(table.id)!;
+    return { id: table.id, x: centre.x - size.width / 2, y: centre.y - size.height / 2, ...size };
+  });
+  const minX = Math.min(...corners.map(c => c.x));
+  const minY = Math.min(...corners.map(c => c.y));
+  return {
+    positions: new Map(corners.map(c => [c.id, { x: c.x - minX, y: c.y - minY }])),
+    width: Math.max(...corners.map(c => c.x + c.width)) - minX,
+    height: Math.max(...corners.map(c => c.y + c.height)) - minY,
+  };
+};
+
+// Table groups first, then the remaining tables by database; each group is laid out on its own
+// and the groups are placed in rows
+const groupedBlock = (graph: LayoutGraph, project: ProjectData): Block => {
+  const assigned = new Set<string>();
+  const groups: TableData[][] = [];
+  (project.tableGroups ?? []).forEach(group => {
+    const members = graph.tables.filter(table => group.tableIds.includes(table.id) && !assigned.has(table.id));
+    members.forEach(table => assigned.add(table.id));
+    if (members.length > 0) groups.push(members);
+  });
+  const databaseOf = (table: TableData) =>
+    project.databases.some(db => db.id === table.databaseId) ? table.databaseId : project.databases[0]?.id;
+  const byDatabase = new Map<string | undefined, TableData[]>();
+  graph.tables.filter(table => !assigned.has(table.id)).forEach(table => {
+    byDatabase.set(databaseOf(table), [...(byDatabase.get(databaseOf(table)) ?? []), table]);
+  });
+  groups.push(...byDatabase.values());
+
+  const blocks = groups.map(tables => hierarchicalBlock(subgraph(graph, tables)));
+  const rowWidth = Math.max(...blocks.map(block => block.width), Math.sqrt(blocks.reduce((sum, block) => sum + block.width * block.height, 0)) * 1.5);
+  const positions = new Map<string, Point>();
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  let width = 0;
+  blocks.forEach(block => {
+    if (x > 0 && x + block.width > rowWidth) {
+      x = 0;
+      y += rowHeight + GROUP_GAP;
+      rowHeight = 0;
+    }
+    block.positions.forEach((point, id) => positions.set(id, { x: point.x + x, y: point.y + y }));
+    width = Math.max(width, x + block.width);
+    rowHeight = Math.max(rowHeight, block.height);
+    x += block.width + GROUP_GAP;
+  });
+  return { positions, width, height: y + rowHeight };
+};
+
+// New positions for every table of the project
+export const computeLayout = (project: ProjectData, algorithm: LayoutAlgorithm): Record<string, Point> => {
+  const tableIds = new Set(project.tables.map(table => table.id));
+  const pairs = new Set<string>();
+  const edges: [string, string][] = [];
+  project.relationships.forEach(rel => {
+    const key = `${rel.sourceTable}>${rel.targetTable}`;
+    if (pairs.has(key) || !tableIds.has(rel.sourceTable) || !tableIds.has(rel.targetTable)) return;
+    pairs.add(key);
+    edges.push([rel.sourceTable, rel.targetTable]);
+  });
+  const graph: LayoutGraph = {
+    tables: project.tables,
+    sizes: new Map(project.tables.map(table => [table.id, tableNodeSize(table)])),
+    edges,
+  };
+
+  const block = algorithm === 'hierarchical' ? hierarchicalBlock(graph)
+    : algorithm === 'force' ? forceBlock(graph)
+    : algorithm === 'grid' ? gridBlock(graph)
+    : groupedBlock(graph, project);
+
+  const positions: Record<string, Point> = {};
+  block.positions.forEach((point, id) => {
+    positions[id] = { x: Math.round(point.x + ORIGIN.x), y: Math.round(point.y + ORIGIN.y) };
+  });
+  return positions;
+};
@@ -0,0 +1,59 @@
+import { SQLDialect, SQLITE_COLLATIONS } from '../types';
+
+// MySQL and MariaDB name every collation after its character set, as in utf8mb4_bin
+const MYSQL_CHARSETS = [
+  'utf8mb4', 'utf8mb3', 'utf8', 'utf16', 'utf16le', 'utf32', 'ucs2', 'ascii', 'latin1', 'latin2', 'latin5', 'latin7',
+  'cp1250', 'cp1251', 'cp1256', 'cp1257', 'cp850', 'cp852', 'cp866', 'cp932', 'big5', 'gbk', 'gb2312', 'gb18030',
+  'sjis', 'ujis', 'eucjpms', 'euckr', 'koi8r', 'koi8u', 'greek', 'hebrew', 'tis620', 'armscii8', 'dec8', 'hp8',
+  'keybcs2', 'macce', 'macroman', 'swe7', 'geostd8',
+];
+
+const hasMySQLCharset = (collation: string) =>
+  MYSQL_CHARSETS.some(charset => collation.toLowerCase().startsWith(`${charset}_`));
+
+const isSQLiteCollation = (collation: string) => SQLITE_COLLATIONS.includes(collation.toUpperCase());
+
+// Whether the dialect knows the collation. PostgreSQL and Oracle collations cannot be listed, so
+// there only the names of the other dialects are rejected.
+export const isDialectCollation = (collation: string, dialect: SQLDialect): boolean => {
+  switch (dialect) {
+    case 'mysql':
+    case 'mariadb':
+      return hasMySQLCharset(collation) || collation.toLowerCase() === 'binary';
+    case 'sqlite':
+      return isSQLiteCollation(collation);
+    case 'postgresql':
+      return !hasMySQLCharset(collation) && !isSQLiteCollation(collation);
+    case 'oracle':
+      return !hasMySQLCharset(collation) && /^\w+$/.test(collation) && !['NOCASE', 'RTRIM'].includes(collation.toUpperCase());
+  }
+};
+
+type CollationKind = 'binary' | 'case-insensitive';
+
+const BINARY_COLLATIONS = ['BINARY', 'C', 'POSIX'];
+const CASE_INSENSITIVE_COLLATIONS = ['NOCASE', 'BINARY_CI'];
+
+const collationKind = (collation: string): CollationKind | null => {
+  const name = collation.toUpperCase();
+  if (BINARY_COLLATIONS.includes(name) || (hasMySQLCharset(collation) && name.endsWith('_BIN'))) return 'binary';
+  if (CASE_INSENSITIVE_COLLATIONS.includes(name) || (hasMySQLCharset(collation) && name.endsWith('_CI'))) return 'case-insensitive';
+  return null;
+};
+
+// The target's collations that compare byte for byte and ignore case. PostgreSQL only ignores case
+// with a nondeterministic collation that has to be created first.
+const EQUIVALENT_COLLATIONS: Record<SQLDialect, Partial<Record<CollationKind, string>>> = {
+  mysql: { binary: 'utf8mb4_bin', 'case-insensitive': 'utf8mb4_general_ci' },
+  mariadb: { binary: 'utf8mb4_bin', 'case-insensitive': 'utf8mb4_general_ci' },
+  postgresql: { binary: 'C' },
+  sqlite: { binary: 'BINARY', 'case-insensitive': 'NOCASE' },
+  oracle: { binary: 'BINARY', 'case-insensitive': 'BINARY_CI' },
+};
+
+// The collation of the target that compares like the given one, or undefined if there is none
+export const mapCollation = (collation: string, target: SQLDialect): string | undefined => {
+  if (isDialectCollation(collation, target)) return collation;
+  const kind = collationKind(collation);
+  return kind ? EQUIVALENT_COLLATIONS[target][kind] : undefined;
+};
@@ -0,0 +1,118 @@
+import { Column, CustomTypeData, CustomTypeKind, SQLDialect, TableData } from '../types';
+
+const TEXT_TYPES: Record<SQLDialect, string> = {
+  mysql: 'VARCHAR',
+  mariadb: 'VARCHAR',
+  postgresql: 'varchar',
+  sqlite: 'TEXT',
+  oracle: 'VARCHAR2',
+};
+
+const DOCUMENT_TYPES: Record<SQLDialect, string> = {
+  mysql: 'JSON',
+  mariadb: 'JSON',
+  postgresql: 'jsonb',
+  sqlite: 'TEXT',
+  oracle: 'CLOB',
+};
+
+export const CUSTOM_TYPE_KINDS: { kind: CustomTypeKind; label: string }[] = [
+  { kind: 'ENUM', label: 'Enum' },
+  { kind: 'DOMAIN', label: 'Domain' },
+  { kind: 'COMPOSITE', label: 'Composite' },
+];
+
+export const findCustomType = (column: Column, types: CustomTypeData[] = []) =>
+  column.customTypeId ? types.find(type => type.id === column.customTypeId) : undefined;
+
+// The types the tables use, in catalog order
+export const customTypesUsedBy = (tables: TableData[], types: CustomTypeData[] = []) => {
+  const used = new Set(tables.flatMap(table => table.columns.map(column => column.customTypeId)));
+  return types.filter(type => used.has(type.id));
+};
+
+// Splits a value list such as a,'b, c','it''s' at the commas outside quotes and unquotes each value
+export const parseValueList = (text: string): string[] => {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'" && quoted && text[i + 1] === "'") {
+      current += "'";
+      i++;
+    } else if (char === "'") {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+  return values.filter(Boolean);
+};
+
+// The reverse of parseValueList; only values with commas, quotes or outer spaces are quoted
+export const formatValueList = (values: string[]) =>
+  values.map(value => /[,']|^\s|\s$/.test(value) ? `'${value.replace(/'/g, "''")}'` : value).join(',');
+
+// The built-in type a column of this type is stored as where the dialect has no such type: the
+// base type of a domain, text long enough for every enum value, or a document for a composite
+export const customTypeStorage = (type: CustomTypeData, dialect: SQLDialect): Pick<Column, 'dataType' | 'length'> => {
+  switch (type.kind) {
+    case 'ENUM': {
+      const longest = Math.max(1, ...(type.values ?? []).map(value => value.length));
+      return { dataType: TEXT_TYPES[dialect], length: dialect === 'sqlite' ? undefined : String(longest) };
+    }
+    case 'DOMAIN':
+      return type.baseType ? { dataType: type.baseType, length: type.length } : { dataType: TEXT_TYPES[dialect], length: undefined };
+    case 'COMPOSITE':
+      return { dataType: DOCUMENT_TYPES[dialect], length: undefined };
+  }
+};
+
+// The column with its catalog type replaced by the type it is stored as, for code that only knows built-in types
+export const withStorageType = (column: Column, types: CustomTypeData[] | undefined, dialect: SQLDialect): Column => {
+  const type = findCustomType(column, types);
+  return type ? { ...column, ...customTypeStorage(type, dialect), customTypeId: undefined } : column;
+};
+
+// The column with a domain replaced by its base type, which is what the domain's values look like
+export const withDomainBaseType = (column: Column, types: CustomTypeData[] = []): Column => {
+  const type = findCustomType(column, types);
+  return type?.kind === 'DOMAIN' && type.baseType ? { ...column, dataType: type.baseType, length: type.length } : column;
+};
+
+// The column as the built-in type code generators understand: an inline ENUM listing the values of
+// a catalog enum, the base type of a domain that also brings its NOT NULL, or the storage type of a composite
+export const withBuiltInType = (column: Column, types: CustomTypeData[] | undefined, dialect: SQLDialect): Column => {
+  const type = findCustomType(column, types);
+  if (type?.kind === 'ENUM') return { ...column, dataType: 'ENUM', length: formatValueList(type.values ?? []), customTypeId: undefined };
+  const stored = withStorageType(column, types, dialect);
+  return type?.kind === 'DOMAIN' && type.isNotNull ? { ...stored, isNotNull: true } : stored;
+};
+
+// Whether two versions of a type give the columns that spell it out a different definition. The
+// name, the comment and the fields of a composite type only exist in the catalog.
+export const isCustomTypeChanged = (from: CustomTypeData, to: CustomTypeData) => {
+  const definition = ({ kind, values, baseType, length, isNotNull, defaultValue, check }: CustomTypeData) =>
+    JSON.stringify({ kind, values, baseType, length, isNotNull, defaultValue, check });
+  return definition(from) !== definition(to);
+};
+
+// A short summary for lists and documentation
+export const describeCustomType = (type: CustomTypeData) => {
+  switch (type.kind) {
+    case 'ENUM':
+      return `ENUM (${(type.values ?? []).join(', ')})`;
+    case 'DOMAIN': {
+      const base = type.length ? `${type.baseType}(${type.length})` : type.baseType ?? '';
+      return [base, type.isNotNull && 'NOT NULL', type.defaultValue && `DEFAULT ${type.defaultValue}`, type.check && `CHECK (${type.check})`]
+        .filter(Boolean).join(' ');
+    }
+    case 'COMPOSITE':
+      return `(${(type.fields ?? []).map(field => `${field.name} ${field.length ? `${field.dataType}(${field.length})` : field.dataType}`).join(', ')})`;
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { dbmlExportWarnings, generateDBML, parseDBML } from './dbmlSchema';
+import { column, primaryKey, project, relationship, table } from '../test/fixtures';
+import { summarizeSchema } from '../test/schemaSummary';
+
+const shop = project({
+  dialect: 'mysql',
+  tables: [
+    table('customers', [
+      primaryKey('id', { isAutoIncrement: true }),
+      column('email', { dataType: 'VARCHAR', length: '255', isNotNull: true, isUnique: true }),
+      column('size', { dataType: 'ENUM', length: "'S','M','extra, large'" }),
+    ], { position: { x: 40, y: 80 }, comment: 'People who order' }),
+    table('orders', [
+      primaryKey('id', { isAutoIncrement: true }),
+      column('customer_id', { isNotNull: true }),
+      column('status', { dataType: 'VARCHAR', length: '20', isNotNull: true, defaultValue: 'new' }),
+    ], { position: { x: 400, y: 80 } }),
+  ],
+  relationships: [relationship('orders', 'customer_id', 'customers', 'id', { onDelete: 'CASCADE', name: 'orders_customer_fkey' })],
+  tableGroups: [{ id: 'sales', name: 'sales', tableIds: ['customers', 'orders'], color: '#3b82f6' }],
+});
+
+describe('DBML round trip', () => {
+  it('keeps tables, columns and relationships', () => {
+    const parsed = parseDBML(generateDBML(shop), 'postgresql');
+
+    expect(parsed.dialect).toBe('mysql');
+    expect(parsed.warnings).toEqual([]);
+    expect(summarizeSchema(parsed)).toEqual({
+      tables: [
+        { name: 'customers', columns: [['id', true, true, false, null], ['email', false, true, true, null], ['size', false, false, false, null]] },
+        { name: 'orders', columns: [['id', true, true, false, null], ['customer_id', false, true, false, null], ['status', false, true, false, 'new']] },
+      ],
+      relationships: [['orders.customer_id', 'customers.id', 'one-to-many', 'CASCADE']],
+    });
+    expect(parsed.relationships[0].name).toBe('orders_customer_fkey');
+  });
+
+  it('keeps inline enum values, notes, positions and table groups', () => {
+    const parsed = parseDBML(generateDBML(shop), 'postgresql');
+    const [customers, orders] = parsed.tables;
+
+    expect(customers.comment).toBe('People who order');
+    expect(customers.position).toEqual({ x: 40, y: 80 });
+    expect(orders.position).toEqual({ x: 400, y: 80 });
+    expect(parsed.customTypes.find(type => type.kind === 'ENUM')?.values).toEqual(['S', 'M', 'extra, large']);
+    expect(parsed.tableGroups).toEqual([expect.objectContaining({ name: 'sales', tableIds: [customers.id, orders.id], color: '#3b82f6' })]);
+  });
+
+  it('writes domains as their base type and check, and warns about generated columns', () => {
+    const grades = project({
+      customTypes: [{ id: 'percent', name: 'percent', kind: 'DOMAIN', baseType: 'integer', isNotNull: true, check: 'VALUE BETWEEN 0 AND 100' }],
+      tables: [table('grades', [
+        primaryKey(),
+        column('score', { dataType: 'percent', customTypeId: 'percent' }),
+        column('passed', { dataType: 'BOOLEAN', generatedExpression: 'score >= 50' }),
+      ])],
+    });
+
+    const parsed = parseDBML(generateDBML(grades), 'postgresql');
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.tables[0].columns[1]).toMatchObject({ name: 'score', dataType: 'integer', isNotNull: true });
+    expect(parsed.tables[0].constraints).toEqual([
+      expect.objectContaining({ name: 'grades_score_check', kind: 'CHECK', expression: 'score BETWEEN 0 AND 100' }),
+    ]);
+    expect(parsed.tables[0].columns[2].generatedExpression).toBeUndefined();
+    expect(dbmlExportWarnings(grades)).toEqual([
+      'grades.passed is generated; DBML keeps its expression as a comment and imports it as a plain column',
+    ]);
+  });
+});
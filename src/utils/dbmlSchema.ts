@@ -0,0 +1,602 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProjectData, TableData, Column, IndexData, RelationshipData, ReferentialAction, SQLDialect, TableGroupData, CustomTypeData } from '../types';
+import { ParsedSchema, layoutTables } from './sqlParser';
+import { enumValues } from './seedData';
+import { claimName } from './naming';
+import { columnPairFields, resolveColumnPairs } from './relationshipColumns';
+import { buildJunction, defaultJunctionName, markJunctionTables } from './junctionTables';
+import { DEFAULT_CONSTRAINT_NAMING, isCompleteConstraint, suggestConstraintName } from './tableConstraints';
+import { isGeneratedColumn } from './generatedColumns';
+import { findCustomType, withDomainBaseType } from './customTypes';
+
+export interface ParsedDBML extends ParsedSchema {
+  // Dialect named by the Project block's database_type
+  dialect?: SQLDialect;
+  tableGroups: TableGroupData[];
+}
+
+const DATABASE_TYPES: Record<SQLDialect, string> = {
+  mysql: 'MySQL',
+  mariadb: 'MariaDB',
+  postgresql: 'PostgreSQL',
+  sqlite: 'SQLite',
+  oracle: 'Oracle',
+};
+
+// DBML has no notion of positions, so the layout rides along in a comment that dbdiagram.io leaves alone
+const LAYOUT_MARKER = '// sql-architect:layout ';
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const QUOTES = ["'''", "'", '"', '`'];
+
+const RELATIONSHIP_OPERATORS: Record<RelationshipData['type'], string> = {
+  'one-to-many': '>',
+  'one-to-one': '-',
+  'many-to-many': '<>',
+};
+
+const quoteName = (name: string) => IDENTIFIER.test(name) ? name : `"${name.replace(/"/g, '\\"')}"`;
+
+const quoteString = (value: string) => value.includes('\n')
+  ? `'''${value.replace(/'''/g, "\\'''")}'''`
+  : `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const formatType = (column: Column, enumName: string | undefined) => {
+  if (enumName) return quoteName(enumName);
+  const type = `${column.dataType}${column.length ? `(${column.length})` : ''}${column.isUnsigned ? ' unsigned' : ''}`;
+  return /^[A-Za-z_][\w]*(\([^()"]*\))?$/.test(type) ? type : `"${type.replace(/"/g, '\\"')}"`;
+};
+
+const formatDefault = (value: string) => {
+  if (/^-?\d+(\.\d+)?$/.test(value) || /^(true|false|null)$/i.test(value)) return value.toLowerCase();
+  const quoted = /^'(.*)'$/.exec(value);
+  if (quoted) return quoteString(quoted[1].replace(/''/g, "'"));
+  if (/\(.*\)$/.test(value) || /^(CURRENT_(DATE|TIME|TIMESTAMP)|LOCALTIMESTAMP)$/i.test(value)) return `\`${value}\``;
+  return quoteString(value);
+};
+
+export const generateDBML = (project: ProjectData): string => {
+  const { tables, relationships, dialect } = project;
+  const tableNames = new Map(tables.map(table => [table.id, quoteName(table.name)]));
+  const takenEnums = new Set<string>();
+  const enums: string[] = [];
+  // Catalog enums become one Enum each, shared by the columns that use them
+  const enumNames = new Map<string, string>();
+  const addEnum = (name: string, values: string[]) => {
+    const enumName = claimName(name, takenEnums);
+    enums.push(`Enum ${quoteName(enumName)} {\n${values.map(value => `  ${quoteName(value)}`).join('\n')}\n}`);
+    return enumName;
+  };
+
+  const tableBlocks = tables.map(table => {
+    const primaryKey = table.columns.filter(c => c.isPrimaryKey);
+    // DBML has no domains, so their columns take the base type, NOT NULL and default, and their CHECK joins the table's
+    const domainChecks: string[] = [];
+    const lines = table.columns.map(typedColumn => {
+      const customType = findCustomType(typedColumn, project.customTypes);
+      const column = customType?.kind === 'DOMAIN' ? {
+        ...withDomainBaseType(typedColumn, project.customTypes),
+        isNotNull: typedColumn.isNotNull || !!customType.isNotNull,
+        defaultValue: typedColumn.defaultValue?.trim() ? typedColumn.defaultValue : customType.defaultValue,
+      } : typedColumn;
+      if (customType?.kind === 'DOMAIN' && customType.check?.trim()) {
+        const expression = customType.check.trim().replace(/\bVALUE\b/gi, column.name);
+        domainChecks.push(`    \`${expression}\` [name: ${quoteString(`${table.name}_${column.name}_check`)}]`);
+      }
+      const values = customType?.kind === 'ENUM' || column.dataType.toUpperCase() === 'ENUM' ? enumValues(column, project.customTypes) : [];
+      let enumName: string | undefined;
+      if (customType && values.length > 0) {
+        enumName = enumNames.get(customType.id) ?? addEnum(customType.name, values);
+        enumNames.set(customType.id, enumName);
+      } else if (values.length > 0) {
+        enumName = addEnum(`${table.name}_${column.name}`.replace(/\W/g, '_'), values);
+      }
+
+      const settings: string[] = [];
+      if (column.isPrimaryKey && primaryKey.length === 1) settings.push('pk');
+      if (column.isAutoIncrement) settings.push('increment');
+      if (column.isNotNull && !(column.isPrimaryKey && primaryKey.length === 1)) settings.push('not null');
+      if (column.isUnique && !column.isPrimaryKey) settings.push('unique');
+      const defaultValue = column.defaultValue?.trim();
+      if (defaultValue) settings.push(`default: ${formatDefault(defaultValue)}`);
+      if (column.comment) settings.push(`note: ${quoteString(column.comment)}`);
+      // DBML has no generated columns, so the expression is kept as a comment
+      const generation = isGeneratedColumn(column)
+        ? ` // GENERATED ALWAYS AS (${column.generatedExpression!.trim()}) ${column.generatedStorage ?? 'STORED'}`
+        : '';
+      return `  ${quoteName(column.name)} ${formatType(column, enumName)}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}${generation}`;
+    });
+
+    const indexLines: string[] = [];
+    if (primaryKey.length > 1) {
+      indexLines.push(`    (${primaryKey.map(c => quoteName(c.name)).join(', ')}) [pk]`);
+    }
+    project.indexes.filter(index => index.tableId === table.id && index.type !== 'PRIMARY').forEach(index => {
+      const columns = index.columns.length === 1 ? quoteName(index.columns[0]) : `(${index.columns.map(quoteName).join(', ')})`;
+      const settings = [`name: ${quoteString(index.name)}`];
+      if (index.type === 'UNIQUE') settings.push('unique');
+      if (index.method) settings.push(`type: ${index.method.toLowerCase()}`);
+      indexLines.push(`    ${columns} [${settings.join(', ')}]`);
+    });
+    const constraints = (table.constraints ?? []).filter(isCompleteConstraint);
+    constraints.filter(c => c.kind === 'UNIQUE').forEach(constraint => {
+      indexLines.push(`    (${constraint.columns!.map(quoteName).join(', ')}) [name: ${quoteString(constraint.name)}, unique]`);
+    });
+    if (indexLines.length > 0) lines.push('', '  Indexes {', ...indexLines, '  }');
+    const checkLines = [
+      ...constraints.filter(c => c.kind === 'CHECK').map(c => `    \`${c.expression}\` [name: ${quoteString(c.name)}]`),
+      ...domainChecks,
+    ];
+    if (checkLines.length > 0) lines.push('', '  Checks {', ...checkLines, '  }');
+    constraints.filter(c => c.kind === 'EXCLUDE').forEach(constraint => {
+      lines.push(`  // ${constraint.name}: DBML has no exclusion constraints`);
+    });
+    if (table.comment) lines.push('', `  Note: ${quoteString(table.comment)}`);
+
+    return `Table ${tableNames.get(table.id)} {\n${lines.join('\n')}\n}`;
+  });
+
+  const refs = relationships.flatMap(relationship => {
+    const source = tables.find(t => t.id === relationship.sourceTable);
+    const target = tables.find(t => t.id === relationship.targetTable);
+    const pairs = resolveColumnPairs(relationship, source, target);
+    if (!source || !target || !pairs) return [];
+
+    // Composite keys list their columns in parentheses: orders.(a, b)
+    const columnList = (columns: Column[]) => columns.length === 1
+      ? quoteName(columns[0].name)
+      : `(${columns.map(column => quoteName(column.name)).join(', ')})`;
+    const actions = `[delete: ${relationship.onDelete.toLowerCase()}, update: ${relationship.onUpdate.toLowerCase()}]`;
+    return [`Ref${relationship.name ? ` ${quoteName(relationship.name)}` : ''}: ${tableNames.get(source.id)}.${columnList(pairs.map(pair => pair.source))} ${RELATIONSHIP_OPERATORS[relationship.type]} ${tableNames.get(target.id)}.${columnList(pairs.map(pair => pair.target))} ${actions}`];
+  });
+
+  const groups = (project.tableGroups ?? []).map(group => {
+    const lines = group.tableIds.filter(id => tableNames.has(id)).map(id => `  ${tableNames.get(id)}`);
+    if (group.note) lines.push('', `  Note: ${quoteString(group.note)}`);
+    return `TableGroup ${quoteName(group.name)}${group.color ? ` [color: ${group.color}]` : ''} {\n${lines.join('\n')}\n}`;
+  });
+
+  const layout = Object.fromEntries(tables.map(table => [table.name, { x: Math.round(table.position.x), y: Math.round(table.position.y) }]));
+  const sections = [
+    `Project ${quoteName(project.name)} {\n  database_type: '${DATABASE_TYPES[dialect]}'\n}`,
+    ...tableBlocks,
+    ...(refs.length > 0 ? [refs.join('\n')] : []),
+    ...enums,
+    ...groups,
+    `${LAYOUT_MARKER}${JSON.stringify(layout)}`,
+  ];
+  return sections.join('\n\n') + '\n';
+};
+
+// What DBML cannot express. generateDBML keeps it as comments, which an import cannot read back.
+export const dbmlExportWarnings = (project: ProjectData): string[] => project.tables.flatMap(table => [
+  ...table.columns.filter(isGeneratedColumn).map(column =>
+    `${table.name}.${column.name} is generated; DBML keeps its expression as a comment and imports it as a plain column`),
+  ...table.columns
+    .filter(column => findCustomType(column, project.customTypes)?.kind === 'COMPOSITE')
+    .map(column => `${table.name}.${column.name} uses the composite type ${column.dataType}, which DBML cannot define`),
+  ...(table.constraints ?? []).filter(c => c.kind === 'EXCLUDE').map(c => `${table.name}: DBML has no exclusion constraints, so ${c.name} is left out`),
+]);
+
+// Parsing
+
+interface Statement {
+  header: string;
+  body: string | null;
+}
+
+interface Endpoint {
+  table: string;
+  columns: string[];
+}
+
+interface PendingRef {
+  name?: string;
+  left: Endpoint;
+  operator: string;
+  right: Endpoint;
+  settings: Map<string, string | true>;
+}
+
+// Index just past the string that starts at i, or i when no string starts there
+const skipString = (text: string, i: number) => {
+  const quote = QUOTES.find(q => text.startsWith(q, i));
+  if (!quote) return i;
+  let j = i + quote.length;
+  while (j < text.length && !text.startsWith(quote, j)) j += text[j] === '\\' ? 2 : 1;
+  return j + quote.length;
+};
+
+const stripComments = (source: string) => {
+  let result = '';
+  for (let i = 0; i < source.length;) {
+    const end = skipString(source, i);
+    if (end > i) {
+      result += source.slice(i, end);
+      i = end;
+    } else if (source.startsWith('//', i)) {
+      const lineEnd = source.indexOf('\n', i);
+      i = lineEnd === -1 ? source.length : lineEnd;
+    } else if (source.startsWith('/*', i)) {
+      const commentEnd = source.indexOf('*/', i + 2);
+      i = commentEnd === -1 ? source.length : commentEnd + 2;
+    } else {
+      result += source[i++];
+    }
+  }
+  return result;
+};
+
+// Splits at the separator where it is outside of strings, parentheses, brackets and braces
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const end = skipString(text, i);
+    if (end > i) {
+      i = end - 1;
+    } else if ('([{'.includes(text[i])) {
+      depth++;
+    } else if (')]}'.includes(text[i])) {
+      depth--;
+    } else if (depth === 0 && text.startsWith(separator, i)) {
+      parts.push(text.slice(start, i));
+      start = i + separator.length;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+// Top-level blocks like `Table users { ... }`, and one-line statements like `Ref: a.b > c.d`
+const splitStatements = (text: string): Statement[] => {
+  const statements: Statement[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const end = skipString(text, i);
+    if (end > i) {
+      i = end - 1;
+    } else if (text[i] === '{') {
+      let depth = 1;
+      let j = i + 1;
+      for (; j < text.length && depth > 0; j++) {
+        const stringEnd = skipString(text, j);
+        if (stringEnd > j) j = stringEnd - 1;
+        else if (text[j] === '{') depth++;
+        else if (text[j] === '}') depth--;
+      }
+      statements.push({ header: text.slice(start, i).trim(), body: text.slice(i + 1, j - 1) });
+      start = i = j;
+    } else if (text[i] === '\n' && /^ref\b[^:]*:/i.test(text.slice(start, i).trim())) {
+      statements.push({ header: text.slice(start, i).trim(), body: null });
+      start = i + 1;
+    }
+  }
+  const rest = text.slice(start).trim();
+  if (rest) statements.push({ header: rest, body: null });
+  return statements;
+};
+
+const unquote = (value: string) => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("'''")) {
+    const lines = trimmed.slice(3, -3).replace(/^\n|\n\s*$/g, '').split('\n');
+    const indent = Math.min(...lines.filter(line => line.trim()).map(line => line.match(/^\s*/)![0].length));
+    return lines.map(line => line.slice(indent)).join('\n').replace(/\\'''/g, "'''");
+  }
+  if (/^(['"`])[\s\S]*\1$/.test(trimmed)) {
+    return trimmed.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return trimmed;
+};
+
+// Unquoted name without its schema, so public.users and "public"."users" both read as users
+const parseName = (value: string) => unquote(splitTopLevel(value, '.').pop() ?? value);
+
+const parseSettings = (text: string | undefined) => {
+  const settings = new Map<string, string | true>();
+  splitTopLevel(text ?? '', ',').forEach(part => {
+    const match = part.match(/^([A-Za-z][A-Za-z ]*?)\s*:\s*([\s\S]+)$/);
+    if (match) settings.set(match[1].toLowerCase(), match[2].trim());
+    else settings.set(part.toLowerCase().replace(/\s+/g, ' '), true);
+  });
+  return settings;
+};
+
+// Splits `body [settings]` into both parts. The settings bracket follows whitespace, unlike an array type like int[]
+const splitSettings = (text: string) => {
+  const trimmed = text.trim();
+  let depth = 0;
+  for (let i = 0; i < trimmed.length; i++) {
+    const end = skipString(trimmed, i);
+    if (end > i) {
+      i = end - 1;
+    } else if (trimmed[i] === '[' && depth === 0 && (i === 0 || /\s/.test(trimmed[i - 1])) && trimmed.endsWith(']')) {
+      return { body: trimmed.slice(0, i).trim(), settings: trimmed.slice(i + 1, -1) };
+    } else if ('([{'.includes(trimmed[i])) {
+      depth++;
+    } else if (')]}'.includes(trimmed[i])) {
+      depth--;
+    }
+  }
+  return { body: trimmed, settings: undefined };
+};
+
+const parseEndpoint = (value: string): Endpoint => {
+  const parts = splitTopLevel(value, '.');
+  const columnPart = parts.pop() ?? '';
+  const columns = columnPart.startsWith('(')
+    ? splitTopLevel(columnPart.slice(1, -1), ',').map(unquote)
+    : [unquote(columnPart)];
+  return { table: unquote(parts.pop() ?? ''), columns };
+};
+
+const parseRef = (expression: string): PendingRef | null => {
+  const { body, settings } = splitSettings(expression);
+  const match = body.match(/^(.+?)\s*(<>|>|<|-)\s*(.+)$/);
+  if (!match) return null;
+  return { left: parseEndpoint(match[1]), operator: match[2], right: parseEndpoint(match[3]), settings: parseSettings(settings) };
+};
+
+const parseReferentialAction = (value: string | true | undefined): ReferentialAction => {
+  const action = typeof value === 'string' ? value.toUpperCase().replace(/\s+/g, ' ') : '';
+  return (['CASCADE', 'RESTRICT', 'SET NULL', 'SET DEFAULT', 'NO ACTION'] as ReferentialAction[]).find(a => a === action) ?? 'NO ACTION';
+};
+
+const parseDefault = (value: string) => {
+  const trimmed = value.trim();
+  if (/^null$/i.test(trimmed)) return undefined;
+  if (/^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase();
+  return /^['"`]/.test(trimmed) ? unquote(trimmed) : trimmed;
+};
+
+// Reads DBML as written by dbdiagram.io into tables, relationships, indexes and table groups.
+// Positions come from the layout comment written by generateDBML, when it is there.
+export const parseDBML = (source: string, fallbackDialect: SQLDialect): ParsedDBML => {
+  const warnings: string[] = [];
+  const layoutLine = source.split(/\r?\n/).find(line => line.trim().startsWith(LAYOUT_MARKER));
+  let layout: Record<string, { x: number; y: number }> = {};
+  if (layoutLine) {
+    try {
+      layout = JSON.parse(layoutLine.trim().slice(LAYOUT_MARKER.length));
+    } catch {
+      warnings.push('The layout comment could not be read; tables were laid out again');
+    }
+  }
+
+  const statements = splitStatements(stripComments(source));
+  const keyword = (statement: Statement) => statement.header.match(/^\w+/)?.[0].toLowerCase() ?? '';
+  // The header without its keyword, like `users as U` for `Table users as U`
+  const headerRest = (statement: Statement) => statement.header.replace(/^\w+\s*/, '');
+
+  let dialect: SQLDialect | undefined;
+  statements.filter(statement => keyword(statement) === 'project' && statement.body !== null).forEach(statement => {
+    const databaseType = splitTopLevel(statement.body!, '\n')
+      .map(line => line.match(/^database_type\s*:\s*(.+)$/i))
+      .find(Boolean)?.[1];
+    if (!databaseType) return;
+    const name = unquote(databaseType).toLowerCase();
+    dialect = (Object.keys(DATABASE_TYPES) as SQLDialect[]).find(d => DATABASE_TYPES[d].toLowerCase() === name);
+    if (!dialect) warnings.push(`The ${unquote(databaseType)} database type is not supported; the schema was imported as ${fallbackDialect}`);
+  });
+  const targetDialect = dialect ?? fallbackDialect;
+  const normalizeType = (type: string) => targetDialect === 'postgresql' ? type.toLowerCase() : type.toUpperCase();
+
+  const customTypes: CustomTypeData[] = [];
+  statements.filter(statement => keyword(statement) === 'enum' && statement.body !== null).forEach(statement => {
+    const values = splitTopLevel(statement.body!, '\n').map(line => unquote(splitSettings(line).body));
+    customTypes.push({ id: uuidv4(), name: parseName(headerRest(statement)), kind: 'ENUM', values });
+  });
+
+  const tables: TableData[] = [];
+  const indexes: IndexData[] = [];
+  const pendingRefs: PendingRef[] = [];
+  const aliases = new Map<string, TableData>();
+
+  statements.filter(statement => keyword(statement) === 'table' && statement.body !== null).forEach(statement => {
+    const { body: header, settings: headerSettings } = splitSettings(headerRest(statement));
+    const [namePart, alias] = header.split(/\s+as\s+/i);
+    const table: TableData = {
+      id: uuidv4(),
+      name: parseName(namePart),
+      columns: [],
+      position: { x: 0, y: 0 },
+    };
+    const headerNote = parseSettings(headerSettings).get('note');
+    if (typeof headerNote === 'string') table.comment = unquote(headerNote);
+    if (alias) aliases.set(unquote(alias), table);
+
+    splitTopLevel(statement.body!, '\n').forEach(line => {
+      if (/^indexes\s*\{/i.test(line)) {
+        const indexBody = line.slice(line.indexOf('{') + 1, line.lastIndexOf('}'));
+        splitTopLevel(indexBody, '\n').forEach(indexLine => {
+          const { body, settings: indexSettings } = splitSettings(indexLine);
+          const settings = parseSettings(indexSettings);
+          if (body.includes('`')) {
+            warnings.push(`Skipped an expression index on ${table.name}: only column indexes are supported`);
+            return;
+          }
+          const columns = body.startsWith('(') ? splitTopLevel(body.slice(1, -1), ',').map(unquote) : [unquote(body)];
+          if (settings.has('pk')) {
+            table.columns.filter(c => columns.includes(c.name)).forEach(c => {
+              c.isPrimaryKey = true;
+              c.isNotNull = true;
+            });
+            return;
+          }
+          const name = settings.get('name');
+          const method = settings.get('type');
+          indexes.push({
+            id: uuidv4(),
+            name: typeof name === 'string' ? unquote(name) : `idx_${table.name}_${columns.join('_')}`,
+            tableId: table.id,
+            columns,
+            type: settings.has('unique') ? 'UNIQUE' : 'INDEX',
+            ...(typeof method === 'string' && /^(btree|hash)$/i.test(method) ? { method: method.toUpperCase() as IndexData['method'] } : {}),
+          });
+        });
+        return;
+      }
+      if (/^checks\s*\{/i.test(line)) {
+        const checkBody = line.slice(line.indexOf('{') + 1, line.lastIndexOf('}'));
+        splitTopLevel(checkBody, '\n').forEach(checkLine => {
+          const { body, settings: checkSettings } = splitSettings(checkLine);
+          const name = parseSettings(checkSettings).get('name');
+          table.constraints = [...(table.constraints ?? []), {
+            id: uuidv4(),
+            name: typeof name === 'string' ? unquote(name) : suggestConstraintName(DEFAULT_CONSTRAINT_NAMING, table, 'CHECK', []),
+            kind: 'CHECK',
+            expression: body.replace(/^`|`$/g, ''),
+          }];
+        });
+        return;
+      }
+      const note = line.match(/^note\s*(?::([\s\S]+)|\{([\s\S]*)\})$/i);
+      if (note) {
+        table.comment = unquote(note[1] ?? note[2]);
+        return;
+      }
+
+      const { body, settings: columnSettings } = splitSettings(line);
+      const match = body.match(/^("(?:[^"\\]|\\.)*"|\S+)\s+("(?:[^"\\]|\\.)*"|[^\s(]+(?:\s*\([^)]*\))?)\s*(unsigned)?$/i);
+      if (!match) {
+        warnings.push(`Skipped ${table.name}: could not read "${line}"`);
+        return;
+      }
+      const settings = parseSettings(columnSettings);
+      // A quoted type like "DECIMAL(10,2) unsigned" carries its arguments inside the quotes
+      const rawType = /^"[^"]*"$/.test(match[2]) ? unquote(match[2]) : match[2];
+      const typeMatch = rawType.match(/^(.+?)\s*(?:\(([^)]*)\))?(\s+unsigned)?$/i)!;
+      const typeName = parseName(typeMatch[1]);
+      const customType = customTypes.find(t => t.name === typeName);
+
+      const column: Column = {
+        id: uuidv4(),
+        name: unquote(match[1]),
+        dataType: normalizeType(typeName),
+        length: typeMatch[2]?.replace(/\s+/g, '') || undefined,
+        isPrimaryKey: settings.has('pk') || settings.has('primary key'),
+        isNotNull: settings.has('not null') || settings.has('pk') || settings.has('primary key'),
+        isAutoIncrement: settings.has('increment'),
+        isUnique: settings.has('unique'),
+      };
+      if (match[3] || typeMatch[3]) column.isUnsigned = true;
+      if (customType) {
+        column.dataType = customType.name;
+        column.customTypeId = customType.id;
+      }
+      const defaultValue = settings.get('default');
+      if (typeof defaultValue === 'string') column.defaultValue = parseDefault(defaultValue);
+      const columnNote = settings.get('note');
+      if (typeof columnNote === 'string') column.comment = unquote(columnNote);
+      table.columns.push(column);
+
+      const inlineRef = settings.get('ref');
+      if (typeof inlineRef === 'string') {
+        const ref = parseRef(`${quoteName(table.name)}.${quoteName(column.name)} ${inlineRef}`);
+        if (ref) pendingRefs.push(ref);
+      }
+    });
+
+    tables.push(table);
+  });
+
+  statements.filter(statement => keyword(statement) === 'ref').forEach(statement => {
+    const expressions = statement.body !== null
+      ? splitTopLevel(statement.body, '\n')
+      : [statement.header.slice(statement.header.indexOf(':') + 1)];
+    // `Ref fk_orders_customer: ...` names the constraint; a name shared by several references is left out
+    const name = headerRest(statement).split(':')[0].trim();
+    expressions.forEach(expression => {
+      const ref = parseRef(expression);
+      if (ref && name && expressions.length === 1) ref.name = parseName(name);
+      if (ref) pendingRefs.push(ref);
+      else warnings.push(`Skipped reference "${expression.trim()}": could not read it`);
+    });
+  });
+
+  const findTable = (name: string) => aliases.get(name) ?? tables.find(t => t.name === name);
+  const relationships: RelationshipData[] = [];
+  pendingRefs.forEach(ref => {
+    // The many side, or the left side of a one-to-one, holds the foreign key
+    const [from, to] = ref.operator === '<' ? [ref.right, ref.left] : [ref.left, ref.right];
+    const source = findTable(from.table);
+    const target = findTable(to.table);
+    const label = `${from.table}.${from.columns.join(',')}`;
+    if (from.columns.length !== to.columns.length) {
+      warnings.push(`Skipped reference ${label}: both sides need the same number of columns`);
+      return;
+    }
+    const pairs = from.columns.map((name, i) => ({
+      source: source?.columns.find(c => c.name === name),
+      target: target?.columns.find(c => c.name === to.columns[i]),
+    }));
+    if (!source || !target || pairs.some(pair => !pair.source || !pair.target)) {
+      warnings.push(`Skipped reference ${label}: table or column was not found`);
+      return;
+    }
+
+    const onUpdate = parseReferentialAction(ref.settings.get('update'));
+    const onDelete = parseReferentialAction(ref.settings.get('delete'));
+    // Like dbdiagram.io, a many-to-many reference gets a junction table
+    if (ref.operator === '<>') {
+      const junction = buildJunction(
+        [{ table: source, columns: pairs.map(pair => pair.source!) }, { table: target, columns: pairs.map(pair => pair.target!) }],
+        { name: claimName(defaultJunctionName(source, target), new Set(tables.map(t => t.name))), onUpdate, onDelete }
+      );
+      tables.push(junction.table);
+      relationships.push(...junction.relationships);
+      return;
+    }
+
+    const columnPairs = pairs.map(pair => {
+      const sourceColumn = pair.source!;
+      sourceColumn.isForeignKey = true;
+      sourceColumn.referencesTable = target.id;
+      sourceColumn.referencesColumn = pair.target!.id;
+      return { sourceColumn: sourceColumn.id, targetColumn: pair.target!.id };
+    });
+    relationships.push({
+      id: uuidv4(),
+      sourceTable: source.id,
+      targetTable: target.id,
+      ...columnPairFields(columnPairs),
+      type: ref.operator === '-' ? 'one-to-one' : 'one-to-many',
+      onUpdate,
+      onDelete,
+      name: ref.name,
+    });
+  });
+  markJunctionTables(tables.filter(table => !table.junction), relationships);
+
+  const tableGroups = statements.filter(statement => keyword(statement) === 'tablegroup' && statement.body !== null).map(statement => {
+    const header = splitSettings(headerRest(statement));
+    const color = parseSettings(header.settings).get('color');
+    const group: TableGroupData = { id: uuidv4(), name: parseName(header.body), tableIds: [] };
+    if (typeof color === 'string' && /^#[0-9a-f]{3,8}$/i.test(color)) group.color = color;
+    splitTopLevel(statement.body!, '\n').forEach(line => {
+      const note = line.match(/^note\s*(?::([\s\S]+)|\{([\s\S]*)\})$/i);
+      if (note) {
+        group.note = unquote(note[1] ?? note[2]);
+        return;
+      }
+      const table = findTable(parseName(line));
+      if (table) group.tableIds.push(table.id);
+      else warnings.push(`Table group ${group.name}: table ${line} was not found`);
+    });
+    return group;
+  });
+
+  statements.filter(statement => !['project', 'table', 'enum', 'ref', 'tablegroup'].includes(keyword(statement))).forEach(statement => {
+    warnings.push(`Skipped ${statement.header}: only tables, references, enums and table groups are imported`);
+  });
+
+  layoutTables(tables);
+  tables.forEach(table => {
+    const position = layout[table.name];
+    if (position && typeof position.x === 'number' && typeof position.y === 'number') table.position = { x: position.x, y: position.y };
+  });
+
+  return { tables, relationships, indexes, customTypes, warnings, dialect, tableGroups };
+};
@@ -0,0 +1,52 @@
+import { TableData, RelationshipData } from '../types';
+
+export interface TableOrder {
+  // Every table appears after the tables its inline foreign keys reference
+  tables: TableData[];
+  // Foreign keys that close a cycle; they have to be added once all tables exist
+  deferredRelationships: RelationshipData[];
+}
+
+// Kahn's algorithm over the foreign keys (the source table depends on the target table). Tables
+// that are ready at the same time keep their project order, so the output is stable. When only
+// cycles are left, a table on a cycle is created anyway and its foreign keys to tables that do not
+// exist yet are deferred; self references are always deferred.
+export const orderTablesByDependencies = (tables: TableData[], relationships: RelationshipData[]): TableOrder => {
+  const tableIds = new Set(tables.map(t => t.id));
+  const dependencies = relationships.filter(r => tableIds.has(r.sourceTable) && tableIds.has(r.targetTable));
+  const deferredRelationships = dependencies.filter(r => r.sourceTable === r.targetTable);
+
+  const ordered: TableData[] = [];
+  const placed = new Set<string>();
+  const remaining = [...tables];
+
+  const pendingDependencies = (table: TableData) => dependencies.filter(r =>
+    r.sourceTable === table.id && !placed.has(r.targetTable) && !deferredRelationships.includes(r)
+  );
+
+  // Every stalled table waits for another stalled one, so following them must end in a cycle
+  const findTableInCycle = () => {
+    const visited = new Set<string>();
+    let table = remaining[0];
+    while (!visited.has(table.id)) {
+      visited.add(table.id);
+      const next = pendingDependencies(table)[0];
+      table = remaining.find(t => t.id === next.targetTable)!;
+    }
+    return table;
+  };
+
+  while (remaining.length > 0) {
+    let index = remaining.findIndex(table => pendingDependencies(table).length === 0);
+    if (index === -1) {
+      const table = findTableInCycle();
+      deferredRelationships.push(...pendingDependencies(table));
+      index = remaining.indexOf(table);
+    }
+    const [table] = remaining.splice(index, 1);
+    ordered.push(table);
+    placed.add(table.id);
+  }
+
+  return { tables: ordered, deferredRelationships };
+};
@@ -0,0 +1,330 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Database, Key, Link, Hash, LucideIcon } from 'lucide-react';
+import { ProjectData, TableData, Column, RelationshipData, DiagramExportOptions } from '../types';
+
+export interface DiagramSVG {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// Measurements of TableNode, so the export looks like the canvas
+const NODE_MIN_WIDTH = 256;
+const NODE_PADDING = 16;
+const HEADER_HEIGHT = 36;
+const ROW_HEIGHT = 37;
+const EMPTY_ROW_HEIGHT = 44;
+const FOOTER_HEIGHT = 33;
+const ICON_SIZE = 12;
+
+const DIAGRAM_PADDING = 40;
+const TITLE_HEIGHT = 64;
+// Edges leave and enter tables horizontally before they turn
+const EDGE_OFFSET = 20;
+const FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, sans-serif';
+
+// Browsers refuse to draw canvases much larger than this
+const MAX_CANVAS_SIZE = 16384;
+
+// A4 landscape in points, and the CSS pixel to point ratio
+const PDF_PAGE = { width: 842, height: 595 };
+const PDF_MARGIN = 36;
+const POINTS_PER_PIXEL = 0.75;
+const PDF_RASTER_SCALE = 2;
+
+export const relationshipLabel = (type: RelationshipData['type']) =>
+  type === 'one-to-many' ? '1:N' : type === 'many-to-many' ? 'N:M' : '1:1';
+
+const escapeXML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+const measureText = (text: string, font: string) => {
+  if (measureContext === undefined) {
+    measureContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+  }
+  if (!measureContext) {
+    // Rough average glyph width when there is no canvas to measure with
+    return text.length * parseInt(font.match(/(\d+)px/)?.[1] ?? '14') * 0.55;
+  }
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+const nameFont = (size: number, weight = 500) => `${weight} ${size}px ${FONT_FAMILY}`;
+
+// The type as TableNode shows it
+const columnType = (column: Column) =>
+  column.length && ['VARCHAR', 'CHAR', 'DECIMAL', 'VARBINARY', 'BINARY'].includes(column.dataType.toUpperCase())
+    ? `${column.dataType}(${column.length})`
+    : column.dataType;
+
+const icon = (Icon: LucideIcon, x: number, y: number, size: number, color: string) =>
+  `<g transform="translate(${x} ${y})">${renderToStaticMarkup(createElement(Icon, { size, color }))}</g>`;
+
+const columnIcon = (column: Column, x: number, y: number) => {
+  if (column.isPrimaryKey) return icon(Key, x, y, ICON_SIZE, '#eab308');
+  if (column.isForeignKey) return icon(Link, x, y, ICON_SIZE, '#3b82f6');
+  if (column.isUnique) return icon(Hash, x, y, ICON_SIZE, '#22c55e');
+  return '';
+};
+
+const nodeWidth = (table: TableData) => {
+  const header = NODE_PADDING * 2 + 16 + 8 + measureText(table.name, nameFont(14, 600));
+  const rows = table.columns.map(column =>
+    NODE_PADDING * 2 + ICON_SIZE + 8 + measureText(column.name, nameFont(14)) + 8 + measureText(columnType(column), nameFont(12, 400))
+  );
+  return Math.ceil(Math.max(NODE_MIN_WIDTH, header, ...rows));
+};
+
+const nodeHeight = (table: TableData) =>
+  HEADER_HEIGHT + (table.columns.length === 0 ? EMPTY_ROW_HEIGHT : table.columns.length * ROW_HEIGHT) + FOOTER_HEIGHT;
+
+// Rendered size of a table on the canvas
+export const tableNodeSize = (table: TableData) => ({ width: nodeWidth(table), height: nodeHeight(table) });
+
+const renderNode = (table: TableData, width: number) => {
+  const { x, y } = table.position;
+  const height = nodeHeight(table);
+  const parts = [
+    `<g>`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="#ffffff" stroke="#e5e7eb" stroke-width="2"/>`,
+    // Header with rounded top corners only
+    `<path d="M${x} ${y + HEADER_HEIGHT} V${y + 8} a8 8 0 0 1 8 -8 H${x + width - 8} a8 8 0 0 1 8 8 V${y + HEADER_HEIGHT} Z" fill="#2563eb"/>`,
+    icon(Database, x + NODE_PADDING, y + (HEADER_HEIGHT - 16) / 2, 16, '#ffffff'),
+    `<text x="${x + NODE_PADDING + 24}" y="${y + HEADER_HEIGHT / 2}" dominant-baseline="central" font-family="${FONT_FAMILY}" font-size="14" font-weight="600" fill="#ffffff">${escapeXML(table.name)}</text>`,
+  ];
+
+  if (table.columns.length === 0) {
+    parts.push(`<text x="${x + NODE_PADDING}" y="${y + HEADER_HEIGHT + EMPTY_ROW_HEIGHT / 2}" dominant-baseline="central" font-family="${FONT_FAMILY}" font-size="14" font-style="italic" fill="#6b7280">No columns defined</text>`);
+  }
+  table.columns.forEach((column, i) => {
+    const rowY = y + HEADER_HEIGHT + i * ROW_HEIGHT;
+    const centerY = rowY + ROW_HEIGHT / 2;
+    if (i > 0) parts.push(`<line x1="${x}" y1="${rowY}" x2="${x + width}" y2="${rowY}" stroke="#f3f4f6"/>`);
+    parts.push(
+      columnIcon(column, x + NODE_PADDING, centerY - ICON_SIZE / 2),
+      `<text x="${x + NODE_PADDING + ICON_SIZE + 8}" y="${centerY}" dominant-baseline="central" font-family="${FONT_FAMILY}" font-size="14" font-weight="500" fill="#1f2937">${escapeXML(column.name)}</text>`,
+      `<text x="${x + width - NODE_PADDING}" y="${centerY}" dominant-baseline="central" text-anchor="end" font-family="${FONT_FAMILY}" font-size="12" fill="#6b7280">${escapeXML(columnType(column))}</text>`,
+    );
+  });
+
+  const footerY = y + height - FOOTER_HEIGHT;
+  parts.push(
+    `<path d="M${x} ${footerY} H${x + width} V${y + height - 8} a8 8 0 0 1 -8 8 H${x + 8} a8 8 0 0 1 -8 -8 Z" fill="#f9fafb" stroke="#e5e7eb"/>`,
+    `<text x="${x + NODE_PADDING}" y="${footerY + FOOTER_HEIGHT / 2}" dominant-baseline="central" font-family="${FONT_FAMILY}" font-size="12" fill="#4b5563">${table.columns.length} column${table.columns.length !== 1 ? 's' : ''}</text>`,
+    `</g>`,
+  );
+  return parts.join('');
+};
+
+// Orthogonal route from the source column's right side to the target column's left side
+const routeEdge = (sx: number, sy: number, tx: number, ty: number, detourY: number) => {
+  if (tx - EDGE_OFFSET >= sx + EDGE_OFFSET) {
+    const mx = (sx + tx) / 2;
+    return { path: `M${sx} ${sy} H${mx} V${ty} H${tx}`, labelX: mx, labelY: (sy + ty) / 2 };
+  }
+  return {
+    path: `M${sx} ${sy} H${sx + EDGE_OFFSET} V${detourY} H${tx - EDGE_OFFSET} V${ty} H${tx}`,
+    labelX: (sx + tx) / 2,
+    labelY: detourY,
+  };
+};
+
+export const generateDiagramSVG = (project: ProjectData, options: Pick<DiagramExportOptions, 'transparent' | 'includeTitle'>): DiagramSVG => {
+  const { tables, relationships } = project;
+  const widths = new Map(tables.map(table => [table.id, nodeWidth(table)]));
+  const rowCenter = (table: TableData, columnId: string) =>
+    table.position.y + HEADER_HEIGHT + Math.max(0, table.columns.findIndex(c => c.id === columnId)) * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  const edges = relationships.flatMap(relationship => {
+    const source = tables.find(t => t.id === relationship.sourceTable);
+    const target = tables.find(t => t.id === relationship.targetTable);
+    if (!source || !target) return [];
+    const sx = source.position.x + widths.get(source.id)!;
+    const sy = rowCenter(source, relationship.sourceColumn);
+    const tx = target.position.x;
+    const ty = rowCenter(target, relationship.targetColumn);
+    // Edges running back to the left pass below both tables, and a table referencing itself loops over its own header
+    const detourY = source === target
+      ? source.position.y - EDGE_OFFSET
+      : Math.max(source.position.y + nodeHeight(source), target.position.y + nodeHeight(target)) + EDGE_OFFSET;
+    return [{ ...routeEdge(sx, sy, tx, ty, detourY), label: relationshipLabel(relationship.type) }];
+  });
+
+  const xs = tables.flatMap(table => [table.position.x, table.position.x + widths.get(table.id)!]);
+  const ys = tables.flatMap(table => [table.position.y - EDGE_OFFSET, table.position.y + nodeHeight(table)]);
+  const minX = (tables.length > 0 ? Math.min(...xs) : 0) - EDGE_OFFSET - DIAGRAM_PADDING;
+  const minY = (tables.length > 0 ? Math.min(...ys) : 0) - DIAGRAM_PADDING - (options.includeTitle ? TITLE_HEIGHT : 0);
+  const maxX = (tables.length > 0 ? Math.max(...xs) : NODE_MIN_WIDTH) + EDGE_OFFSET + DIAGRAM_PADDING;
+  const maxY = (tables.length > 0 ? Math.max(...ys) : 0) + DIAGRAM_PADDING;
+  const width = Math.ceil(maxX - minX);
+  const height = Math.ceil(maxY - minY);
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}">`,
+    `<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="10" markerHeight="10" orient="auto-start-reverse"><path d="M0 0 L10 5 L0 10 Z" fill="#6b7280"/></marker></defs>`,
+  ];
+  if (!options.transparent) {
+    parts.push(`<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="#ffffff"/>`);
+  }
+  if (options.includeTitle) {
+    const left = minX + DIAGRAM_PADDING;
+    const top = minY + DIAGRAM_PADDING / 2;
+    parts.push(
+      `<text x="${left}" y="${top + 22}" font-family="${FONT_FAMILY}" font-size="20" font-weight="600" fill="#111827">${escapeXML(project.name)}</text>`,
+      `<text x="${left}" y="${top + 44}" font-family="${FONT_FAMILY}" font-size="12" fill="#6b7280">${escapeXML(`${project.dialect.toUpperCase()} · ${tables.length} table${tables.length !== 1 ? 's' : ''} · generated ${new Date().toLocaleString()}`)}</text>`,
+    );
+  }
+
+  edges.forEach(edge => {
+    parts.push(`<path d="${edge.path}" fill="none" stroke="#6b7280" stroke-width="2" marker-end="url(#arrow)"/>`);
+  });
+  tables.forEach(table => parts.push(renderNode(table, widths.get(table.id)!)));
+  // Labels go last so tables never cover them
+  edges.forEach(edge => {
+    const labelWidth = measureText(edge.label, nameFont(12, 400)) + 10;
+    parts.push(
+      `<rect x="${edge.labelX - labelWidth / 2}" y="${edge.labelY - 9}" width="${labelWidth}" height="18" rx="3" fill="#ffffff"/>`,
+      `<text x="${edge.labelX}" y="${edge.labelY}" dominant-baseline="central" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="12" fill="#374151">${edge.label}</text>`,
+    );
+  });
+
+  parts.push('</svg>');
+  return { svg: parts.join('\n'), width, height };
+};
+
+const loadImage = (svg: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('The diagram could not be rendered'));
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+});
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The canvas could not be encoded')), type, quality);
+});
+
+const rasterize = async ({ svg, width, height }: DiagramSVG, scale: number, background: string | null) => {
+  const image = await loadImage(svg);
+  const ratio = Math.min(scale, MAX_CANVAS_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+  const context = canvas.getContext('2d')!;
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { canvas, ratio };
+};
+
+export const renderDiagramPNG = async (diagram: DiagramSVG, scale: number, transparent: boolean): Promise<Blob> => {
+  const { canvas } = await rasterize(diagram, scale, transparent ? null : '#ffffff');
+  return canvasToBlob(canvas, 'image/png');
+};
+
+// Diagram area per PDF page, in CSS pixels
+const pdfTileSize = () => ({
+  width: Math.floor((PDF_PAGE.width - PDF_MARGIN * 2) / POINTS_PER_PIXEL),
+  height: Math.floor((PDF_PAGE.height - PDF_MARGIN * 2) / POINTS_PER_PIXEL),
+});
+
+export const pdfPageCount = (width: number, height: number) => {
+  const tile = pdfTileSize();
+  return Math.ceil(width / tile.width) * Math.ceil(height / tile.height);
+};
+
+interface PDFPage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  // Placed size in points
+  width: number;
+  height: number;
+}
+
+// Writes a PDF with one JPEG image per page, top left within the margins
+const buildPDF = (pages: PDFPage[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects 1 and 2 are the catalog and page tree, then each page takes three: page, content and image
+  const pageIds = Array.from(pages.keys(), i => 3 + i * 3);
+  write('%PDF-1.4\n');
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const id = pageIds[i];
+    const content = `q ${page.width.toFixed(2)} 0 0 ${page.height.toFixed(2)} ${PDF_MARGIN} ${(PDF_PAGE.height - PDF_MARGIN - page.height).toFixed(2)} cm /Im0 Do Q`;
+    beginObject(id);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE.width} ${PDF_PAGE.height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`);
+    beginObject(id + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    beginObject(id + 2);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  const size = offsets.length;
+  const entries = offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  write(`xref\n0 ${size}\n0000000000 65535 f \n${entries}trailer\n<< /Size ${size} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const bytes = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, position);
+    position += chunk.length;
+  });
+  return new Blob([bytes], { type: 'application/pdf' });
+};
+
+// Large diagrams are cut into A4 landscape pages at their natural size, left to right, top to bottom
+export const renderDiagramPDF = async (diagram: DiagramSVG): Promise<Blob> => {
+  const { canvas, ratio } = await rasterize(diagram, PDF_RASTER_SCALE, '#ffffff');
+  const tile = pdfTileSize();
+  const pages: PDFPage[] = [];
+
+  for (let top = 0; top < diagram.height; top += tile.height) {
+    for (let left = 0; left < diagram.width; left += tile.width) {
+      const width = Math.min(tile.width, diagram.width - left);
+      const height = Math.min(tile.height, diagram.height - top);
+      const pageCanvas = document.createElement('canvas');
+      pageCanvas.width = Math.round(width * ratio);
+      pageCanvas.height = Math.round(height * ratio);
+      const context = pageCanvas.getContext('2d')!;
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, pageCanvas.width, pageCanvas.height);
+      context.drawImage(canvas, left * ratio, top * ratio, pageCanvas.width, pageCanvas.height, 0, 0, pageCanvas.width, pageCanvas.height);
+
+      const jpeg = new Uint8Array(await (await canvasToBlob(pageCanvas, 'image/jpeg', 0.92)).arrayBuffer());
+      pages.push({
+        jpeg,
+        pixelWidth: pageCanvas.width,
+        pixelHeight: pageCanvas.height,
+        width: width * POINTS_PER_PIXEL,
+        height: height * POINTS_PER_PIXEL,
+      });
+    }
+  }
+  return buildPDF(pages);
+};
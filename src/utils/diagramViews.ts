@@ -0,0 +1,53 @@
+import { ProjectData, TableData, TableGroupData } from '../types';
+import { tableNodeSize } from './diagramExport';
+
+export const SUBJECT_AREA_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+
+// Room around the tables of a frame, with space for the name on top
+const FRAME_PADDING = 24;
+const FRAME_HEADER = 32;
+
+export interface SubjectAreaFrame {
+  group: TableGroupData;
+  tables: TableData[];
+  position: { x: number; y: number };
+  width: number;
+  height: number;
+}
+
+export const activeDiagramView = (project: ProjectData) =>
+  project.diagramViews?.find(view => view.id === project.activeViewId);
+
+// The project as the canvas shows it: only the tables of the active view, at the view's positions
+export const viewProject = (project: ProjectData): ProjectData => {
+  const view = activeDiagramView(project);
+  if (!view) return project;
+  const tables = project.tables
+    .filter(table => view.tableIds.includes(table.id))
+    .map(table => ({ ...table, position: view.positions[table.id] ?? table.position }));
+  const ids = new Set(tables.map(table => table.id));
+  return {
+    ...project,
+    tables,
+    relationships: project.relationships.filter(rel => ids.has(rel.sourceTable) && ids.has(rel.targetTable)),
+  };
+};
+
+// Frames around the visible tables of each subject area; areas without visible tables get none
+export const subjectAreaFrames = (project: ProjectData): SubjectAreaFrame[] =>
+  (project.tableGroups ?? []).flatMap(group => {
+    const tables = project.tables.filter(table => group.tableIds.includes(table.id));
+    if (tables.length === 0) return [];
+    const boxes = tables.map(table => ({ ...table.position, ...tableNodeSize(table) }));
+    const minX = Math.min(...boxes.map(box => box.x));
+    const minY = Math.min(...boxes.map(box => box.y));
+    const maxX = Math.max(...boxes.map(box => box.x + box.width));
+    const maxY = Math.max(...boxes.map(box => box.y + box.height));
+    return [{
+      group,
+      tables,
+      position: { x: minX - FRAME_PADDING, y: minY - FRAME_PADDING - FRAME_HEADER },
+      width: maxX - minX + FRAME_PADDING * 2,
+      height: maxY - minY + FRAME_PADDING * 2 + FRAME_HEADER,
+    }];
+  });
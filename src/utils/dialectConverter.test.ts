@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Column, ProjectData, SQLDialect } from '../types';
+import { collectSourceTypes, convertProject, resolveTypeMapping } from './dialectConverter';
+import { SQLGenerator } from './sqlGenerator';
+import { column, primaryKey, project, table } from '../test/fixtures';
+
+const mysqlProject = (...columns: Column[]) =>
+  project({ dialect: 'mysql', tables: [table('items', [primaryKey(), ...columns])] });
+
+const convertedColumn = (source: ProjectData, name: string, target: SQLDialect) =>
+  convertProject(source, target).project.tables[0].columns.find(c => c.name === name)!;
+
+describe('convertProject', () => {
+  it('returns the project unchanged for its own dialect', () => {
+    const source = mysqlProject(column('flag', { dataType: 'TINYINT', length: '1' }));
+    expect(convertProject(source, 'mysql')).toEqual({ project: source, notes: [] });
+  });
+
+  it('suggests a CHECK constraint listing every ENUM value, commas and quotes included', () => {
+    const source = mysqlProject(column('size', { dataType: 'ENUM', length: "'small','extra, large','o''brien'" }));
+
+    const { project: converted, notes } = convertProject(source, 'postgresql');
+    expect(converted.dialect).toBe('postgresql');
+    const sizeNotes = notes.filter(note => note.columnId === 'size');
+    expect(sizeNotes).toHaveLength(1);
+    expect(sizeNotes[0].message).toContain("CHECK (size IN ('small', 'extra, large', 'o''brien'))");
+  });
+
+  it('widens unsigned integers for dialects without UNSIGNED', () => {
+    const converted = convertedColumn(mysqlProject(column('count', { dataType: 'INT', isUnsigned: true })), 'count', 'postgresql');
+    expect(converted.dataType).toBe('bigint');
+    expect(converted.isUnsigned).toBeUndefined();
+  });
+
+  it('applies type overrides before the default mapping', () => {
+    const source = mysqlProject(column('body', { dataType: 'MEDIUMTEXT' }));
+    const { project: converted } = convertProject(source, 'postgresql', { MEDIUMTEXT: 'VARCHAR' });
+    expect(converted.tables[0].columns[1].dataType).toBe('VARCHAR');
+  });
+
+  it('maps collations to the target and drops the ones it has no equivalent for', () => {
+    const source = project({
+      dialect: 'mysql',
+      tables: [table('users', [
+        primaryKey(),
+        column('email', { dataType: 'VARCHAR', length: '255', charset: 'latin1', collation: 'latin1_bin' }),
+        column('name', { dataType: 'VARCHAR', length: '255', collation: 'utf8mb4_unicode_ci' }),
+        column('bio', { dataType: 'TEXT', collation: 'utf8mb4_general_ci' }),
+      ], { charset: 'utf8mb4', collation: 'utf8mb4_general_ci' })],
+    });
+
+    const toPostgres = convertProject(source, 'postgresql');
+    expect(toPostgres.project.tables[0].columns.slice(1).map(c => [c.charset, c.collation]))
+      .toEqual([[undefined, 'C'], [undefined, undefined], [undefined, 'utf8mb4_general_ci']]);
+    expect(toPostgres.notes.filter(note => note.columnId !== 'id').map(note => note.message)).toEqual([
+      'users.email: CHARACTER SET latin1 was dropped; postgresql stores text in the database encoding',
+      'users.email: collation latin1_bin → C',
+      'users.name: postgresql has no collation like utf8mb4_unicode_ci, so it was dropped and the database default applies',
+    ]);
+    const [users] = toPostgres.project.tables;
+    expect(new SQLGenerator('postgresql').generateCreateTableSQL(users, [], [users])).not.toContain('utf8mb4');
+
+    expect(convertProject(source, 'sqlite').project.tables[0].columns.slice(1).map(c => c.collation))
+      .toEqual(['BINARY', 'NOCASE', 'utf8mb4_general_ci']);
+  });
+
+  it('leaves columns of catalog types to the SQL generator', () => {
+    const mood = column('mood', { dataType: 'mood', customTypeId: 'mood-type' });
+    expect(convertedColumn(mysqlProject(mood), 'mood', 'sqlite')).toBe(mood);
+  });
+});
+
+describe('resolveTypeMapping', () => {
+  it('falls back to text for types the target lacks', () => {
+    expect(resolveTypeMapping('HYPERLOGLOG', 'sqlite')).toMatchObject({ type: 'TEXT', severity: 'ambiguous' });
+  });
+});
+
+describe('collectSourceTypes', () => {
+  it('lists the distinct built-in column types in order', () => {
+    const source = mysqlProject(
+      column('a', { dataType: 'varchar' }),
+      column('b', { dataType: 'VARCHAR' }),
+      column('c', { dataType: 'mood', customTypeId: 'mood-type' })
+    );
+    expect(collectSourceTypes(source)).toEqual(['INT', 'VARCHAR']);
+  });
+});
@@ -0,0 +1,396 @@
+import { ProjectData, TableData, Column, IndexData, SQLDialect, TypeMapping, ConversionNote, DATA_TYPES } from '../types';
+import { parseValueList } from './customTypes';
+import { mapCollation } from './collations';
+import { inheritTableCollation } from './sqlDialects';
+
+export interface DialectConversion {
+  project: ProjectData;
+  notes: ConversionNote[];
+}
+
+// Source type (upper case) -> custom target type, as entered in the conversion dialog
+export type TypeMappingOverrides = Record<string, string>;
+
+const ENUM_NOTE = 'The allowed values are not enforced; add the CHECK constraint from the report';
+const SET_NOTE = 'Multiple values are stored as a comma separated string and are not validated';
+const GEOMETRY_NOTE = 'Spatial data is stored without geometry support';
+const TEXT_DATE_NOTE = 'SQLite stores dates as ISO-8601 text';
+
+const GEOMETRY_TYPES = [
+  'GEOMETRY', 'POINT', 'LINESTRING', 'POLYGON', 'MULTIPOINT', 'MULTILINESTRING', 'MULTIPOLYGON', 'GEOMETRYCOLLECTION'
+];
+
+const MYSQL_MAPPINGS: Record<string, TypeMapping> = {
+  SMALLSERIAL: { type: 'SMALLINT', autoIncrement: true },
+  SERIAL: { type: 'INT', autoIncrement: true },
+  BIGSERIAL: { type: 'BIGINT', autoIncrement: true },
+  NUMBER: { type: 'DECIMAL', keepLength: true, severity: 'ambiguous', note: 'NUMBER without a precision becomes DECIMAL(10,0)' },
+  'DOUBLE PRECISION': { type: 'DOUBLE' },
+  BOOLEAN: { type: 'TINYINT', length: '1' },
+  VARCHAR2: { type: 'VARCHAR', keepLength: true },
+  NVARCHAR2: { type: 'VARCHAR', keepLength: true },
+  CLOB: { type: 'LONGTEXT' },
+  RAW: { type: 'VARBINARY', keepLength: true },
+  'LONG RAW': { type: 'LONGBLOB' },
+  BYTEA: { type: 'LONGBLOB' },
+  UUID: { type: 'CHAR', length: '36' },
+  JSONB: { type: 'JSON', severity: 'ambiguous', note: 'JSON is not indexable the way jsonb is' },
+  XML: { type: 'LONGTEXT', severity: 'lossy', note: 'XML documents are stored as plain text' },
+  INTERVAL: { type: 'VARCHAR', length: '255', severity: 'lossy', note: 'Intervals are stored as text' },
+  INET: { type: 'VARCHAR', length: '43' },
+  CIDR: { type: 'VARCHAR', length: '43' },
+  MACADDR: { type: 'VARCHAR', length: '17' },
+  LINE: { type: 'GEOMETRY', severity: 'lossy', note: 'PostgreSQL geometric types become a generic GEOMETRY' },
+  LSEG: { type: 'LINESTRING' },
+  BOX: { type: 'POLYGON', severity: 'ambiguous', note: 'A box is stored as a polygon' },
+  PATH: { type: 'LINESTRING' },
+  CIRCLE: { type: 'GEOMETRY', severity: 'lossy', note: 'MySQL has no circle type' },
+};
+
+const POSTGRESQL_MAPPINGS: Record<string, TypeMapping> = {
+  TINYINT: { type: 'smallint' },
+  MEDIUMINT: { type: 'integer' },
+  INT: { type: 'integer' },
+  FLOAT: { type: 'real' },
+  DOUBLE: { type: 'double precision' },
+  NUMBER: { type: 'numeric', keepLength: true },
+  VARCHAR2: { type: 'varchar', keepLength: true },
+  NVARCHAR2: { type: 'varchar', keepLength: true },
+  TINYTEXT: { type: 'text' },
+  MEDIUMTEXT: { type: 'text' },
+  LONGTEXT: { type: 'text' },
+  CLOB: { type: 'text' },
+  BINARY: { type: 'bytea' },
+  VARBINARY: { type: 'bytea' },
+  TINYBLOB: { type: 'bytea' },
+  BLOB: { type: 'bytea' },
+  MEDIUMBLOB: { type: 'bytea' },
+  LONGBLOB: { type: 'bytea' },
+  RAW: { type: 'bytea' },
+  'LONG RAW': { type: 'bytea' },
+  ENUM: { type: 'varchar', length: '255', severity: 'ambiguous', note: ENUM_NOTE },
+  SET: { type: 'text', severity: 'lossy', note: SET_NOTE },
+  DATETIME: { type: 'timestamp' },
+  YEAR: { type: 'smallint' },
+  JSON: { type: 'jsonb', severity: 'ambiguous', note: 'jsonb drops duplicate keys and does not keep key order or whitespace' },
+  GEOMETRY: { type: 'bytea', severity: 'lossy', note: GEOMETRY_NOTE },
+  LINESTRING: { type: 'path' },
+  MULTIPOINT: { type: 'bytea', severity: 'lossy', note: GEOMETRY_NOTE },
+  MULTILINESTRING: { type: 'bytea', severity: 'lossy', note: GEOMETRY_NOTE },
+  MULTIPOLYGON: { type: 'bytea', severity: 'lossy', note: GEOMETRY_NOTE },
+  GEOMETRYCOLLECTION: { type: 'bytea', severity: 'lossy', note: GEOMETRY_NOTE },
+};
+
+const SQLITE_MAPPINGS: Record<string, TypeMapping> = {
+  ...Object.fromEntries(
+    ['TINYINT', 'SMALLINT', 'MEDIUMINT', 'INT', 'BIGINT', 'BIT', 'YEAR', 'BOOLEAN'].map(type => [type, { type: 'INTEGER' }])
+  ),
+  ...Object.fromEntries(['SMALLSERIAL', 'SERIAL', 'BIGSERIAL'].map(type => [type, { type: 'INTEGER', autoIncrement: true }])),
+  ...Object.fromEntries(['DECIMAL', 'NUMBER'].map(type => [type, { type: 'NUMERIC' }])),
+  ...Object.fromEntries(['FLOAT', 'DOUBLE', 'DOUBLE PRECISION'].map(type => [type, { type: 'REAL' }])),
+  ...Object.fromEntries(
+    ['CHAR', 'VARCHAR', 'VARCHAR2', 'NVARCHAR2', 'TINYTEXT', 'MEDIUMTEXT', 'LONGTEXT', 'CLOB', 'UUID', 'INET', 'CIDR', 'MACADDR', 'XML', 'INTERVAL']
+      .map(type => [type, { type: 'TEXT' }])
+  ),
+  ...Object.fromEntries(
+    ['BINARY', 'VARBINARY', 'TINYBLOB', 'MEDIUMBLOB', 'LONGBLOB', 'RAW', 'LONG RAW', 'BYTEA'].map(type => [type, { type: 'BLOB' }])
+  ),
+  ...Object.fromEntries(
+    ['DATE', 'TIME', 'DATETIME', 'TIMESTAMP'].map(type => [type, { type: 'TEXT', severity: 'ambiguous', note: TEXT_DATE_NOTE }])
+  ),
+  ...Object.fromEntries(
+    [...GEOMETRY_TYPES, 'LINE', 'LSEG', 'BOX', 'PATH', 'CIRCLE'].map(type => [type, { type: 'BLOB', severity: 'lossy', note: GEOMETRY_NOTE }])
+  ),
+  ENUM: { type: 'TEXT', severity: 'ambiguous', note: ENUM_NOTE },
+  SET: { type: 'TEXT', severity: 'lossy', note: SET_NOTE },
+  JSON: { type: 'TEXT', severity: 'ambiguous', note: 'JSON is stored as text and validated only by the json functions' },
+  JSONB: { type: 'TEXT', severity: 'ambiguous', note: 'JSON is stored as text and validated only by the json functions' },
+};
+
+const ORACLE_MAPPINGS: Record<string, TypeMapping> = {
+  TINYINT: { type: 'NUMBER', length: '3' },
+  SMALLINT: { type: 'NUMBER', length: '5' },
+  MEDIUMINT: { type: 'NUMBER', length: '7' },
+  INT: { type: 'NUMBER', length: '10' },
+  INTEGER: { type: 'NUMBER', length: '10' },
+  BIGINT: { type: 'NUMBER', length: '19' },
+  SMALLSERIAL: { type: 'NUMBER', length: '5', autoIncrement: true },
+  SERIAL: { type: 'NUMBER', length: '10', autoIncrement: true },
+  BIGSERIAL: { type: 'NUMBER', length: '19', autoIncrement: true },
+  BIT: { type: 'NUMBER', length: '1' },
+  BOOLEAN: { type: 'NUMBER', length: '1' },
+  YEAR: { type: 'NUMBER', length: '4' },
+  DECIMAL: { type: 'NUMBER', keepLength: true },
+  NUMERIC: { type: 'NUMBER', keepLength: true },
+  DOUBLE: { type: 'FLOAT' },
+  'DOUBLE PRECISION': { type: 'FLOAT' },
+  REAL: { type: 'FLOAT' },
+  CHAR: { type: 'VARCHAR2', keepLength: true, severity: 'ambiguous', note: 'Values are no longer blank padded' },
+  VARCHAR: { type: 'VARCHAR2', keepLength: true },
+  TINYTEXT: { type: 'VARCHAR2', length: '255' },
+  TEXT: { type: 'CLOB' },
+  MEDIUMTEXT: { type: 'CLOB' },
+  LONGTEXT: { type: 'CLOB' },
+  XML: { type: 'CLOB', severity: 'lossy', note: 'XML documents are stored as plain text' },
+  BINARY: { type: 'RAW', keepLength: true },
+  VARBINARY: { type: 'RAW', keepLength: true },
+  TINYBLOB: { type: 'RAW', length: '255' },
+  MEDIUMBLOB: { type: 'BLOB' },
+  LONGBLOB: { type: 'BLOB' },
+  BYTEA: { type: 'BLOB' },
+  UUID: { type: 'VARCHAR2', length: '36' },
+  INET: { type: 'VARCHAR2', length: '43' },
+  CIDR: { type: 'VARCHAR2', length: '43' },
+  MACADDR: { type: 'VARCHAR2', length: '17' },
+  INTERVAL: { type: 'VARCHAR2', length: '255', severity: 'lossy', note: 'Intervals are stored as text' },
+  ENUM: { type: 'VARCHAR2', length: '255', severity: 'ambiguous', note: ENUM_NOTE },
+  SET: { type: 'VARCHAR2', length: '4000', severity: 'lossy', note: SET_NOTE },
+  TIME: { type: 'TIMESTAMP', severity: 'ambiguous', note: 'Oracle has no time-only type; a date part is added' },
+  DATETIME: { type: 'TIMESTAMP' },
+  JSON: { type: 'CLOB', severity: 'ambiguous', note: 'Add an IS JSON check to keep the documents valid' },
+  JSONB: { type: 'CLOB', severity: 'ambiguous', note: 'Add an IS JSON check to keep the documents valid' },
+  ...Object.fromEntries(
+    [...GEOMETRY_TYPES, 'LINE', 'LSEG', 'BOX', 'PATH', 'CIRCLE'].map(type => [type, { type: 'BLOB', severity: 'lossy', note: GEOMETRY_NOTE }])
+  ),
+};
+
+// Checked before the target's own type list, so a type can also be swapped for a better native one (JSON -> jsonb)
+export const DEFAULT_TYPE_MAPPINGS: Record<SQLDialect, Record<string, TypeMapping>> = {
+  mysql: MYSQL_MAPPINGS,
+  mariadb: {
+    ...MYSQL_MAPPINGS,
+    ...Object.fromEntries(GEOMETRY_TYPES.map(type => [type, { type }])),
+  },
+  postgresql: POSTGRESQL_MAPPINGS,
+  sqlite: SQLITE_MAPPINGS,
+  oracle: ORACLE_MAPPINGS,
+};
+
+const FALLBACK_TYPES: Record<SQLDialect, string> = {
+  mysql: 'TEXT',
+  mariadb: 'TEXT',
+  postgresql: 'text',
+  sqlite: 'TEXT',
+  oracle: 'CLOB',
+};
+
+// Only MySQL and MariaDB know UNSIGNED; elsewhere the next larger type keeps the value range
+const UNSIGNED_WIDENING: Record<string, string> = {
+  TINYINT: 'SMALLINT',
+  SMALLINT: 'INT',
+  MEDIUMINT: 'INT',
+  INT: 'BIGINT',
+  INTEGER: 'BIGINT',
+};
+
+// MySQL, MariaDB and Oracle reject these without a length
+const LENGTH_REQUIRED_TYPES = ['VARCHAR', 'VARBINARY', 'VARCHAR2', 'NVARCHAR2', 'RAW'];
+
+const INTEGER_TYPES = [
+  'TINYINT', 'SMALLINT', 'MEDIUMINT', 'INT', 'INTEGER', 'BIGINT',
+  'SMALLSERIAL', 'SERIAL', 'BIGSERIAL', 'NUMBER'
+];
+
+const CURRENT_TIMESTAMP_ALIASES = [
+  'NOW()', 'CURRENT_TIMESTAMP', 'CURRENT_TIMESTAMP()', 'LOCALTIMESTAMP', 'SYSDATE', 'SYSTIMESTAMP', "DATETIME('NOW')"
+];
+
+const BOOLEAN_DEFAULTS: Record<string, boolean> = {
+  TRUE: true, FALSE: false, '1': true, '0': false, "B'1'": true, "B'0'": false,
+};
+
+const supportsUnsigned = (dialect: SQLDialect) => dialect === 'mysql' || dialect === 'mariadb';
+
+export const resolveTypeMapping = (
+  dataType: string,
+  target: SQLDialect,
+  overrides: TypeMappingOverrides = {}
+): TypeMapping => {
+  const key = dataType.toUpperCase();
+  if (overrides[key]) {
+    return { type: overrides[key], keepLength: true };
+  }
+
+  const mapping = DEFAULT_TYPE_MAPPINGS[target][key];
+  if (mapping) {
+    return mapping;
+  }
+
+  const knownType = (DATA_TYPES[target] as string[]).find(type => type.toUpperCase() === key);
+  return knownType ? { type: knownType, keepLength: true } : {
+    type: FALLBACK_TYPES[target],
+    severity: 'ambiguous',
+    note: `There is no ${target} equivalent for ${dataType}; it is stored as text`,
+  };
+};
+
+// Distinct column types of a project, as keys of the mapping table
+export const collectSourceTypes = (project: ProjectData): string[] =>
+  [...new Set(project.tables.flatMap(table => table.columns
+    .filter(column => !column.customTypeId)
+    .map(column => column.dataType.toUpperCase())))].sort();
+
+const describeType = (dataType: string, length?: string, isUnsigned?: boolean) =>
+  `${dataType}${length ? `(${length})` : ''}${isUnsigned ? ' UNSIGNED' : ''}`;
+
+const quoteValue = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const convertColumn = (
+  table: TableData,
+  column: Column,
+  target: SQLDialect,
+  overrides: TypeMappingOverrides,
+  notes: ConversionNote[]
+): Column => {
+  const label = `${table.name}.${column.name}`;
+  const note = (severity: ConversionNote['severity'], message: string) =>
+    notes.push({ severity, message: `${label}: ${message}`, tableId: table.id, columnId: column.id });
+
+  const sourceKey = column.dataType.toUpperCase();
+  let mappingKey = sourceKey;
+  let widenedLength: string | undefined;
+  let widenedReason: string | undefined;
+
+  if (column.isUnsigned && !supportsUnsigned(target)) {
+    if (overrides[sourceKey]) {
+      note('ambiguous', 'UNSIGNED was dropped; negative values are no longer rejected');
+    } else if (UNSIGNED_WIDENING[sourceKey]) {
+      mappingKey = UNSIGNED_WIDENING[sourceKey];
+      widenedReason = `UNSIGNED was widened to ${mappingKey} to keep its range`;
+    } else if (sourceKey === 'BIGINT' && !column.isAutoIncrement) {
+      mappingKey = 'DECIMAL';
+      widenedLength = '20';
+      widenedReason = 'UNSIGNED was widened to DECIMAL(20) to keep its range';
+    } else if (sourceKey === 'BIGINT') {
+      note('lossy', 'BIGINT UNSIGNED became a signed BIGINT; values above 9223372036854775807 no longer fit');
+    } else {
+      note('ambiguous', 'UNSIGNED was dropped; negative values are no longer rejected');
+    }
+  }
+
+  const mapping = resolveTypeMapping(mappingKey, target, overrides);
+  let dataType = mapping.type;
+  let length = widenedLength ?? mapping.length ?? (mapping.keepLength ? column.length : undefined);
+  let isAutoIncrement = column.isAutoIncrement || !!mapping.autoIncrement;
+
+  if (!length && LENGTH_REQUIRED_TYPES.includes(dataType.toUpperCase()) && target !== 'postgresql' && target !== 'sqlite') {
+    length = '255';
+  }
+
+  const from = describeType(column.dataType, column.length, column.isUnsigned);
+  const to = describeType(dataType, length);
+  const isEnum = sourceKey === 'ENUM' || sourceKey === 'SET';
+  const keepsEnum = isEnum && ['ENUM', 'SET'].includes(dataType.toUpperCase());
+  if (isEnum && !keepsEnum && column.length) {
+    const values = parseValueList(column.length).map(quoteValue).join(', ');
+    note(mapping.severity ?? 'ambiguous', `${describeType(column.dataType)} → ${to}. Suggested constraint: CHECK (${column.name} IN (${values}))`);
+  } else if (mapping.note || widenedReason) {
+    note(mapping.severity ?? 'info', `${from} → ${to}. ${mapping.note ?? widenedReason}`);
+  } else if (dataType.toUpperCase() !== sourceKey || (length || '') !== (column.length || '')) {
+    note(mapping.severity ?? 'info', `${from} → ${to}`);
+  }
+
+  if (isAutoIncrement && !INTEGER_TYPES.includes(dataType.toUpperCase())) {
+    const integerType = resolveTypeMapping('BIGINT', target).type;
+    note('ambiguous', `auto increment needs an integer type, so ${dataType} became ${integerType}`);
+    dataType = integerType;
+    length = undefined;
+  }
+
+  if (isAutoIncrement && target === 'sqlite') {
+    const primaryKeys = table.columns.filter(c => c.isPrimaryKey);
+    if (!column.isPrimaryKey || primaryKeys.length > 1) {
+      note('lossy', 'SQLite only auto-increments a single INTEGER PRIMARY KEY, so auto increment was removed');
+      isAutoIncrement = false;
+    }
+  }
+
+  let defaultValue = column.defaultValue;
+  const defaultKey = defaultValue?.trim().toUpperCase();
+  if (defaultValue && defaultKey) {
+    const isBooleanTarget = dataType.toUpperCase() === 'BOOLEAN';
+    if (CURRENT_TIMESTAMP_ALIASES.includes(defaultKey)) {
+      defaultValue = 'CURRENT_TIMESTAMP';
+    } else if (defaultKey in BOOLEAN_DEFAULTS && (isBooleanTarget || sourceKey === 'BOOLEAN')) {
+      const flag = BOOLEAN_DEFAULTS[defaultKey];
+      defaultValue = isBooleanTarget ? (flag ? 'TRUE' : 'FALSE') : (flag ? '1' : '0');
+    } else if (defaultValue.includes('(')) {
+      note('ambiguous', `default expression ${defaultValue} may not exist in ${target}; check it by hand`);
+    }
+
+    if (isAutoIncrement && target === 'postgresql') {
+      note('info', `the default ${defaultValue} is replaced by the identity sequence`);
+    }
+    if (defaultValue !== column.defaultValue) {
+      note('info', `default ${column.defaultValue} → ${defaultValue}`);
+    }
+  }
+
+  if (sourceKey === 'TINYINT' && column.length === '1' && dataType.toUpperCase() !== 'BOOLEAN' && target === 'postgresql') {
+    note('ambiguous', 'TINYINT(1) is usually a boolean flag; consider boolean instead');
+  }
+
+  // A charset or collation the column repeats from the table is left to the table
+  const own = inheritTableCollation(column, table);
+  let { charset, collation } = column;
+  if (own.charset && target !== 'mysql' && target !== 'mariadb') {
+    note('info', `CHARACTER SET ${own.charset} was dropped; ${target} stores text in the database encoding`);
+    charset = undefined;
+  }
+  if (own.collation) {
+    collation = mapCollation(own.collation, target);
+    if (!collation) {
+      note('ambiguous', `${target} has no collation like ${own.collation}, so it was dropped and the database default applies`);
+    } else if (collation !== own.collation) {
+      note('info', `collation ${own.collation} → ${collation}`);
+    }
+  }
+
+  return {
+    ...column,
+    dataType,
+    length,
+    isAutoIncrement,
+    isUnsigned: supportsUnsigned(target) ? column.isUnsigned : undefined,
+    defaultValue,
+    charset,
+    collation,
+  };
+};
+
+const convertIndex = (index: IndexData, project: ProjectData, target: SQLDialect, notes: ConversionNote[]): IndexData => {
+  if ((index.type !== 'FULLTEXT' && index.type !== 'SPATIAL') || supportsUnsigned(target)) {
+    return index;
+  }
+  const table = project.tables.find(t => t.id === index.tableId);
+  notes.push({
+    severity: 'lossy',
+    message: `Index ${index.name}${table ? ` on ${table.name}` : ''}: ${index.type} indexes are MySQL only and became a plain index`,
+    tableId: index.tableId,
+  });
+  return { ...index, type: 'INDEX' };
+};
+
+// Rewrites every column for another dialect and reports what could not be carried over exactly
+export const convertProject = (
+  project: ProjectData,
+  target: SQLDialect,
+  overrides: TypeMappingOverrides = {}
+): DialectConversion => {
+  const notes: ConversionNote[] = [];
+  if (project.dialect === target) {
+    return { project, notes };
+  }
+
+  const tables = project.tables.map(table => ({
+    ...table,
+    // Catalog types are written for each dialect when the SQL is generated, so their columns stay as they are
+    columns: table.columns.map(column => column.customTypeId ? column : convertColumn(table, column, target, overrides, notes)),
+  }));
+  const indexes = project.indexes.map(index => convertIndex(index, project, target, notes));
+
+  return {
+    project: { ...project, dialect: target, tables, indexes },
+    notes,
+  };
+};
@@ -0,0 +1,387 @@
+import { ProjectData, TableData, Column, RelationshipData, IndexData, TriggerData, DatabaseData, DocsFormat, GeneratedFile } from '../types';
+import { generateErDiagram } from './erDiagram';
+import { generateDiagramSVG, relationshipLabel } from './diagramExport';
+import { claimName } from './naming';
+import { getColumnPairs } from './relationshipColumns';
+import { describeConstraint } from './tableConstraints';
+import { isGeneratedColumn } from './generatedColumns';
+import { CUSTOM_TYPE_KINDS, describeCustomType } from './customTypes';
+
+interface RelationshipDoc {
+  relationship: RelationshipData;
+  column: string;
+  other: TableDoc;
+  otherColumn: string;
+}
+
+interface TableDoc {
+  table: TableData;
+  slug: string;
+  database?: DatabaseData;
+  // Foreign keys of this table, and those of other tables pointing at it
+  outgoing: RelationshipDoc[];
+  incoming: RelationshipDoc[];
+  indexes: IndexData[];
+  triggers: TriggerData[];
+}
+
+const buildTableDocs = (project: ProjectData): TableDoc[] => {
+  const taken = new Set<string>();
+  const docs: TableDoc[] = project.tables.map(table => ({
+    table,
+    slug: claimName(table.name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'table', taken),
+    // Tables without a known database belong to the first one, as in the SQL dump
+    database: project.databases.find(db => db.id === table.databaseId) ?? project.databases[0],
+    outgoing: [],
+    incoming: [],
+    indexes: project.indexes.filter(index => index.tableId === table.id),
+    triggers: project.triggers.filter(trigger => trigger.tableId === table.id),
+  }));
+
+  project.relationships.forEach(relationship => {
+    const source = docs.find(doc => doc.table.id === relationship.sourceTable);
+    const target = docs.find(doc => doc.table.id === relationship.targetTable);
+    if (!source || !target) return;
+    const columnNames = (table: TableData, ids: string[]) =>
+      ids.map(id => table.columns.find(c => c.id === id)?.name ?? '?').join(', ');
+    const pairs = getColumnPairs(relationship);
+    const sourceColumn = columnNames(source.table, pairs.map(pair => pair.sourceColumn));
+    const targetColumn = columnNames(target.table, pairs.map(pair => pair.targetColumn));
+    source.outgoing.push({ relationship, column: sourceColumn, other: target, otherColumn: targetColumn });
+    target.incoming.push({ relationship, column: targetColumn, other: source, otherColumn: sourceColumn });
+  });
+  return docs;
+};
+
+const columnType = (column: Column) => {
+  const type = column.length ? `${column.dataType}(${column.length})` : column.dataType;
+  return column.isUnsigned ? `${type} UNSIGNED` : type;
+};
+
+const columnKeys = (column: Column) => [
+  column.isPrimaryKey && 'PK',
+  column.isForeignKey && 'FK',
+  column.isUnique && !column.isPrimaryKey && 'UNIQUE',
+  column.isAutoIncrement && 'AUTO INCREMENT',
+].filter((key): key is string => Boolean(key)).join(', ');
+
+const isNullable = (column: Column) => !column.isNotNull && !column.isPrimaryKey;
+
+// A generated column lists its expression where other columns list their default
+const columnDefault = (column: Column) => isGeneratedColumn(column)
+  ? `AS (${column.generatedExpression!.trim()}) ${column.generatedStorage ?? 'STORED'}`
+  : column.defaultValue;
+
+const actions = (relationship: RelationshipData) =>
+  `ON DELETE ${relationship.onDelete}, ON UPDATE ${relationship.onUpdate}`;
+
+const customTypeRows = (project: ProjectData) => (project.customTypes ?? []).map(type => ({
+  name: type.name,
+  kind: CUSTOM_TYPE_KINDS.find(option => option.kind === type.kind)?.label ?? type.kind,
+  definition: describeCustomType(type),
+  comment: type.comment ?? '',
+}));
+
+const generatedOn = () => new Date().toISOString().slice(0, 10);
+
+// Markdown
+
+const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const markdownTable = (headers: string[], rows: string[][]) => [
+  `| ${headers.join(' | ')} |`,
+  `| ${headers.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+].join('\n');
+
+const markdownTablePage = (doc: TableDoc, project: ProjectData) => {
+  const { table } = doc;
+  const lines = [`# ${table.name}`, '', '[← All tables](../README.md)', ''];
+  if (table.comment) lines.push(table.comment, '');
+
+  const details = [
+    project.databases.length > 1 && doc.database && `**Database:** ${doc.database.name}`,
+    table.engine && `**Engine:** ${table.engine}`,
+    table.collation && `**Collation:** ${table.collation}`,
+  ].filter(Boolean);
+  if (details.length > 0) lines.push(details.join(' · '), '');
+
+  lines.push('## Columns', '');
+  if (table.columns.length === 0) {
+    lines.push('_No columns defined._', '');
+  } else {
+    lines.push(markdownTable(
+      ['Name', 'Type', 'Nullable', 'Default', 'Keys', 'Comment'],
+      table.columns.map(column => [
+        `\`${column.name}\``,
+        columnType(column),
+        isNullable(column) ? 'Yes' : 'No',
+        columnDefault(column) ? `\`${columnDefault(column)}\`` : '',
+        columnKeys(column),
+        column.comment ?? '',
+      ])
+    ), '');
+  }
+
+  lines.push('## Relationships', '');
+  if (doc.outgoing.length === 0 && doc.incoming.length === 0) {
+    lines.push('_None._', '');
+  }
+  if (doc.outgoing.length > 0) {
+    lines.push('### References', '', markdownTable(
+      ['Column', 'References', 'Type', 'Actions'],
+      doc.outgoing.map(rel => [
+        `\`${rel.column}\``,
+        `[${rel.other.table.name}](${rel.other.slug}.md).\`${rel.otherColumn}\``,
+        relationshipLabel(rel.relationship.type),
+        actions(rel.relationship),
+      ])
+    ), '');
+  }
+  if (doc.incoming.length > 0) {
+    lines.push('### Referenced by', '', markdownTable(
+      ['Table', 'Column', 'To column', 'Type'],
+      doc.incoming.map(rel => [
+        `[${rel.other.table.name}](${rel.other.slug}.md)`,
+        `\`${rel.otherColumn}\``,
+        `\`${rel.column}\``,
+        relationshipLabel(rel.relationship.type),
+      ])
+    ), '');
+  }
+
+  if (doc.indexes.length > 0) {
+    lines.push('## Indexes', '', markdownTable(
+      ['Name', 'Type', 'Columns'],
+      doc.indexes.map(index => [
+        `\`${index.name}\``,
+        index.method ? `${index.type} (${index.method})` : index.type,
+        index.columns.map(name => `\`${name}\``).join(', '),
+      ])
+    ), '');
+  }
+
+  if (doc.triggers.length > 0) {
+    lines.push('## Triggers', '');
+    doc.triggers.forEach(trigger => {
+      lines.push(`### ${trigger.name}`, '', `${trigger.timing} ${trigger.event}`, '');
+      if (trigger.comment) lines.push(trigger.comment, '');
+      lines.push('```sql', trigger.body.trim(), '```', '');
+    });
+  }
+
+  if (doc.table.constraints?.length) {
+    lines.push('## Constraints', '', markdownTable(
+      ['Name', 'Type', 'Definition'],
+      doc.table.constraints.map(constraint => [`\`${constraint.name}\``, constraint.kind, `\`${describeConstraint(constraint)}\``])
+    ), '');
+  }
+
+  lines.push('---', `_Generated ${generatedOn()}_`);
+  return lines.join('\n') + '\n';
+};
+
+const markdownIndexPage = (docs: TableDoc[], project: ProjectData) => {
+  const lines = [
+    `# ${project.name}`,
+    '',
+    `Data dictionary of ${docs.length} table${docs.length !== 1 ? 's' : ''} for ${project.dialect.toUpperCase()}, generated ${generatedOn()}.`,
+    '',
+    '## Tables',
+    '',
+  ];
+  const multipleDatabases = project.databases.length > 1;
+  lines.push(markdownTable(
+    [...(multipleDatabases ? ['Database'] : []), 'Table', 'Columns', 'Description'],
+    docs.map(doc => [
+      ...(multipleDatabases ? [doc.database?.name ?? ''] : []),
+      `[${doc.table.name}](tables/${doc.slug}.md)`,
+      String(doc.table.columns.length),
+      doc.table.comment ?? '',
+    ])
+  ), '');
+
+  const types = customTypeRows(project);
+  if (types.length > 0) {
+    lines.push('## Types', '', markdownTable(
+      ['Type', 'Kind', 'Definition', 'Description'],
+      types.map(type => [`\`${type.name}\``, type.kind, `\`${type.definition}\``, type.comment])
+    ), '');
+  }
+
+  // Mermaid renders on the common Markdown hosts, so the diagram never goes stale as an image would
+  lines.push('## Diagram', '', '```mermaid', generateErDiagram(project, { format: 'mermaid' }).trimEnd(), '```');
+  return lines.join('\n') + '\n';
+};
+
+// HTML
+
+const escapeHTML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const STYLES = `
+body { font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #1f2937; margin: 0; background: #f9fafb; }
+main { max-width: 1100px; margin: 0 auto; padding: 32px 24px; }
+h1 { margin: 0 0 8px; font-size: 28px; }
+h2 { margin: 32px 0 12px; font-size: 20px; border-bottom: 1px solid #e5e7eb; padding-bottom: 6px; }
+h3 { margin: 20px 0 8px; font-size: 16px; }
+a { color: #2563eb; text-decoration: none; }
+a:hover { text-decoration: underline; }
+table { width: 100%; border-collapse: collapse; background: #fff; font-size: 14px; }
+th, td { border: 1px solid #e5e7eb; padding: 6px 10px; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; font-weight: 600; }
+code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 13px; }
+pre { background: #111827; color: #f9fafb; padding: 12px; border-radius: 6px; overflow-x: auto; }
+.muted { color: #6b7280; }
+.badge { display: inline-block; padding: 0 6px; margin-right: 4px; border-radius: 4px; font-size: 12px; background: #e5e7eb; }
+.diagram { background: #fff; border: 1px solid #e5e7eb; border-radius: 6px; overflow: auto; padding: 8px; }
+`.trim();
+
+const htmlPage = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>
+${STYLES}
+</style>
+</head>
+<body>
+<main>
+${body}
+<p class="muted">Generated ${generatedOn()}</p>
+</main>
+</body>
+</html>
+`;
+
+const htmlTable = (headers: string[], rows: string[][]) =>
+  `<table>\n<thead><tr>${headers.map(header => `<th>${escapeHTML(header)}</th>`).join('')}</tr></thead>\n<tbody>\n${
+    rows.map(row => `<tr>${row.map(value => `<td>${value}</td>`).join('')}</tr>`).join('\n')
+  }\n</tbody>\n</table>`;
+
+const code = (value: string) => `<code>${escapeHTML(value)}</code>`;
+
+const htmlTablePage = (doc: TableDoc, project: ProjectData) => {
+  const { table } = doc;
+  const parts = [`<p><a href="../index.html">← All tables</a></p>`, `<h1>${escapeHTML(table.name)}</h1>`];
+  if (table.comment) parts.push(`<p>${escapeHTML(table.comment)}</p>`);
+
+  const details = [
+    project.databases.length > 1 && doc.database && `Database: ${doc.database.name}`,
+    table.engine && `Engine: ${table.engine}`,
+    table.collation && `Collation: ${table.collation}`,
+  ].filter((detail): detail is string => Boolean(detail));
+  if (details.length > 0) parts.push(`<p class="muted">${details.map(escapeHTML).join(' · ')}</p>`);
+
+  parts.push('<h2>Columns</h2>');
+  parts.push(table.columns.length === 0
+    ? '<p class="muted">No columns defined.</p>'
+    : htmlTable(
+      ['Name', 'Type', 'Nullable', 'Default', 'Keys', 'Comment'],
+      table.columns.map(column => [
+        code(column.name),
+        escapeHTML(columnType(column)),
+        isNullable(column) ? 'Yes' : 'No',
+        columnDefault(column) ? code(columnDefault(column)!) : '',
+        columnKeys(column).split(', ').filter(Boolean).map(key => `<span class="badge">${key}</span>`).join(''),
+        escapeHTML(column.comment ?? ''),
+      ])
+    ));
+
+  parts.push('<h2>Relationships</h2>');
+  if (doc.outgoing.length === 0 && doc.incoming.length === 0) {
+    parts.push('<p class="muted">None.</p>');
+  }
+  const link = (other: TableDoc) => `<a href="${other.slug}.html">${escapeHTML(other.table.name)}</a>`;
+  if (doc.outgoing.length > 0) {
+    parts.push('<h3>References</h3>', htmlTable(
+      ['Column', 'References', 'Type', 'Actions'],
+      doc.outgoing.map(rel => [
+        code(rel.column),
+        `${link(rel.other)}.${code(rel.otherColumn)}`,
+        relationshipLabel(rel.relationship.type),
+        escapeHTML(actions(rel.relationship)),
+      ])
+    ));
+  }
+  if (doc.incoming.length > 0) {
+    parts.push('<h3>Referenced by</h3>', htmlTable(
+      ['Table', 'Column', 'To column', 'Type'],
+      doc.incoming.map(rel => [link(rel.other), code(rel.otherColumn), code(rel.column), relationshipLabel(rel.relationship.type)])
+    ));
+  }
+
+  if (doc.indexes.length > 0) {
+    parts.push('<h2>Indexes</h2>', htmlTable(
+      ['Name', 'Type', 'Columns'],
+      doc.indexes.map(index => [
+        code(index.name),
+        escapeHTML(index.method ? `${index.type} (${index.method})` : index.type),
+        index.columns.map(code).join(', '),
+      ])
+    ));
+  }
+
+  if (doc.table.constraints?.length) {
+    parts.push('<h2>Constraints</h2>', htmlTable(
+      ['Name', 'Type', 'Definition'],
+      doc.table.constraints.map(constraint => [code(constraint.name), constraint.kind, code(describeConstraint(constraint))])
+    ));
+  }
+
+  if (doc.triggers.length > 0) {
+    parts.push('<h2>Triggers</h2>');
+    doc.triggers.forEach(trigger => {
+      parts.push(`<h3>${escapeHTML(trigger.name)} <span class="muted">${trigger.timing} ${trigger.event}</span></h3>`);
+      if (trigger.comment) parts.push(`<p>${escapeHTML(trigger.comment)}</p>`);
+      parts.push(`<pre>${escapeHTML(trigger.body.trim())}</pre>`);
+    });
+  }
+
+  return htmlPage(`${table.name} · ${project.name}`, parts.join('\n'));
+};
+
+const htmlIndexPage = (docs: TableDoc[], project: ProjectData) => {
+  const multipleDatabases = project.databases.length > 1;
+  const parts = [
+    `<h1>${escapeHTML(project.name)}</h1>`,
+    `<p class="muted">Data dictionary of ${docs.length} table${docs.length !== 1 ? 's' : ''} for ${project.dialect.toUpperCase()}</p>`,
+    '<h2>Tables</h2>',
+    htmlTable(
+      [...(multipleDatabases ? ['Database'] : []), 'Table', 'Columns', 'Description'],
+      docs.map(doc => [
+        ...(multipleDatabases ? [escapeHTML(doc.database?.name ?? '')] : []),
+        `<a href="tables/${doc.slug}.html">${escapeHTML(doc.table.name)}</a>`,
+        String(doc.table.columns.length),
+        escapeHTML(doc.table.comment ?? ''),
+      ])
+    ),
+  ];
+  const types = customTypeRows(project);
+  if (types.length > 0) {
+    parts.push('<h2>Types</h2>', htmlTable(
+      ['Type', 'Kind', 'Definition', 'Description'],
+      types.map(type => [escapeHTML(type.name), type.kind, code(type.definition), escapeHTML(type.comment)])
+    ));
+  }
+  if (docs.length > 0) {
+    parts.push('<h2>Diagram</h2>', `<div class="diagram">${generateDiagramSVG(project, { transparent: true, includeTitle: false }).svg}</div>`);
+  }
+  return htmlPage(project.name, parts.join('\n'));
+};
+
+export const generateDocs = (project: ProjectData, format: DocsFormat): GeneratedFile[] => {
+  const docs = buildTableDocs(project);
+  if (format === 'markdown') {
+    return [
+      { path: 'README.md', content: markdownIndexPage(docs, project) },
+      ...docs.map(doc => ({ path: `tables/${doc.slug}.md`, content: markdownTablePage(doc, project) })),
+    ];
+  }
+  return [
+    { path: 'index.html', content: htmlIndexPage(docs, project) },
+    ...docs.map(doc => ({ path: `tables/${doc.slug}.html`, content: htmlTablePage(doc, project) })),
+  ];
+};
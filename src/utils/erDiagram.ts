@@ -0,0 +1,132 @@
+import { ProjectData, TableData, Column, RelationshipData, ErDiagramOptions } from '../types';
+import { claimName } from './naming';
+import { getColumnPairs } from './relationshipColumns';
+
+interface DiagramEntity {
+  table: TableData;
+  alias: string;
+}
+
+// Tables of the diagram: the selected ones, else those of one database, else all of them
+export const erDiagramTables = (project: ProjectData, options: Omit<ErDiagramOptions, 'format'>) => {
+  if (options.tableIds) {
+    return project.tables.filter(table => options.tableIds!.includes(table.id));
+  }
+  if (options.databaseId) {
+    // Tables without a known database belong to the first one, as in the SQL dump
+    const databaseOf = (table: TableData) =>
+      project.databases.some(db => db.id === table.databaseId) ? table.databaseId : project.databases[0]?.id;
+    return project.tables.filter(table => databaseOf(table) === options.databaseId);
+  }
+  return project.tables;
+};
+
+const columnType = (column: Column) =>
+  column.length && !['ENUM', 'SET'].includes(column.dataType.toUpperCase())
+    ? `${column.dataType}(${column.length})`
+    : column.dataType;
+
+const keyMarkers = (column: Column) => [
+  column.isPrimaryKey && 'PK',
+  column.isForeignKey && 'FK',
+  column.isUnique && !column.isPrimaryKey && 'UK',
+].filter((marker): marker is string => Boolean(marker));
+
+// Crow's foot ends: the referenced table is on the left, the table holding the foreign key on the right.
+// An optional foreign key makes the referenced side zero-or-one, and a key that is part of the primary
+// key is an identifying relationship, drawn solid instead of dashed.
+const cardinality = (relationship: RelationshipData, fkColumns: Column[]) => {
+  const optional = fkColumns.some(column => !column.isNotNull && !column.isPrimaryKey);
+  const identifying = fkColumns.length > 0 && fkColumns.every(column => column.isPrimaryKey);
+  const line = identifying ? '--' : '..';
+  switch (relationship.type) {
+    case 'one-to-one':
+      return `${optional ? '|o' : '||'}${line}o|`;
+    case 'many-to-many':
+      return `}o${line}o{`;
+    default:
+      return `${optional ? '|o' : '||'}${line}o{`;
+  }
+};
+
+const buildEntities = (tables: TableData[]) => {
+  const taken = new Set<string>();
+  return tables.map(table => ({
+    table,
+    alias: claimName(table.name.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(?=[0-9])/, '_') || 'table', taken),
+  }));
+};
+
+const diagramRelationships = (project: ProjectData, entities: DiagramEntity[]) =>
+  project.relationships.flatMap(relationship => {
+    const source = entities.find(entity => entity.table.id === relationship.sourceTable);
+    const target = entities.find(entity => entity.table.id === relationship.targetTable);
+    if (!source || !target) return [];
+    const fkColumns = getColumnPairs(relationship)
+      .map(pair => source.table.columns.find(c => c.id === pair.sourceColumn))
+      .filter((c): c is Column => !!c);
+    const label = fkColumns.map(column => column.name).join(', ');
+    return [{ source, target, label, ends: cardinality(relationship, fkColumns) }];
+  });
+
+// Mermaid words allow letters, digits, -, _, brackets and parentheses only
+const mermaidWord = (value: string) =>
+  value.replace(/,\s*/g, '_').replace(/[^A-Za-z0-9\-_[\]()*]/g, '_').replace(/^(?=[^A-Za-z_*])/, '_');
+
+const mermaidString = (value: string) => `"${value.replace(/"/g, "'").replace(/\s+/g, ' ')}"`;
+
+const generateMermaid = (project: ProjectData, entities: DiagramEntity[]) => {
+  const lines = ['---', `title: ${JSON.stringify(project.name)}`, '---', 'erDiagram'];
+
+  entities.forEach(({ table, alias }) => {
+    const name = alias === table.name ? alias : `${alias}[${mermaidString(table.name)}]`;
+    lines.push(`    ${name} {`);
+    table.columns.forEach(column => {
+      const markers = keyMarkers(column);
+      lines.push([
+        '       ',
+        mermaidWord(columnType(column)),
+        mermaidWord(column.name),
+        markers.length > 0 ? markers.join(', ') : '',
+        column.comment ? mermaidString(column.comment) : '',
+      ].filter(Boolean).join(' '));
+    });
+    lines.push('    }');
+  });
+
+  diagramRelationships(project, entities).forEach(({ source, target, label, ends }) => {
+    lines.push(`    ${target.alias} ${ends} ${source.alias} : ${mermaidString(label || 'references')}`);
+  });
+  return lines.join('\n') + '\n';
+};
+
+const generatePlantUML = (project: ProjectData, entities: DiagramEntity[]) => {
+  const lines = ['@startuml', `title ${project.name}`, 'hide circle', 'skinparam linetype ortho', ''];
+
+  entities.forEach(({ table, alias }) => {
+    lines.push(`entity "${table.name.replace(/"/g, "'")}" as ${alias} {`);
+    // Primary key columns sit above the separator line
+    const keys = table.columns.filter(column => column.isPrimaryKey);
+    const others = table.columns.filter(column => !column.isPrimaryKey);
+    const columnLine = (column: Column) => {
+      const mandatory = column.isNotNull || column.isPrimaryKey ? '* ' : '';
+      const markers = keyMarkers(column).map(marker => ` <<${marker}>>`).join('');
+      return `  ${mandatory}${column.name} : ${columnType(column)}${markers}`;
+    };
+    keys.forEach(column => lines.push(columnLine(column)));
+    if (keys.length > 0) lines.push('  --');
+    others.forEach(column => lines.push(columnLine(column)));
+    lines.push('}', '');
+  });
+
+  diagramRelationships(project, entities).forEach(({ source, target, label, ends }) => {
+    lines.push(`${target.alias} ${ends} ${source.alias}${label ? ` : ${label}` : ''}`);
+  });
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+};
+
+export const generateErDiagram = (project: ProjectData, options: ErDiagramOptions) => {
+  const entities = buildEntities(erDiagramTables(project, options));
+  return options.format === 'mermaid' ? generateMermaid(project, entities) : generatePlantUML(project, entities);
+};
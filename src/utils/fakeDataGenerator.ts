@@ -0,0 +1,307 @@
+import { ProjectData, TableData, Column, SeedRow, SQLDialect, FakeDataOptions, RelationshipData, CustomTypeData } from '../types';
+import { SQLGenerator } from './sqlGenerator';
+import { orderTablesByDependencies } from './dependencyOrder';
+import { seedValueKind, maxCharacterLength, enumValues } from './seedData';
+import { getColumnPairs } from './relationshipColumns';
+import { isGeneratedColumn } from './generatedColumns';
+import { findCustomType, withDomainBaseType } from './customTypes';
+
+export interface FakeDataset {
+  // Generated rows per table id, in the same format as seed rows
+  rows: Record<string, SeedRow[]>;
+  warnings: string[];
+}
+
+interface Random {
+  next: () => number;
+  int: (min: number, max: number) => number;
+  pick: <T>(items: T[]) => T;
+}
+
+type ValueGenerator = (random: Random, rowIndex: number) => string;
+
+// mulberry32: small, fast and good enough for demo data
+const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: items => items[Math.floor(next() * items.length)],
+  };
+};
+
+const FIRST_NAMES = ['James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'David', 'Elizabeth', 'Sofia', 'Liam', 'Emma', 'Noah', 'Olivia', 'Lucas', 'Amelia', 'Mateo', 'Yuki', 'Aisha'];
+const LAST_NAMES = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Martinez', 'Lopez', 'Wilson', 'Anderson', 'Taylor', 'Moore', 'Nguyen', 'Kim', 'Patel', 'Schmidt', 'Rossi', 'Silva'];
+const CITIES = ['Springfield', 'Riverside', 'Franklin', 'Greenville', 'Bristol', 'Clinton', 'Fairview', 'Salem', 'Madison', 'Georgetown'];
+const COUNTRIES = ['United States', 'Canada', 'United Kingdom', 'Germany', 'France', 'Spain', 'Italy', 'Japan', 'Brazil', 'Australia'];
+const STREETS = ['Main St', 'Oak Ave', 'Pine St', 'Maple Ave', 'Cedar Ln', 'Elm St', 'Park Rd', 'Lake Dr', 'Hill St', 'Church Rd'];
+const COMPANY_SUFFIXES = ['Inc', 'LLC', 'Group', 'Labs', 'Systems', 'Partners'];
+const DOMAINS = ['example.com', 'example.org', 'example.net'];
+const STATUSES = ['active', 'inactive', 'pending'];
+const WORDS = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do', 'eiusmod', 'tempor', 'incididunt', 'ut', 'labore', 'et', 'dolore', 'magna', 'aliqua', 'enim', 'minim', 'veniam', 'quis', 'nostrud'];
+
+// Types without a sensible text representation; nullable columns of these types stay NULL
+const UNSUPPORTED_TYPES = [
+  'GEOMETRY', 'POINT', 'LINESTRING', 'POLYGON', 'MULTIPOINT', 'MULTILINESTRING', 'MULTIPOLYGON', 'GEOMETRYCOLLECTION',
+  'LINE', 'LSEG', 'BOX', 'PATH', 'CIRCLE', 'INTERVAL', 'XML'
+];
+
+// Timestamps fall in 2020-2024 so that the output does not depend on the current date
+const EPOCH = Date.UTC(2020, 0, 1);
+const FIVE_YEARS = 5 * 365 * 24 * 60 * 60 * 1000;
+
+const words = (random: Random, min: number, max: number) =>
+  Array.from({ length: random.int(min, max) }, () => random.pick(WORDS)).join(' ');
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+const hex = (random: Random, length: number) =>
+  Array.from({ length }, () => random.int(0, 15).toString(16)).join('');
+const timestamp = (random: Random) => new Date(EPOCH + Math.floor(random.next() * FIVE_YEARS)).toISOString();
+
+const TEXT_RULES: { pattern: RegExp; generate: ValueGenerator }[] = [
+  { pattern: /e_?mail/, generate: (r, i) => `${r.pick(FIRST_NAMES)}.${r.pick(LAST_NAMES)}${i + 1}@${r.pick(DOMAINS)}`.toLowerCase() },
+  { pattern: /first_?name|given_?name/, generate: r => r.pick(FIRST_NAMES) },
+  { pattern: /last_?name|surname|family_?name/, generate: r => r.pick(LAST_NAMES) },
+  { pattern: /user_?name|login|handle/, generate: (r, i) => `${r.pick(FIRST_NAMES)}${r.pick(LAST_NAMES)}${i + 1}`.toLowerCase() },
+  { pattern: /company|organi[sz]ation|employer/, generate: r => `${r.pick(LAST_NAMES)} ${r.pick(COMPANY_SUFFIXES)}` },
+  { pattern: /^(full_?|display_?|contact_?)?name$/, generate: r => `${r.pick(FIRST_NAMES)} ${r.pick(LAST_NAMES)}` },
+  { pattern: /phone|mobile|fax/, generate: r => `+1-555-${r.int(100, 999)}-${r.int(1000, 9999)}` },
+  { pattern: /street|address/, generate: r => `${r.int(1, 9999)} ${r.pick(STREETS)}` },
+  { pattern: /city|town/, generate: r => r.pick(CITIES) },
+  { pattern: /country/, generate: r => r.pick(COUNTRIES) },
+  { pattern: /zip|postal/, generate: r => String(r.int(10000, 99999)) },
+  { pattern: /url|website|homepage|link/, generate: r => `https://www.${r.pick(WORDS)}${r.int(1, 999)}.com` },
+  { pattern: /uuid|guid/, generate: r => `${hex(r, 8)}-${hex(r, 4)}-4${hex(r, 3)}-${r.pick(['8', '9', 'a', 'b'])}${hex(r, 3)}-${hex(r, 12)}` },
+  { pattern: /(^|_)ip(_|$)|ip_?address/, generate: r => `${r.int(1, 223)}.${r.int(0, 255)}.${r.int(0, 255)}.${r.int(1, 254)}` },
+  { pattern: /colou?r/, generate: r => `#${hex(r, 6)}` },
+  { pattern: /status|state$/, generate: r => r.pick(STATUSES) },
+  { pattern: /password|hash|token|secret/, generate: r => hex(r, 32) },
+  { pattern: /slug/, generate: r => words(r, 2, 4).replace(/ /g, '-') },
+  { pattern: /title|subject|headline|label/, generate: r => capitalize(words(r, 2, 5)) },
+  { pattern: /description|bio|comment|body|content|note|summary|text|message/, generate: r => `${capitalize(words(r, 6, 16))}.` },
+  { pattern: /_at$|_on$|date|time/, generate: r => timestamp(r).slice(0, 19).replace('T', ' ') },
+];
+
+const NUMBER_RULES: { pattern: RegExp; min: number; max: number }[] = [
+  { pattern: /price|amount|total|cost|balance|salary|fee/, min: 1, max: 1000 },
+  { pattern: /quantity|qty|count|stock/, min: 1, max: 100 },
+  { pattern: /(^|_)age$/, min: 18, max: 90 },
+  { pattern: /rating|stars|score/, min: 1, max: 5 },
+  { pattern: /year/, min: 1990, max: 2024 },
+];
+
+// Largest value a column can hold for the integer types that are small enough to matter
+const INTEGER_LIMITS: Record<string, number> = { TINYINT: 127, SMALLINT: 32767, SMALLSERIAL: 32767, MEDIUMINT: 8388607 };
+
+// Picks a generator from the column name first and falls back to one for the data type. Catalog
+// enums pick one of their values and domains generate values of their base type.
+const inferGenerator = (typedColumn: Column, types: CustomTypeData[] = []): ValueGenerator | null => {
+  const type = findCustomType(typedColumn, types);
+  if (type?.kind === 'COMPOSITE') return null;
+  const column = withDomainBaseType(typedColumn, types);
+  const name = column.name.toLowerCase();
+  const baseType = column.dataType.toUpperCase();
+  const kind = seedValueKind(column);
+
+  if (UNSUPPORTED_TYPES.includes(baseType)) return null;
+  if (type?.kind === 'ENUM' || baseType === 'ENUM' || baseType === 'SET') {
+    const values = enumValues(column, types);
+    return values.length > 0 ? random => random.pick(values) : null;
+  }
+  if (baseType === 'UUID') return TEXT_RULES.find(rule => rule.pattern.test('uuid'))!.generate;
+  if (['INET', 'CIDR'].includes(baseType)) return TEXT_RULES.find(rule => rule.pattern.test('ip'))!.generate;
+  if (baseType === 'MACADDR') return random => Array.from({ length: 6 }, () => hex(random, 2)).join(':');
+
+  switch (kind) {
+    case 'integer': {
+      const rule = NUMBER_RULES.find(r => r.pattern.test(baseType === 'YEAR' ? 'year' : name));
+      const max = Math.min(rule?.max ?? 100000, INTEGER_LIMITS[baseType] ?? Infinity);
+      return random => String(random.int(rule?.min ?? 1, max));
+    }
+    case 'decimal': {
+      const [precision, scale] = (column.length ?? '').split(',').map(Number);
+      const decimals = Number.isInteger(scale) ? scale : 2;
+      const rule = NUMBER_RULES.find(r => r.pattern.test(name));
+      const max = Math.min(rule?.max ?? 10000, precision > 0 ? 10 ** (precision - decimals) - 1 : Infinity);
+      const min = Math.min(rule?.min ?? 0, max);
+      return random => (min + random.next() * (max - min)).toFixed(decimals);
+    }
+    case 'boolean':
+      return random => random.next() < 0.5 ? 'true' : 'false';
+    case 'date':
+      return /birth|dob/.test(name)
+        ? random => `${random.int(1950, 2005)}-${String(random.int(1, 12)).padStart(2, '0')}-${String(random.int(1, 28)).padStart(2, '0')}`
+        : random => timestamp(random).slice(0, 10);
+    case 'datetime':
+      return random => timestamp(random).slice(0, 19).replace('T', ' ');
+    case 'time':
+      return random => timestamp(random).slice(11, 19);
+    case 'json':
+      return random => JSON.stringify({ id: random.int(1, 1000), tag: random.pick(WORDS) });
+    default: {
+      const rule = TEXT_RULES.find(r => r.pattern.test(name));
+      if (rule) return rule.generate;
+      const maxLength = maxCharacterLength(column);
+      return maxLength !== null && maxLength < 40 ? random => words(random, 1, 2) : random => capitalize(words(random, 3, 8));
+    }
+  }
+};
+
+// Makes a value unique by appending the row number, keeping it within the column length
+const makeUnique = (value: string, column: Column, rowIndex: number) => {
+  if (seedValueKind(column) === 'integer') return String(100000 + rowIndex);
+  const suffix = `_${rowIndex + 1}`;
+  const maxLength = maxCharacterLength(column);
+  return maxLength !== null ? `${value.slice(0, Math.max(0, maxLength - suffix.length))}${suffix}` : `${value}${suffix}`;
+};
+
+const fitLength = (value: string, column: Column) => {
+  const maxLength = maxCharacterLength(column);
+  return maxLength !== null ? value.slice(0, maxLength) : value;
+};
+
+// Fills every table with rows, parents before children, so foreign keys can pick from the rows of
+// the tables they reference. Keys that close a cycle can only reference rows that already exist,
+// which leaves them NULL for the first table of the cycle.
+export const generateFakeData = (project: ProjectData, options: FakeDataOptions): FakeDataset => {
+  const random = createRandom(options.seed);
+  const rows: Record<string, SeedRow[]> = {};
+  const warnings: string[] = [];
+  const { tables } = orderTablesByDependencies(project.tables, project.relationships);
+
+  tables.forEach(table => {
+    const tableRows: SeedRow[] = [];
+    rows[table.id] = tableRows;
+
+    const primaryKey = table.columns.filter(c => c.isPrimaryKey);
+    const isUnique = (column: Column) => column.isUnique || (column.isPrimaryKey && primaryKey.length === 1);
+    const seen = new Map(table.columns.map(column => [column.id, new Set<string>()]));
+    const usedParents = new Map<string, Set<string>>();
+    const seenKeys = new Set<string>();
+
+    const foreignKeys = project.relationships
+      .filter(r => r.sourceTable === table.id)
+      .map(relationship => ({ relationship, pairs: getColumnPairs(relationship) }));
+    const foreignKeyOf = (column: Column) => foreignKeys.find(({ pairs }) => pairs.some(pair => pair.sourceColumn === column.id));
+    const parentRowsOf = (relationship: RelationshipData) =>
+      relationship.targetTable === table.id ? tableRows : rows[relationship.targetTable] ?? [];
+
+    const parentValuesFor = (column: Column) => {
+      const foreignKey = foreignKeyOf(column);
+      if (!foreignKey) return null;
+      const pair = foreignKey.pairs.find(p => p.sourceColumn === column.id)!;
+      return parentRowsOf(foreignKey.relationship).map(row => row[pair.targetColumn]).filter(Boolean);
+    };
+
+    const generators = new Map(table.columns.map(column => [column.id, inferGenerator(column, project.customTypes)]));
+    table.columns.forEach(column => {
+      if ((!column.isNotNull && !column.isPrimaryKey) || isGeneratedColumn(column)) return;
+      const parentValues = parentValuesFor(column);
+      if (parentValues?.length === 0) {
+        warnings.push(`${table.name}.${column.name} references rows that do not exist yet, because of a foreign key cycle or an empty table, and is left NULL`);
+      } else if (!parentValues && !generators.get(column.id)) {
+        warnings.push(`${table.name}.${column.name} (${column.dataType}) cannot be generated and is left NULL`);
+      }
+    });
+
+    // parents holds the parent row each composite foreign key of the current row points at
+    const generateValue = (typedColumn: Column, rowIndex: number, parents: Map<string, SeedRow>): string | null => {
+      const column = withDomainBaseType(typedColumn, project.customTypes);
+      // The database computes generated columns itself
+      if (isGeneratedColumn(column)) return '';
+
+      // All columns of a composite key copy the same parent row
+      const foreignKey = foreignKeyOf(column);
+      if (foreignKey && foreignKey.pairs.length > 1) {
+        const { relationship, pairs } = foreignKey;
+        const parentRows = parentRowsOf(relationship).filter(row => pairs.every(pair => row[pair.targetColumn]));
+        if (!parents.has(relationship.id) && parentRows.length > 0) parents.set(relationship.id, random.pick(parentRows));
+        const pair = pairs.find(p => p.sourceColumn === column.id)!;
+        return parents.get(relationship.id)?.[pair.targetColumn] ?? '';
+      }
+
+      const parentValues = parentValuesFor(column);
+      if (parentValues) {
+        if (!isUnique(column)) {
+          return parentValues.length > 0 ? random.pick(parentValues) : '';
+        }
+        // One-to-one: every parent row is referenced at most once
+        const used = usedParents.get(column.id) ?? new Set<string>();
+        usedParents.set(column.id, used);
+        const available = parentValues.filter(value => !used.has(value));
+        if (available.length === 0) return column.isNotNull || column.isPrimaryKey ? null : '';
+        const value = random.pick(available);
+        used.add(value);
+        return value;
+      }
+
+      // Single integer keys count up, so they match what auto-increment would have produced
+      if (column.isPrimaryKey && primaryKey.length === 1 && seedValueKind(column) === 'integer') {
+        return String(rowIndex + 1);
+      }
+
+      const generate = generators.get(column.id);
+      if (!generate) return '';
+      let value = fitLength(generate(random, rowIndex), column);
+      if (isUnique(column)) {
+        const values = seen.get(column.id)!;
+        for (let attempt = 0; values.has(value) && attempt < 10; attempt++) {
+          value = fitLength(generate(random, rowIndex), column);
+        }
+        if (values.has(value)) value = makeUnique(value, column, rowIndex);
+        values.add(value);
+      }
+      return value;
+    };
+
+    for (let rowIndex = 0; rowIndex < options.rowsPerTable; rowIndex++) {
+      let row: SeedRow | null = null;
+      // A composite key made of foreign keys can repeat; a few attempts usually find a new combination
+      for (let attempt = 0; attempt < 10 && !row; attempt++) {
+        const candidate: SeedRow = {};
+        const parents = new Map<string, SeedRow>();
+        let complete = true;
+        table.columns.forEach(column => {
+          const value = generateValue(column, rowIndex, parents);
+          if (value === null) complete = false;
+          else if (value !== '') candidate[column.id] = value;
+        });
+        if (!complete) break;
+
+        const key = JSON.stringify(primaryKey.map(column => candidate[column.id] ?? ''));
+        if (primaryKey.length < 2 || !seenKeys.has(key)) {
+          seenKeys.add(key);
+          row = candidate;
+        }
+      }
+      if (!row) {
+        warnings.push(`${table.name} only got ${tableRows.length} rows because its unique keys ran out of values`);
+        break;
+      }
+      tableRows.push(row);
+    }
+  });
+
+  return { rows, warnings };
+};
+
+// The generated rows as INSERT statements, parents before children
+export const generateFakeDataSQL = (project: ProjectData, dataset: FakeDataset, dialect: SQLDialect): string => {
+  const generator = new SQLGenerator(dialect, project.constraintNaming, project.customTypes);
+  return orderTablesByDependencies(project.tables, project.relationships).tables
+    .flatMap(table => generator.generateSeedDataSQL({ ...table, seedRows: dataset.rows[table.id] ?? [] }))
+    .join('\n\n');
+};
+
+const escapeCSV = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCSV = (table: TableData, rows: SeedRow[]): string => [
+  table.columns.map(column => escapeCSV(column.name)).join(','),
+  ...rows.map(row => table.columns.map(column => escapeCSV(row[column.id] ?? '')).join(',')),
+].join('\n') + '\n';
@@ -0,0 +1,29 @@
+import { Column } from '../types';
+
+export const isGeneratedColumn = (column: Column) => !!column.generatedExpression?.trim();
+
+// Bare words in an expression that are SQL, not column names. Function names are recognised by
+// the parenthesis that follows them.
+const EXPRESSION_KEYWORDS = new Set([
+  'AND', 'OR', 'NOT', 'XOR', 'NULL', 'IS', 'IN', 'LIKE', 'ILIKE', 'REGEXP', 'RLIKE', 'SIMILAR', 'TO', 'ESCAPE',
+  'BETWEEN', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'TRUE', 'FALSE', 'UNKNOWN', 'DISTINCT', 'DIV', 'MOD',
+  'COLLATE', 'BINARY', 'INTERVAL', 'YEAR', 'MONTH', 'DAY', 'HOUR', 'MINUTE', 'SECOND',
+  'CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_TIMESTAMP', 'LOCALTIME', 'LOCALTIMESTAMP',
+]);
+
+// The column names an expression refers to: quoted identifiers, and bare words that are neither
+// keywords, function names, table qualifiers nor the target type of a cast
+export const expressionColumnReferences = (expression: string): string[] => {
+  const cleaned = expression
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/::\s*[A-Za-z_]\w*(\s*\([^)]*\))?/g, '')
+    .replace(/\bAS\s+[A-Za-z_]\w*(\s*\([^)]*\))?/gi, '');
+  const references = new Set<string>();
+  const pattern = /"([^"]+)"|`([^`]+)`|(?<![\w.$])([A-Za-z_][\w$]*)(?![\w$]|\s*[(.])/g;
+  for (const match of cleaned.matchAll(pattern)) {
+    const name = match[1] ?? match[2] ?? match[3];
+    if (match[3] && EXPRESSION_KEYWORDS.has(name.toUpperCase())) continue;
+    references.add(name);
+  }
+  return [...references];
+};
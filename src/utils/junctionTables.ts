@@ -0,0 +1,120 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProjectData, TableData, Column, RelationshipData, ReferentialAction } from '../types';
+import { claimName } from './naming';
+import { columnPairFields, getColumnPairs } from './relationshipColumns';
+
+export interface JunctionSide {
+  table: TableData;
+  // The columns the junction references, usually the primary key
+  columns: Column[];
+}
+
+export interface JunctionOptions {
+  // An existing table to link through; a new table is created otherwise
+  table?: TableData;
+  name: string;
+  onUpdate: ReferentialAction;
+  onDelete: ReferentialAction;
+}
+
+export interface JunctionLink {
+  table: TableData;
+  relationships: [RelationshipData, RelationshipData];
+}
+
+// A serial key is referenced by a plain integer of the same size
+const REFERENCE_TYPES: Record<string, string> = {
+  SERIAL: 'INTEGER',
+  SMALLSERIAL: 'SMALLINT',
+  BIGSERIAL: 'BIGINT',
+};
+
+export const defaultJunctionName = (a: TableData, b: TableData) => `${a.name}_${b.name}`;
+
+// The columns a many-to-many link references: the primary key, or else the column it was drawn from
+export const junctionKeyColumns = (table: TableData, fallbackColumnId?: string) => {
+  const primaryKey = table.columns.filter(c => c.isPrimaryKey);
+  return primaryKey.length > 0 ? primaryKey : table.columns.filter(c => c.id === fallbackColumnId);
+};
+
+// A junction table with a foreign key to each side, which together make up its primary key, and the two
+// relationships from it. An existing table keeps its columns and primary key and only gains missing columns.
+export const buildJunction = (sides: [JunctionSide, JunctionSide], options: JunctionOptions): JunctionLink => {
+  const [a, b] = sides.map(side => side.table);
+  const base: TableData = options.table ?? {
+    id: uuidv4(),
+    name: options.name,
+    columns: [],
+    position: { x: (a.position.x + b.position.x) / 2, y: Math.max(a.position.y, b.position.y) + 200 },
+    databaseId: a.databaseId,
+  };
+  const columns = [...base.columns];
+  const taken = new Set(columns.map(c => c.name));
+  const used = new Set<string>();
+  const hasPrimaryKey = columns.some(c => c.isPrimaryKey);
+
+  const relationships = sides.map(({ table, columns: keys }): RelationshipData => {
+    const pairs = keys.map(key => {
+      const name = `${table.name}_${key.name}`;
+      const existing = columns.find(c => c.name === name && !used.has(c.id));
+      const column: Column = {
+        ...(existing ?? {
+          id: uuidv4(),
+          name: claimName(name, taken),
+          dataType: REFERENCE_TYPES[key.dataType.toUpperCase()] ?? key.dataType,
+          length: key.length,
+          isUnsigned: key.isUnsigned,
+          isPrimaryKey: !hasPrimaryKey,
+          isNotNull: true,
+          isAutoIncrement: false,
+          isUnique: false,
+        }),
+        isForeignKey: true,
+        referencesTable: table.id,
+        referencesColumn: key.id,
+      };
+      if (existing) columns[columns.indexOf(existing)] = column;
+      else columns.push(column);
+      used.add(column.id);
+      return { sourceColumn: column.id, targetColumn: key.id };
+    });
+    return {
+      id: uuidv4(),
+      sourceTable: base.id,
+      targetTable: table.id,
+      ...columnPairFields(pairs),
+      type: 'one-to-many',
+      onUpdate: options.onUpdate,
+      onDelete: options.onDelete,
+    };
+  });
+
+  return {
+    table: { ...base, columns, junction: { tableIds: [a.id, b.id], collapsed: true } },
+    relationships: [relationships[0], relationships[1]],
+  };
+};
+
+// Junction tables whose relationships to both sides still exist
+export const junctionLinks = (project: ProjectData): JunctionLink[] =>
+  project.tables.flatMap(table => {
+    if (!table.junction) return [];
+    const outgoing = project.relationships.filter(r => r.sourceTable === table.id);
+    const first = outgoing.find(r => r.targetTable === table.junction!.tableIds[0]);
+    const second = outgoing.find(r => r !== first && r.targetTable === table.junction!.tableIds[1]);
+    return first && second ? [{ table, relationships: [first, second] as [RelationshipData, RelationshipData] }] : [];
+  });
+
+// Marks imported tables made of nothing but two foreign keys, which together form the primary key, as junctions
+export const markJunctionTables = (tables: TableData[], relationships: RelationshipData[]) => {
+  tables.forEach(table => {
+    const outgoing = relationships.filter(r => r.sourceTable === table.id);
+    if (outgoing.length !== 2 || outgoing.some(r => r.targetTable === table.id)) return;
+    if (relationships.some(r => r.targetTable === table.id)) return;
+
+    const foreignKeyColumns = new Set(outgoing.flatMap(r => getColumnPairs(r).map(pair => pair.sourceColumn)));
+    const isLinkOnly = table.columns.length === foreignKeyColumns.size &&
+      table.columns.every(c => foreignKeyColumns.has(c.id) && c.isPrimaryKey);
+    if (isLinkOnly) table.junction = { tableIds: [outgoing[0].targetTable, outgoing[1].targetTable], collapsed: true };
+  });
+};
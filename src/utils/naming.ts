@@ -0,0 +1,35 @@
+const words = (name: string) => name.split(/[^A-Za-z0-9]+|_/).filter(Boolean);
+
+export const toPascalCase = (name: string) => {
+  const pascal = words(name).map(word => word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[A-Za-z]/.test(pascal) ? pascal : `Table${pascal}`;
+};
+
+export const lowerFirst = (name: string) => name.charAt(0).toLowerCase() + name.slice(1);
+
+export const toCamelCase = (name: string) => {
+  // Words in capitals, like ID or URL, are lowered as a whole
+  const camel = words(name)
+    .map((word, i) => {
+      const normalized = word === word.toUpperCase() ? word.toLowerCase() : word;
+      return i === 0 ? lowerFirst(normalized) : normalized[0].toUpperCase() + normalized.slice(1);
+    })
+    .join('');
+  return /^[A-Za-z]/.test(camel) ? camel : `field${camel}`;
+};
+
+// The singular of a table name in English, as in userAccounts to userAccount
+export const toSingular = (name: string) => {
+  if (/[^aeiou]ies$/i.test(name)) return `${name.slice(0, -3)}y`;
+  if (/(ss|sh|ch|x|z)es$/i.test(name)) return name.slice(0, -2);
+  if (/[^su]s$/i.test(name)) return name.slice(0, -1);
+  return name;
+};
+
+// Appends a number until the name is not taken yet, and reserves it
+export const claimName = (name: string, taken: Set<string>) => {
+  let candidate = name;
+  for (let i = 2; taken.has(candidate); i++) candidate = `${name}${i}`;
+  taken.add(candidate);
+  return candidate;
+};
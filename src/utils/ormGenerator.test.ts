@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { generateOrmFiles } from './ormGenerator';
+import { column, primaryKey, project, relationship, table } from '../test/fixtures';
+
+const shop = project({
+  tables: [
+    table('user_accounts', [primaryKey('tenant_id'), primaryKey('id')]),
+    table('orders', [primaryKey(), column('tenant_id'), column('user_id'), column('previous_id', { isUnique: true })]),
+  ],
+  relationships: [
+    relationship('orders', 'tenant_id', 'user_accounts', 'tenant_id', {
+      columnPairs: [{ sourceColumn: 'tenant_id', targetColumn: 'tenant_id' }, { sourceColumn: 'user_id', targetColumn: 'id' }],
+    }),
+    relationship('orders', 'previous_id', 'orders', 'id', { type: 'one-to-one' }),
+  ],
+});
+
+const file = (target: 'typeorm' | 'drizzle', path: string) =>
+  generateOrmFiles(shop, target).find(generated => generated.path === path)!.content;
+
+describe('generateOrmFiles', () => {
+  it('names a composite key navigation after the table it references', () => {
+    const orders = file('typeorm', 'Orders.ts');
+    expect(orders).toContain('@ManyToOne(() => UserAccounts, (userAccounts) => userAccounts.orders');
+    expect(orders).toContain('userAccount!: UserAccounts | null;');
+    expect(file('typeorm', 'UserAccounts.ts')).toContain('@OneToMany(() => Orders, (orders) => orders.userAccount)');
+    expect(file('drizzle', 'orders.ts')).toContain('userAccount: one(userAccounts, { fields: [orders.tenantId, orders.userId]');
+  });
+
+  it('gives the inverse of a self reference a name of its own', () => {
+    const orders = file('typeorm', 'Orders.ts');
+    expect(orders).toContain('@OneToOne(() => Orders, (orders) => orders.inversePrevious');
+    expect(orders).toContain('@OneToOne(() => Orders, (orders) => orders.previous)');
+    expect(orders).toContain('inversePrevious!: Orders | null;');
+
+    const relations = file('drizzle', 'orders.ts');
+    expect(relations).toContain("previous: one(orders, { fields: [orders.previousId], references: [orders.id], relationName: 'orders_previous_id' })");
+    expect(relations).toContain("inversePrevious: one(orders, { relationName: 'orders_previous_id' })");
+  });
+});
@@ -0,0 +1,664 @@
+import { ProjectData, TableData, Column, IndexData, RelationshipData, SQLDialect, OrmTarget, GeneratedFile, TableConstraint } from '../types';
+import { seedValueKind, enumValues, maxCharacterLength } from './seedData';
+import { toPascalCase, toCamelCase, lowerFirst, claimName, toSingular } from './naming';
+import { ResolvedColumnPair, resolveColumnPairs, isUniqueKey } from './relationshipColumns';
+import { isCompleteConstraint } from './tableConstraints';
+import { isGeneratedColumn } from './generatedColumns';
+import { withBuiltInType } from './customTypes';
+
+interface Navigation {
+  name: string;
+  // Name of the matching navigation on the other model
+  inverse: string;
+  other: OrmModel;
+  // The model holding the foreign key owns the relation
+  owner: boolean;
+  oneToOne: boolean;
+  // First pair of the key; pairs lists all of them
+  column: Column;
+  referencedColumn: Column;
+  pairs: ResolvedColumnPair[];
+  relationship: RelationshipData;
+  // Set when several relations join the same two models
+  relationName?: string;
+}
+
+interface OrmModel {
+  table: TableData;
+  className: string;
+  variableName: string;
+  // Property name per column id
+  fields: Map<string, string>;
+  propertyNames: Set<string>;
+  navigations: Navigation[];
+  indexes: IndexData[];
+  constraints: TableConstraint[];
+}
+
+type DefaultValue = { literal: string | number | boolean } | { expression: string };
+
+const BINARY_TYPES = ['BLOB', 'TINYBLOB', 'MEDIUMBLOB', 'LONGBLOB', 'BYTEA', 'BINARY', 'VARBINARY', 'RAW', 'LONG RAW'];
+const FLOAT_TYPES = ['FLOAT', 'DOUBLE', 'REAL', 'DOUBLE PRECISION'];
+const SERIAL_TYPES = ['SMALLSERIAL', 'SERIAL', 'BIGSERIAL'];
+
+const isMySQLFamily = (dialect: SQLDialect) => dialect === 'mysql' || dialect === 'mariadb';
+
+const isBooleanColumn = (column: Column, dialect: SQLDialect) =>
+  seedValueKind(column) === 'boolean' || (isMySQLFamily(dialect) && column.dataType.toUpperCase() === 'TINYINT' && column.length === '1');
+
+const isGenerated = (column: Column) => column.isAutoIncrement || SERIAL_TYPES.includes(column.dataType.toUpperCase());
+
+const isNullable = (column: Column) => !column.isNotNull && !column.isPrimaryKey;
+
+const columnEnumValues = (column: Column) => column.dataType.toUpperCase() === 'ENUM' ? enumValues(column) : [];
+
+// Generated code uses single quoted strings
+const quote = (value: string | undefined) => `'${(value ?? '').replace(/[\\']/g, '\\$&')}'`;
+
+const toLiteral = (value: string | number | boolean) => typeof value === 'string' ? quote(value) : String(value);
+
+const objectLiteral = (entries: (string | null | false | undefined)[]) => `{ ${entries.filter(Boolean).join(', ')} }`;
+
+// Precision and scale of a DECIMAL(p,s) length
+const precisionAndScale = (column: Column) => {
+  const [precision, scale] = (column.length ?? '').split(',').map(part => parseInt(part.trim()));
+  return { precision: isNaN(precision) ? undefined : precision, scale: isNaN(scale) ? undefined : scale };
+};
+
+const tsType = (column: Column, dialect: SQLDialect): string => {
+  const baseType = column.dataType.toUpperCase();
+  const values = columnEnumValues(column);
+  if (values.length > 0) return values.map(quote).join(' | ');
+  if (isBooleanColumn(column, dialect)) return 'boolean';
+  if (BINARY_TYPES.includes(baseType)) return 'Buffer';
+
+  // Drivers return BIGINT and exact decimals as strings to keep their precision
+  switch (seedValueKind(column)) {
+    case 'integer':
+      return ['BIGINT', 'BIGSERIAL'].includes(baseType) ? 'string' : 'number';
+    case 'decimal':
+      return FLOAT_TYPES.includes(baseType) ? 'number' : 'string';
+    case 'date':
+    case 'datetime':
+      return 'Date';
+    case 'json':
+      return 'unknown';
+    default:
+      return 'string';
+  }
+};
+
+// Generated columns never have a default
+const readDefault = (column: Column, dialect: SQLDialect): DefaultValue | null => {
+  const value = column.defaultValue?.trim();
+  if (!value || value.toUpperCase() === 'NULL' || isGeneratedColumn(column)) return null;
+  if (/\(.*\)$/.test(value) || /^(CURRENT_(DATE|TIME|TIMESTAMP)|LOCALTIMESTAMP)$/i.test(value)) return { expression: value };
+
+  const quoted = /^'(.*)'$/.exec(value);
+  const literal = quoted ? quoted[1].replace(/''/g, "'") : value;
+  switch (tsType(column, dialect)) {
+    case 'number':
+      return isNaN(Number(literal)) ? { expression: value } : { literal: Number(literal) };
+    case 'boolean':
+      return { literal: /^(true|1)$/i.test(literal) };
+    case 'Date':
+      return { expression: value };
+    default:
+      return { literal };
+  }
+};
+
+const buildModels = (project: ProjectData): OrmModel[] => {
+  const takenClasses = new Set<string>();
+  const takenVariables = new Set<string>();
+  const models: OrmModel[] = project.tables.map(table => {
+    const propertyNames = new Set<string>();
+    return {
+      table: { ...table, columns: table.columns.map(column => withBuiltInType(column, project.customTypes, project.dialect)) },
+      className: claimName(toPascalCase(table.name), takenClasses),
+      variableName: claimName(toCamelCase(table.name), takenVariables),
+      fields: new Map(table.columns.map(column => [column.id, claimName(toCamelCase(column.name), propertyNames)])),
+      propertyNames,
+      navigations: [],
+      indexes: project.indexes.filter(index => index.tableId === table.id && index.type !== 'PRIMARY'),
+      constraints: (table.constraints ?? []).filter(isCompleteConstraint),
+    };
+  });
+
+  project.relationships.forEach(relationship => {
+    const source = models.find(m => m.table.id === relationship.sourceTable);
+    const target = models.find(m => m.table.id === relationship.targetTable);
+    const pairs = resolveColumnPairs(relationship, source?.table, target?.table);
+    if (!source || !target || !pairs) return;
+    const { source: column, target: referencedColumn } = pairs[0];
+
+    const isSoleKey = column.isPrimaryKey && source.table.columns.filter(c => c.isPrimaryKey).length === 1;
+    const oneToOne = relationship.type === 'one-to-one' || (pairs.length === 1
+      ? column.isUnique || isSoleKey
+      : isUniqueKey(source.table, pairs.map(pair => pair.source.id), project.indexes));
+    const ambiguous = source === target || project.relationships.filter(r =>
+      (r.sourceTable === source.table.id && r.targetTable === target.table.id) || (r.sourceTable === target.table.id && r.targetTable === source.table.id)
+    ).length > 1;
+    const relationName = ambiguous ? `${source.table.name}_${column.name}` : undefined;
+
+    // customerId navigates as customer; a composite key, whose first column names only part of it, after the target
+    const field = source.fields.get(column.id)!;
+    const name = claimName(pairs.length === 1 && field.length > 2 && field.endsWith('Id') ? field.slice(0, -2) : toSingular(lowerFirst(target.className)), source.propertyNames);
+    // A self reference cannot take the name of its own table, so parent is answered by inverseParent
+    const inverseName = source === target
+      ? `inverse${name[0].toUpperCase()}${name.slice(1)}`
+      : oneToOne ? toSingular(lowerFirst(source.className)) : lowerFirst(source.className);
+    const inverse = claimName(inverseName, target.propertyNames);
+
+    const shared = { oneToOne, column, referencedColumn, pairs, relationship, relationName };
+    source.navigations.push({ ...shared, name, inverse, other: target, owner: true });
+    target.navigations.push({ ...shared, name: inverse, inverse: name, other: source, owner: false });
+  });
+
+  return models;
+};
+
+const namedColumns = (model: OrmModel, names: string[]) => names.map(name => model.table.columns.find(c => c.name === name)).filter((c): c is Column => !!c);
+
+const indexColumns = (model: OrmModel, index: IndexData) => namedColumns(model, index.columns);
+
+// The part of an exclusion constraint after EXCLUDE, as PostgreSQL writes it
+const exclusionExpression = (constraint: TableConstraint) =>
+  `USING ${constraint.using || 'gist'} (${constraint.exclusions!.map(e => `"${e.column}" WITH ${e.operator}`).join(', ')})`;
+
+// TypeORM
+
+const TYPEORM_TYPES: Record<string, string> = {
+  SERIAL: 'integer', SMALLSERIAL: 'smallint', BIGSERIAL: 'bigint',
+};
+
+const typeormColumnOptions = (column: Column, dialect: SQLDialect, generated: boolean) => {
+  const values = columnEnumValues(column);
+  const baseType = column.dataType.toUpperCase();
+  const type = values.length > 0 ? 'enum' : isBooleanColumn(column, dialect) ? 'boolean' : TYPEORM_TYPES[baseType] ?? column.dataType.toLowerCase();
+  const options = [`name: ${quote(column.name)}`, `type: ${quote(type)}`];
+
+  if (values.length > 0) options.push(`enum: [${values.map(quote).join(', ')}]`);
+  const length = maxCharacterLength(column);
+  if (length !== null) options.push(`length: ${length}`);
+  if (seedValueKind(column) === 'decimal' && !FLOAT_TYPES.includes(baseType)) {
+    const { precision, scale } = precisionAndScale(column);
+    if (precision !== undefined) options.push(`precision: ${precision}`);
+    if (scale !== undefined) options.push(`scale: ${scale}`);
+  }
+  if (column.isUnsigned && isMySQLFamily(dialect)) options.push('unsigned: true');
+  if (isGeneratedColumn(column)) {
+    options.push(`generatedType: ${quote(column.generatedStorage ?? 'STORED')}`, `asExpression: ${quote(column.generatedExpression!.trim())}`);
+  }
+  if (!generated) {
+    if (isNullable(column)) options.push('nullable: true');
+    if (column.isUnique && !column.isPrimaryKey) options.push('unique: true');
+    const defaultValue = readDefault(column, dialect);
+    if (defaultValue) {
+      options.push('literal' in defaultValue
+        ? `default: ${toLiteral(defaultValue.literal)}`
+        : `default: () => ${quote(defaultValue.expression)}`);
+    }
+  }
+  if (column.comment) options.push(`comment: ${quote(column.comment)}`);
+  return objectLiteral(options);
+};
+
+const referentialOptions = (relationship: RelationshipData) => [`onDelete: '${relationship.onDelete}'`, `onUpdate: '${relationship.onUpdate}'`];
+
+const generateTypeORMEntity = (model: OrmModel, dialect: SQLDialect): GeneratedFile => {
+  const { table, className } = model;
+  const decorators = new Set(['Entity']);
+  const imports = new Set<string>();
+  const classDecorators: string[] = [];
+  const members: string[] = [];
+
+  model.indexes.forEach(index => {
+    decorators.add('Index');
+    const columns = indexColumns(model, index).map(column => quote(model.fields.get(column.id)));
+    const options = index.type === 'UNIQUE' ? ', { unique: true }' : index.type === 'FULLTEXT' ? ', { fulltext: true }' : '';
+    classDecorators.push(`@Index(${quote(index.name)}, [${columns.join(', ')}]${options})`);
+  });
+  model.constraints.forEach(constraint => {
+    if (constraint.kind === 'UNIQUE') {
+      decorators.add('Unique');
+      const columns = namedColumns(model, constraint.columns!).map(column => quote(model.fields.get(column.id)));
+      classDecorators.push(`@Unique(${quote(constraint.name)}, [${columns.join(', ')}])`);
+    } else if (constraint.kind === 'CHECK') {
+      decorators.add('Check');
+      classDecorators.push(`@Check(${quote(constraint.name)}, ${quote(constraint.expression)})`);
+    } else {
+      decorators.add('Exclusion');
+      classDecorators.push(`@Exclusion(${quote(constraint.name)}, ${quote(exclusionExpression(constraint))})`);
+    }
+  });
+  classDecorators.push(`@Entity(${quote(table.name)})`);
+
+  table.columns.forEach(column => {
+    const generated = column.isPrimaryKey && isGenerated(column);
+    const decorator = generated ? 'PrimaryGeneratedColumn' : column.isPrimaryKey ? 'PrimaryColumn' : 'Column';
+    decorators.add(decorator);
+    const type = tsType(column, dialect);
+    members.push([
+      `  @${decorator}(${typeormColumnOptions(column, dialect, generated)})`,
+      `  ${model.fields.get(column.id)}!: ${isNullable(column) ? `${type} | null` : type};`,
+    ].join('\n'));
+  });
+
+  model.navigations.forEach(navigation => {
+    const { other } = navigation;
+    if (other !== model) imports.add(other.className);
+    const parameter = lowerFirst(other.className);
+    const inverse = `(${parameter}) => ${parameter}.${navigation.inverse}`;
+    const lines: string[] = [];
+
+    if (navigation.owner) {
+      const decorator = navigation.oneToOne ? 'OneToOne' : 'ManyToOne';
+      decorators.add(decorator).add('JoinColumn');
+      const options = [...referentialOptions(navigation.relationship), ...(isNullable(navigation.column) ? [] : ['nullable: false'])];
+      const joinColumns = navigation.pairs.map(pair =>
+        objectLiteral([`name: ${quote(pair.source.name)}`, `referencedColumnName: ${quote(other.fields.get(pair.target.id))}`]));
+      lines.push(
+        `  @${decorator}(() => ${other.className}, ${inverse}, ${objectLiteral(options)})`,
+        `  @JoinColumn(${joinColumns.length > 1 ? `[${joinColumns.join(', ')}]` : joinColumns[0]})`,
+        `  ${navigation.name}!: ${other.className}${isNullable(navigation.column) ? ' | null' : ''};`,
+      );
+    } else if (navigation.oneToOne) {
+      decorators.add('OneToOne');
+      lines.push(`  @OneToOne(() => ${other.className}, ${inverse})`, `  ${navigation.name}!: ${other.className} | null;`);
+    } else {
+      decorators.add('OneToMany');
+      lines.push(`  @OneToMany(() => ${other.className}, ${inverse})`, `  ${navigation.name}!: ${other.className}[];`);
+    }
+    members.push(lines.join('\n'));
+  });
+
+  const header = [
+    `import { ${[...decorators].join(', ')} } from 'typeorm';`,
+    ...[...imports].map(name => `import { ${name} } from './${name}';`),
+  ];
+  const comment = table.comment ? `// ${table.comment}\n` : '';
+  return {
+    path: `${className}.ts`,
+    content: `${header.join('\n')}\n\n${comment}${classDecorators.join('\n')}\nexport class ${className} {\n${members.join('\n\n')}\n}\n`,
+  };
+};
+
+// Drizzle
+
+type DrizzleCore = 'mysql' | 'pg' | 'sqlite';
+
+const DRIZZLE_CORES: Record<SQLDialect, DrizzleCore> = {
+  mysql: 'mysql',
+  mariadb: 'mysql',
+  postgresql: 'pg',
+  sqlite: 'sqlite',
+  // Drizzle has no Oracle driver
+  oracle: 'pg',
+};
+
+const DRIZZLE_TABLES: Record<DrizzleCore, string> = { mysql: 'mysqlTable', pg: 'pgTable', sqlite: 'sqliteTable' };
+const DRIZZLE_COLUMNS: Record<DrizzleCore, string> = { mysql: 'AnyMySqlColumn', pg: 'AnyPgColumn', sqlite: 'AnySQLiteColumn' };
+
+const DRIZZLE_BUILDERS: Record<Exclude<DrizzleCore, 'sqlite'>, Record<string, string>> = {
+  mysql: {
+    TINYINT: 'tinyint', SMALLINT: 'smallint', MEDIUMINT: 'mediumint', INT: 'int', INTEGER: 'int', BIGINT: 'bigint',
+    DECIMAL: 'decimal', NUMERIC: 'decimal', FLOAT: 'float', DOUBLE: 'double', REAL: 'real', BOOLEAN: 'boolean', BOOL: 'boolean',
+    DATE: 'date', DATETIME: 'datetime', TIMESTAMP: 'timestamp', TIME: 'time', YEAR: 'year',
+    CHAR: 'char', VARCHAR: 'varchar', TINYTEXT: 'tinytext', TEXT: 'text', MEDIUMTEXT: 'mediumtext', LONGTEXT: 'longtext',
+    JSON: 'json', BINARY: 'binary', VARBINARY: 'varbinary', ENUM: 'mysqlEnum',
+  },
+  pg: {
+    SMALLINT: 'smallint', INT: 'integer', INTEGER: 'integer', BIGINT: 'bigint', SMALLSERIAL: 'smallserial', SERIAL: 'serial', BIGSERIAL: 'bigserial',
+    DECIMAL: 'numeric', NUMERIC: 'numeric', NUMBER: 'numeric', REAL: 'real', FLOAT: 'doublePrecision', DOUBLE: 'doublePrecision', 'DOUBLE PRECISION': 'doublePrecision',
+    BOOLEAN: 'boolean', BOOL: 'boolean', DATE: 'date', DATETIME: 'timestamp', TIMESTAMP: 'timestamp', TIME: 'time',
+    CHAR: 'char', NCHAR: 'char', VARCHAR: 'varchar', VARCHAR2: 'varchar', NVARCHAR2: 'varchar', TEXT: 'text', CLOB: 'text',
+    JSON: 'json', JSONB: 'jsonb', UUID: 'uuid', INET: 'inet', CIDR: 'cidr',
+  },
+};
+
+// Identity columns in PostgreSQL map to the serial builders
+const PG_SERIAL_BUILDERS: Record<string, string> = { smallint: 'smallserial', integer: 'serial', bigint: 'bigserial' };
+
+const drizzleReferentialOptions = (relationship: RelationshipData) =>
+  [`onDelete: '${relationship.onDelete.toLowerCase()}'`, `onUpdate: '${relationship.onUpdate.toLowerCase()}'`];
+
+// SQLite only knows storage classes, so the builder follows the type affinity
+const sqliteBuilder = (column: Column, dialect: SQLDialect) => {
+  const baseType = column.dataType.toUpperCase();
+  if (isBooleanColumn(column, dialect)) return { builder: 'integer', options: [`mode: 'boolean'`] };
+  if (BINARY_TYPES.includes(baseType)) return { builder: 'blob', options: [] };
+  switch (seedValueKind(column)) {
+    case 'integer':
+      return { builder: 'integer', options: [] };
+    case 'decimal':
+      return { builder: FLOAT_TYPES.includes(baseType) ? 'real' : 'numeric', options: [] };
+    case 'json':
+      return { builder: 'text', options: [`mode: 'json'`] };
+    default:
+      return { builder: 'text', options: [] };
+  }
+};
+
+const drizzleBuilder = (column: Column, core: DrizzleCore, dialect: SQLDialect) => {
+  if (core === 'sqlite') return { ...sqliteBuilder(column, dialect), fallback: false };
+
+  const baseType = column.dataType.toUpperCase();
+  const mapped = isBooleanColumn(column, dialect) ? 'boolean' : DRIZZLE_BUILDERS[core][baseType];
+  let builder = mapped ?? 'text';
+  if (core === 'pg' && column.isAutoIncrement && PG_SERIAL_BUILDERS[builder]) builder = PG_SERIAL_BUILDERS[builder];
+
+  const options: string[] = [];
+  const length = maxCharacterLength(column);
+  if (length !== null && builder !== 'text') options.push(`length: ${length}`);
+  if (builder === 'decimal' || builder === 'numeric') {
+    const { precision, scale } = precisionAndScale(column);
+    if (precision !== undefined) options.push(`precision: ${precision}`);
+    if (scale !== undefined) options.push(`scale: ${scale}`);
+  }
+  if (['bigint', 'bigserial'].includes(builder)) options.push(`mode: 'number'`);
+  if (core === 'mysql' && column.isUnsigned && ['tinyint', 'smallint', 'mediumint', 'int', 'bigint'].includes(builder)) {
+    options.push('unsigned: true');
+  }
+  return { builder, options, fallback: !mapped };
+};
+
+const generateDrizzleTable = (model: OrmModel, dialect: SQLDialect): GeneratedFile => {
+  const { table, variableName } = model;
+  const core = DRIZZLE_CORES[dialect];
+  const coreImports = new Set([DRIZZLE_TABLES[core]]);
+  const ormImports = new Set<string>();
+  const modelImports = new Set<string>();
+  const primaryKey = table.columns.filter(c => c.isPrimaryKey);
+  const selfReferences = model.navigations.some(n => n.owner && n.other === model);
+  if (selfReferences) coreImports.add(DRIZZLE_COLUMNS[core]);
+
+  const columns = table.columns.map(column => {
+    const field = model.fields.get(column.id)!;
+    const { builder, options, fallback } = drizzleBuilder(column, core, dialect);
+    coreImports.add(builder);
+
+    const values = columnEnumValues(column);
+    const args = [quote(column.name)];
+    if (builder === 'mysqlEnum') args.push(`[${values.map(quote).join(', ')}]`);
+    if (options.length > 0) args.push(objectLiteral(options));
+    let definition = `${builder}(${args.join(', ')})`;
+
+    if (column.isPrimaryKey && primaryKey.length === 1) {
+      definition += core === 'sqlite' && column.isAutoIncrement ? '.primaryKey({ autoIncrement: true })' : '.primaryKey()';
+    } else if (column.isNotNull || column.isPrimaryKey) {
+      definition += '.notNull()';
+    }
+    if (core === 'mysql' && column.isAutoIncrement) definition += '.autoincrement()';
+    if (column.isUnique && !column.isPrimaryKey) definition += '.unique()';
+
+    // PostgreSQL only has stored generated columns, so only MySQL and SQLite take a mode
+    if (isGeneratedColumn(column)) {
+      ormImports.add('sql');
+      const mode = core === 'pg' ? '' : `, { mode: ${quote(column.generatedStorage === 'VIRTUAL' ? 'virtual' : 'stored')} }`;
+      definition += `.generatedAlwaysAs(sql\`${column.generatedExpression!.trim().replace(/[`\\]/g, '\\$&')}\`${mode})`;
+    }
+
+    const defaultValue = isGenerated(column) ? null : readDefault(column, dialect);
+    if (defaultValue) {
+      if ('literal' in defaultValue) {
+        definition += `.default(${toLiteral(defaultValue.literal)})`;
+      } else {
+        ormImports.add('sql');
+        definition += `.default(sql\`${defaultValue.expression.replace(/[`\\]/g, '\\$&')}\`)`;
+      }
+    }
+
+    model.navigations.filter(n => n.owner && n.column === column && n.pairs.length === 1).forEach(navigation => {
+      const { other } = navigation;
+      if (other !== model) modelImports.add(other.variableName);
+      const reference = `${other.variableName}.${other.fields.get(navigation.referencedColumn.id)}`;
+      const callback = other === model ? `(): ${DRIZZLE_COLUMNS[core]} => ${reference}` : `() => ${reference}`;
+      definition += `.references(${callback}, ${objectLiteral(drizzleReferentialOptions(navigation.relationship))})`;
+    });
+
+    const comment = fallback ? ` // ${column.dataType} has no Drizzle builder` : column.comment ? ` // ${column.comment}` : '';
+    return `  ${field}: ${definition},${comment}`;
+  });
+
+  const extras: string[] = [];
+  const extraNames = new Set<string>();
+  if (primaryKey.length > 1) {
+    coreImports.add('primaryKey');
+    extras.push(`  ${claimName('pk', extraNames)}: primaryKey({ columns: [${primaryKey.map(c => `table.${model.fields.get(c.id)}`).join(', ')}] }),`);
+  }
+  // Composite keys cannot be declared on a column
+  model.navigations.filter(n => n.owner && n.pairs.length > 1).forEach(navigation => {
+    const { other } = navigation;
+    if (other !== model) modelImports.add(other.variableName);
+    coreImports.add('foreignKey');
+    const columnsList = navigation.pairs.map(pair => `table.${model.fields.get(pair.source.id)}`).join(', ');
+    const foreignColumns = navigation.pairs.map(pair => `${other === model ? 'table' : other.variableName}.${other.fields.get(pair.target.id)}`).join(', ');
+    const actions = drizzleReferentialOptions(navigation.relationship).map(option => `.${option.replace(': ', '(')})`).join('');
+    extras.push(`  ${claimName(`${navigation.name}Fk`, extraNames)}: foreignKey({ columns: [${columnsList}], foreignColumns: [${foreignColumns}] })${actions},`);
+  });
+  model.indexes.forEach(index => {
+    const builder = index.type === 'UNIQUE' ? 'uniqueIndex' : 'index';
+    coreImports.add(builder);
+    const columnsList = indexColumns(model, index).map(column => `table.${model.fields.get(column.id)}`).join(', ');
+    extras.push(`  ${claimName(toCamelCase(index.name), extraNames)}: ${builder}(${quote(index.name)}).on(${columnsList}),`);
+  });
+  model.constraints.forEach(constraint => {
+    const key = claimName(toCamelCase(constraint.name), extraNames);
+    if (constraint.kind === 'UNIQUE') {
+      coreImports.add('unique');
+      const columnsList = namedColumns(model, constraint.columns!).map(column => `table.${model.fields.get(column.id)}`).join(', ');
+      extras.push(`  ${key}: unique(${quote(constraint.name)}).on(${columnsList}),`);
+    } else if (constraint.kind === 'CHECK') {
+      coreImports.add('check');
+      ormImports.add('sql');
+      extras.push(`  ${key}: check(${quote(constraint.name)}, sql\`${constraint.expression!.replace(/[`\\]|\$\{/g, '\\$&')}\`),`);
+    } else {
+      extras.push(`  // ${constraint.name}: EXCLUDE ${exclusionExpression(constraint)} has no Drizzle builder`);
+    }
+  });
+
+  const body = [
+    `export const ${variableName} = ${DRIZZLE_TABLES[core]}(${quote(table.name)}, {`,
+    ...columns,
+    extras.length > 0 ? `}, (table) => ({\n${extras.join('\n')}\n}));` : '});',
+  ];
+
+  if (model.navigations.length > 0) {
+    ormImports.add('relations');
+    const helpers = ['one', ...(model.navigations.some(n => !n.owner && !n.oneToOne) ? ['many'] : [])];
+    const navigations = model.navigations.map(navigation => {
+      const { other } = navigation;
+      if (other !== model) modelImports.add(other.variableName);
+      const relationName = navigation.relationName ? `relationName: ${quote(navigation.relationName)}` : null;
+      if (navigation.owner) {
+        const options = objectLiteral([
+          `fields: [${navigation.pairs.map(pair => `${variableName}.${model.fields.get(pair.source.id)}`).join(', ')}]`,
+          `references: [${navigation.pairs.map(pair => `${other.variableName}.${other.fields.get(pair.target.id)}`).join(', ')}]`,
+          relationName,
+        ]);
+        return `  ${navigation.name}: one(${other.variableName}, ${options}),`;
+      }
+      const helper = navigation.oneToOne ? 'one' : 'many';
+      return `  ${navigation.name}: ${helper}(${other.variableName}${relationName ? `, { ${relationName} }` : ''}),`;
+    });
+    body.push('', `export const ${variableName}Relations = relations(${variableName}, ({ ${helpers.join(', ')} }) => ({`, ...navigations, '}));');
+  }
+
+  const header = [
+    ...(ormImports.size > 0 ? [`import { ${[...ormImports].join(', ')} } from 'drizzle-orm';`] : []),
+    `import { ${[...coreImports].join(', ')} } from 'drizzle-orm/${core}-core';`,
+    ...[...modelImports].map(name => `import { ${name} } from './${name}';`),
+  ];
+  const comment = table.comment ? `// ${table.comment}\n` : '';
+  return { path: `${variableName}.ts`, content: `${header.join('\n')}\n\n${comment}${body.join('\n')}\n` };
+};
+
+// Sequelize
+
+const SEQUELIZE_TYPES: Record<string, string> = {
+  TINYINT: 'TINYINT', SMALLINT: 'SMALLINT', MEDIUMINT: 'MEDIUMINT', INT: 'INTEGER', INTEGER: 'INTEGER', BIGINT: 'BIGINT',
+  SMALLSERIAL: 'SMALLINT', SERIAL: 'INTEGER', BIGSERIAL: 'BIGINT',
+  DECIMAL: 'DECIMAL', NUMERIC: 'DECIMAL', NUMBER: 'DECIMAL', FLOAT: 'FLOAT', DOUBLE: 'DOUBLE', 'DOUBLE PRECISION': 'DOUBLE', REAL: 'REAL',
+  BOOLEAN: 'BOOLEAN', BOOL: 'BOOLEAN', DATE: 'DATEONLY', DATETIME: 'DATE', TIMESTAMP: 'DATE', TIME: 'TIME',
+  CHAR: 'CHAR', NCHAR: 'CHAR', VARCHAR: 'STRING', VARCHAR2: 'STRING', NVARCHAR2: 'STRING',
+  TINYTEXT: 'TEXT', TEXT: 'TEXT', MEDIUMTEXT: 'TEXT', LONGTEXT: 'TEXT', CLOB: 'TEXT',
+  JSON: 'JSON', JSONB: 'JSONB', UUID: 'UUID', ENUM: 'ENUM',
+  BLOB: 'BLOB', TINYBLOB: 'BLOB', MEDIUMBLOB: 'BLOB', LONGBLOB: 'BLOB', BYTEA: 'BLOB', BINARY: 'BLOB', VARBINARY: 'BLOB',
+};
+
+const sequelizeType = (column: Column, dialect: SQLDialect) => {
+  if (isBooleanColumn(column, dialect)) return 'DataTypes.BOOLEAN';
+  const mapped = SEQUELIZE_TYPES[column.dataType.toUpperCase()];
+  // Sequelize passes unknown types through as SQL
+  if (!mapped) return quote(column.dataType);
+
+  let type = `DataTypes.${mapped}`;
+  const length = maxCharacterLength(column);
+  if (mapped === 'ENUM') {
+    type += `(${enumValues(column).map(quote).join(', ')})`;
+  } else if (mapped === 'DECIMAL') {
+    const { precision, scale } = precisionAndScale(column);
+    if (precision !== undefined) type += `(${[precision, scale].filter(part => part !== undefined).join(', ')})`;
+  } else if (length !== null) {
+    type += `(${length})`;
+  }
+  if (column.isUnsigned && isMySQLFamily(dialect) && seedValueKind(column) === 'integer') type += '.UNSIGNED';
+  return type;
+};
+
+const generateSequelizeModel = (model: OrmModel, dialect: SQLDialect): GeneratedFile => {
+  const { table, className } = model;
+  const imports = new Set<string>();
+
+  const declarations = table.columns.map(column => {
+    const type = tsType(column, dialect);
+    return `  declare ${model.fields.get(column.id)}: ${isNullable(column) ? `${type} | null` : type};`;
+  });
+  // Sequelize associations join on one column, so composite keys stay plain columns
+  const navigations = model.navigations.filter(navigation => navigation.pairs.length === 1);
+  navigations.forEach(navigation => {
+    const { other } = navigation;
+    if (other !== model) imports.add(other.className);
+    declarations.push(`  declare ${navigation.name}?: ${navigation.owner || navigation.oneToOne ? `${other.className} | null` : `${other.className}[]`};`);
+  });
+
+  const attributes = table.columns.map(column => {
+    const options = [`type: ${sequelizeType(column, dialect)}`, `field: ${quote(column.name)}`];
+    if (column.isPrimaryKey) options.push('primaryKey: true');
+    if (isGenerated(column)) options.push('autoIncrement: true');
+    options.push(`allowNull: ${isNullable(column)}`);
+    if (column.isUnique && !column.isPrimaryKey) options.push('unique: true');
+    const defaultValue = isGenerated(column) ? null : readDefault(column, dialect);
+    if (defaultValue) {
+      options.push('literal' in defaultValue
+        ? `defaultValue: ${toLiteral(defaultValue.literal)}`
+        : `defaultValue: Sequelize.literal(${quote(defaultValue.expression)})`);
+    }
+    if (column.comment) options.push(`comment: ${quote(column.comment)}`);
+    // Sequelize cannot declare generated columns; the database computes them on insert
+    const generation = isGeneratedColumn(column)
+      ? ` // GENERATED ALWAYS AS (${column.generatedExpression!.trim()}) ${column.generatedStorage ?? 'STORED'}`
+      : '';
+    return `        ${model.fields.get(column.id)}: ${objectLiteral(options)},${generation}`;
+  });
+
+  const tableOptions = ['sequelize', `tableName: ${quote(table.name)}`, 'timestamps: false'];
+  if (table.comment) tableOptions.push(`comment: ${quote(table.comment)}`);
+  // Sequelize declares UNIQUE constraints as unique indexes
+  const uniqueConstraints = model.constraints.filter(constraint => constraint.kind === 'UNIQUE');
+  if (model.indexes.length > 0 || uniqueConstraints.length > 0) {
+    const indexes = [
+      ...model.indexes.map(index => objectLiteral([
+        `name: ${quote(index.name)}`,
+        index.type === 'UNIQUE' && 'unique: true',
+        index.type === 'FULLTEXT' && `type: 'FULLTEXT'`,
+        `fields: [${index.columns.map(quote).join(', ')}]`,
+      ])),
+      ...uniqueConstraints.map(constraint => objectLiteral([
+        `name: ${quote(constraint.name)}`,
+        'unique: true',
+        `fields: [${constraint.columns!.map(quote).join(', ')}]`,
+      ])),
+    ];
+    tableOptions.push(`indexes: [${indexes.join(', ')}]`);
+  }
+
+  const associations = model.navigations.map(navigation => {
+    const { other } = navigation;
+    if (navigation.pairs.length > 1) {
+      const [from, to] = navigation.owner ? [model, other] : [other, model];
+      const columns = (side: 'source' | 'target') => navigation.pairs.map(pair => pair[side].name).join(', ');
+      return `    // ${from.table.name} (${columns('source')}) references ${to.table.name} (${columns('target')}); Sequelize has no composite key associations`;
+    }
+    const foreignKey = `foreignKey: ${quote((navigation.owner ? model : other).fields.get(navigation.column.id))}`;
+    const referencedKey = quote((navigation.owner ? other : model).fields.get(navigation.referencedColumn.id));
+    if (navigation.owner) {
+      const options = [`as: '${navigation.name}'`, foreignKey, `targetKey: ${referencedKey}`, ...referentialOptions(navigation.relationship)];
+      return `    ${className}.belongsTo(${other.className}, ${objectLiteral(options)});`;
+    }
+    const method = navigation.oneToOne ? 'hasOne' : 'hasMany';
+    return `    ${className}.${method}(${other.className}, ${objectLiteral([`as: '${navigation.name}'`, foreignKey, `sourceKey: ${referencedKey}`])});`;
+  });
+
+  const body = [
+    `export class ${className} extends Model {`,
+    ...declarations,
+    '',
+    '  static initModel(sequelize: Sequelize) {',
+    `    ${className}.init(`,
+    '      {',
+    ...attributes,
+    '      },',
+    `      ${objectLiteral(tableOptions)}`,
+    '    );',
+    '  }',
+    ...(associations.length > 0 ? ['', '  static associate() {', ...associations, '  }'] : []),
+    '}',
+  ];
+
+  const header = [
+    `import { DataTypes, Model, Sequelize } from 'sequelize';`,
+    ...[...imports].map(name => `import { ${name} } from './${name}';`),
+  ];
+  // Sequelize models have no CHECK or exclusion constraints; the database still enforces them
+  const constraintNotes = model.constraints
+    .filter(constraint => constraint.kind !== 'UNIQUE')
+    .map(constraint => `// ${constraint.name}: ${constraint.kind === 'CHECK' ? `CHECK (${constraint.expression})` : `EXCLUDE ${exclusionExpression(constraint)}`}\n`)
+    .join('');
+  const comment = `${table.comment ? `// ${table.comment}\n` : ''}${constraintNotes}`;
+  return { path: `${className}.ts`, content: `${header.join('\n')}\n\n${comment}${body.join('\n')}\n` };
+};
+
+const generateSequelizeIndex = (models: OrmModel[]): GeneratedFile => {
+  const lines = [
+    `import { Sequelize } from 'sequelize';`,
+    ...models.map(model => `import { ${model.className} } from './${model.className}';`),
+    '',
+    `export { ${models.map(model => model.className).join(', ')} };`,
+    '',
+    'export const initModels = (sequelize: Sequelize) => {',
+    ...models.map(model => `  ${model.className}.initModel(sequelize);`),
+    ...models.filter(model => model.navigations.length > 0).map(model => `  ${model.className}.associate();`),
+    '};',
+  ];
+  return { path: 'index.ts', content: `${lines.join('\n')}\n` };
+};
+
+// One file per table, plus an index that exports them all
+export const generateOrmFiles = (project: ProjectData, target: OrmTarget): GeneratedFile[] => {
+  const models = buildModels(project);
+  if (models.length === 0) return [];
+
+  switch (target) {
+    case 'typeorm':
+    case 'drizzle': {
+      const files = models.map(model => target === 'typeorm' ? generateTypeORMEntity(model, project.dialect) : generateDrizzleTable(model, project.dialect));
+      const note = target === 'drizzle' && project.dialect === 'oracle' ? ['// Drizzle has no Oracle driver, so these tables use the PostgreSQL builders'] : [];
+      const exports = files.map(file => `export * from './${file.path.replace(/\.ts$/, '')}';`);
+      return [...files, { path: 'index.ts', content: `${[...note, ...exports].join('\n')}\n` }];
+    }
+    case 'sequelize':
+      return [...models.map(model => generateSequelizeModel(model, project.dialect)), generateSequelizeIndex(models)];
+  }
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { generatePrismaSchema, parsePrismaSchema } from './prismaSchema';
+import { column, primaryKey, project, relationship, table } from '../test/fixtures';
+import { summarizeSchema } from '../test/schemaSummary';
+
+const blog = project({
+  tables: [
+    table('users', [
+      primaryKey('id', { isAutoIncrement: true }),
+      column('email', { dataType: 'VARCHAR', length: '255', isNotNull: true, isUnique: true }),
+      column('is_admin', { dataType: 'BOOLEAN', isNotNull: true, defaultValue: 'false' }),
+    ]),
+    table('posts', [
+      primaryKey('id', { isAutoIncrement: true }),
+      column('author_id', { isNotNull: true }),
+      column('title', { dataType: 'TEXT', isNotNull: true }),
+      column('published_at', { dataType: 'TIMESTAMP' }),
+    ]),
+  ],
+  relationships: [relationship('posts', 'author_id', 'users', 'id', { onDelete: 'CASCADE', name: 'posts_author_fkey' })],
+});
+
+describe('Prisma schema round trip', () => {
+  it('keeps tables, columns and relationships', () => {
+    const parsed = parsePrismaSchema(generatePrismaSchema(blog), 'mysql');
+
+    expect(parsed.dialect).toBe('postgresql');
+    expect(parsed.warnings).toEqual([]);
+    expect(summarizeSchema(parsed)).toEqual({
+      tables: [
+        { name: 'users', columns: [['id', true, true, false, null], ['email', false, true, true, null], ['is_admin', false, true, false, 'false']] },
+        { name: 'posts', columns: [['id', true, true, false, null], ['author_id', false, true, false, null], ['title', false, true, false, null], ['published_at', false, false, false, null]] },
+      ],
+      relationships: [['posts.author_id', 'users.id', 'one-to-many', 'CASCADE']],
+    });
+    expect(parsed.relationships[0].name).toBe('posts_author_fkey');
+  });
+
+  it('links implicit many-to-many relations through a junction table', () => {
+    const parsed = parsePrismaSchema(`
+      model Post {
+        id   Int   @id @default(autoincrement())
+        tags Tag[]
+      }
+
+      model Tag {
+        id    Int    @id @default(autoincrement())
+        posts Post[]
+      }
+
+      model User {
+        id        Int    @id
+        followers User[] @relation("follows")
+        following User[] @relation("follows")
+      }
+    `, 'postgresql');
+
+    expect(parsed.warnings).toEqual([]);
+    expect(summarizeSchema(parsed)).toEqual({
+      tables: [
+        { name: 'Post', columns: [['id', true, true, false, null]] },
+        { name: 'Tag', columns: [['id', true, true, false, null]] },
+        { name: 'User', columns: [['id', true, true, false, null]] },
+        { name: '_PostToTag', columns: [['A', true, true, false, null], ['B', true, true, false, null]] },
+        { name: '_follows', columns: [['A', true, true, false, null], ['B', true, true, false, null]] },
+      ],
+      relationships: [
+        ['_PostToTag.A', 'Post.id', 'one-to-many', 'CASCADE'],
+        ['_PostToTag.B', 'Tag.id', 'one-to-many', 'CASCADE'],
+        ['_follows.A', 'User.id', 'one-to-many', 'CASCADE'],
+        ['_follows.B', 'User.id', 'one-to-many', 'CASCADE'],
+      ],
+    });
+    expect(parsed.tables[3].junction?.tableIds).toEqual([parsed.tables[0].id, parsed.tables[1].id]);
+    expect(parsed.indexes).toEqual([expect.objectContaining({ name: '_PostToTag_B_index', columns: ['B'] }), expect.objectContaining({ name: '_follows_B_index' })]);
+  });
+
+  it('maps enum values that are not identifiers and keeps their defaults', () => {
+    const tasks = project({
+      customTypes: [{ id: 'status', name: 'status', kind: 'ENUM', values: ['in-progress', 'done', '1st'] }],
+      tables: [table('tasks', [primaryKey(), column('status', { dataType: 'status', customTypeId: 'status', isNotNull: true, defaultValue: 'in-progress' })])],
+    });
+
+    const schema = generatePrismaSchema(tasks);
+    expect(schema).toContain('enum Status {\n  in_progress @map("in-progress")\n  done\n  value_1st   @map("1st")\n}');
+    expect(schema).toContain('status Status @default(in_progress)');
+
+    const parsed = parsePrismaSchema(schema, 'postgresql');
+    expect(parsed.customTypes).toEqual([expect.objectContaining({ name: 'Status', kind: 'ENUM', values: ['in-progress', 'done', '1st'] })]);
+    expect(parsed.tables[0].columns[1]).toMatchObject({ dataType: 'Status', defaultValue: 'in-progress' });
+  });
+
+  it('writes SQLite enums as strings that list their values', () => {
+    const schema = generatePrismaSchema(project({
+      dialect: 'sqlite',
+      tables: [table('shirts', [primaryKey(), column('size', { dataType: 'ENUM', length: "'S','M'" })])],
+    }));
+
+    expect(schema).not.toContain('enum ');
+    expect(schema).toContain('// One of "S", "M"; Prisma has no enums for SQLite');
+  });
+});
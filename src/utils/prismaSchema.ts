@@ -0,0 +1,698 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProjectData, TableData, Column, IndexData, RelationshipData, ReferentialAction, SQLDialect, CustomTypeData } from '../types';
+import { ParsedSchema, layoutTables } from './sqlParser';
+import { enumValues } from './seedData';
+import { toPascalCase, lowerFirst, claimName } from './naming';
+import { columnPairFields, isUniqueKey, resolveColumnPairs } from './relationshipColumns';
+import { buildJunction, junctionKeyColumns, markJunctionTables } from './junctionTables';
+import { isCompleteConstraint } from './tableConstraints';
+import { isGeneratedColumn } from './generatedColumns';
+import { findCustomType, withDomainBaseType, withStorageType } from './customTypes';
+
+export interface ParsedPrismaSchema extends ParsedSchema {
+  // Dialect of the datasource provider, when Prisma and the canvas both support it
+  dialect?: SQLDialect;
+}
+
+type PrismaScalar = 'String' | 'Int' | 'BigInt' | 'Float' | 'Decimal' | 'Boolean' | 'DateTime' | 'Json' | 'Bytes';
+
+const PRISMA_PROVIDERS: Record<SQLDialect, string> = {
+  mysql: 'mysql',
+  mariadb: 'mysql',
+  postgresql: 'postgresql',
+  sqlite: 'sqlite',
+  // Prisma has no Oracle connector
+  oracle: 'postgresql',
+};
+
+const PROVIDER_DIALECTS: Record<string, SQLDialect> = {
+  mysql: 'mysql',
+  postgresql: 'postgresql',
+  postgres: 'postgresql',
+  cockroachdb: 'postgresql',
+  sqlite: 'sqlite',
+};
+
+const SCALAR_TYPES: Record<string, PrismaScalar> = {
+  TINYINT: 'Int', SMALLINT: 'Int', MEDIUMINT: 'Int', INT: 'Int', INTEGER: 'Int', YEAR: 'Int', SMALLSERIAL: 'Int', SERIAL: 'Int',
+  BIGINT: 'BigInt', BIGSERIAL: 'BigInt',
+  FLOAT: 'Float', DOUBLE: 'Float', REAL: 'Float', 'DOUBLE PRECISION': 'Float',
+  DECIMAL: 'Decimal', NUMERIC: 'Decimal', NUMBER: 'Decimal',
+  BOOLEAN: 'Boolean', BOOL: 'Boolean',
+  DATE: 'DateTime', DATETIME: 'DateTime', TIMESTAMP: 'DateTime', TIME: 'DateTime',
+  JSON: 'Json', JSONB: 'Json',
+  BLOB: 'Bytes', TINYBLOB: 'Bytes', MEDIUMBLOB: 'Bytes', LONGBLOB: 'Bytes', BYTEA: 'Bytes',
+  BINARY: 'Bytes', VARBINARY: 'Bytes', RAW: 'Bytes', 'LONG RAW': 'Bytes',
+};
+
+// Native type attributes (@db.X) per SQL type; types without one use Prisma's default mapping
+const NATIVE_TYPES: Partial<Record<SQLDialect, Record<string, string>>> = {
+  mysql: {
+    TINYINT: 'TinyInt', SMALLINT: 'SmallInt', MEDIUMINT: 'MediumInt', YEAR: 'Year',
+    FLOAT: 'Float', DOUBLE: 'Double', DECIMAL: 'Decimal', NUMERIC: 'Decimal',
+    DATE: 'Date', TIME: 'Time', DATETIME: 'DateTime', TIMESTAMP: 'Timestamp',
+    CHAR: 'Char', VARCHAR: 'VarChar', TINYTEXT: 'TinyText', TEXT: 'Text', MEDIUMTEXT: 'MediumText', LONGTEXT: 'LongText',
+    BINARY: 'Binary', VARBINARY: 'VarBinary', TINYBLOB: 'TinyBlob', BLOB: 'Blob', MEDIUMBLOB: 'MediumBlob',
+  },
+  postgresql: {
+    SMALLINT: 'SmallInt', SMALLSERIAL: 'SmallInt', REAL: 'Real', DECIMAL: 'Decimal', NUMERIC: 'Decimal',
+    DATE: 'Date', TIME: 'Time', TIMESTAMP: 'Timestamp',
+    CHAR: 'Char', VARCHAR: 'VarChar', TEXT: 'Text', UUID: 'Uuid', JSON: 'Json', XML: 'Xml',
+    INET: 'Inet', CIDR: 'Inet', BIT: 'Bit',
+  },
+};
+NATIVE_TYPES.mariadb = NATIVE_TYPES.mysql;
+
+const UNSIGNED_NATIVE_TYPES: Record<string, string> = {
+  TINYINT: 'UnsignedTinyInt', SMALLINT: 'UnsignedSmallInt', MEDIUMINT: 'UnsignedMediumInt', INT: 'UnsignedInt', INTEGER: 'UnsignedInt', BIGINT: 'UnsignedBigInt',
+};
+
+// Native types that take the column length as their argument
+const NATIVE_TYPES_WITH_ARGUMENTS = ['Char', 'VarChar', 'Binary', 'VarBinary', 'Decimal', 'Bit', 'Time', 'Timestamp'];
+
+const MYSQL_COLUMN_TYPES: Record<PrismaScalar, { dataType: string; length?: string }> = {
+  String: { dataType: 'VARCHAR', length: '191' }, Int: { dataType: 'INT' }, BigInt: { dataType: 'BIGINT' },
+  Float: { dataType: 'DOUBLE' }, Decimal: { dataType: 'DECIMAL', length: '65,30' }, Boolean: { dataType: 'TINYINT', length: '1' },
+  DateTime: { dataType: 'DATETIME' }, Json: { dataType: 'JSON' }, Bytes: { dataType: 'LONGBLOB' },
+};
+
+// SQL types that Prisma creates for a field without a native type attribute
+const DEFAULT_COLUMN_TYPES: Record<SQLDialect, Record<PrismaScalar, { dataType: string; length?: string }>> = {
+  mysql: MYSQL_COLUMN_TYPES,
+  mariadb: MYSQL_COLUMN_TYPES,
+  postgresql: {
+    String: { dataType: 'text' }, Int: { dataType: 'integer' }, BigInt: { dataType: 'bigint' },
+    Float: { dataType: 'double precision' }, Decimal: { dataType: 'decimal', length: '65,30' }, Boolean: { dataType: 'boolean' },
+    DateTime: { dataType: 'timestamp' }, Json: { dataType: 'jsonb' }, Bytes: { dataType: 'bytea' },
+  },
+  sqlite: {
+    String: { dataType: 'TEXT' }, Int: { dataType: 'INTEGER' }, BigInt: { dataType: 'INTEGER' },
+    Float: { dataType: 'REAL' }, Decimal: { dataType: 'NUMERIC' }, Boolean: { dataType: 'INTEGER' },
+    DateTime: { dataType: 'NUMERIC' }, Json: { dataType: 'TEXT' }, Bytes: { dataType: 'BLOB' },
+  },
+  oracle: {
+    String: { dataType: 'VARCHAR2', length: '255' }, Int: { dataType: 'NUMBER', length: '10' }, BigInt: { dataType: 'NUMBER', length: '19' },
+    Float: { dataType: 'FLOAT' }, Decimal: { dataType: 'NUMBER' }, Boolean: { dataType: 'NUMBER', length: '1' },
+    DateTime: { dataType: 'TIMESTAMP' }, Json: { dataType: 'CLOB' }, Bytes: { dataType: 'BLOB' },
+  },
+};
+
+const REFERENTIAL_ACTIONS: Record<ReferentialAction, string> = {
+  CASCADE: 'Cascade',
+  RESTRICT: 'Restrict',
+  'NO ACTION': 'NoAction',
+  'SET NULL': 'SetNull',
+  'SET DEFAULT': 'SetDefault',
+};
+
+const TIMESTAMP_DEFAULTS = ['NOW()', 'CURRENT_TIMESTAMP', 'CURRENT_TIMESTAMP()', 'LOCALTIMESTAMP'];
+
+const toIdentifier = (name: string, prefix = 'field') => {
+  const identifier = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[A-Za-z]/.test(identifier) ? identifier : `${prefix}_${identifier}`;
+};
+
+// Enum members must be identifiers too; other values get one and keep their database value through @map
+const enumMembers = (values: string[]) => {
+  const taken = new Set<string>();
+  return new Map(values.map(value => [value, claimName(toIdentifier(value, 'value'), taken)]));
+};
+
+// Aligns the name, type and attribute columns the way `prisma format` does
+const alignFields = (rows: string[][]) => {
+  const widths = [0, 1].map(i => Math.max(...rows.filter(row => row.length > 1).map(row => row[i].length)));
+  return rows.map(row => row.length === 1
+    ? `  ${row[0]}`
+    : `  ${row.map((cell, i) => i < 2 && row.slice(i + 1).some(Boolean) ? cell.padEnd(widths[i]) : cell).filter(Boolean).join(' ')}`.trimEnd());
+};
+
+const formatDefault = (column: Column, scalar: PrismaScalar, members: Map<string, string> | null): string | null => {
+  const value = column.defaultValue?.trim();
+  if (!value || value.toUpperCase() === 'NULL') return null;
+  if (TIMESTAMP_DEFAULTS.includes(value.toUpperCase())) return 'now()';
+  if (/\(.*\)$/.test(value) || /^CURRENT_(DATE|TIME)$/i.test(value)) return `dbgenerated(${JSON.stringify(value)})`;
+
+  const literal = value.replace(/^'(.*)'$/, '$1');
+  if (members) return members.get(literal) ?? literal;
+  switch (scalar) {
+    case 'Int':
+    case 'BigInt':
+    case 'Float':
+    case 'Decimal':
+      return isNaN(Number(literal)) ? `dbgenerated(${JSON.stringify(value)})` : literal;
+    case 'Boolean':
+      return /^(true|1)$/i.test(literal) ? 'true' : 'false';
+    default:
+      return JSON.stringify(literal);
+  }
+};
+
+const nativeTypeAttribute = (column: Column, dialect: SQLDialect): string | null => {
+  const baseType = column.dataType.toUpperCase();
+  const nativeType = (dialect === 'mysql' || dialect === 'mariadb') && column.isUnsigned && UNSIGNED_NATIVE_TYPES[baseType]
+    ? UNSIGNED_NATIVE_TYPES[baseType]
+    : NATIVE_TYPES[dialect]?.[baseType];
+  if (!nativeType) return null;
+  return column.length && NATIVE_TYPES_WITH_ARGUMENTS.includes(nativeType) ? `@db.${nativeType}(${column.length})` : `@db.${nativeType}`;
+};
+
+export const generatePrismaSchema = (project: ProjectData): string => {
+  const { dialect, tables, relationships } = project;
+  const takenModels = new Set<string>();
+  const modelNames = new Map(tables.map(table => [table.id, claimName(toPascalCase(table.name), takenModels)]));
+  const fieldNames = new Map<string, Set<string>>(tables.map(table => [table.id, new Set<string>()]));
+  const columnFields = new Map(tables.flatMap(table =>
+    table.columns.map(column => [column.id, claimName(toIdentifier(column.name), fieldNames.get(table.id)!)] as const)
+  ));
+  const enums: string[] = [];
+  // Catalog enums become one Prisma enum each, shared by the columns that use them
+  const catalogEnums = new Map<string, { name: string; members: Map<string, string> }>();
+
+  const relationFields = new Map<string, string[][]>(tables.map(table => [table.id, []]));
+  relationships.forEach(relationship => {
+    const source = tables.find(t => t.id === relationship.sourceTable);
+    const target = tables.find(t => t.id === relationship.targetTable);
+    const pairs = resolveColumnPairs(relationship, source, target);
+    if (!source || !target || !pairs) return;
+    const sourceColumn = pairs[0].source;
+
+    // Prisma needs a name to tell apart several relations between the same two models
+    const ambiguous = source === target || relationships.filter(r =>
+      (r.sourceTable === source.id && r.targetTable === target.id) || (r.sourceTable === target.id && r.targetTable === source.id)
+    ).length > 1;
+    const relationName = ambiguous ? `${JSON.stringify(`${source.name}_${sourceColumn.name}`)}, ` : '';
+    const map = relationship.name ? `, map: ${JSON.stringify(relationship.name)}` : '';
+    const sourceModel = modelNames.get(source.id)!;
+    const targetModel = modelNames.get(target.id)!;
+    const foreignKeyField = columnFields.get(sourceColumn.id)!;
+    const fields = pairs.map(pair => columnFields.get(pair.source.id)).join(', ');
+    const references = pairs.map(pair => columnFields.get(pair.target.id)).join(', ');
+
+    // customerId navigates as customer; composite keys navigate by the model they point at
+    const navigationName = pairs.length === 1 ? foreignKeyField.replace(/_?[iI]d$/, '') : '';
+    const fieldName = claimName(navigationName || lowerFirst(targetModel), fieldNames.get(source.id)!);
+    const optional = pairs.some(pair => !pair.source.isNotNull && !pair.source.isPrimaryKey);
+    relationFields.get(source.id)!.push([
+      fieldName,
+      `${targetModel}${optional ? '?' : ''}`,
+      `@relation(${relationName}fields: [${fields}], references: [${references}], onDelete: ${REFERENTIAL_ACTIONS[relationship.onDelete]}, onUpdate: ${REFERENTIAL_ACTIONS[relationship.onUpdate]}${map})`,
+    ]);
+
+    const isOneToOne = isUniqueKey(source, pairs.map(pair => pair.source.id), project.indexes);
+    const backField = claimName(lowerFirst(sourceModel), fieldNames.get(target.id)!);
+    relationFields.get(target.id)!.push([
+      backField,
+      `${sourceModel}${isOneToOne ? '?' : '[]'}`,
+      ambiguous ? `@relation(${relationName.slice(0, -2)})` : '',
+    ]);
+  });
+
+  const models = tables.map(table => {
+    const model = modelNames.get(table.id)!;
+    const primaryKey = table.columns.filter(c => c.isPrimaryKey);
+    const rows: string[][] = [];
+
+    table.columns.forEach(typedColumn => {
+      // Domains map like their base type; Prisma has no composite types outside MongoDB
+      const customType = findCustomType(typedColumn, project.customTypes);
+      const isComposite = customType?.kind === 'COMPOSITE';
+      const column = isComposite ? withStorageType(typedColumn, project.customTypes, dialect) : withDomainBaseType(typedColumn, project.customTypes);
+      const field = columnFields.get(column.id)!;
+      const baseType = column.dataType.toUpperCase();
+      let scalar: PrismaScalar = SCALAR_TYPES[baseType] ?? 'String';
+      let type: string = isComposite && dialect === 'postgresql' ? `Unsupported(${JSON.stringify(customType.name)})` : scalar;
+
+      // Prisma has no enums for SQLite, where the column stays a String
+      const values = customType?.kind === 'ENUM' || baseType === 'ENUM' ? enumValues(column, project.customTypes) : [];
+      const isEnum = values.length > 0 && dialect !== 'sqlite';
+      let members: Map<string, string> | null = null;
+      if (isEnum && customType && catalogEnums.has(customType.id)) {
+        ({ name: type, members } = catalogEnums.get(customType.id)!);
+      } else if (isEnum) {
+        type = claimName(customType ? toPascalCase(customType.name) : `${model}${toPascalCase(column.name)}`, takenModels);
+        members = enumMembers(values);
+        if (customType) catalogEnums.set(customType.id, { name: type, members });
+        const memberRows = [...members].map(([value, member]) => [member, member !== value ? `@map(${JSON.stringify(value)})` : '']);
+        enums.push(`enum ${type} {\n${alignFields(memberRows).join('\n')}\n}`);
+      }
+      if ((dialect === 'mysql' || dialect === 'mariadb') && baseType === 'TINYINT' && column.length === '1') {
+        scalar = 'Boolean';
+        type = scalar;
+      }
+
+      const attributes: string[] = [];
+      if (column.isPrimaryKey && primaryKey.length === 1) attributes.push('@id');
+      if (column.isUnique && !column.isPrimaryKey) attributes.push('@unique');
+      if (column.isAutoIncrement || ['SERIAL', 'SMALLSERIAL', 'BIGSERIAL'].includes(baseType)) {
+        attributes.push('@default(autoincrement())');
+      } else if (!isGeneratedColumn(column)) {
+        const defaultValue = formatDefault(column, scalar, members);
+        if (defaultValue) attributes.push(`@default(${defaultValue})`);
+      }
+      if (field !== column.name) attributes.push(`@map(${JSON.stringify(column.name)})`);
+      const nativeType = !isEnum && !type.startsWith('Unsupported') && scalar !== 'Boolean' ? nativeTypeAttribute(column, dialect) : null;
+      if (nativeType) attributes.push(nativeType);
+
+      if (column.comment) rows.push([`/// ${column.comment}`]);
+      if (values.length > 0 && !isEnum) {
+        rows.push([`// One of ${values.map(value => JSON.stringify(value)).join(', ')}; Prisma has no enums for SQLite`]);
+      }
+      if (isGeneratedColumn(column)) {
+        rows.push([`// GENERATED ALWAYS AS (${column.generatedExpression!.trim()}) ${column.generatedStorage ?? 'STORED'} is computed by the database; Prisma cannot declare it`]);
+      }
+      const optional = !column.isNotNull && !column.isPrimaryKey;
+      rows.push([field, `${type}${optional ? '?' : ''}`, attributes.join(' ')]);
+    });
+
+    rows.push(...relationFields.get(table.id)!);
+
+    const blockAttributes: string[] = [];
+    const fieldOf = (columnName: string) => columnFields.get(table.columns.find(c => c.name === columnName)?.id ?? '') ?? toIdentifier(columnName);
+    if (primaryKey.length > 1) {
+      blockAttributes.push(`@@id([${primaryKey.map(c => columnFields.get(c.id)).join(', ')}])`);
+    }
+    project.indexes.filter(index => index.tableId === table.id && index.type !== 'PRIMARY').forEach(index => {
+      const kind = index.type === 'UNIQUE' ? 'unique' : index.type === 'FULLTEXT' && dialect === 'mysql' ? 'fulltext' : 'index';
+      blockAttributes.push(`@@${kind}([${index.columns.map(fieldOf).join(', ')}], map: ${JSON.stringify(index.name)})`);
+    });
+    (table.constraints ?? []).filter(isCompleteConstraint).forEach(constraint => {
+      if (constraint.kind === 'UNIQUE') {
+        blockAttributes.push(`@@unique([${constraint.columns!.map(fieldOf).join(', ')}], map: ${JSON.stringify(constraint.name)})`);
+      } else {
+        blockAttributes.push(`// ${constraint.kind} constraint ${constraint.name} is not supported by Prisma`);
+      }
+    });
+    if (model !== table.name) {
+      blockAttributes.push(`@@map(${JSON.stringify(table.name)})`);
+    }
+
+    const body = [...alignFields(rows), ...(blockAttributes.length > 0 ? ['', ...blockAttributes.map(attribute => `  ${attribute}`)] : [])];
+    return `${table.comment ? `/// ${table.comment}\n` : ''}model ${model} {\n${body.join('\n')}\n}`;
+  });
+
+  const header = [
+    ...(dialect === 'oracle' ? ['// Prisma has no Oracle connector, so this schema uses the PostgreSQL provider'] : []),
+    `datasource db {\n  provider = "${PRISMA_PROVIDERS[dialect]}"\n  url      = env("DATABASE_URL")\n}`,
+    `generator client {\n  provider = "prisma-client-js"\n}`,
+  ];
+  return [...header, ...models, ...enums].join('\n\n') + '\n';
+};
+
+// Parsing
+
+interface Attribute {
+  name: string;
+  args: string | null;
+}
+
+interface PrismaBlock {
+  kind: string;
+  name: string;
+  docs: string[];
+  lines: { text: string; docs: string[] }[];
+}
+
+interface PendingRelation {
+  table: TableData;
+  field: string;
+  fields: string[];
+  references: string[];
+  targetModel: string;
+  onDelete: ReferentialAction;
+  onUpdate: ReferentialAction;
+  map?: string;
+}
+
+// A list relation field without `fields`, one side of an implicit many-to-many relation
+interface ListRelation {
+  model: string;
+  field: string;
+  targetModel: string;
+  name?: string;
+}
+
+// Splits at the separator where it is outside of strings, parentheses and brackets
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && text.startsWith(separator, i)) {
+      parts.push(text.slice(start, i));
+      start = i + separator.length;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+const stripComment = (line: string) => {
+  let inString = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"' && line[i - 1] !== '\\') inString = !inString;
+    if (!inString && line.startsWith('//', i)) return line.slice(0, i);
+  }
+  return line;
+};
+
+const parseAttributes = (text: string): Attribute[] =>
+  splitTopLevel(text, '@').map(part => {
+    const match = part.match(/^(@?[\w.]+)\s*(?:\(([\s\S]*)\))?$/);
+    return match ? { name: `@${match[1]}`, args: match[2] ?? null } : { name: `@${part}`, args: null };
+  });
+
+const parseBlockAttribute = (line: string): Attribute => {
+  const match = line.match(/^(@@\w+)\s*(?:\(([\s\S]*)\))?$/);
+  return match ? { name: match[1], args: match[2] ?? null } : { name: line, args: null };
+};
+
+const parseArguments = (args: string | null) => {
+  const positional: string[] = [];
+  const named: Record<string, string> = {};
+  splitTopLevel(args ?? '', ',').forEach(arg => {
+    const match = arg.match(/^(\w+)\s*:\s*([\s\S]+)$/);
+    if (match) named[match[1]] = match[2].trim();
+    else positional.push(arg);
+  });
+  return { positional, named };
+};
+
+// Field names of a list like [a, b(sort: Desc)]
+const parseFieldList = (value: string | undefined): string[] =>
+  value ? splitTopLevel(value.replace(/^\[|\]$/g, ''), ',').map(item => item.replace(/\(.*\)$/, '').trim()) : [];
+
+const unquote = (value: string) => value.startsWith('"') ? JSON.parse(value) as string : value;
+
+const parseReferentialAction = (value: string | undefined, fallback: ReferentialAction): ReferentialAction =>
+  (Object.keys(REFERENTIAL_ACTIONS) as ReferentialAction[]).find(action => REFERENTIAL_ACTIONS[action] === value) ?? fallback;
+
+const splitBlocks = (source: string): PrismaBlock[] => {
+  const blocks: PrismaBlock[] = [];
+  let current: PrismaBlock | null = null;
+  let docs: string[] = [];
+
+  source.split(/\r?\n/).forEach(rawLine => {
+    const trimmed = rawLine.trim();
+    if (trimmed.startsWith('///')) {
+      docs.push(trimmed.slice(3).trim());
+      return;
+    }
+    const line = stripComment(trimmed).trim();
+    if (!line) return;
+
+    if (!current) {
+      const match = line.match(/^(\w+)\s+(\w+)\s*\{$/);
+      if (match) {
+        current = { kind: match[1], name: match[2], docs, lines: [] };
+      }
+    } else if (line === '}') {
+      blocks.push(current);
+      current = null;
+    } else {
+      current.lines.push({ text: line, docs });
+    }
+    docs = [];
+  });
+
+  return blocks;
+};
+
+const columnTypeFor = (scalar: string, nativeType: Attribute | undefined, dialect: SQLDialect) => {
+  if (nativeType) {
+    const name = nativeType.name.replace(/^@db\./, '');
+    const unsigned = Object.entries(UNSIGNED_NATIVE_TYPES).find(([, native]) => native === name);
+    const sqlType = unsigned?.[0] ?? Object.entries(NATIVE_TYPES[dialect] ?? {}).find(([, native]) => native === name)?.[0];
+    if (sqlType) {
+      return {
+        dataType: dialect === 'postgresql' ? sqlType.toLowerCase() : sqlType,
+        length: nativeType.args?.replace(/\s+/g, '') || undefined,
+        isUnsigned: unsigned ? true : undefined,
+      };
+    }
+  }
+  return DEFAULT_COLUMN_TYPES[dialect][scalar as PrismaScalar] ?? DEFAULT_COLUMN_TYPES[dialect].String;
+};
+
+const applyDefault = (column: Column, args: string | null, enums: Map<string, Map<string, string>>, type: string) => {
+  const value = args?.trim() ?? '';
+  if (value === 'autoincrement()') {
+    column.isAutoIncrement = true;
+  } else if (value === 'now()') {
+    column.defaultValue = 'CURRENT_TIMESTAMP';
+  } else if (value.startsWith('dbgenerated(')) {
+    const expression = parseArguments(value.slice('dbgenerated('.length, -1)).positional[0];
+    column.defaultValue = expression ? unquote(expression) : undefined;
+  } else if (value.startsWith('"')) {
+    column.defaultValue = unquote(value);
+  } else if (value === 'true' || value === 'false') {
+    column.defaultValue = type === 'Boolean' && column.dataType.toUpperCase() !== 'BOOLEAN' ? (value === 'true' ? '1' : '0') : value;
+  } else if (enums.has(type)) {
+    // Enum members stand for their @map value
+    column.defaultValue = enums.get(type)!.get(value) ?? value;
+  } else if (/^-?[\d.]+$/.test(value)) {
+    column.defaultValue = value;
+  }
+  // uuid(), cuid() and similar defaults are generated by Prisma Client, not by the database
+};
+
+// Reads a schema.prisma file into tables, relationships and indexes. Relation fields that carry
+// `fields` and `references` become foreign keys; their back-relation fields need no column, and list
+// fields on both sides of a relation become a junction table.
+export const parsePrismaSchema = (source: string, fallbackDialect: SQLDialect): ParsedPrismaSchema => {
+  const blocks = splitBlocks(source);
+  const warnings: string[] = [];
+
+  const datasource = blocks.find(block => block.kind === 'datasource');
+  const providerLine = datasource?.lines.find(line => /^provider\s*=/.test(line.text));
+  const provider = providerLine ? unquote(providerLine.text.replace(/^provider\s*=\s*/, '')) : undefined;
+  const dialect = provider ? PROVIDER_DIALECTS[provider] : undefined;
+  if (provider && !dialect) {
+    warnings.push(`The ${provider} provider is not supported; the schema was imported as ${fallbackDialect}`);
+  }
+  const targetDialect = dialect ?? fallbackDialect;
+
+  const enums = new Map(blocks.filter(block => block.kind === 'enum').map(block => [
+    block.name,
+    new Map(block.lines.filter(line => !line.text.startsWith('@@')).map(line => {
+      const [member, ...rest] = line.text.split(/\s+/);
+      const mapped = parseAttributes(rest.join(' ')).find(attribute => attribute.name === '@map');
+      return [member, mapped ? unquote(parseArguments(mapped.args).positional[0]) : member];
+    })),
+  ]));
+  const customTypes: CustomTypeData[] = [...enums].map(([name, members]) => ({ id: uuidv4(), name, kind: 'ENUM', values: [...members.values()] }));
+
+  blocks.filter(block => !['datasource', 'generator', 'model', 'enum'].includes(block.kind)).forEach(block => {
+    warnings.push(`Skipped ${block.kind} ${block.name}: only models and enums are imported`);
+  });
+
+  const models = blocks.filter(block => block.kind === 'model');
+  const modelNames = new Set(models.map(model => model.name));
+  const tables: TableData[] = [];
+  const tablesByModel = new Map<string, TableData>();
+  const columnsByField = new Map<string, Map<string, Column>>();
+  const pendingRelations: PendingRelation[] = [];
+  const listRelations: ListRelation[] = [];
+  const indexes: IndexData[] = [];
+
+  models.forEach(model => {
+    const tableMap = model.lines.find(line => line.text.startsWith('@@map'));
+    const table: TableData = {
+      id: uuidv4(),
+      name: tableMap ? unquote(parseArguments(parseBlockAttribute(tableMap.text).args).positional[0]) : model.name,
+      columns: [],
+      position: { x: 0, y: 0 },
+      comment: model.docs.join(' ') || undefined,
+    };
+    const fields = new Map<string, Column>();
+    tables.push(table);
+    tablesByModel.set(model.name, table);
+    columnsByField.set(model.name, fields);
+
+    model.lines.filter(line => !line.text.startsWith('@@')).forEach(line => {
+      const match = line.text.match(/^(\w+)\s+(\w+)(\[\]|\?)?\s*(.*)$/);
+      if (!match) {
+        warnings.push(`Skipped ${model.name}: could not read "${line.text}"`);
+        return;
+      }
+      const [, fieldName, type, modifier, rest] = match;
+      const attributes = parseAttributes(rest);
+      const attribute = (name: string) => attributes.find(a => a.name === name);
+
+      if (modelNames.has(type)) {
+        const relation = attribute('@relation');
+        const { positional, named } = parseArguments(relation?.args ?? null);
+        if (modifier === '[]' && !named.fields) {
+          const name = named.name ?? positional[0];
+          listRelations.push({ model: model.name, field: fieldName, targetModel: type, name: name ? unquote(name) : undefined });
+        } else if (named.fields && named.references) {
+          const optional = modifier === '?';
+          pendingRelations.push({
+            table,
+            field: fieldName,
+            fields: parseFieldList(named.fields),
+            references: parseFieldList(named.references),
+            targetModel: type,
+            onDelete: parseReferentialAction(named.onDelete, optional ? 'SET NULL' : 'RESTRICT'),
+            onUpdate: parseReferentialAction(named.onUpdate, 'CASCADE'),
+            map: named.map ? unquote(named.map) : undefined,
+          });
+        }
+        return;
+      }
+      if (modifier === '[]') {
+        warnings.push(`Skipped ${model.name}.${fieldName}: scalar lists are not supported`);
+        return;
+      }
+      if (attribute('@ignore')) return;
+
+      const mapped = attribute('@map');
+      const customType = customTypes.find(t => t.name === type);
+      const columnType = customType
+        ? { dataType: customType.name, customTypeId: customType.id }
+        : columnTypeFor(type, attributes.find(a => a.name.startsWith('@db.')), targetDialect);
+
+      const column: Column = {
+        id: uuidv4(),
+        name: mapped ? unquote(parseArguments(mapped.args).positional[0]) : fieldName,
+        ...columnType,
+        isPrimaryKey: !!attribute('@id'),
+        isNotNull: modifier !== '?',
+        isAutoIncrement: false,
+        isUnique: !!attribute('@unique'),
+        comment: line.docs.join(' ') || undefined,
+      };
+      const defaultValue = attribute('@default');
+      if (defaultValue) applyDefault(column, defaultValue.args, enums, type);
+      table.columns.push(column);
+      fields.set(fieldName, column);
+    });
+  });
+
+  // Block attributes, once every field of the model is known
+  models.forEach(model => {
+    const table = tablesByModel.get(model.name)!;
+    const fields = columnsByField.get(model.name)!;
+    const columnNames = (list: string | undefined) => parseFieldList(list).map(field => fields.get(field)?.name ?? field);
+
+    model.lines.filter(line => line.text.startsWith('@@')).forEach(line => {
+      const attribute = parseBlockAttribute(line.text);
+      const { positional, named } = parseArguments(attribute.args);
+      const columns = columnNames(named.fields ?? positional[0]);
+
+      switch (attribute.name) {
+        case '@@id':
+          columns.forEach(name => {
+            const column = table.columns.find(c => c.name === name);
+            if (column) column.isPrimaryKey = true;
+          });
+          break;
+        case '@@unique':
+        case '@@index':
+        case '@@fulltext': {
+          const type: IndexData['type'] = attribute.name === '@@unique' ? 'UNIQUE' : attribute.name === '@@fulltext' ? 'FULLTEXT' : 'INDEX';
+          const suffix = type === 'UNIQUE' ? 'key' : 'idx';
+          indexes.push({
+            id: uuidv4(),
+            name: named.map ? unquote(named.map) : `${table.name}_${columns.join('_')}_${suffix}`,
+            tableId: table.id,
+            columns,
+            type,
+          });
+          break;
+        }
+        case '@@map':
+        case '@@schema':
+          break;
+        default:
+          warnings.push(`Skipped ${attribute.name} on ${model.name}`);
+      }
+    });
+  });
+
+  const relationships: RelationshipData[] = [];
+  pendingRelations.forEach(relation => {
+    const target = tablesByModel.get(relation.targetModel)!;
+    const sourceModel = models.find(model => tablesByModel.get(model.name) === relation.table)!.name;
+    if (relation.fields.length !== relation.references.length) {
+      warnings.push(`Skipped relation ${sourceModel}.${relation.field}: fields and references differ in length`);
+      return;
+    }
+    const pairs = relation.fields.map((field, i) => ({
+      source: columnsByField.get(sourceModel)!.get(field),
+      target: columnsByField.get(relation.targetModel)!.get(relation.references[i]),
+    }));
+    if (pairs.length === 0 || pairs.some(pair => !pair.source || !pair.target)) {
+      warnings.push(`Skipped relation ${sourceModel}.${relation.field}: field was not found`);
+      return;
+    }
+
+    const columnPairs = pairs.map(pair => {
+      const sourceColumn = pair.source!;
+      sourceColumn.isForeignKey = true;
+      sourceColumn.referencesTable = target.id;
+      sourceColumn.referencesColumn = pair.target!.id;
+      return { sourceColumn: sourceColumn.id, targetColumn: pair.target!.id };
+    });
+
+    const isOneToOne = isUniqueKey(relation.table, columnPairs.map(pair => pair.sourceColumn), indexes);
+    relationships.push({
+      id: uuidv4(),
+      sourceTable: relation.table.id,
+      targetTable: target.id,
+      ...columnPairFields(columnPairs),
+      type: isOneToOne ? 'one-to-one' : 'one-to-many',
+      onUpdate: relation.onUpdate,
+      onDelete: relation.onDelete,
+      name: relation.map,
+    });
+  });
+
+  // List fields on both sides make an implicit many-to-many relation. Prisma links them through the
+  // table _<relation name>, whose column A references the model that sorts first and B the other.
+  const paired = new Set<ListRelation>();
+  listRelations.forEach(relation => {
+    if (paired.has(relation)) return;
+    const opposite = listRelations.find(other => other !== relation && !paired.has(other) &&
+      other.model === relation.targetModel && other.targetModel === relation.model && other.name === relation.name);
+    // Otherwise the field is the back-relation of a one-to-many relation
+    if (!opposite) return;
+    paired.add(relation);
+    paired.add(opposite);
+
+    // Prisma compares the names byte by byte, so Tag sorts before post
+    const [first, second] = [relation, opposite].sort((a, b) => `${a.model} ${a.field}` < `${b.model} ${b.field}` ? -1 : 1);
+    const sides = [first, second].map(side => {
+      const table = tablesByModel.get(side.model)!;
+      return { table, columns: junctionKeyColumns(table) };
+    });
+    if (sides.some(side => side.columns.length !== 1)) {
+      warnings.push(`Skipped relation ${relation.model}.${relation.field}: an implicit many-to-many relation needs a single field @id on both models`);
+      return;
+    }
+
+    const link = buildJunction([sides[0], sides[1]], {
+      name: `_${relation.name ?? `${first.model}To${second.model}`}`,
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    });
+    const junction = { ...link.table, columns: link.table.columns.map((column, i) => ({ ...column, name: i === 0 ? 'A' : 'B' })) };
+    tables.push(junction);
+    relationships.push(...link.relationships);
+    indexes.push({ id: uuidv4(), name: `${junction.name}_B_index`, tableId: junction.id, columns: ['B'], type: 'INDEX' });
+  });
+
+  markJunctionTables(tables, relationships);
+  layoutTables(tables);
+  return { tables, relationships, indexes, customTypes, warnings, dialect };
+};
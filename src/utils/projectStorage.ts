@@ -0,0 +1,128 @@
+import { ProjectData } from '../types';
+
+export interface StoredProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+export interface StoredProject extends StoredProjectSummary {
+  data: ProjectData;
+}
+
+export interface ProjectSnapshot {
+  id: number;
+  projectId: string;
+  savedAt: number;
+  data: ProjectData;
+}
+
+const DB_NAME = 'sql-architect';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const SNAPSHOTS_STORE = 'snapshots';
+
+// Autosaves happen every few seconds, so only one snapshot is kept per interval
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_SNAPSHOTS_PER_PROJECT = 20;
+
+const ACTIVE_PROJECT_KEY = 'sql-architect:active-project';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id', autoIncrement: true });
+          snapshots.createIndex('projectId', 'projectId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const getActiveProjectId = (): string | null => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+export const setActiveProjectId = (id: string) => localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+
+export const listProjects = async (): Promise<StoredProjectSummary[]> => {
+  const db = await openDatabase();
+  const projects = await promisify<StoredProject[]>(db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll());
+  return projects
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<StoredProject | null> => {
+  const db = await openDatabase();
+  const project = await promisify<StoredProject | undefined>(db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(id));
+  return project ?? null;
+};
+
+// Writes the project and, if the latest snapshot is old enough, a new snapshot in one transaction
+export const saveProject = async (id: string, data: ProjectData): Promise<StoredProject> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, SNAPSHOTS_STORE], 'readwrite');
+  const snapshots = transaction.objectStore(SNAPSHOTS_STORE);
+  const record: StoredProject = { id, name: data.name, updatedAt: Date.now(), data };
+
+  transaction.objectStore(PROJECTS_STORE).put(record);
+
+  const existing = await promisify<ProjectSnapshot[]>(snapshots.index('projectId').getAll(id));
+  const latest = existing[existing.length - 1];
+  if (!latest || record.updatedAt - latest.savedAt >= SNAPSHOT_INTERVAL_MS) {
+    snapshots.add({ projectId: id, savedAt: record.updatedAt, data });
+    existing
+      .slice(0, Math.max(0, existing.length + 1 - MAX_SNAPSHOTS_PER_PROJECT))
+      .forEach(snapshot => snapshots.delete(snapshot.id));
+  }
+
+  await transactionDone(transaction);
+  return record;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, SNAPSHOTS_STORE], 'readwrite');
+  const snapshots = transaction.objectStore(SNAPSHOTS_STORE);
+
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  const keys = await promisify(snapshots.index('projectId').getAllKeys(id));
+  keys.forEach(key => snapshots.delete(key));
+
+  await transactionDone(transaction);
+};
+
+export const listSnapshots = async (projectId: string): Promise<ProjectSnapshot[]> => {
+  const db = await openDatabase();
+  const snapshots = await promisify<ProjectSnapshot[]>(
+    db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE).index('projectId').getAll(projectId)
+  );
+  return snapshots.sort((a, b) => b.savedAt - a.savedAt);
+};
@@ -0,0 +1,141 @@
+import { ProjectData, SQLDialect, QueryResultSet } from '../types';
+import { SQLGenerator } from './sqlGenerator';
+
+export interface QueryEngine {
+  name: string;
+  bootstrapErrors: string[];
+  execute: (sql: string) => Promise<QueryResultSet[]>;
+  close: () => Promise<void>;
+}
+
+// Names for the PostgreSQL type OIDs that show up in query results
+const PG_TYPE_NAMES: Record<number, string> = {
+  16: 'boolean',
+  17: 'bytea',
+  18: 'char',
+  20: 'bigint',
+  21: 'smallint',
+  23: 'integer',
+  25: 'text',
+  114: 'json',
+  142: 'xml',
+  650: 'cidr',
+  700: 'real',
+  701: 'double precision',
+  829: 'macaddr',
+  869: 'inet',
+  1042: 'char',
+  1043: 'varchar',
+  1082: 'date',
+  1083: 'time',
+  1114: 'timestamp',
+  1184: 'timestamptz',
+  1186: 'interval',
+  1700: 'numeric',
+  2950: 'uuid',
+  3802: 'jsonb'
+};
+
+// PostgreSQL runs on PGlite, every other dialect is emulated on SQLite
+export const getEngineDialect = (dialect: SQLDialect): 'postgresql' | 'sqlite' =>
+  dialect === 'postgresql' ? 'postgresql' : 'sqlite';
+
+export const generateBootstrapStatements = (project: ProjectData): string[] => {
+  const generator = new SQLGenerator(getEngineDialect(project.dialect), project.constraintNaming, project.customTypes);
+  const tableStatements = generator.generateFullStatements(project.tables, project.relationships);
+  const indexStatements = project.indexes.flatMap(index => {
+    const table = project.tables.find(t => t.id === index.tableId);
+    return table && ['INDEX', 'UNIQUE'].includes(index.type) ? [generator.generateCreateIndexSQL(index, table.name)] : [];
+  });
+
+  return [...tableStatements, ...indexStatements];
+};
+
+// Statements run one at a time and failed ones are retried while others keep succeeding, so a
+// statement that only failed because of an earlier failure still gets another chance
+const runBootstrap = async (statements: string[], run: (sql: string) => unknown): Promise<string[]> => {
+  let pending = statements;
+  let failures: { statement: string; message: string }[] = [];
+
+  while (pending.length > 0) {
+    failures = [];
+    for (const statement of pending) {
+      try {
+        await run(statement);
+      } catch (error) {
+        failures.push({ statement, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    if (failures.length === pending.length) break;
+    pending = failures.map(failure => failure.statement);
+  }
+
+  return failures.map(({ statement, message }) => `${statement.split('\n')[0]} — ${message}`);
+};
+
+const inferSQLiteType = (rows: unknown[][], columnIndex: number): string => {
+  const sample = rows.find(row => row[columnIndex] !== null)?.[columnIndex];
+  if (sample === undefined) return 'null';
+  if (typeof sample === 'number') return Number.isInteger(sample) ? 'integer' : 'real';
+  if (sample instanceof Uint8Array) return 'blob';
+  return 'text';
+};
+
+const createSQLiteEngine = async (statements: string[], emulatedDialect: SQLDialect): Promise<QueryEngine> => {
+  const [{ default: initSqlJs }, { default: wasmUrl }] = await Promise.all([
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm.wasm?url'),
+  ]);
+  const SQL = await initSqlJs({ locateFile: () => wasmUrl });
+  const db = new SQL.Database();
+  db.run('PRAGMA foreign_keys = ON;');
+
+  const bootstrapErrors = await runBootstrap(statements, sql => db.run(sql));
+
+  return {
+    name: emulatedDialect === 'sqlite' ? 'SQLite (sql.js)' : `SQLite (sql.js) emulating ${emulatedDialect.toUpperCase()}`,
+    bootstrapErrors,
+    execute: async (sql: string) => {
+      const results = db.exec(sql);
+      if (results.length === 0) {
+        return [{ columns: [], rows: [], rowsAffected: db.getRowsModified() }];
+      }
+      return results.map(result => ({
+        columns: result.columns.map((name, i) => ({ name, type: inferSQLiteType(result.values, i) })),
+        rows: result.values,
+      }));
+    },
+    close: async () => db.close(),
+  };
+};
+
+const createPGliteEngine = async (statements: string[]): Promise<QueryEngine> => {
+  const { PGlite } = await import('@electric-sql/pglite');
+  const db = new PGlite();
+
+  const bootstrapErrors = await runBootstrap(statements, sql => db.exec(sql));
+
+  return {
+    name: 'PostgreSQL (PGlite)',
+    bootstrapErrors,
+    execute: async (sql: string) => {
+      const results = await db.exec(sql, { rowMode: 'array' });
+      return results.map(result => ({
+        columns: result.fields.map(field => ({
+          name: field.name,
+          type: PG_TYPE_NAMES[field.dataTypeID] || `oid ${field.dataTypeID}`,
+        })),
+        rows: result.rows as unknown[][],
+        rowsAffected: result.fields.length === 0 ? result.affectedRows : undefined,
+      }));
+    },
+    close: () => db.close(),
+  };
+};
+
+export const createQueryEngine = async (project: ProjectData): Promise<QueryEngine> => {
+  const statements = generateBootstrapStatements(project);
+  return getEngineDialect(project.dialect) === 'postgresql'
+    ? createPGliteEngine(statements)
+    : createSQLiteEngine(statements, project.dialect);
+};
@@ -0,0 +1,51 @@
+import { RelationshipData, ColumnPair, TableData, Column, IndexData } from '../types';
+
+export interface ResolvedColumnPair {
+  source: Column;
+  target: Column;
+}
+
+// The column pairs of a relationship in key order; single-column relationships only set sourceColumn/targetColumn
+export const getColumnPairs = (relationship: RelationshipData): ColumnPair[] =>
+  relationship.columnPairs && relationship.columnPairs.length > 0
+    ? relationship.columnPairs
+    : [{ sourceColumn: relationship.sourceColumn, targetColumn: relationship.targetColumn }];
+
+// The relationship fields for a list of pairs, keeping the first pair on the canvas handles
+export const columnPairFields = (pairs: ColumnPair[]): Pick<RelationshipData, 'sourceColumn' | 'targetColumn' | 'columnPairs'> => ({
+  sourceColumn: pairs[0].sourceColumn,
+  targetColumn: pairs[0].targetColumn,
+  columnPairs: pairs.length > 1 ? pairs : undefined,
+});
+
+// Every pair resolved to its columns, or null when a column no longer exists
+export const resolveColumnPairs = (
+  relationship: RelationshipData,
+  sourceTable: TableData | undefined,
+  targetTable: TableData | undefined
+): ResolvedColumnPair[] | null => {
+  if (!sourceTable || !targetTable) return null;
+  const resolved: ResolvedColumnPair[] = [];
+  for (const pair of getColumnPairs(relationship)) {
+    const source = sourceTable.columns.find(c => c.id === pair.sourceColumn);
+    const target = targetTable.columns.find(c => c.id === pair.targetColumn);
+    if (!source || !target) return null;
+    resolved.push({ source, target });
+  }
+  return resolved;
+};
+
+const sameColumnSet = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(id => b.includes(id));
+
+// Whether the columns form the primary key, a UNIQUE constraint or a unique index of the table, which a foreign key needs to reference them
+export const isUniqueKey = (table: TableData, columnIds: string[], indexes: IndexData[]) => {
+  const primaryKey = table.columns.filter(c => c.isPrimaryKey).map(c => c.id);
+  if (sameColumnSet(columnIds, primaryKey)) return true;
+  if (columnIds.length === 1 && table.columns.find(c => c.id === columnIds[0])?.isUnique) return true;
+  const names = columnIds.map(id => table.columns.find(c => c.id === id)?.name ?? '');
+  if ((table.constraints ?? []).some(c => c.kind === 'UNIQUE' && sameColumnSet(c.columns ?? [], names))) return true;
+  return indexes.some(index =>
+    index.tableId === table.id && (index.type === 'UNIQUE' || index.type === 'PRIMARY') && sameColumnSet(index.columns, names)
+  );
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { diffProjects, generateMigration } from './schemaDiff';
+import { column, primaryKey, project, relationship, table } from '../test/fixtures';
+
+const users = (columns = [primaryKey(), column('email', { dataType: 'VARCHAR', length: '255' })]) => table('users', columns);
+
+describe('diffProjects', () => {
+  it('finds no changes between identical projects', () => {
+    const schema = project({ tables: [users()] });
+    expect(diffProjects(schema, schema)).toEqual([]);
+  });
+
+  it('matches tables and columns by id, so new names are renames', () => {
+    const from = project({ tables: [users()] });
+    const to = project({
+      tables: [{ ...users([primaryKey(), column('email', { name: 'mail', dataType: 'VARCHAR', length: '255' })]), name: 'accounts' }],
+    });
+
+    expect(diffProjects(from, to).map(change => change.type)).toEqual(['RENAME_TABLE', 'RENAME_COLUMN']);
+  });
+
+  it('drops foreign keys first and adds them last', () => {
+    const posts = table('posts', [primaryKey(), column('user_id')]);
+    const from = project({ tables: [users(), posts] });
+    const to = project({
+      tables: [users(), { ...posts, columns: [...posts.columns, column('title', { dataType: 'TEXT' })] }],
+      relationships: [relationship('posts', 'user_id', 'users', 'id')],
+    });
+
+    expect(diffProjects(from, to).map(change => change.type)).toEqual(['ADD_COLUMN', 'ADD_FOREIGN_KEY']);
+    expect(diffProjects(to, from).map(change => change.type)).toEqual(['DROP_FOREIGN_KEY', 'DROP_COLUMN']);
+  });
+
+  it('names a dropped unique constraint with the naming template of the source project', () => {
+    const from = project({
+      tables: [users([primaryKey(), column('email', { isUnique: true })])],
+      constraintNaming: { unique: 'uq_{table}_{columns}', foreignKey: 'fk_{table}_{columns}', check: 'chk_{table}_{n}', exclude: 'ex_{table}_{columns}' },
+    });
+    const to = project({ tables: [users([primaryKey(), column('email')])] });
+
+    expect(diffProjects(from, to)).toEqual([expect.objectContaining({ type: 'DROP_UNIQUE', constraintName: 'uq_users_email' })]);
+    expect(diffProjects(to, from)).toEqual([expect.objectContaining({ type: 'ADD_UNIQUE', constraintName: 'uq_users_email' })]);
+  });
+});
+
+describe('generateMigration', () => {
+  it('writes the down script as the diff in the opposite direction', () => {
+    const from = project({ tables: [users()] });
+    const to = project({ tables: [users([...users().columns, column('age')])] });
+
+    const migration = generateMigration(from, to, 'postgresql');
+    expect(migration.up).toContain('ALTER TABLE "users" ADD COLUMN "age" INT;');
+    expect(migration.down).toContain('ALTER TABLE "users" DROP COLUMN "age";');
+  });
+
+  it('adds a NOT NULL column without a default as nullable and constrains it after a backfill', () => {
+    const from = project({ tables: [users()] });
+    const to = project({ tables: [users([...users().columns, column('age', { isNotNull: true })])] });
+
+    expect(generateMigration(from, to, 'postgresql').up).toContain([
+      'ALTER TABLE "users" ADD COLUMN "age" INT;',
+      '-- "age" is NOT NULL without a default; backfill the existing rows first, e.g.',
+      '-- UPDATE "users" SET "age" = ... WHERE "age" IS NULL;',
+      'ALTER TABLE "users" ALTER COLUMN "age" SET NOT NULL;',
+    ].join('\n'));
+    expect(generateMigration(from, to, 'mysql').up).toContain('ALTER TABLE `users` MODIFY COLUMN `age` INT NOT NULL;');
+    expect(generateMigration(from, to, 'sqlite').up).toContain(
+      '-- SQLite cannot add the NOT NULL column "age" without a default to an existing table; rebuild "users" instead'
+    );
+  });
+
+  it('adds a NOT NULL column with a default in one statement', () => {
+    const from = project({ tables: [users()] });
+    const to = project({ tables: [users([...users().columns, column('age', { isNotNull: true, defaultValue: '0' })])] });
+
+    expect(generateMigration(from, to, 'sqlite').up).toContain('ALTER TABLE "users" ADD COLUMN "age" INT NOT NULL DEFAULT 0;');
+  });
+
+  it('drops a primary key by the name it was created with', () => {
+    const from = project({ tables: [{ ...users(), primaryKeyName: 'users_pk' }] });
+    const to = project({ tables: [users([column('id', { isNotNull: true }), users().columns[1]])] });
+
+    expect(generateMigration(from, to, 'postgresql').up).toContain('ALTER TABLE "users" DROP CONSTRAINT "users_pk";');
+  });
+
+  it('asks for a table rebuild to drop a SQLite unique constraint, which CREATE TABLE declares inline', () => {
+    const from = project({ dialect: 'sqlite', tables: [users([primaryKey(), column('email', { isUnique: true })])] });
+    const to = project({ dialect: 'sqlite', tables: [users([primaryKey(), column('email')])] });
+
+    const { up, down } = generateMigration(from, to, 'sqlite');
+    expect(up).toContain('-- SQLite does not support DROP UNIQUE on an existing table; rebuild "users" instead');
+    expect(up).not.toContain('DROP INDEX');
+    expect(down).toContain('CREATE UNIQUE INDEX "uk_email" ON "users" ("email");');
+  });
+});
@@ -0,0 +1,268 @@
+import { ProjectData, TableData, Column, IndexData, ForeignKeyDefinition, SchemaChange, SQLDialect, TableConstraint } from '../types';
+import { SQLGenerator, getForeignKeyDefinition } from './sqlGenerator';
+import { orderTablesByDependencies } from './dependencyOrder';
+import { formatConstraintName, getConstraintNaming, isCompleteConstraint } from './tableConstraints';
+import { isCustomTypeChanged } from './customTypes';
+
+export interface Migration {
+  up: string;
+  down: string;
+  changes: SchemaChange[];
+}
+
+const COLUMN_PROPERTIES: (keyof Column)[] = [
+  'dataType', 'length', 'isUnsigned', 'isNotNull', 'isAutoIncrement', 'defaultValue', 'comment', 'collation', 'charset',
+  'generatedExpression', 'generatedStorage', 'customTypeId'
+];
+
+const normalize = (value: unknown) => (value === '' || value === null || value === false ? undefined : value);
+
+// A column of a catalog type carries the type's name, which changes with the type itself
+const isColumnModified = (from: Column, to: Column) =>
+  COLUMN_PROPERTIES.some(property => normalize(from[property]) !== normalize(to[property]) &&
+    !(property === 'dataType' && from.customTypeId && from.customTypeId === to.customTypeId));
+
+const isIndexModified = (from: IndexData, to: IndexData) =>
+  from.name !== to.name ||
+  from.type !== to.type ||
+  from.method !== to.method ||
+  from.columns.join(',') !== to.columns.join(',');
+
+const isSameForeignKey = (from: ForeignKeyDefinition, to: ForeignKeyDefinition) =>
+  JSON.stringify(from) === JSON.stringify(to);
+
+const isConstraintModified = (from: TableConstraint, to: TableConstraint) =>
+  JSON.stringify({ ...from, id: undefined }) !== JSON.stringify({ ...to, id: undefined });
+
+const uniqueConstraintOf = (column: Column) => (column.isUnique && !column.isPrimaryKey ? column.name : null);
+
+const primaryKeyOf = (table: TableData) => table.columns.filter(c => c.isPrimaryKey);
+
+const foreignKeysById = (project: ProjectData) => {
+  const foreignKeys = new Map<string, ForeignKeyDefinition>();
+  project.relationships.forEach(relationship => {
+    const definition = getForeignKeyDefinition(relationship, project.tables, getConstraintNaming(project.constraintNaming));
+    if (definition) {
+      foreignKeys.set(relationship.id, definition);
+    }
+  });
+  return foreignKeys;
+};
+
+// Returns the changes that turn `from` into `to`, ordered so each statement runs against the
+// result of the previous ones. Tables, columns and catalog types are matched by id, so new names
+// are renames. Dialects without catalog types spell a type out in each column, so for them a
+// changed type also modifies the columns that use it.
+export const diffProjects = (from: ProjectData, to: ProjectData, dialect?: SQLDialect): SchemaChange[] => {
+  const fromTables = new Map(from.tables.map(t => [t.id, t]));
+  const toTables = new Map(to.tables.map(t => [t.id, t]));
+  const fromRelationships = new Map(from.relationships.map(r => [r.id, r]));
+  const toRelationships = new Map(to.relationships.map(r => [r.id, r]));
+
+  const dropForeignKeys: SchemaChange[] = [];
+  const dropIndexes: SchemaChange[] = [];
+  const dropConstraints: SchemaChange[] = [];
+  const renames: SchemaChange[] = [];
+  const createTables: SchemaChange[] = [];
+  const columnChanges: SchemaChange[] = [];
+  const dropColumns: SchemaChange[] = [];
+  const dropTables: SchemaChange[] = [];
+  const addConstraints: SchemaChange[] = [];
+  const addIndexes: SchemaChange[] = [];
+  const addForeignKeys: SchemaChange[] = [];
+  const createTypes: SchemaChange[] = [];
+  const alterTypes: SchemaChange[] = [];
+  const dropTypes: SchemaChange[] = [];
+
+  // Catalog types
+  const fromTypes = new Map((from.customTypes ?? []).map(t => [t.id, t]));
+  const toTypes = new Map((to.customTypes ?? []).map(t => [t.id, t]));
+  (to.customTypes ?? []).forEach(customType => {
+    const previous = fromTypes.get(customType.id);
+    if (!previous) {
+      createTypes.push({ type: 'CREATE_TYPE', customType });
+    } else if (JSON.stringify(previous) !== JSON.stringify(customType)) {
+      alterTypes.push({ type: 'ALTER_TYPE', from: previous, to: customType });
+    }
+  });
+  (from.customTypes ?? []).forEach(customType => {
+    if (!toTypes.has(customType.id)) {
+      dropTypes.push({ type: 'DROP_TYPE', customType });
+    }
+  });
+  // A unique constraint is dropped by the name it was created with, which the naming template of `from` gives
+  const fromNaming = getConstraintNaming(from.constraintNaming);
+  const toNaming = getConstraintNaming(to.constraintNaming);
+  const addUnique = (table: TableData, column: Column): SchemaChange =>
+    ({ type: 'ADD_UNIQUE', table, column, constraintName: formatConstraintName(toNaming.unique, table.name, [column.name]) });
+  const dropUnique = (table: TableData, column: Column): SchemaChange =>
+    ({ type: 'DROP_UNIQUE', table, column, constraintName: formatConstraintName(fromNaming.unique, table.name, [column.name]) });
+
+  const isTypeChanged = (previous: Column, column: Column) => {
+    if (dialect === 'postgresql' || !column.customTypeId || previous.customTypeId !== column.customTypeId) return false;
+    const before = fromTypes.get(column.customTypeId);
+    const after = toTypes.get(column.customTypeId);
+    return !!before && !!after && isCustomTypeChanged(before, after);
+  };
+
+  // Foreign keys
+  const fromForeignKeys = foreignKeysById(from);
+  const toForeignKeys = foreignKeysById(to);
+
+  // Tables on a foreign key cycle can only be dropped once the cycle is broken
+  const cyclicForeignKeys = new Set(
+    orderTablesByDependencies(from.tables, from.relationships).deferredRelationships
+      .filter(r => r.sourceTable !== r.targetTable)
+      .map(r => r.id)
+  );
+
+  fromForeignKeys.forEach((foreignKey, id) => {
+    const next = toForeignKeys.get(id);
+    const sourceTableKept = toTables.has(fromRelationships.get(id)!.sourceTable);
+    if ((sourceTableKept || cyclicForeignKeys.has(id)) && (!next || !isSameForeignKey(foreignKey, next))) {
+      dropForeignKeys.push({ type: 'DROP_FOREIGN_KEY', foreignKey });
+    }
+  });
+
+  toForeignKeys.forEach((foreignKey, id) => {
+    const previous = fromForeignKeys.get(id);
+    const sourceTableExisted = fromTables.has(toRelationships.get(id)!.sourceTable);
+    if (!previous || !sourceTableExisted || !isSameForeignKey(previous, foreignKey)) {
+      addForeignKeys.push({ type: 'ADD_FOREIGN_KEY', foreignKey });
+    }
+  });
+
+  // Indexes
+  const fromIndexes = new Map(from.indexes.map(i => [i.id, i]));
+  const toIndexes = new Map(to.indexes.map(i => [i.id, i]));
+
+  from.indexes.forEach(index => {
+    const table = fromTables.get(index.tableId);
+    const next = toIndexes.get(index.id);
+    if (table && toTables.has(index.tableId) && (!next || isIndexModified(index, next))) {
+      dropIndexes.push({ type: 'DROP_INDEX', table, index });
+    }
+  });
+
+  to.indexes.forEach(index => {
+    const table = toTables.get(index.tableId);
+    const previous = fromIndexes.get(index.id);
+    if (table && (!previous || !fromTables.has(index.tableId) || isIndexModified(previous, index))) {
+      addIndexes.push({ type: 'ADD_INDEX', table, index });
+    }
+  });
+
+  // Tables and columns
+  orderTablesByDependencies(to.tables, to.relationships).tables.forEach(table => {
+    const previous = fromTables.get(table.id);
+    if (!previous) {
+      createTables.push({ type: 'CREATE_TABLE', table });
+      return;
+    }
+
+    if (previous.name !== table.name) {
+      renames.push({ type: 'RENAME_TABLE', from: previous, to: table });
+    }
+
+    const previousColumns = new Map(previous.columns.map(c => [c.id, c]));
+    const nextColumns = new Map(table.columns.map(c => [c.id, c]));
+
+    table.columns.forEach(column => {
+      const previousColumn = previousColumns.get(column.id);
+      if (!previousColumn) {
+        columnChanges.push({ type: 'ADD_COLUMN', table, column });
+        if (uniqueConstraintOf(column)) {
+          addConstraints.push(addUnique(table, column));
+        }
+        return;
+      }
+
+      if (previousColumn.name !== column.name) {
+        renames.push({ type: 'RENAME_COLUMN', table, from: previousColumn, to: column });
+      }
+      if (isColumnModified(previousColumn, column) || isTypeChanged(previousColumn, column)) {
+        columnChanges.push({ type: 'MODIFY_COLUMN', table, from: previousColumn, to: column });
+      }
+      if (uniqueConstraintOf(previousColumn) !== uniqueConstraintOf(column)) {
+        if (uniqueConstraintOf(previousColumn)) {
+          dropConstraints.push(dropUnique(previous, previousColumn));
+        }
+        if (uniqueConstraintOf(column)) {
+          addConstraints.push(addUnique(table, column));
+        }
+      }
+    });
+
+    previous.columns.forEach(column => {
+      if (!nextColumns.has(column.id)) {
+        dropColumns.push({ type: 'DROP_COLUMN', table, column });
+      }
+    });
+
+    // Constraints are matched by id; a changed one is dropped and added again
+    const previousConstraints = (previous.constraints ?? []).filter(isCompleteConstraint);
+    const nextConstraints = (table.constraints ?? []).filter(isCompleteConstraint);
+    previousConstraints.forEach(constraint => {
+      const next = nextConstraints.find(c => c.id === constraint.id);
+      if (!next || isConstraintModified(constraint, next)) {
+        dropConstraints.push({ type: 'DROP_CONSTRAINT', table: previous, constraint });
+      }
+    });
+    nextConstraints.forEach(constraint => {
+      const prior = previousConstraints.find(c => c.id === constraint.id);
+      if (!prior || isConstraintModified(prior, constraint)) {
+        addConstraints.push({ type: 'ADD_CONSTRAINT', table, constraint });
+      }
+    });
+
+    const previousKey = primaryKeyOf(previous).map(c => c.id).join(',');
+    const nextKey = primaryKeyOf(table).map(c => c.id).join(',');
+    if (previousKey !== nextKey) {
+      if (previousKey) {
+        dropConstraints.push({ type: 'DROP_PRIMARY_KEY', table: previous });
+      }
+      if (nextKey) {
+        addConstraints.push({ type: 'ADD_PRIMARY_KEY', table, columns: primaryKeyOf(table).map(c => c.name) });
+      }
+    }
+  });
+
+  // Referencing tables are dropped before the tables they reference
+  orderTablesByDependencies(from.tables, from.relationships).tables.reverse().forEach(table => {
+    if (!toTables.has(table.id)) {
+      dropTables.push({ type: 'DROP_TABLE', table });
+    }
+  });
+
+  return [
+    ...dropForeignKeys,
+    ...dropIndexes,
+    ...dropConstraints,
+    ...renames,
+    ...createTypes,
+    ...alterTypes,
+    ...createTables,
+    ...columnChanges,
+    ...dropColumns,
+    ...dropTables,
+    ...dropTypes,
+    ...addConstraints,
+    ...addIndexes,
+    ...addForeignKeys,
+  ];
+};
+
+// The down script is simply the diff in the opposite direction
+export const generateMigration = (from: ProjectData, to: ProjectData, dialect: SQLDialect): Migration => {
+  // Each script names constraints the way the schema it produces does
+  const upGenerator = new SQLGenerator(dialect, to.constraintNaming, to.customTypes);
+  const downGenerator = new SQLGenerator(dialect, from.constraintNaming, from.customTypes);
+  const changes = diffProjects(from, to, dialect);
+  const generatedOn = `-- Generated on ${new Date().toISOString()}\n\n`;
+
+  return {
+    up: `-- Migration: ${from.name} -> ${to.name}\n${generatedOn}${upGenerator.generateMigrationSQL(changes)}`,
+    down: `-- Rollback: ${to.name} -> ${from.name}\n${generatedOn}${downGenerator.generateMigrationSQL(diffProjects(to, from, dialect))}`,
+    changes,
+  };
+};
@@ -0,0 +1,508 @@
+import { ProjectData, TableData, Column, ValidationIssue, ValidationSeverity, SQLDialect, DATA_TYPES } from '../types';
+import { validateSeedRows } from './seedData';
+import { resolveColumnPairs, isUniqueKey } from './relationshipColumns';
+import { getConstraintNaming, getTableConstraints, isCompleteConstraint } from './tableConstraints';
+import { getForeignKeyDefinition } from './sqlGenerator';
+import { isGeneratedColumn, expressionColumnReferences } from './generatedColumns';
+import { findCustomType, customTypeStorage, withDomainBaseType } from './customTypes';
+import { isDialectCollation } from './collations';
+import { inheritTableCollation } from './sqlDialects';
+
+type RuleFinding = Omit<ValidationIssue, 'ruleId' | 'severity'>;
+
+export interface ValidationRule {
+  id: string;
+  severity: ValidationSeverity;
+  description: string;
+  check: (project: ProjectData) => RuleFinding[];
+}
+
+const INTEGER_TYPES = [
+  'TINYINT', 'SMALLINT', 'MEDIUMINT', 'INT', 'INTEGER', 'BIGINT',
+  'SMALLSERIAL', 'SERIAL', 'BIGSERIAL', 'NUMBER'
+];
+
+const LENGTH_REQUIRED_TYPES = ['VARCHAR', 'VARBINARY', 'VARCHAR2', 'NVARCHAR2'];
+
+const MAX_IDENTIFIER_LENGTH: Record<SQLDialect, number> = {
+  mysql: 64,
+  mariadb: 64,
+  postgresql: 63,
+  oracle: 30,
+  sqlite: Infinity,
+};
+
+// A serial key is referenced by a plain integer column of the same size
+const TYPE_EQUIVALENTS: Record<string, string> = {
+  INT: 'INTEGER',
+  SERIAL: 'INTEGER',
+  SMALLSERIAL: 'SMALLINT',
+  BIGSERIAL: 'BIGINT',
+};
+
+const normalizeType = (type: string) => TYPE_EQUIVALENTS[type.toUpperCase()] ?? type.toUpperCase();
+
+const forEachColumn = (project: ProjectData, visit: (table: TableData, column: Column) => RuleFinding[]) =>
+  project.tables.flatMap(table => table.columns.flatMap(column => visit(table, column)));
+
+const findDuplicates = (names: string[]) => {
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const key = name.toLowerCase();
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+};
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'table-no-columns',
+    severity: 'error',
+    description: 'Tables must have at least one column',
+    check: project => project.tables
+      .filter(table => table.columns.length === 0)
+      .map(table => ({
+        tableId: table.id,
+        message: `Table ${table.name} has no columns`,
+        suggestion: 'Add a column or delete the table',
+      })),
+  },
+  {
+    id: 'empty-name',
+    severity: 'error',
+    description: 'Tables and columns must be named',
+    check: project => [
+      ...project.tables
+        .filter(table => !table.name.trim())
+        .map(table => ({ tableId: table.id, message: 'A table has no name', suggestion: 'Give the table a name' })),
+      ...forEachColumn(project, (table, column) => column.name.trim() ? [] : [{
+        tableId: table.id,
+        columnId: column.id,
+        message: `A column in ${table.name} has no name`,
+        suggestion: 'Give the column a name',
+      }]),
+    ],
+  },
+  {
+    id: 'duplicate-table-name',
+    severity: 'error',
+    description: 'Table names must be unique',
+    check: project => {
+      const duplicates = findDuplicates(project.tables.map(t => t.name));
+      return project.tables
+        .filter(table => duplicates.some(name => name.toLowerCase() === table.name.toLowerCase()))
+        .map(table => ({
+          tableId: table.id,
+          message: `Table name ${table.name} is used more than once`,
+          suggestion: 'Rename one of the tables',
+        }));
+    },
+  },
+  {
+    id: 'duplicate-column-name',
+    severity: 'error',
+    description: 'Column names must be unique within a table',
+    check: project => project.tables.flatMap(table =>
+      [...new Set(findDuplicates(table.columns.map(c => c.name)))].map(name => ({
+        tableId: table.id,
+        columnId: table.columns.find(c => c.name.toLowerCase() === name.toLowerCase())?.id,
+        message: `Column ${table.name}.${name} is defined more than once`,
+        suggestion: 'Rename or remove the duplicate column',
+      }))
+    ),
+  },
+  {
+    id: 'missing-primary-key',
+    severity: 'warning',
+    description: 'Tables should have a primary key',
+    check: project => project.tables
+      .filter(table => table.columns.length > 0 && !table.columns.some(c => c.isPrimaryKey))
+      .map(table => ({
+        tableId: table.id,
+        message: `Table ${table.name} has no primary key`,
+        suggestion: 'Mark an identifying column as primary key or add an id column',
+      })),
+  },
+  {
+    id: 'unknown-data-type',
+    severity: 'warning',
+    description: 'Column types should be supported by the selected dialect',
+    check: project => {
+      const knownTypes = (DATA_TYPES[project.dialect] as string[]).map(type => type.toUpperCase());
+      return forEachColumn(project, (table, column) => column.customTypeId || knownTypes.includes(column.dataType.toUpperCase()) ? [] : [{
+        tableId: table.id,
+        columnId: column.id,
+        message: `${table.name}.${column.name} uses ${column.dataType}, which is not a ${project.dialect} type`,
+        suggestion: `Pick one of the ${project.dialect} types or convert the project to another dialect`,
+      }]);
+    },
+  },
+  {
+    id: 'auto-increment-type',
+    severity: 'error',
+    description: 'Auto increment is only allowed on integer columns',
+    check: project => forEachColumn(project, (table, column) =>
+      column.isAutoIncrement && !INTEGER_TYPES.includes(withDomainBaseType(column, project.customTypes).dataType.toUpperCase()) ? [{
+        tableId: table.id,
+        columnId: column.id,
+        message: `${table.name}.${column.name} is auto increment but has type ${column.dataType}`,
+        suggestion: 'Change the type to an integer type or turn off auto increment',
+      }] : []
+    ),
+  },
+  {
+    id: 'multiple-auto-increment',
+    severity: 'error',
+    description: 'A table can have only one auto increment column',
+    check: project => project.tables
+      .filter(table => table.columns.filter(c => c.isAutoIncrement).length > 1)
+      .map(table => ({
+        tableId: table.id,
+        message: `Table ${table.name} has more than one auto increment column`,
+        suggestion: 'Keep auto increment on the primary key column only',
+      })),
+  },
+  {
+    id: 'missing-length',
+    severity: 'error',
+    description: 'Variable length types need a length',
+    check: project => project.dialect === 'postgresql' || project.dialect === 'sqlite' ? [] : forEachColumn(project, (table, column) =>
+      !column.customTypeId && LENGTH_REQUIRED_TYPES.includes(column.dataType.toUpperCase()) && !column.length ? [{
+        tableId: table.id,
+        columnId: column.id,
+        message: `${table.name}.${column.name} is ${column.dataType} without a length`,
+        suggestion: 'Set a length such as 255',
+      }] : []
+    ),
+  },
+  {
+    id: 'enum-without-values',
+    severity: 'error',
+    description: 'ENUM and SET columns need a list of values',
+    check: project => forEachColumn(project, (table, column) =>
+      !column.customTypeId && ['ENUM', 'SET'].includes(column.dataType.toUpperCase()) && !column.length?.trim() ? [{
+        tableId: table.id,
+        columnId: column.id,
+        message: `${table.name}.${column.name} is ${column.dataType.toUpperCase()} without values`,
+        suggestion: 'Enter the allowed values separated by commas',
+      }] : []
+    ),
+  },
+  {
+    id: 'unknown-custom-type',
+    severity: 'error',
+    description: 'Columns must use a type that exists in the type catalog',
+    check: project => forEachColumn(project, (table, column) =>
+      column.customTypeId && !findCustomType(column, project.customTypes) ? [{
+        tableId: table.id,
+        columnId: column.id,
+        message: `${table.name}.${column.name} uses the type ${column.dataType}, which was removed from the type catalog`,
+        suggestion: 'Pick another type for the column',
+      }] : []
+    ),
+  },
+  {
+    id: 'invalid-custom-type',
+    severity: 'error',
+    description: 'Catalog types need a unique name and a complete definition',
+    check: project => {
+      const types = project.customTypes ?? [];
+      const duplicates = findDuplicates(types.map(type => type.name));
+      return types.flatMap(type => {
+        const problems: string[] = [];
+        if (!type.name.trim()) problems.push('has no name');
+        if (duplicates.some(name => name.toLowerCase() === type.name.toLowerCase())) problems.push('shares its name with another type');
+        if (type.kind === 'ENUM' && !type.values?.length) problems.push('has no values');
+        // Enum values are case sensitive
+        const repeated = type.values?.find((value, i) => type.values!.indexOf(value) !== i);
+        if (type.kind === 'ENUM' && repeated !== undefined) problems.push(`repeats the value ${repeated}`);
+        if (type.kind === 'DOMAIN' && !type.baseType?.trim()) problems.push('has no base type');
+        if (type.kind === 'COMPOSITE' && !type.fields?.some(field => field.name.trim())) problems.push('has no fields');
+        return problems.map(problem => ({
+          message: `Type ${type.name || '(unnamed)'} ${problem}`,
+          suggestion: 'Fix the type under Types in the navigation panel',
+        }));
+      });
+    },
+  },
+  {
+    id: 'composite-type-dialect',
+    severity: 'warning',
+    description: 'Composite types only exist in PostgreSQL',
+    check: project => project.dialect === 'postgresql' ? [] : forEachColumn(project, (table, column) => {
+      const type = findCustomType(column, project.customTypes);
+      return type?.kind === 'COMPOSITE' ? [{
+        tableId: table.id,
+        columnId: column.id,
+        message: `${table.name}.${column.name} uses the composite type ${type.name}, which ${project.dialect} stores as ${customTypeStorage(type, project.dialect).dataType}`,
+        suggestion: 'Keep the fields as separate columns or switch the project to PostgreSQL',
+      }] : [];
+    }),
+  },
+  {
+    id: 'foreign-collation',
+    severity: 'warning',
+    description: 'Collations must exist in the dialect',
+    check: project => forEachColumn(project, (table, column) => {
+      const { collation } = inheritTableCollation(column, table);
+      return collation && !isDialectCollation(collation, project.dialect) ? [{
+        tableId: table.id,
+        columnId: column.id,
+        message: `${table.name}.${column.name} uses the collation ${collation}, which ${project.dialect} does not have, so the generated SQL leaves it out`,
+        suggestion: 'Pick a collation of the dialect or clear it',
+      }] : [];
+    }),
+  },
+  {
+    id: 'identifier-too-long',
+    severity: 'error',
+    description: 'Identifiers must fit the dialect\'s length limit',
+    check: project => {
+      const limit = MAX_IDENTIFIER_LENGTH[project.dialect];
+      return [
+        ...project.tables.filter(table => table.name.length > limit).map(table => ({
+          tableId: table.id,
+          message: `Table name ${table.name} is longer than ${limit} characters`,
+          suggestion: 'Shorten the table name',
+        })),
+        ...forEachColumn(project, (table, column) => column.name.length > limit ? [{
+          tableId: table.id,
+          columnId: column.id,
+          message: `Column name ${table.name}.${column.name} is longer than ${limit} characters`,
+          suggestion: 'Shorten the column name',
+        }] : []),
+      ];
+    },
+  },
+  {
+    id: 'broken-foreign-key',
+    severity: 'error',
+    description: 'Relationships must point at existing tables and columns',
+    check: project => project.relationships.flatMap(relationship => {
+      const sourceTable = project.tables.find(t => t.id === relationship.sourceTable);
+      const targetTable = project.tables.find(t => t.id === relationship.targetTable);
+      if (resolveColumnPairs(relationship, sourceTable, targetTable)) return [];
+
+      return [{
+        tableId: sourceTable?.id ?? targetTable?.id,
+        relationshipId: relationship.id,
+        message: !sourceTable || !targetTable
+          ? 'A relationship points at a table that no longer exists'
+          : `Relationship ${sourceTable.name} → ${targetTable.name} points at a column that no longer exists`,
+        suggestion: 'Delete the relationship or reconnect it to existing columns',
+      }];
+    }),
+  },
+  {
+    id: 'foreign-key-type-mismatch',
+    severity: 'warning',
+    description: 'Foreign key columns should have the same type as the column they reference',
+    check: project => project.relationships.flatMap(relationship => {
+      const sourceTable = project.tables.find(t => t.id === relationship.sourceTable);
+      const targetTable = project.tables.find(t => t.id === relationship.targetTable);
+      const pairs = resolveColumnPairs(relationship, sourceTable, targetTable);
+      if (!sourceTable || !targetTable || !pairs) return [];
+
+      return pairs
+        .filter(({ source, target }) => normalizeType(source.dataType) !== normalizeType(target.dataType))
+        .map(({ source, target }) => ({
+          tableId: sourceTable.id,
+          columnId: source.id,
+          relationshipId: relationship.id,
+          message: `${sourceTable.name}.${source.name} (${source.dataType}) references ${targetTable.name}.${target.name} (${target.dataType})`,
+          suggestion: `Change ${source.name} to ${target.dataType}`,
+        }));
+    }),
+  },
+  {
+    id: 'foreign-key-target-not-unique',
+    severity: 'warning',
+    description: 'Foreign keys should reference a primary key or unique column set',
+    check: project => project.relationships.flatMap(relationship => {
+      const sourceTable = project.tables.find(t => t.id === relationship.sourceTable);
+      const targetTable = project.tables.find(t => t.id === relationship.targetTable);
+      const pairs = resolveColumnPairs(relationship, sourceTable, targetTable);
+      if (!targetTable || !pairs) return [];
+      const targets = pairs.map(pair => pair.target);
+      if (isUniqueKey(targetTable, targets.map(c => c.id), project.indexes)) return [];
+
+      if (targets.length === 1) {
+        return [{
+          tableId: targetTable.id,
+          columnId: targets[0].id,
+          relationshipId: relationship.id,
+          message: `${targetTable.name}.${targets[0].name} is referenced by a foreign key but is not unique`,
+          suggestion: `Mark ${targets[0].name} as unique or reference the primary key instead`,
+        }];
+      }
+      const names = targets.map(c => c.name).join(', ');
+      return [{
+        tableId: targetTable.id,
+        columnId: targets[0].id,
+        relationshipId: relationship.id,
+        message: `${targetTable.name} (${names}) is referenced by a composite foreign key but is not its primary key or a unique index`,
+        suggestion: `Add a unique index on (${names}) or reference the primary key instead`,
+      }];
+    }),
+  },
+  {
+    id: 'many-to-many-without-junction',
+    severity: 'warning',
+    description: 'Many-to-many relationships need a junction table',
+    check: project => project.relationships.filter(relationship => relationship.type === 'many-to-many').map(relationship => {
+      const sourceTable = project.tables.find(t => t.id === relationship.sourceTable);
+      const targetTable = project.tables.find(t => t.id === relationship.targetTable);
+      return {
+        tableId: sourceTable?.id,
+        relationshipId: relationship.id,
+        message: `Relationship ${sourceTable?.name ?? '?'} → ${targetTable?.name ?? '?'} is many-to-many without a junction table and is generated as a plain foreign key`,
+        suggestion: 'Delete it and link the tables again as Many-to-Many to create a junction table',
+      };
+    }),
+  },
+  {
+    id: 'index-missing-column',
+    severity: 'error',
+    description: 'Indexes must only use existing columns',
+    check: project => project.indexes.flatMap(index => {
+      const table = project.tables.find(t => t.id === index.tableId);
+      if (!table) return [];
+      const missing = index.columns.filter(name => !table.columns.some(c => c.name === name));
+      return missing.length === 0 ? [] : [{
+        tableId: table.id,
+        message: `Index ${index.name} on ${table.name} uses missing column${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`,
+        suggestion: 'Update the index columns or delete the index',
+      }];
+    }),
+  },
+  {
+    id: 'invalid-constraint',
+    severity: 'error',
+    description: 'Constraints must be complete and only use existing columns',
+    check: project => project.tables.flatMap(table => (table.constraints ?? []).flatMap(constraint => {
+      if (!isCompleteConstraint(constraint)) {
+        return [{
+          tableId: table.id,
+          message: `${constraint.kind} constraint ${constraint.name} on ${table.name} is incomplete and is left out of the SQL`,
+          suggestion: constraint.kind === 'CHECK' ? 'Enter the CHECK expression' : 'Choose the constraint columns',
+        }];
+      }
+      // Exclusion elements may be expressions; only plain names are checked
+      const names = constraint.kind === 'EXCLUDE'
+        ? constraint.exclusions!.map(e => e.column).filter(name => /^\w+$/.test(name))
+        : constraint.columns ?? [];
+      const missing = names.filter(name => !table.columns.some(c => c.name === name));
+      return missing.length === 0 ? [] : [{
+        tableId: table.id,
+        message: `Constraint ${constraint.name} on ${table.name} uses missing column${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`,
+        suggestion: 'Update the constraint columns or delete the constraint',
+      }];
+    })),
+  },
+  {
+    id: 'duplicate-constraint-name',
+    severity: 'error',
+    description: 'Constraint names must be unique within a table',
+    check: project => {
+      const naming = getConstraintNaming(project.constraintNaming);
+      return project.tables.flatMap(table => {
+        const foreignKeys = project.relationships
+          .filter(r => r.sourceTable === table.id)
+          .map(r => getForeignKeyDefinition(r, project.tables, naming)?.name ?? '');
+        const names = [...getTableConstraints(table, naming).map(c => c.name), ...foreignKeys].filter(Boolean);
+        return [...new Set(findDuplicates(names))].map(name => ({
+          tableId: table.id,
+          message: `Constraint name ${name} is used more than once on ${table.name}`,
+          suggestion: 'Rename the constraint or change the naming template in Settings',
+        }));
+      });
+    },
+  },
+  {
+    id: 'unsupported-constraint',
+    severity: 'warning',
+    description: 'Exclusion constraints only exist in PostgreSQL',
+    check: project => project.dialect === 'postgresql' ? [] : project.tables.flatMap(table =>
+      (table.constraints ?? []).filter(constraint => constraint.kind === 'EXCLUDE').map(constraint => ({
+        tableId: table.id,
+        message: `Exclusion constraint ${constraint.name} on ${table.name} is not supported by ${project.dialect} and is left out of the SQL`,
+        suggestion: 'Enforce the rule in a trigger or in the application',
+      }))
+    ),
+  },
+  {
+    id: 'generated-column-reference',
+    severity: 'error',
+    description: 'Generation expressions may only reference other columns of the table',
+    check: project => forEachColumn(project, (table, column) => {
+      if (!isGeneratedColumn(column)) return [];
+      return expressionColumnReferences(column.generatedExpression!).flatMap(name => {
+        const referenced = table.columns.find(c => c.name.toLowerCase() === name.toLowerCase());
+        const problem = !referenced ? `references ${name}, which is not a column of ${table.name}`
+          : referenced === column ? 'references itself'
+          : project.dialect === 'postgresql' && isGeneratedColumn(referenced) ? `references the generated column ${referenced.name}, which PostgreSQL does not allow`
+          : null;
+        return problem ? [{
+          tableId: table.id,
+          columnId: column.id,
+          message: `Generated column ${table.name}.${column.name} ${problem}`,
+          suggestion: 'Fix the generation expression in the table editor',
+        }] : [];
+      });
+    }),
+  },
+  {
+    id: 'generated-column-conflict',
+    severity: 'error',
+    description: 'Generated columns cannot have a default or auto increment',
+    check: project => forEachColumn(project, (table, column) =>
+      isGeneratedColumn(column) && (column.isAutoIncrement || column.defaultValue?.trim()) ? [{
+        tableId: table.id,
+        columnId: column.id,
+        message: `Generated column ${table.name}.${column.name} also has ${column.isAutoIncrement ? 'auto increment' : 'a default value'}, which is left out of the SQL`,
+        suggestion: column.isAutoIncrement ? 'Turn off auto increment' : 'Clear the default value',
+      }] : []
+    ),
+  },
+  {
+    id: 'generated-column-storage',
+    severity: 'warning',
+    description: 'The storage of generated columns should be supported by the selected dialect',
+    check: project => {
+      const unsupported: Partial<Record<SQLDialect, { storage: string; message: string }>> = {
+        postgresql: { storage: 'VIRTUAL', message: 'virtual generated columns need PostgreSQL 18' },
+        oracle: { storage: 'STORED', message: 'Oracle only has virtual columns, so it is created as VIRTUAL' },
+      };
+      const rule = unsupported[project.dialect];
+      return rule ? forEachColumn(project, (table, column) =>
+        isGeneratedColumn(column) && (column.generatedStorage ?? 'STORED') === rule.storage ? [{
+          tableId: table.id,
+          columnId: column.id,
+          message: `${table.name}.${column.name} is ${rule.storage}, but ${rule.message}`,
+          suggestion: `Make the column ${rule.storage === 'STORED' ? 'VIRTUAL' : 'STORED'}`,
+        }] : []
+      ) : [];
+    },
+  },
+  {
+    id: 'invalid-seed-data',
+    severity: 'error',
+    description: 'Seed rows must match the column types and constraints',
+    check: project => project.tables.flatMap(table =>
+      validateSeedRows(table.columns, table.seedRows ?? [], project.customTypes).map(issue => ({
+        tableId: table.id,
+        columnId: issue.columnId,
+        message: `Seed row ${issue.rowIndex + 1} of ${table.name}: ${issue.message}`,
+        suggestion: 'Fix the value in the Data tab of the table editor',
+      }))
+    ),
+  },
+];
+
+export const validateProject = (project: ProjectData): ValidationIssue[] => {
+  const disabledRules = new Set(project.disabledRules ?? []);
+  return VALIDATION_RULES
+    .filter(rule => !disabledRules.has(rule.id))
+    .flatMap(rule => rule.check(project).map(finding => ({ ruleId: rule.id, severity: rule.severity, ...finding })));
+};
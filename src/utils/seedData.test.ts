@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { enumValues, getSeedColumns, validateSeedRows, validateSeedValue } from './seedData';
+import { column, primaryKey } from '../test/fixtures';
+
+describe('validateSeedValue', () => {
+  it('checks values against the kind of the column type', () => {
+    expect(validateSeedValue('12', column('age'))).toBeNull();
+    expect(validateSeedValue('twelve', column('age'))).toBe('age expects a whole number');
+    expect(validateSeedValue('-1', column('age', { isUnsigned: true }))).toBe('age is unsigned');
+    expect(validateSeedValue('2024-02-30', column('born', { dataType: 'DATE' }))).toBeNull();
+    expect(validateSeedValue('{"a": 1', column('data', { dataType: 'JSON' }))).toBe('data expects valid JSON');
+    expect(validateSeedValue('abcdef', column('code', { dataType: 'VARCHAR', length: '5' }))).toBe('code holds at most 5 characters');
+  });
+
+  it('accepts only the listed ENUM and SET values', () => {
+    const size = column('size', { dataType: 'ENUM', length: "'small','extra, large'" });
+    expect(validateSeedValue('extra, large', size)).toBeNull();
+    expect(validateSeedValue('medium', size)).toBe('medium is not one of small, extra, large');
+
+    const tags = column('tags', { dataType: 'SET', length: "'a','b'" });
+    expect(validateSeedValue('a,b', tags)).toBeNull();
+    expect(validateSeedValue('a,c', tags)).toBe('c is not one of a, b');
+  });
+
+  it('reads the values of a catalog enum and the base type of a domain', () => {
+    const types = [
+      { id: 'mood', name: 'mood', kind: 'ENUM' as const, values: ['happy', 'sad'] },
+      { id: 'percent', name: 'percent', kind: 'DOMAIN' as const, baseType: 'INT' },
+    ];
+    expect(enumValues(column('mood', { dataType: 'mood', customTypeId: 'mood' }), types)).toEqual(['happy', 'sad']);
+    expect(validateSeedValue('ok', column('mood', { dataType: 'mood', customTypeId: 'mood' }), types)).toBe('ok is not one of happy, sad');
+    expect(validateSeedValue('half', column('share', { dataType: 'percent', customTypeId: 'percent' }), types)).toBe('share expects a whole number');
+  });
+});
+
+describe('getSeedColumns', () => {
+  it('keeps the columns some row sets, except generated ones', () => {
+    const columns = [primaryKey(), column('name'), column('total', { generatedExpression: 'price * 2' })];
+    expect(getSeedColumns(columns, [{ id: '1', total: '4' }, { id: '2', name: '' }])).toEqual([columns[0]]);
+  });
+});
+
+describe('validateSeedRows', () => {
+  it('requires values for NOT NULL columns without a default', () => {
+    const columns = [primaryKey('id', { isAutoIncrement: true }), column('name', { dataType: 'VARCHAR', isNotNull: true }), column('status', { dataType: 'VARCHAR', isNotNull: true, defaultValue: 'new' })];
+    expect(validateSeedRows(columns, [{ name: 'a' }, {}])).toEqual([
+      { rowIndex: 1, columnId: 'name', message: 'name requires a value' },
+    ]);
+  });
+
+  it('reports repeated unique values and composite keys', () => {
+    const columns = [primaryKey('order_id'), primaryKey('line'), column('sku', { dataType: 'VARCHAR', isUnique: true })];
+    const rows = [
+      { order_id: '1', line: '1', sku: 'a' },
+      { order_id: '1', line: '2', sku: 'a' },
+      { order_id: '1', line: '1', sku: 'b' },
+    ];
+    expect(validateSeedRows(columns, rows)).toEqual([
+      { rowIndex: 1, columnId: 'sku', message: 'sku must be unique but a repeats' },
+      { rowIndex: 2, columnId: 'order_id', message: 'The primary key (order_id, line) repeats' },
+    ]);
+  });
+
+  it('rejects values for generated columns', () => {
+    const columns = [primaryKey(), column('total', { generatedExpression: 'price * 2' })];
+    expect(validateSeedRows(columns, [{ id: '1', total: '4' }])).toEqual([
+      { rowIndex: 0, columnId: 'total', message: 'total is generated and cannot be set' },
+    ]);
+  });
+});
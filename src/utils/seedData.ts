@@ -0,0 +1,147 @@
+import { Column, SeedRow, SeedIssue, CustomTypeData } from '../types';
+import { isGeneratedColumn } from './generatedColumns';
+import { findCustomType, parseValueList, withDomainBaseType } from './customTypes';
+
+export type SeedValueKind = 'integer' | 'decimal' | 'boolean' | 'date' | 'datetime' | 'time' | 'json' | 'text';
+
+const TYPE_KINDS: Record<string, SeedValueKind> = {
+  TINYINT: 'integer', SMALLINT: 'integer', MEDIUMINT: 'integer', INT: 'integer', INTEGER: 'integer', BIGINT: 'integer',
+  SMALLSERIAL: 'integer', SERIAL: 'integer', BIGSERIAL: 'integer', YEAR: 'integer',
+  DECIMAL: 'decimal', NUMERIC: 'decimal', FLOAT: 'decimal', DOUBLE: 'decimal', REAL: 'decimal',
+  'DOUBLE PRECISION': 'decimal', NUMBER: 'decimal',
+  BOOLEAN: 'boolean', BOOL: 'boolean',
+  DATE: 'date',
+  DATETIME: 'datetime', TIMESTAMP: 'datetime',
+  TIME: 'time',
+  JSON: 'json', JSONB: 'json',
+};
+
+// Types whose length is a maximum number of characters
+const CHARACTER_TYPES = ['CHAR', 'VARCHAR', 'VARCHAR2', 'NVARCHAR2', 'NCHAR'];
+
+const VALUE_PATTERNS: Partial<Record<SeedValueKind, { pattern: RegExp; expected: string }>> = {
+  integer: { pattern: /^-?\d+$/, expected: 'a whole number' },
+  decimal: { pattern: /^-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i, expected: 'a number' },
+  boolean: { pattern: /^(true|false|1|0)$/i, expected: 'true, false, 1 or 0' },
+  date: { pattern: /^\d{4}-\d{2}-\d{2}$/, expected: 'a date like 2024-01-31' },
+  datetime: { pattern: /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/, expected: 'a timestamp like 2024-01-31 12:00:00' },
+  time: { pattern: /^\d{2}:\d{2}(:\d{2})?$/, expected: 'a time like 12:00:00' },
+};
+
+export const seedValueKind = (column: Column): SeedValueKind => TYPE_KINDS[column.dataType.toUpperCase()] ?? 'text';
+
+// Maximum number of characters the column holds, or null when it is not limited
+export const maxCharacterLength = (column: Column): number | null => {
+  const maxLength = Number(column.length);
+  return CHARACTER_TYPES.includes(column.dataType.toUpperCase()) && maxLength > 0 ? maxLength : null;
+};
+
+// The values of the column's catalog enum, or of an ENUM or SET written out in the column length
+export const enumValues = (column: Column, types: CustomTypeData[] = []): string[] => {
+  const type = findCustomType(column, types);
+  return type?.kind === 'ENUM' ? type.values ?? [] : parseValueList(column.length ?? '');
+};
+
+const isSet = (row: SeedRow, column: Column) => (row[column.id] ?? '') !== '';
+
+// Columns that at least one row sets; the others are left to their defaults. Generated columns
+// compute their own value and are never inserted.
+export const getSeedColumns = (columns: Column[], rows: SeedRow[]): Column[] =>
+  columns.filter(column => !isGeneratedColumn(column) && rows.some(row => isSet(row, column)));
+
+// Returns why the value does not fit the column, or null when it does
+export const validateSeedValue = (value: string, typedColumn: Column, types: CustomTypeData[] = []): string | null => {
+  const type = findCustomType(typedColumn, types);
+  const column = withDomainBaseType(typedColumn, types);
+  const kind = seedValueKind(column);
+  const format = VALUE_PATTERNS[kind];
+  if (format && !format.pattern.test(value)) {
+    return `${column.name} expects ${format.expected}`;
+  }
+  if (kind === 'integer' && column.isUnsigned && value.startsWith('-')) {
+    return `${column.name} is unsigned`;
+  }
+  if (kind === 'json') {
+    try {
+      JSON.parse(value);
+    } catch {
+      return `${column.name} expects valid JSON`;
+    }
+  }
+
+  const baseType = type?.kind === 'ENUM' ? 'ENUM' : column.dataType.toUpperCase();
+  if ((baseType === 'ENUM' || baseType === 'SET') && (column.length || type)) {
+    const allowed = enumValues(column, types);
+    const values = baseType === 'SET' ? value.split(',') : [value];
+    const invalid = values.find(v => !allowed.includes(v));
+    if (invalid !== undefined) {
+      return `${invalid} is not one of ${allowed.join(', ')}`;
+    }
+  }
+  const maxLength = maxCharacterLength(column);
+  if (maxLength !== null && value.length > maxLength) {
+    return `${column.name} holds at most ${maxLength} characters`;
+  }
+  return null;
+};
+
+export const validateSeedRows = (columns: Column[], rows: SeedRow[], types: CustomTypeData[] = []): SeedIssue[] => {
+  const issues: SeedIssue[] = [];
+  const seedColumns = getSeedColumns(columns, rows);
+
+  columns.forEach(column => {
+    const required = column.isNotNull || column.isPrimaryKey;
+    const generated = isGeneratedColumn(column);
+    const hasDefault = generated || column.isAutoIncrement || !!column.defaultValue?.trim();
+    const seen = new Set<string>();
+
+    rows.forEach((row, rowIndex) => {
+      if (generated) {
+        if (isSet(row, column)) {
+          issues.push({ rowIndex, columnId: column.id, message: `${column.name} is generated and cannot be set` });
+        }
+        return;
+      }
+      if (!isSet(row, column)) {
+        // A listed column inserts NULL for the rows that leave it empty
+        if (required && (seedColumns.includes(column) || !hasDefault)) {
+          issues.push({ rowIndex, columnId: column.id, message: `${column.name} requires a value` });
+        }
+        return;
+      }
+
+      const value = row[column.id];
+      const error = validateSeedValue(value, column, types);
+      if (error) {
+        issues.push({ rowIndex, columnId: column.id, message: error });
+      }
+
+      const unique = column.isUnique || (column.isPrimaryKey && columns.filter(c => c.isPrimaryKey).length === 1);
+      if (unique) {
+        if (seen.has(value)) {
+          issues.push({ rowIndex, columnId: column.id, message: `${column.name} must be unique but ${value} repeats` });
+        }
+        seen.add(value);
+      }
+    });
+  });
+
+  // A composite primary key has to be unique as a whole
+  const primaryKey = columns.filter(c => c.isPrimaryKey);
+  if (primaryKey.length > 1) {
+    const seen = new Set<string>();
+    rows.forEach((row, rowIndex) => {
+      const key = JSON.stringify(primaryKey.map(column => row[column.id] ?? ''));
+      if (seen.has(key)) {
+        issues.push({
+          rowIndex,
+          columnId: primaryKey[0].id,
+          message: `The primary key (${primaryKey.map(c => c.name).join(', ')}) repeats`,
+        });
+      }
+      seen.add(key);
+    });
+  }
+
+  return issues;
+};
@@ -0,0 +1,813 @@
+import { TableData, Column, IndexData, SQLDialect, ForeignKeyDefinition, TableConstraint, CustomTypeData } from '../types';
+import { seedValueKind } from './seedData';
+import { isGeneratedColumn } from './generatedColumns';
+import { findCustomType, customTypeStorage, parseValueList } from './customTypes';
+import { isDialectCollation } from './collations';
+
+const LENGTH_TYPES = ['VARCHAR', 'CHAR', 'VARBINARY', 'BINARY', 'VARCHAR2', 'NVARCHAR2', 'NCHAR', 'RAW', 'BIT', 'VARBIT'];
+const PRECISION_TYPES = ['DECIMAL', 'NUMERIC', 'NUMBER'];
+const INTEGER_TYPES = ['SMALLINT', 'INT', 'INTEGER', 'BIGINT'];
+export const SERIAL_TYPES = ['SMALLSERIAL', 'SERIAL', 'BIGSERIAL'];
+const TIME_FUNCTIONS = ['NOW()', 'CURRENT_TIMESTAMP', 'CURRENT_DATE', 'CURRENT_TIME'];
+
+const quoteString = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+// A bare column of the given type, for formatting the types inside domains and composite types
+const typeColumn = (dataType: string, length?: string): Column => ({
+  id: '',
+  name: '',
+  dataType,
+  length,
+  isPrimaryKey: false,
+  isNotNull: false,
+  isAutoIncrement: false,
+  isUnique: false,
+});
+
+// The column without a charset or collation that only repeats the table's, so columns that inherit
+// them stay plain and MySQL defaults never leak into other dialects
+export const inheritTableCollation = (column: Column, table: TableData): Column => ({
+  ...column,
+  charset: column.charset && column.charset !== table.charset ? column.charset : undefined,
+  collation: column.collation && column.collation !== table.collation ? column.collation : undefined,
+});
+
+// Oracle has no IF EXISTS or IF NOT EXISTS, so the statement runs in a block that ignores the error
+// it raises when the object is missing or already there
+export const ignoreOracleError = (statement: string, sqlCode: number) =>
+  `BEGIN\n  EXECUTE IMMEDIATE ${quoteString(statement.replace(/;$/, ''))};\nEXCEPTION\n  WHEN OTHERS THEN\n    IF SQLCODE != ${sqlCode} THEN\n      RAISE;\n    END IF;\nEND;\n/`;
+
+// Everything in a CREATE TABLE or ALTER TABLE that differs between engines. SQLGenerator composes
+// the statements and asks the strategy for the dialect specific pieces.
+export abstract class DialectStrategy {
+  // Whether CREATE and DROP statements can be rolled back inside a transaction
+  readonly transactionalDDL: boolean = false;
+
+  // Written above tables with CHECK constraints when the server version decides whether they are enforced
+  protected readonly checkConstraintNote: string | null = null;
+
+  constructor(readonly dialect: SQLDialect, protected readonly customTypes: CustomTypeData[] = []) {}
+
+  abstract quoteIdentifier(identifier: string): string;
+
+  formatDataType(column: Column): string {
+    const baseType = column.dataType.toUpperCase();
+    if (column.length && (LENGTH_TYPES.includes(baseType) || PRECISION_TYPES.includes(baseType))) {
+      return `${column.dataType}(${column.length})`;
+    }
+    return column.dataType;
+  }
+
+  formatDefaultValue(value: string): string {
+    if (TIME_FUNCTIONS.includes(value.toUpperCase()) || value.toUpperCase() === 'NULL') {
+      return value;
+    }
+
+    // Check if it's a number
+    if (!isNaN(Number(value))) {
+      return value;
+    }
+
+    // String values should be quoted
+    return quoteString(value);
+  }
+
+  // Clause appended to an auto-increment column, or null if the dialect cannot express it inline
+  protected abstract formatAutoIncrement(column: Column): string | null;
+
+  // The column's collation when the dialect has it, so one kept from another dialect does not break the DDL
+  protected getCollation(column: Column): string | null {
+    return column.collation && isDialectCollation(column.collation, this.dialect) ? column.collation : null;
+  }
+
+  // Charset and collation written after the data type
+  protected formatCollation(column: Column): string {
+    const collation = this.getCollation(column);
+    return collation ? ` COLLATE ${collation}` : '';
+  }
+
+  protected formatGenerated(column: Column): string {
+    return `GENERATED ALWAYS AS (${column.generatedExpression!.trim()}) ${column.generatedStorage ?? 'STORED'}`;
+  }
+
+  // The column as the dialect stores its catalog type, and the CHECK that enforces what the type
+  // would. Without native types an enum becomes text limited to its values and a domain its base type.
+  protected expandCustomType(column: Column): { column: Column; check: string | null } {
+    const type = findCustomType(column, this.customTypes);
+    if (!type) return { column, check: null };
+    const stored = { ...column, ...customTypeStorage(type, this.dialect) };
+    const name = this.quoteIdentifier(column.name);
+    switch (type.kind) {
+      case 'ENUM': {
+        const values = type.values ?? [];
+        return { column: stored, check: values.length > 0 ? `${name} IN (${values.map(quoteString).join(', ')})` : null };
+      }
+      case 'DOMAIN':
+        return {
+          column: {
+            ...stored,
+            isNotNull: column.isNotNull || !!type.isNotNull,
+            defaultValue: column.defaultValue?.trim() ? column.defaultValue : type.defaultValue,
+          },
+          check: type.check?.trim() ? type.check.trim().replace(/\bVALUE\b/gi, name) : null,
+        };
+      case 'COMPOSITE':
+        return { column: stored, check: null };
+    }
+  }
+
+  formatColumnDefinition(typedColumn: Column): string {
+    const { column, check } = this.expandCustomType(typedColumn);
+    let definition = `${this.quoteIdentifier(column.name)} ${this.formatDataType(column)}${this.formatCollation(column)}`;
+
+    // A generated column computes its value, so it has no auto increment or default
+    const generated = isGeneratedColumn(column);
+    if (generated) {
+      definition += ` ${this.formatGenerated(column)}`;
+    }
+
+    if (column.isNotNull) {
+      definition += ' NOT NULL';
+    }
+
+    const autoIncrement = column.isAutoIncrement && !generated ? this.formatAutoIncrement(column) : null;
+    if (autoIncrement) {
+      definition += ` ${autoIncrement}`;
+    }
+
+    if (column.defaultValue && column.defaultValue.trim() !== '' && !generated) {
+      definition += ` DEFAULT ${this.formatDefaultValue(column.defaultValue)}`;
+    }
+
+    if (check) {
+      definition += ` CHECK (${check})`;
+    }
+
+    return definition;
+  }
+
+  // Statements for catalog types, where the dialect creates them separately from the tables that use them
+  formatCreateType?(type: CustomTypeData): string;
+  formatDropType?(type: CustomTypeData, ifExists: boolean): string;
+  formatAlterType?(from: CustomTypeData, to: CustomTypeData): string[];
+
+  // A column whose PRIMARY KEY is declared inline instead of as a table constraint
+  protected abstract getInlinePrimaryKey(table: TableData): Column | null;
+
+  protected formatInlinePrimaryKey(column: Column): string {
+    return `${this.formatColumnDefinition(column)} PRIMARY KEY`;
+  }
+
+  formatUniqueConstraint(name: string, columns: string[]): string {
+    return `CONSTRAINT ${this.quoteIdentifier(name)} UNIQUE (${columns.map(c => this.quoteIdentifier(c)).join(', ')})`;
+  }
+
+  formatForeignKeyConstraint(fk: ForeignKeyDefinition): string {
+    const columns = fk.columns.map(col => this.quoteIdentifier(col)).join(', ');
+    const referencedColumns = fk.referencedColumns.map(col => this.quoteIdentifier(col)).join(', ');
+    return `CONSTRAINT ${this.quoteIdentifier(fk.name)} FOREIGN KEY (${columns}) REFERENCES ${this.quoteIdentifier(fk.referencedTable)}(${referencedColumns}) ON UPDATE ${fk.onUpdate} ON DELETE ${fk.onDelete}`;
+  }
+
+  // A table constraint as written in CREATE TABLE or after ALTER TABLE ... ADD, or null if the dialect has no such constraint
+  formatTableConstraint(constraint: TableConstraint): string | null {
+    switch (constraint.kind) {
+      case 'CHECK':
+        return `CONSTRAINT ${this.quoteIdentifier(constraint.name)} CHECK (${constraint.expression})`;
+      case 'UNIQUE':
+        return this.formatUniqueConstraint(constraint.name, constraint.columns ?? []);
+      case 'EXCLUDE':
+        return null;
+    }
+  }
+
+  formatDropConstraint(constraint: TableConstraint): string {
+    return ` DROP CONSTRAINT ${this.quoteIdentifier(constraint.name)}`;
+  }
+
+  // Comments written before CREATE TABLE for constraints the dialect leaves out or may not enforce
+  formatConstraintNotes(constraints: TableConstraint[]): string[] {
+    const notes = constraints
+      .filter(constraint => this.formatTableConstraint(constraint) === null)
+      .map(constraint => `-- ${constraint.kind} constraint ${constraint.name} is not supported by ${this.dialect} and was left out`);
+    if (this.checkConstraintNote && constraints.some(constraint => constraint.kind === 'CHECK')) {
+      notes.push(`-- ${this.checkConstraintNote}`);
+    }
+    return notes;
+  }
+
+  // Options written after the closing parenthesis of CREATE TABLE
+  protected abstract formatTableOptions(table: TableData): string;
+
+  // Statements that follow CREATE TABLE, such as COMMENT ON
+  abstract formatTableComments(table: TableData): string[];
+
+  formatCreateTable(table: TableData, foreignKeys: ForeignKeyDefinition[], constraints: TableConstraint[]): string {
+    const { name, columns } = table;
+    const inlinePrimaryKey = this.getInlinePrimaryKey(table);
+
+    const definitions = columns.map(column => column === inlinePrimaryKey
+      ? `  ${this.formatInlinePrimaryKey(column)}`
+      : `  ${this.formatColumnDefinition(inheritTableCollation(column, table))}`);
+
+    // Add PRIMARY KEY constraint
+    const primaryKeys = columns.filter(col => col.isPrimaryKey);
+    if (primaryKeys.length > 0 && !inlinePrimaryKey) {
+      definitions.push(`  ${this.formatPrimaryKeyName(table)}PRIMARY KEY (${primaryKeys.map(col => this.quoteIdentifier(col.name)).join(', ')})`);
+    }
+
+    // Add UNIQUE, CHECK and EXCLUDE constraints
+    constraints.forEach(constraint => {
+      const definition = this.formatTableConstraint(constraint);
+      if (definition) {
+        definitions.push(`  ${definition}`);
+      }
+    });
+
+    // Add FOREIGN KEY constraints
+    foreignKeys.forEach(fk => {
+      definitions.push(`  ${this.formatForeignKeyConstraint(fk)}`);
+    });
+
+    const createTable = `CREATE TABLE ${this.quoteIdentifier(name)} (\n${definitions.join(',\n')}\n)${this.formatTableOptions(table)};`;
+    return [...this.formatConstraintNotes(constraints), createTable, ...this.formatTableComments(table)].join('\n');
+  }
+
+  formatAddColumn(column: Column): string {
+    return ` ADD COLUMN ${this.formatColumnDefinition(column)}`;
+  }
+
+  abstract formatModifyColumn(column: Column, previousColumn?: Column): string;
+
+  abstract formatDropPrimaryKey(table: TableData): string;
+
+  formatPrimaryKeyName(table: TableData): string {
+    return table.primaryKeyName ? `CONSTRAINT ${this.quoteIdentifier(table.primaryKeyName)} ` : '';
+  }
+
+  formatAddUnique(name: string, columnName: string): string {
+    return ` ADD ${this.formatUniqueConstraint(name, [columnName])}`;
+  }
+
+  formatDropUnique(name: string): string {
+    return ` DROP CONSTRAINT ${this.quoteIdentifier(name)}`;
+  }
+
+  formatDropForeignKey(name: string): string {
+    return ` DROP CONSTRAINT ${this.quoteIdentifier(name)}`;
+  }
+
+  formatCreateIndex(index: IndexData, tableName: string): string {
+    // FULLTEXT and SPATIAL are MySQL index kinds; elsewhere they fall back to a plain index
+    const kind = index.type === 'UNIQUE' ? 'UNIQUE INDEX' : 'INDEX';
+    const columns = index.columns.map(col => this.quoteIdentifier(col)).join(', ');
+    return `CREATE ${kind} ${this.quoteIdentifier(index.name)} ON ${this.quoteIdentifier(tableName)} (${columns});`;
+  }
+
+  abstract formatDropIndex(indexName: string, tableName?: string): string;
+
+  formatDropTable(tableName: string, ifExists: boolean): string {
+    return `DROP TABLE ${ifExists ? 'IF EXISTS ' : ''}${this.quoteIdentifier(tableName)};`;
+  }
+
+  // Literal for a seed value that passed validateSeedValue; empty values are NULL
+  formatSeedValue(value: string | undefined, column: Column): string {
+    if (value === undefined || value === '') {
+      return 'NULL';
+    }
+    switch (seedValueKind(column)) {
+      case 'integer':
+      case 'decimal':
+        return value;
+      case 'boolean':
+        return /^(true|1)$/i.test(value) ? '1' : '0';
+      default:
+        return quoteString(value);
+    }
+  }
+
+  formatInsertRows(tableName: string, columnNames: string[], rows: string[][]): string {
+    const columns = columnNames.map(col => this.quoteIdentifier(col)).join(', ');
+    const values = rows.map(row => `  (${row.join(', ')})`).join(',\n');
+    return `INSERT INTO ${this.quoteIdentifier(tableName)} (${columns}) VALUES\n${values};`;
+  }
+
+  // Moves the sequence of an identity column past the values seed rows inserted explicitly, where
+  // the dialect does not do so by itself
+  formatResetIdentity?(tableName: string, column: Column): string | null;
+}
+
+class MySQLStrategy extends DialectStrategy {
+  protected readonly checkConstraintNote: string | null = 'CHECK constraints are enforced from MySQL 8.0.16; earlier versions parse and ignore them';
+
+  quoteIdentifier(identifier: string): string {
+    return `\`${identifier}\``;
+  }
+
+  formatDataType(column: Column): string {
+    const baseType = column.dataType.toUpperCase();
+    if ((baseType === 'ENUM' || baseType === 'SET') && column.length) {
+      const values = parseValueList(column.length).map(quoteString).join(', ');
+      return `${column.dataType}(${values})`;
+    }
+    return column.isUnsigned ? `${super.formatDataType(column)} UNSIGNED` : super.formatDataType(column);
+  }
+
+  protected formatAutoIncrement(): string {
+    return 'AUTO_INCREMENT';
+  }
+
+  protected formatCollation(column: Column): string {
+    return `${column.charset ? ` CHARACTER SET ${column.charset}` : ''}${super.formatCollation(column)}`;
+  }
+
+  // Enums are native and written out in every column that uses them
+  protected expandCustomType(column: Column): { column: Column; check: string | null } {
+    const type = findCustomType(column, this.customTypes);
+    if (type?.kind !== 'ENUM') return super.expandCustomType(column);
+    return { column: { ...column, dataType: 'ENUM', length: (type.values ?? []).map(quoteString).join(',') }, check: null };
+  }
+
+  protected getInlinePrimaryKey(): Column | null {
+    return null;
+  }
+
+  formatColumnDefinition(column: Column): string {
+    let definition = super.formatColumnDefinition(column);
+    if (column.comment) {
+      definition += ` COMMENT ${quoteString(column.comment)}`;
+    }
+    return definition;
+  }
+
+  formatUniqueConstraint(name: string, columns: string[]): string {
+    return `UNIQUE KEY ${this.quoteIdentifier(name)} (${columns.map(c => this.quoteIdentifier(c)).join(', ')})`;
+  }
+
+  protected formatTableOptions(table: TableData): string {
+    let options = '';
+    if (table.engine) {
+      options += ` ENGINE=${table.engine}`;
+    }
+    if (table.charset) {
+      options += ` DEFAULT CHARSET=${table.charset}`;
+    }
+    if (table.collation) {
+      options += ` COLLATE=${table.collation}`;
+    }
+    if (table.autoIncrement) {
+      options += ` AUTO_INCREMENT=${table.autoIncrement}`;
+    }
+    if (table.comment) {
+      options += ` COMMENT=${quoteString(table.comment)}`;
+    }
+    return options;
+  }
+
+  formatTableComments(): string[] {
+    return [];
+  }
+
+  formatModifyColumn(column: Column): string {
+    return ` MODIFY COLUMN ${this.formatColumnDefinition(column)}`;
+  }
+
+  formatDropPrimaryKey(): string {
+    return ' DROP PRIMARY KEY';
+  }
+
+  formatDropUnique(name: string): string {
+    return ` DROP INDEX ${this.quoteIdentifier(name)}`;
+  }
+
+  formatDropForeignKey(name: string): string {
+    return ` DROP FOREIGN KEY ${this.quoteIdentifier(name)}`;
+  }
+
+  // UNIQUE constraints are indexes in MySQL; DROP CHECK needs 8.0.16
+  formatDropConstraint(constraint: TableConstraint): string {
+    return constraint.kind === 'UNIQUE'
+      ? this.formatDropUnique(constraint.name)
+      : ` DROP CHECK ${this.quoteIdentifier(constraint.name)}`;
+  }
+
+  formatCreateIndex(index: IndexData, tableName: string): string {
+    const kind = index.type === 'INDEX' ? 'INDEX' : `${index.type} INDEX`;
+    const columns = index.columns.map(col => this.quoteIdentifier(col)).join(', ');
+    const method = index.method && index.type !== 'FULLTEXT' && index.type !== 'SPATIAL' ? ` USING ${index.method}` : '';
+    return `CREATE ${kind} ${this.quoteIdentifier(index.name)} ON ${this.quoteIdentifier(tableName)} (${columns})${method};`;
+  }
+
+  formatDropIndex(indexName: string, tableName?: string): string {
+    return tableName
+      ? `DROP INDEX ${this.quoteIdentifier(indexName)} ON ${this.quoteIdentifier(tableName)};`
+      : `DROP INDEX ${this.quoteIdentifier(indexName)};`;
+  }
+}
+
+// MariaDB enforces CHECK constraints since 10.2 and drops them with DROP CONSTRAINT
+class MariaDBStrategy extends MySQLStrategy {
+  protected readonly checkConstraintNote: string | null = null;
+
+  formatDropConstraint(constraint: TableConstraint): string {
+    return constraint.kind === 'UNIQUE'
+      ? this.formatDropUnique(constraint.name)
+      : ` DROP CONSTRAINT ${this.quoteIdentifier(constraint.name)}`;
+  }
+}
+
+// PostgreSQL and Oracle document tables with separate COMMENT ON statements
+abstract class CommentOnStrategy extends DialectStrategy {
+  protected getInlinePrimaryKey(): Column | null {
+    return null;
+  }
+
+  protected formatTableOptions(): string {
+    return '';
+  }
+
+  formatDropIndex(indexName: string): string {
+    return `DROP INDEX ${this.quoteIdentifier(indexName)};`;
+  }
+
+  formatTableComments(table: TableData): string[] {
+    const tableName = this.quoteIdentifier(table.name);
+    const statements = table.comment ? [`COMMENT ON TABLE ${tableName} IS ${quoteString(table.comment)};`] : [];
+    table.columns.filter(column => column.comment).forEach(column => {
+      statements.push(`COMMENT ON COLUMN ${tableName}.${this.quoteIdentifier(column.name)} IS ${quoteString(column.comment!)};`);
+    });
+    return statements;
+  }
+}
+
+class PostgreSQLStrategy extends CommentOnStrategy {
+  readonly transactionalDDL = true;
+
+  quoteIdentifier(identifier: string): string {
+    return `"${identifier}"`;
+  }
+
+  // CASCADE also removes foreign keys of tables that are dropped later in the script
+  formatDropTable(tableName: string, ifExists: boolean): string {
+    return `DROP TABLE ${ifExists ? 'IF EXISTS ' : ''}${this.quoteIdentifier(tableName)} CASCADE;`;
+  }
+
+  formatSeedValue(value: string | undefined, column: Column): string {
+    if (value && seedValueKind(column) === 'boolean') {
+      return /^(true|1)$/i.test(value) ? 'TRUE' : 'FALSE';
+    }
+    return super.formatSeedValue(value, column);
+  }
+
+  // serial types already imply a sequence; other integer types become identity columns
+  protected formatAutoIncrement(column: Column): string | null {
+    const baseType = column.dataType.toUpperCase();
+    if (SERIAL_TYPES.includes(baseType)) return null;
+    return INTEGER_TYPES.includes(baseType) ? 'GENERATED BY DEFAULT AS IDENTITY' : null;
+  }
+
+  formatColumnDefinition(column: Column): string {
+    // An identity column cannot also have a default
+    const isIdentity = column.isAutoIncrement && this.formatAutoIncrement(column) !== null;
+    return super.formatColumnDefinition(isIdentity ? { ...column, defaultValue: undefined } : column);
+  }
+
+  // Serial columns own a sequence just like identity columns
+  formatResetIdentity(tableName: string, column: Column): string | null {
+    const hasSequence = SERIAL_TYPES.includes(column.dataType.toUpperCase()) || (column.isAutoIncrement && this.formatAutoIncrement(column) !== null);
+    if (!hasSequence) return null;
+    const table = this.quoteIdentifier(tableName);
+    return `SELECT setval(pg_get_serial_sequence(${quoteString(table)}, ${quoteString(column.name)}), (SELECT max(${this.quoteIdentifier(column.name)}) FROM ${table}));`;
+  }
+
+  // Catalog types are created up front and columns use them by name
+  protected expandCustomType(column: Column): { column: Column; check: string | null } {
+    const type = findCustomType(column, this.customTypes);
+    return { column: type ? { ...column, dataType: this.quoteIdentifier(type.name), length: undefined } : column, check: null };
+  }
+
+  formatCreateType(type: CustomTypeData): string {
+    const name = this.quoteIdentifier(type.name);
+    const statements = [this.formatTypeDefinition(type)];
+    if (type.comment) {
+      statements.push(`COMMENT ON ${type.kind === 'DOMAIN' ? 'DOMAIN' : 'TYPE'} ${name} IS ${quoteString(type.comment)};`);
+    }
+    return statements.join('\n');
+  }
+
+  private formatTypeDefinition(type: CustomTypeData): string {
+    const name = this.quoteIdentifier(type.name);
+    switch (type.kind) {
+      case 'ENUM':
+        return `CREATE TYPE ${name} AS ENUM (${(type.values ?? []).map(quoteString).join(', ')});`;
+      case 'DOMAIN': {
+        let definition = `CREATE DOMAIN ${name} AS ${this.formatDataType(typeColumn(type.baseType || 'text', type.length))}`;
+        if (type.defaultValue?.trim()) definition += ` DEFAULT ${this.formatDefaultValue(type.defaultValue.trim())}`;
+        if (type.isNotNull) definition += ' NOT NULL';
+        if (type.check?.trim()) definition += ` CONSTRAINT ${this.quoteIdentifier(`${type.name}_check`)} CHECK (${type.check.trim()})`;
+        return `${definition};`;
+      }
+      case 'COMPOSITE': {
+        const fields = (type.fields ?? []).map(field => `${this.quoteIdentifier(field.name)} ${this.formatDataType(typeColumn(field.dataType, field.length))}`);
+        return `CREATE TYPE ${name} AS (${fields.join(', ')});`;
+      }
+    }
+  }
+
+  formatDropType(type: CustomTypeData, ifExists: boolean): string {
+    return `DROP ${type.kind === 'DOMAIN' ? 'DOMAIN' : 'TYPE'} ${ifExists ? 'IF EXISTS ' : ''}${this.quoteIdentifier(type.name)};`;
+  }
+
+  // Enums can gain values but not lose or reorder them, and a domain keeps its base type; those
+  // changes are left as notes because the type has to be recreated and its columns converted
+  formatAlterType(from: CustomTypeData, to: CustomTypeData): string[] {
+    const keyword = to.kind === 'DOMAIN' ? 'DOMAIN' : 'TYPE';
+    const name = this.quoteIdentifier(to.name);
+    const statements: string[] = [];
+    if (from.name !== to.name) {
+      statements.push(`ALTER ${keyword} ${this.quoteIdentifier(from.name)} RENAME TO ${name};`);
+    }
+    const recreate = `-- ${to.name} cannot be changed in place; recreate the type and convert the columns that use it`;
+    if (from.kind !== to.kind) {
+      return [...statements, recreate];
+    }
+
+    switch (to.kind) {
+      case 'ENUM': {
+        const previous = from.values ?? [];
+        const values = to.values ?? [];
+        const kept = values.filter(value => previous.includes(value));
+        if (kept.length !== previous.length || kept.some((value, i) => value !== previous[i])) {
+          return [...statements, recreate];
+        }
+        values.forEach((value, i) => {
+          if (previous.includes(value)) return;
+          const position = i > 0 ? ` AFTER ${quoteString(values[i - 1])}` : previous.length > 0 ? ` BEFORE ${quoteString(previous[0])}` : '';
+          statements.push(`ALTER TYPE ${name} ADD VALUE ${quoteString(value)}${position};`);
+        });
+        break;
+      }
+      case 'DOMAIN': {
+        if ((from.baseType || '') !== (to.baseType || '') || (from.length || '') !== (to.length || '')) {
+          return [...statements, recreate];
+        }
+        if ((from.defaultValue || '') !== (to.defaultValue || '')) {
+          statements.push(to.defaultValue?.trim()
+            ? `ALTER DOMAIN ${name} SET DEFAULT ${this.formatDefaultValue(to.defaultValue.trim())};`
+            : `ALTER DOMAIN ${name} DROP DEFAULT;`);
+        }
+        if (!!from.isNotNull !== !!to.isNotNull) {
+          statements.push(`ALTER DOMAIN ${name} ${to.isNotNull ? 'SET' : 'DROP'} NOT NULL;`);
+        }
+        if ((from.check || '').trim() !== (to.check || '').trim()) {
+          if (from.check?.trim()) statements.push(`ALTER DOMAIN ${name} DROP CONSTRAINT ${this.quoteIdentifier(`${from.name}_check`)};`);
+          if (to.check?.trim()) statements.push(`ALTER DOMAIN ${name} ADD CONSTRAINT ${this.quoteIdentifier(`${to.name}_check`)} CHECK (${to.check.trim()});`);
+        }
+        break;
+      }
+      case 'COMPOSITE': {
+        const previous = from.fields ?? [];
+        const fields = to.fields ?? [];
+        const fieldType = (field: { dataType: string; length?: string }) => this.formatDataType(typeColumn(field.dataType, field.length));
+        previous.filter(field => !fields.some(f => f.name === field.name)).forEach(field => {
+          statements.push(`ALTER TYPE ${name} DROP ATTRIBUTE ${this.quoteIdentifier(field.name)};`);
+        });
+        fields.forEach(field => {
+          const old = previous.find(f => f.name === field.name);
+          if (!old) {
+            statements.push(`ALTER TYPE ${name} ADD ATTRIBUTE ${this.quoteIdentifier(field.name)} ${fieldType(field)};`);
+          } else if (fieldType(old) !== fieldType(field)) {
+            statements.push(`ALTER TYPE ${name} ALTER ATTRIBUTE ${this.quoteIdentifier(field.name)} TYPE ${fieldType(field)};`);
+          }
+        });
+        break;
+      }
+    }
+    if ((from.comment || '') !== (to.comment || '')) {
+      statements.push(`COMMENT ON ${keyword} ${name} IS ${to.comment ? quoteString(to.comment) : 'NULL'};`);
+    }
+    return statements;
+  }
+
+  // Collation names are identifiers and most of them are case sensitive, such as "C" or "en_US"
+  protected formatCollation(column: Column): string {
+    const collation = this.getCollation(column);
+    return collation ? ` COLLATE ${this.quoteIdentifier(collation)}` : '';
+  }
+
+  formatModifyColumn(typedColumn: Column, previousColumn?: Column): string {
+    const { column } = this.expandCustomType(typedColumn);
+    const name = this.quoteIdentifier(column.name);
+    const clauses: string[] = [];
+    if (!previousColumn || previousColumn.dataType !== typedColumn.dataType || previousColumn.length !== column.length ||
+      (previousColumn.collation || '') !== (column.collation || '')) {
+      // Existing values only convert to a catalog type through an explicit cast
+      const using = typedColumn.customTypeId && previousColumn?.dataType !== typedColumn.dataType ? ` USING ${name}::${column.dataType}` : '';
+      clauses.push(`ALTER COLUMN ${name} TYPE ${this.formatDataType(column)}${this.formatCollation(column)}${using}`);
+    }
+    // SET EXPRESSION needs PostgreSQL 17; DROP EXPRESSION keeps the computed values as plain data
+    const expression = column.generatedExpression?.trim() || '';
+    if (previousColumn && isGeneratedColumn(previousColumn) && previousColumn.generatedExpression!.trim() !== expression) {
+      clauses.push(expression
+        ? `ALTER COLUMN ${name} SET EXPRESSION AS (${expression})`
+        : `ALTER COLUMN ${name} DROP EXPRESSION`);
+    }
+    if (!previousColumn || previousColumn.isNotNull !== column.isNotNull) {
+      clauses.push(`ALTER COLUMN ${name} ${column.isNotNull ? 'SET' : 'DROP'} NOT NULL`);
+    }
+    if (!previousColumn || (previousColumn.defaultValue || '') !== (column.defaultValue || '')) {
+      clauses.push(column.defaultValue
+        ? `ALTER COLUMN ${name} SET DEFAULT ${this.formatDefaultValue(column.defaultValue)}`
+        : `ALTER COLUMN ${name} DROP DEFAULT`);
+    }
+    return ` ${clauses.join(', ')}`;
+  }
+
+  formatDropPrimaryKey(table: TableData): string {
+    return ` DROP CONSTRAINT ${this.quoteIdentifier(table.primaryKeyName ?? `${table.name}_pkey`)}`;
+  }
+
+  formatTableConstraint(constraint: TableConstraint): string | null {
+    if (constraint.kind !== 'EXCLUDE') {
+      return super.formatTableConstraint(constraint);
+    }
+    const elements = (constraint.exclusions ?? []).map(e => `${this.quoteIdentifier(e.column)} WITH ${e.operator}`).join(', ');
+    return `CONSTRAINT ${this.quoteIdentifier(constraint.name)} EXCLUDE USING ${constraint.using || 'gist'} (${elements})`;
+  }
+
+  formatCreateIndex(index: IndexData, tableName: string): string {
+    const kind = index.type === 'UNIQUE' ? 'UNIQUE INDEX' : 'INDEX';
+    const columns = index.columns.map(col => this.quoteIdentifier(col)).join(', ');
+    const method = index.method ? ` USING ${index.method.toLowerCase()}` : '';
+    return `CREATE ${kind} ${this.quoteIdentifier(index.name)} ON ${this.quoteIdentifier(tableName)}${method} (${columns});`;
+  }
+}
+
+class SQLiteStrategy extends DialectStrategy {
+  readonly transactionalDDL = true;
+
+  quoteIdentifier(identifier: string): string {
+    return `"${identifier}"`;
+  }
+
+  formatDefaultValue(value: string): string {
+    return value.toUpperCase() === 'NOW()' ? 'CURRENT_TIMESTAMP' : super.formatDefaultValue(value);
+  }
+
+  // SQLite only allows AUTOINCREMENT on a single INTEGER PRIMARY KEY declared inline
+  protected getInlinePrimaryKey(table: TableData): Column | null {
+    const primaryKeys = table.columns.filter(col => col.isPrimaryKey);
+    return primaryKeys.length === 1 && primaryKeys[0].isAutoIncrement ? primaryKeys[0] : null;
+  }
+
+  protected formatInlinePrimaryKey(column: Column): string {
+    return `${this.quoteIdentifier(column.name)} INTEGER PRIMARY KEY AUTOINCREMENT`;
+  }
+
+  protected formatAutoIncrement(): string | null {
+    return null;
+  }
+
+  protected formatTableOptions(): string {
+    return '';
+  }
+
+  formatTableComments(): string[] {
+    return [];
+  }
+
+  // SQLite cannot alter columns; migrations rebuild the table instead
+  formatModifyColumn(column: Column): string {
+    return ` MODIFY COLUMN ${this.formatColumnDefinition(column)}`;
+  }
+
+  formatDropPrimaryKey(): string {
+    return ' DROP PRIMARY KEY';
+  }
+
+  formatDropIndex(indexName: string): string {
+    return `DROP INDEX ${this.quoteIdentifier(indexName)};`;
+  }
+}
+
+class OracleStrategy extends CommentOnStrategy {
+  quoteIdentifier(identifier: string): string {
+    return `"${identifier.toUpperCase()}"`;
+  }
+
+  formatDefaultValue(value: string): string {
+    return ['NOW()', 'CURRENT_TIME'].includes(value.toUpperCase()) ? 'CURRENT_TIMESTAMP' : super.formatDefaultValue(value);
+  }
+
+  protected formatAutoIncrement(): string {
+    return 'GENERATED BY DEFAULT ON NULL AS IDENTITY';
+  }
+
+  // Oracle only has virtual columns; their data type is optional but allowed
+  protected formatGenerated(column: Column): string {
+    return `GENERATED ALWAYS AS (${column.generatedExpression!.trim()}) VIRTUAL`;
+  }
+
+  // Oracle requires DEFAULT (or the identity clause) before NOT NULL
+  formatColumnDefinition(typedColumn: Column): string {
+    const { column, check } = this.expandCustomType(typedColumn);
+    let definition = `${this.quoteIdentifier(column.name)} ${this.formatDataType(column)}`;
+
+    if (isGeneratedColumn(column)) {
+      definition += ` ${this.formatGenerated(column)}`;
+    } else if (column.isAutoIncrement) {
+      definition += ` ${this.formatAutoIncrement()}`;
+    } else if (column.defaultValue && column.defaultValue.trim() !== '') {
+      definition += ` DEFAULT ${this.formatDefaultValue(column.defaultValue)}`;
+    }
+
+    if (column.isNotNull) {
+      definition += ' NOT NULL';
+    }
+
+    if (check) {
+      definition += ` CHECK (${check})`;
+    }
+
+    return definition;
+  }
+
+  // Oracle has no ON UPDATE actions and only CASCADE or SET NULL on delete
+  formatForeignKeyConstraint(fk: ForeignKeyDefinition): string {
+    const columns = fk.columns.map(col => this.quoteIdentifier(col)).join(', ');
+    const referencedColumns = fk.referencedColumns.map(col => this.quoteIdentifier(col)).join(', ');
+    const onDelete = fk.onDelete === 'CASCADE' || fk.onDelete === 'SET NULL' ? ` ON DELETE ${fk.onDelete}` : '';
+    return `CONSTRAINT ${this.quoteIdentifier(fk.name)} FOREIGN KEY (${columns}) REFERENCES ${this.quoteIdentifier(fk.referencedTable)}(${referencedColumns})${onDelete}`;
+  }
+
+  formatAddColumn(column: Column): string {
+    return ` ADD (${this.formatColumnDefinition(column)})`;
+  }
+
+  // Repeating an unchanged NOT NULL or NULL is an error in Oracle, so only changes are listed
+  formatModifyColumn(typedColumn: Column, previousColumn?: Column): string {
+    const { column } = this.expandCustomType(typedColumn);
+    let definition = `${this.quoteIdentifier(column.name)} ${this.formatDataType(column)}`;
+    if (isGeneratedColumn(column)) {
+      if (previousColumn?.generatedExpression?.trim() !== column.generatedExpression!.trim()) {
+        definition += ` ${this.formatGenerated(column)}`;
+      }
+    } else if (!previousColumn || (previousColumn.defaultValue || '') !== (column.defaultValue || '')) {
+      definition += column.defaultValue ? ` DEFAULT ${this.formatDefaultValue(column.defaultValue)}` : ' DEFAULT NULL';
+    }
+    if (!previousColumn || previousColumn.isNotNull !== column.isNotNull) {
+      definition += column.isNotNull ? ' NOT NULL' : ' NULL';
+    }
+    return ` MODIFY (${definition})`;
+  }
+
+  formatDropPrimaryKey(): string {
+    return ' DROP PRIMARY KEY';
+  }
+
+  // Strings only convert to dates through the session's NLS format, so dates use ANSI literals
+  formatSeedValue(value: string | undefined, column: Column): string {
+    const kind = seedValueKind(column);
+    if (value && kind === 'date') {
+      return `DATE ${quoteString(value)}`;
+    }
+    if (value && kind === 'datetime') {
+      const timestamp = value.replace('T', ' ');
+      return `TIMESTAMP ${quoteString(timestamp.includes(' ') ? timestamp : `${timestamp} 00:00:00`)}`;
+    }
+    return super.formatSeedValue(value, column);
+  }
+
+  formatResetIdentity(tableName: string, column: Column): string | null {
+    return column.isAutoIncrement
+      ? `ALTER TABLE ${this.quoteIdentifier(tableName)} MODIFY (${this.quoteIdentifier(column.name)} ${this.formatAutoIncrement()} (START WITH LIMIT VALUE));`
+      : null;
+  }
+
+  // Multi-row VALUES lists only arrived in Oracle 23c
+  formatInsertRows(tableName: string, columnNames: string[], rows: string[][]): string {
+    const columns = columnNames.map(col => this.quoteIdentifier(col)).join(', ');
+    const inserts = rows.map(row => `  INTO ${this.quoteIdentifier(tableName)} (${columns}) VALUES (${row.join(', ')})`);
+    return `INSERT ALL\n${inserts.join('\n')}\nSELECT 1 FROM DUAL;`;
+  }
+
+  // CASCADE CONSTRAINTS drops the foreign keys that reference the table; ORA-00942 is a missing table
+  formatDropTable(tableName: string, ifExists: boolean): string {
+    const sql = `DROP TABLE ${this.quoteIdentifier(tableName)} CASCADE CONSTRAINTS;`;
+    return ifExists ? ignoreOracleError(sql, -942) : sql;
+  }
+}
+
+export const getDialectStrategy = (dialect: SQLDialect, customTypes: CustomTypeData[] = []): DialectStrategy => {
+  switch (dialect) {
+    case 'mysql':
+      return new MySQLStrategy(dialect, customTypes);
+    case 'mariadb':
+      return new MariaDBStrategy(dialect, customTypes);
+    case 'postgresql':
+      return new PostgreSQLStrategy(dialect, customTypes);
+    case 'sqlite':
+      return new SQLiteStrategy(dialect, customTypes);
+    case 'oracle':
+      return new OracleStrategy(dialect, customTypes);
+  }
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DUMP_OPTIONS, SQLGenerator } from './sqlGenerator';
+import { column, primaryKey, project, table } from '../test/fixtures';
+
+describe('generateSeedDataSQL', () => {
+  const tenants = table('tenants', [primaryKey('id', { isAutoIncrement: true }), column('name', { dataType: 'TEXT' })], {
+    seedRows: [{ id: '1', name: 'a' }, { id: '5', name: 'c' }],
+  });
+
+  it('moves the identity sequence past explicitly seeded ids', () => {
+    expect(new SQLGenerator('postgresql').generateSeedDataSQL(tenants)[1])
+      .toBe(`SELECT setval(pg_get_serial_sequence('"tenants"', 'id'), (SELECT max("id") FROM "tenants"));`);
+    expect(new SQLGenerator('oracle').generateSeedDataSQL(tenants)[1])
+      .toBe('ALTER TABLE "TENANTS" MODIFY ("ID" GENERATED BY DEFAULT ON NULL AS IDENTITY (START WITH LIMIT VALUE));');
+  });
+
+  it('leaves dialects that advance auto increments by themselves alone', () => {
+    expect(new SQLGenerator('mysql').generateSeedDataSQL(tenants)).toHaveLength(1);
+    expect(new SQLGenerator('sqlite').generateSeedDataSQL(tenants)).toHaveLength(1);
+  });
+
+  it('resets the sequence of a seeded serial column', () => {
+    const sql = new SQLGenerator('postgresql').generateExportSQL(
+      project({ tables: [{ ...tenants, columns: [primaryKey('id', { dataType: 'SERIAL' }), tenants.columns[1]] }] }),
+      { ...DEFAULT_DUMP_OPTIONS, includeData: true }
+    );
+    expect(sql).toContain(`SELECT setval(pg_get_serial_sequence('"tenants"', 'id'), (SELECT max("id") FROM "tenants"));`);
+  });
+});
+
+describe('generateCreateTableSQL', () => {
+  it('writes only collations the dialect has', () => {
+    const users = table('users', [primaryKey(), column('email', { dataType: 'TEXT', collation: 'utf8mb4_bin' }), column('name', { dataType: 'TEXT', collation: 'NOCASE' })]);
+
+    const postgres = new SQLGenerator('postgresql').generateCreateTableSQL(users, [], [users]);
+    expect(postgres).toContain('"email" TEXT,');
+    expect(postgres).toContain('"name" TEXT,');
+    expect(new SQLGenerator('sqlite').generateCreateTableSQL(users, [], [users])).toContain('"name" TEXT COLLATE NOCASE');
+    expect(new SQLGenerator('mysql').generateCreateTableSQL(users, [], [users])).toContain('`email` TEXT COLLATE utf8mb4_bin');
+  });
+});
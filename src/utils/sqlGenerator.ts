@@ -1,23 +1,109 @@
-import { TableData, RelationshipData, SQLDialect, IndexData, ViewData, StoredProcedureData, TriggerData, DatabaseData, UserData } from '../types';
+import { TableData, Column, RelationshipData, SQLDialect, IndexData, ViewData, StoredProcedureData, TriggerData, DatabaseData, UserData, ForeignKeyDefinition, SchemaChange, ProjectData, DumpOptions, ConstraintNaming, TableConstraint, CustomTypeData } from '../types';
+import { DialectStrategy, SERIAL_TYPES, getDialectStrategy, ignoreOracleError, inheritTableCollation } from './sqlDialects';
+import { orderTablesByDependencies } from './dependencyOrder';
+import { getSeedColumns } from './seedData';
+import { resolveColumnPairs } from './relationshipColumns';
+import { isGeneratedColumn } from './generatedColumns';
+import { customTypesUsedBy, withStorageType } from './customTypes';
+import { DEFAULT_CONSTRAINT_NAMING, formatConstraintName, getConstraintNaming, getTableConstraints, isCompleteConstraint } from './tableConstraints';
+
+// Resolves a relationship to the table and column names of the FOREIGN KEY it produces
+export const getForeignKeyDefinition = (
+  relationship: RelationshipData,
+  tables: TableData[],
+  naming: ConstraintNaming = DEFAULT_CONSTRAINT_NAMING
+): ForeignKeyDefinition | null => {
+  const sourceTable = tables.find(t => t.id === relationship.sourceTable);
+  const targetTable = tables.find(t => t.id === relationship.targetTable);
+  const pairs = resolveColumnPairs(relationship, sourceTable, targetTable);
+
+  if (!sourceTable || !targetTable || !pairs) {
+    return null;
+  }
+
+  const columns = pairs.map(pair => pair.source.name);
+  return {
+    name: relationship.name?.trim() || formatConstraintName(naming.foreignKey, sourceTable.name, columns),
+    tableName: sourceTable.name,
+    columns,
+    referencedTable: targetTable.name,
+    referencedColumns: pairs.map(pair => pair.target.name),
+    onUpdate: relationship.onUpdate,
+    onDelete: relationship.onDelete
+  };
+};
+
+export const DEFAULT_DUMP_OPTIONS: DumpOptions = {
+  includeDatabases: true,
+  includeIndexes: true,
+  includeViews: true,
+  includeRoutines: true,
+  includeTriggers: true,
+  includeUsers: true,
+  includeData: true,
+  ifNotExists: false,
+  dropIfExists: false,
+  useTransaction: true,
+};
+
+// Privileges that PostgreSQL and Oracle grant on tables
+const TABLE_PRIVILEGES = ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'REFERENCES', 'TRIGGER'];
+
+interface DatabaseGroup {
+  database?: DatabaseData;
+  tables: TableData[];
+  views: ViewData[];
+  procedures: StoredProcedureData[];
+}
+
+// Objects without a database, or whose database was deleted, belong to the project's first database
+const groupByDatabase = (project: ProjectData): DatabaseGroup[] => {
+  const databaseOf = (item: { databaseId?: string }) =>
+    project.databases.some(db => db.id === item.databaseId) ? item.databaseId : project.databases[0]?.id;
+  const databases: (DatabaseData | undefined)[] = project.databases.length > 0 ? project.databases : [undefined];
+
+  return databases.map(database => ({
+    database,
+    tables: project.tables.filter(table => databaseOf(table) === database?.id),
+    views: project.views.filter(view => databaseOf(view) === database?.id),
+    procedures: project.procedures.filter(procedure => databaseOf(procedure) === database?.id),
+  }));
+};
+
+const quoteString = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const SEED_BATCH_SIZE = 100;
+
+// A NOT NULL column that an ALTER TABLE cannot fill for the rows a table already has
+const requiresBackfill = (column: Column) =>
+  column.isNotNull && !column.defaultValue?.trim() && !column.isAutoIncrement && !isGeneratedColumn(column) &&
+  !SERIAL_TYPES.includes(column.dataType.toUpperCase());
 
 export class SQLGenerator {
   private dialect: SQLDialect;
+  private strategy: DialectStrategy;
+  private naming: ConstraintNaming;
+  private customTypes: CustomTypeData[];
 
-  constructor(dialect: SQLDialect) {
+  constructor(dialect: SQLDialect, naming?: Partial<ConstraintNaming>, customTypes: CustomTypeData[] = []) {
     this.dialect = dialect;
+    this.strategy = getDialectStrategy(dialect, customTypes);
+    this.naming = getConstraintNaming(naming);
+    this.customTypes = customTypes;
   }
 
   // Database Operations
-  generateCreateDatabaseSQL(database: DatabaseData): string {
-    let sql = `CREATE DATABASE ${this.quoteIdentifier(database.name)}`;
-    
-    if (this.dialect === 'mysql') {
-      sql += ` CHARACTER SET ${database.charset}`;
-      sql += ` COLLATE ${database.collation}`;
+  generateCreateDatabaseSQL(database: DatabaseData, ifNotExists: boolean = false): string {
+    if (!this.isMySQLFamily()) {
+      return `CREATE DATABASE ${this.quoteIdentifier(database.name)};`;
     }
+
+    let sql = `CREATE DATABASE ${ifNotExists ? 'IF NOT EXISTS ' : ''}${this.quoteIdentifier(database.name)}`;
+    sql += ` CHARACTER SET ${database.charset}`;
+    sql += ` COLLATE ${database.collation}`;
     
-    if (database.comment) {
-      sql += ` COMMENT '${database.comment.replace(/'/g, "''")}'`;
+    if (database.comment && this.dialect === 'mariadb') {
+      sql += ` COMMENT ${quoteString(database.comment)}`;
     }
     
     return sql + ';';
@@ -28,89 +114,27 @@ export class SQLGenerator {
   }
 
   generateUseDatabaseSQL(databaseName: string): string {
+    // PostgreSQL cannot switch databases in SQL; this is the psql command for it
+    if (this.dialect === 'postgresql') {
+      return `\\connect ${this.quoteIdentifier(databaseName)}`;
+    }
     return `USE ${this.quoteIdentifier(databaseName)};`;
   }
 
   // Table Operations
   generateCreateTableSQL(table: TableData, relationships: RelationshipData[], allTables: TableData[]): string {
-    const { name, columns } = table;
-    
-    let sql = `CREATE TABLE ${this.quoteIdentifier(name)} (\n`;
-    
-    const columnDefinitions = columns.map(column => {
-      let definition = `  ${this.quoteIdentifier(column.name)} ${this.formatDataType(column)}`;
-      
-      if (column.isNotNull) {
-        definition += ' NOT NULL';
-      }
-      
-      if (column.isAutoIncrement) {
-        definition += this.getAutoIncrementSyntax();
-      }
-      
-      if (column.defaultValue && column.defaultValue.trim() !== '') {
-        definition += ` DEFAULT ${this.formatDefaultValue(column.defaultValue)}`;
-      }
-
-      if (column.comment && this.dialect === 'mysql') {
-        definition += ` COMMENT '${column.comment.replace(/'/g, "''")}'`;
-      }
-      
-      return definition;
-    });
-
-    // Add PRIMARY KEY constraint
-    const primaryKeys = columns.filter(col => col.isPrimaryKey);
-    if (primaryKeys.length > 0) {
-      const pkNames = primaryKeys.map(col => this.quoteIdentifier(col.name)).join(', ');
-      columnDefinitions.push(`  PRIMARY KEY (${pkNames})`);
-    }
-
-    // Add UNIQUE constraints
-    const uniqueColumns = columns.filter(col => col.isUnique && !col.isPrimaryKey);
-    uniqueColumns.forEach(col => {
-      columnDefinitions.push(`  UNIQUE KEY ${this.quoteIdentifier(`uk_${col.name}`)} (${this.quoteIdentifier(col.name)})`);
-    });
-
-    // Add FOREIGN KEY constraints
-    const foreignKeys = relationships.filter(rel => rel.sourceTable === table.id);
-    foreignKeys.forEach(fk => {
-      const sourceCol = columns.find(col => col.id === fk.sourceColumn);
-      const targetTable = allTables.find(t => t.id === fk.targetTable);
-      if (sourceCol && targetTable) {
-        const targetCol = targetTable.columns.find(c => c.id === fk.targetColumn);
-        if (targetCol) {
-          const constraintName = `fk_${table.name}_${sourceCol.name}`;
-          columnDefinitions.push(
-            `  CONSTRAINT ${this.quoteIdentifier(constraintName)} FOREIGN KEY (${this.quoteIdentifier(sourceCol.name)}) REFERENCES ${this.quoteIdentifier(targetTable.name)}(${this.quoteIdentifier(targetCol.name)}) ON UPDATE ${fk.onUpdate} ON DELETE ${fk.onDelete}`
-          );
-        }
-      }
-    });
-
-    sql += columnDefinitions.join(',\n');
-    sql += '\n)';
+    const tables = [table, ...allTables.filter(t => t.id !== table.id)];
+    const foreignKeys = relationships
+      .filter(rel => rel.sourceTable === table.id)
+      .map(rel => getForeignKeyDefinition(rel, tables, this.naming))
+      .filter((fk): fk is ForeignKeyDefinition => fk !== null);
 
-    // Add table options for MySQL
-    if (this.dialect === 'mysql') {
-      if (table.engine) {
-        sql += ` ENGINE=${table.engine}`;
-      }
-      if (table.charset) {
-        sql += ` DEFAULT CHARSET=${table.charset}`;
-      }
-      if (table.collation) {
-        sql += ` COLLATE=${table.collation}`;
-      }
-      if (table.autoIncrement) {
-        sql += ` AUTO_INCREMENT=${table.autoIncrement}`;
-      }
-      if (table.comment) {
-        sql += ` COMMENT='${table.comment.replace(/'/g, "''")}'`;
-      }
-    }
+    return this.buildCreateTableSQL(table, foreignKeys);
+  }
 
-    return sql + ';';
+  private buildCreateTableSQL(table: TableData, foreignKeys: ForeignKeyDefinition[]): string {
+    const constraints = getTableConstraints(table, this.naming).filter(isCompleteConstraint);
+    return this.strategy.formatCreateTable(table, foreignKeys, constraints);
   }
 
   generateAlterTableSQL(table: TableData, operation: string, details: any): string {
@@ -118,9 +142,7 @@ export class SQLGenerator {
 
     switch (operation) {
       case 'ADD_COLUMN':
-        sql += ` ADD COLUMN ${this.quoteIdentifier(details.column.name)} ${this.formatDataType(details.column)}`;
-        if (details.column.isNotNull) sql += ' NOT NULL';
-        if (details.column.defaultValue) sql += ` DEFAULT ${this.formatDefaultValue(details.column.defaultValue)}`;
+        sql += this.strategy.formatAddColumn(inheritTableCollation(details.column, table));
         break;
       
       case 'DROP_COLUMN':
@@ -128,12 +150,43 @@ export class SQLGenerator {
         break;
       
       case 'MODIFY_COLUMN':
-        sql += ` MODIFY COLUMN ${this.quoteIdentifier(details.column.name)} ${this.formatDataType(details.column)}`;
+        sql += this.strategy.formatModifyColumn(
+          inheritTableCollation(details.column, table),
+          details.previousColumn && inheritTableCollation(details.previousColumn, table)
+        );
         break;
       
       case 'RENAME_COLUMN':
         sql += ` RENAME COLUMN ${this.quoteIdentifier(details.oldName)} TO ${this.quoteIdentifier(details.newName)}`;
         break;
+
+      case 'RENAME_TABLE':
+        sql += ` RENAME TO ${this.quoteIdentifier(details.newName)}`;
+        break;
+
+      case 'ADD_PRIMARY_KEY':
+        sql += ` ADD ${this.strategy.formatPrimaryKeyName(table)}PRIMARY KEY (${details.columns.map((col: string) => this.quoteIdentifier(col)).join(', ')})`;
+        break;
+
+      case 'DROP_PRIMARY_KEY':
+        sql += this.strategy.formatDropPrimaryKey(table);
+        break;
+
+      case 'ADD_UNIQUE':
+        sql += this.strategy.formatAddUnique(details.constraintName, details.columnName);
+        break;
+
+      case 'DROP_UNIQUE':
+        sql += this.strategy.formatDropUnique(details.constraintName);
+        break;
+
+      case 'ADD_FOREIGN_KEY':
+        sql += ` ADD ${this.strategy.formatForeignKeyConstraint(details.foreignKey)}`;
+        break;
+
+      case 'DROP_FOREIGN_KEY':
+        sql += this.strategy.formatDropForeignKey(details.foreignKey.name);
+        break;
       
       case 'ADD_INDEX':
         sql += ` ADD INDEX ${this.quoteIdentifier(details.indexName)} (${details.columns.map((col: string) => this.quoteIdentifier(col)).join(', ')})`;
@@ -157,49 +210,31 @@ export class SQLGenerator {
 
   // Index Operations
   generateCreateIndexSQL(index: IndexData, tableName: string): string {
-    let sql = '';
-    
-    switch (index.type) {
-      case 'INDEX':
-        sql = `CREATE INDEX ${this.quoteIdentifier(index.name)} ON ${this.quoteIdentifier(tableName)}`;
-        break;
-      case 'UNIQUE':
-        sql = `CREATE UNIQUE INDEX ${this.quoteIdentifier(index.name)} ON ${this.quoteIdentifier(tableName)}`;
-        break;
-      case 'FULLTEXT':
-        sql = `CREATE FULLTEXT INDEX ${this.quoteIdentifier(index.name)} ON ${this.quoteIdentifier(tableName)}`;
-        break;
-      case 'SPATIAL':
-        sql = `CREATE SPATIAL INDEX ${this.quoteIdentifier(index.name)} ON ${this.quoteIdentifier(tableName)}`;
-        break;
-    }
-
-    sql += ` (${index.columns.map(col => this.quoteIdentifier(col)).join(', ')})`;
-    
-    if (index.method && this.dialect === 'mysql') {
-      sql += ` USING ${index.method}`;
-    }
-
-    return sql + ';';
+    return this.strategy.formatCreateIndex(index, tableName);
   }
 
   generateDropIndexSQL(indexName: string, tableName?: string): string {
-    if (this.dialect === 'mysql' && tableName) {
-      return `DROP INDEX ${this.quoteIdentifier(indexName)} ON ${this.quoteIdentifier(tableName)};`;
-    }
-    return `DROP INDEX ${this.quoteIdentifier(indexName)};`;
+    return this.strategy.formatDropIndex(indexName, tableName);
   }
 
   // View Operations
-  generateCreateViewSQL(view: ViewData): string {
-    let sql = 'CREATE';
-    
-    if (view.algorithm !== 'UNDEFINED') {
-      sql += ` ALGORITHM = ${view.algorithm}`;
+  // With ifNotExists, dialects without CREATE VIEW IF NOT EXISTS replace the view instead
+  generateCreateViewSQL(view: ViewData, ifNotExists: boolean = false): string {
+    const definition = view.definition.trim().replace(/;+$/, '');
+    if (this.dialect === 'sqlite') {
+      return `CREATE VIEW ${ifNotExists ? 'IF NOT EXISTS ' : ''}${this.quoteIdentifier(view.name)} AS ${definition};`;
     }
+
+    let sql = ifNotExists ? 'CREATE OR REPLACE' : 'CREATE';
     
-    sql += ` SQL SECURITY ${view.sqlSecurity}`;
-    sql += ` VIEW ${this.quoteIdentifier(view.name)} AS ${view.definition}`;
+    if (this.isMySQLFamily()) {
+      if (view.algorithm !== 'UNDEFINED') {
+        sql += ` ALGORITHM = ${view.algorithm}`;
+      }
+      sql += ` SQL SECURITY ${view.sqlSecurity}`;
+    }
+
+    sql += ` VIEW ${this.quoteIdentifier(view.name)} AS ${definition}`;
     
     if (view.isUpdatable) {
       sql += ' WITH CHECK OPTION';
@@ -208,17 +243,56 @@ export class SQLGenerator {
     return sql + ';';
   }
 
-  generateDropViewSQL(viewName: string): string {
-    return `DROP VIEW ${this.quoteIdentifier(viewName)};`;
+  generateDropViewSQL(viewName: string, ifExists: boolean = false): string {
+    if (ifExists && this.dialect === 'oracle') {
+      return ignoreOracleError(`DROP VIEW ${this.quoteIdentifier(viewName)}`, -942);
+    }
+    return `DROP VIEW ${this.ifExists(ifExists)}${this.quoteIdentifier(viewName)};`;
   }
 
   // Stored Procedure Operations
-  generateCreateProcedureSQL(procedure: StoredProcedureData): string {
+  generateCreateProcedureSQL(procedure: StoredProcedureData, ifNotExists: boolean = false): string {
+    const name = this.quoteIdentifier(procedure.name);
+    const orReplace = ifNotExists ? 'OR REPLACE ' : '';
+
+    switch (this.dialect) {
+      case 'sqlite':
+        return `-- SQLite does not support stored routines; skipped ${procedure.name}`;
+
+      case 'postgresql': {
+        const paramList = procedure.parameters.map(param => `${param.direction} ${this.quoteIdentifier(param.name)} ${param.type}`).join(', ');
+        let sql = `CREATE ${orReplace}${procedure.type} ${name}(${paramList})`;
+        if (procedure.type === 'FUNCTION') {
+          sql += ` RETURNS ${procedure.returnType || 'void'}`;
+        }
+        sql += ' LANGUAGE plpgsql';
+        if (procedure.type === 'FUNCTION' && procedure.deterministic) {
+          sql += ' IMMUTABLE';
+        }
+        sql += ` SECURITY ${procedure.sqlSecurity}`;
+        return `${sql}\nAS $$\nBEGIN\n${procedure.body}\nEND;\n$$;`;
+      }
+
+      case 'oracle': {
+        const paramList = procedure.parameters.map(param => `${this.quoteIdentifier(param.name)} ${param.direction === 'INOUT' ? 'IN OUT' : param.direction} ${param.type}`).join(', ');
+        let sql = `CREATE ${orReplace}${procedure.type} ${name}${paramList ? `(${paramList})` : ''}`;
+        if (procedure.type === 'FUNCTION') {
+          sql += ` RETURN ${procedure.returnType || 'NUMBER'}`;
+          if (procedure.deterministic) {
+            sql += ' DETERMINISTIC';
+          }
+        }
+        sql += ` AUTHID ${procedure.sqlSecurity === 'DEFINER' ? 'DEFINER' : 'CURRENT_USER'}`;
+        return `${sql}\nAS\nBEGIN\n${procedure.body}\nEND;\n/`;
+      }
+    }
+
     const paramList = procedure.parameters.map(param => 
       `${param.direction} ${this.quoteIdentifier(param.name)} ${param.type}`
     ).join(', ');
 
-    let sql = `CREATE ${procedure.type} ${this.quoteIdentifier(procedure.name)}(${paramList})`;
+    const modifier = !ifNotExists ? '' : this.dialect === 'mariadb' ? 'OR REPLACE ' : '';
+    let sql = `CREATE ${modifier}${procedure.type} ${this.dialect === 'mysql' && ifNotExists ? 'IF NOT EXISTS ' : ''}${name}(${paramList})`;
     
     if (procedure.type === 'FUNCTION' && procedure.returnType) {
       sql += ` RETURNS ${procedure.returnType}`;
@@ -231,7 +305,7 @@ export class SQLGenerator {
     sql += ` SQL SECURITY ${procedure.sqlSecurity}`;
     
     if (procedure.comment) {
-      sql += ` COMMENT '${procedure.comment.replace(/'/g, "''")}'`;
+      sql += ` COMMENT ${quoteString(procedure.comment)}`;
     }
     
     sql += `\nBEGIN\n${procedure.body}\nEND`;
@@ -239,19 +313,36 @@ export class SQLGenerator {
     return sql + ';';
   }
 
-  generateDropProcedureSQL(name: string, type: 'PROCEDURE' | 'FUNCTION'): string {
-    return `DROP ${type} ${this.quoteIdentifier(name)};`;
+  generateDropProcedureSQL(name: string, type: 'PROCEDURE' | 'FUNCTION', ifExists: boolean = false): string {
+    // ORA-04043: object does not exist
+    if (ifExists && this.dialect === 'oracle') {
+      return ignoreOracleError(`DROP ${type} ${this.quoteIdentifier(name)}`, -4043);
+    }
+    return `DROP ${type} ${this.ifExists(ifExists)}${this.quoteIdentifier(name)};`;
   }
 
   // Trigger Operations
-  generateCreateTriggerSQL(trigger: TriggerData, tableName: string): string {
-    let sql = `CREATE TRIGGER ${this.quoteIdentifier(trigger.name)}`;
-    sql += ` ${trigger.timing} ${trigger.event}`;
-    sql += ` ON ${this.quoteIdentifier(tableName)}`;
-    sql += ' FOR EACH ROW';
-    sql += `\nBEGIN\n${trigger.body}\nEND`;
+  generateCreateTriggerSQL(trigger: TriggerData, tableName: string, ifNotExists: boolean = false): string {
+    const name = this.quoteIdentifier(trigger.name);
+    const event = `${trigger.timing} ${trigger.event} ON ${this.quoteIdentifier(tableName)} FOR EACH ROW`;
 
-    return sql + ';';
+    switch (this.dialect) {
+      // PostgreSQL triggers call a function that holds the body
+      case 'postgresql': {
+        const functionName = this.quoteIdentifier(`${trigger.name}_fn`);
+        const returnRow = /\bRETURN\b/i.test(trigger.body) ? '' : `\nRETURN ${trigger.event === 'DELETE' ? 'OLD' : 'NEW'};`;
+        return `CREATE OR REPLACE FUNCTION ${functionName}() RETURNS trigger LANGUAGE plpgsql\nAS $$\nBEGIN\n${trigger.body}${returnRow}\nEND;\n$$;\n` +
+          `CREATE ${ifNotExists ? 'OR REPLACE ' : ''}TRIGGER ${name} ${event} EXECUTE FUNCTION ${functionName}();`;
+      }
+
+      case 'oracle':
+        return `CREATE ${ifNotExists ? 'OR REPLACE ' : ''}TRIGGER ${name} ${event}\nBEGIN\n${trigger.body}\nEND;\n/`;
+
+      case 'mariadb':
+        return `CREATE ${ifNotExists ? 'OR REPLACE ' : ''}TRIGGER ${name} ${event}\nBEGIN\n${trigger.body}\nEND;`;
+    }
+
+    return `CREATE TRIGGER ${ifNotExists ? 'IF NOT EXISTS ' : ''}${name} ${event}\nBEGIN\n${trigger.body}\nEND;`;
   }
 
   generateDropTriggerSQL(triggerName: string): string {
@@ -259,17 +350,52 @@ export class SQLGenerator {
   }
 
   // User Management
-  generateCreateUserSQL(user: UserData): string {
-    let sql = `CREATE USER ${this.quoteIdentifier(user.username)}@${this.quoteIdentifier(user.host)}`;
+  generateCreateUserSQL(user: UserData, ifNotExists: boolean = false): string {
+    switch (this.dialect) {
+      case 'sqlite':
+        return `-- SQLite has no users; skipped ${user.username}`;
+      case 'postgresql': {
+        const createRole = `CREATE ROLE ${this.quoteIdentifier(user.username)} LOGIN${user.password ? ` PASSWORD ${quoteString(user.password)}` : ''};`;
+        // PostgreSQL has no CREATE ROLE IF NOT EXISTS
+        return ifNotExists
+          ? `DO $$\nBEGIN\n  IF NOT EXISTS (SELECT FROM pg_roles WHERE rolname = ${quoteString(user.username)}) THEN\n    ${createRole}\n  END IF;\nEND\n$$;`
+          : createRole;
+      }
+      case 'oracle': {
+        const authentication = user.password ? `IDENTIFIED BY "${user.password.replace(/"/g, '')}"` : 'NO AUTHENTICATION';
+        const createUser = `CREATE USER ${this.quoteIdentifier(user.username)} ${authentication};`;
+        // ORA-01920: the user name conflicts with another user or role
+        return `${ifNotExists ? ignoreOracleError(createUser, -1920) : createUser}\nGRANT CREATE SESSION TO ${this.quoteIdentifier(user.username)};`;
+      }
+    }
+
+    let sql = `CREATE USER ${ifNotExists ? 'IF NOT EXISTS ' : ''}${this.quoteIdentifier(user.username)}@${this.quoteIdentifier(user.host)}`;
     
     if (user.password) {
-      sql += ` IDENTIFIED BY '${user.password}'`;
+      sql += ` IDENTIFIED BY ${quoteString(user.password)}`;
     }
 
     return sql + ';';
   }
 
+  // PostgreSQL and Oracle only get the table privileges; without a table PostgreSQL grants on
+  // every table of the public schema
   generateGrantPrivilegesSQL(user: UserData, database?: string, table?: string): string {
+    if (this.dialect === 'sqlite') {
+      return `-- SQLite has no privileges; skipped ${user.username}`;
+    }
+
+    if (this.dialect === 'postgresql' || this.dialect === 'oracle') {
+      const privileges = user.privileges.includes('ALL PRIVILEGES')
+        ? ['ALL PRIVILEGES']
+        : user.privileges.filter(privilege => TABLE_PRIVILEGES.includes(privilege));
+      const target = table ? this.quoteIdentifier(table) : 'ALL TABLES IN SCHEMA public';
+      if (privileges.length === 0 || (this.dialect === 'oracle' && !table)) {
+        return `-- No table privileges to grant to ${user.username}`;
+      }
+      return `GRANT ${privileges.join(', ')} ON ${target} TO ${this.quoteIdentifier(user.username)};`;
+    }
+
     const privileges = user.privileges.join(', ');
     let target = '*.*';
     
@@ -317,6 +443,23 @@ export class SQLGenerator {
     return sql + ';';
   }
 
+  // Seed rows as multi-row INSERTs of up to SEED_BATCH_SIZE rows each
+  generateSeedDataSQL(table: TableData): string[] {
+    const rows = table.seedRows ?? [];
+    const columns = getSeedColumns(table.columns, rows);
+    if (columns.length === 0) return [];
+
+    const values = rows.map(row => columns.map(column =>
+      this.strategy.formatSeedValue(row[column.id], withStorageType(column, this.customTypes, this.dialect))));
+    const statements: string[] = [];
+    for (let i = 0; i < values.length; i += SEED_BATCH_SIZE) {
+      statements.push(this.strategy.formatInsertRows(table.name, columns.map(c => c.name), values.slice(i, i + SEED_BATCH_SIZE)));
+    }
+    // Later inserts that leave the identity to the database continue after the seeded values
+    statements.push(...columns.flatMap(column => this.strategy.formatResetIdentity?.(table.name, column) ?? []));
+    return statements;
+  }
+
   generateUpdateSQL(tableName: string, data: Record<string, any>, where: string): string {
     const sets = Object.entries(data).map(([col, val]) => 
       `${this.quoteIdentifier(col)} = ${this.formatValue(val)}`
@@ -354,106 +497,352 @@ export class SQLGenerator {
   }
 
   // Backup and Restore
-  generateExportSQL(tables: TableData[], includeData: boolean = true): string {
-    let sql = `-- SQL Architect Export\n-- Generated on ${new Date().toISOString()}\n\n`;
-    
-    // Export structure
-    tables.forEach(table => {
-      sql += `-- Table structure for ${table.name}\n`;
-      sql += `DROP TABLE IF EXISTS ${this.quoteIdentifier(table.name)};\n`;
-      sql += this.generateCreateTableSQL(table, [], tables) + '\n\n';
+  // A complete script for the project, grouped per database. Tables follow their foreign keys and
+  // indexes and triggers follow their tables.
+  generateExportSQL(project: ProjectData, options: DumpOptions = DEFAULT_DUMP_OPTIONS): string {
+    const sections = [
+      `-- ${project.name}\n-- SQL Architect dump for ${this.dialect}\n-- Generated on ${new Date().toISOString()}`
+    ];
+
+    // DROP IF EXISTS may meet tables of an older schema that still reference each other
+    if (this.isMySQLFamily()) {
+      sections.push('SET FOREIGN_KEY_CHECKS = 0;');
+    }
+
+    // Users outlive the tables a re-run drops, so either option only creates the missing ones
+    if (options.includeUsers && project.users.length > 0) {
+      sections.push(this.dialect === 'sqlite'
+        ? '-- SQLite has no users or privileges'
+        : project.users.map(user => this.generateCreateUserSQL(user, options.ifNotExists || options.dropIfExists)).join('\n'));
+    }
+
+    groupByDatabase(project).forEach(group => {
+      sections.push(this.generateDatabaseDump(project, group, options));
     });
 
-    if (includeData) {
-      sql += '-- Table data\n';
-      tables.forEach(table => {
-        sql += `-- Data for table ${table.name}\n`;
-        sql += `-- INSERT statements would go here\n\n`;
+    if (this.isMySQLFamily()) {
+      sections.push('SET FOREIGN_KEY_CHECKS = 1;');
+    }
+
+    return sections.join('\n\n') + '\n';
+  }
+
+  private generateDatabaseDump(project: ProjectData, group: DatabaseGroup, options: DumpOptions): string {
+    const { database, tables, views, procedures } = group;
+    const tableIds = new Set(tables.map(t => t.id));
+    const relationships = project.relationships.filter(r => tableIds.has(r.sourceTable) && tableIds.has(r.targetTable));
+    const tableName = (tableId: string) => tables.find(t => t.id === tableId)!.name;
+
+    const header = [`-- Database: ${database?.name ?? project.name}`];
+    if (options.includeDatabases && database) {
+      if (this.dialect === 'sqlite' || this.dialect === 'oracle') {
+        header.push(`-- ${this.dialect === 'sqlite' ? 'SQLite keeps one database per file' : 'Oracle databases are created by the DBA'}; run this script against ${database.name}`);
+      } else {
+        // CREATE DATABASE cannot run inside a transaction, so it stays outside of it
+        header.push(this.generateCreateDatabaseSQL(database, options.ifNotExists), this.generateUseDatabaseSQL(database.name));
+      }
+    }
+
+    const statements: string[] = [];
+
+    // Dropping a table also drops its indexes and triggers
+    if (options.dropIfExists) {
+      if (options.includeViews) {
+        statements.push(...views.map(view => this.generateDropViewSQL(view.name, true)));
+      }
+      if (options.includeRoutines && this.dialect !== 'sqlite') {
+        statements.push(...procedures.map(procedure => this.generateDropProcedureSQL(procedure.name, procedure.type, true)));
+      }
+      statements.push(...orderTablesByDependencies(tables, relationships).tables
+        .reverse()
+        .map(table => this.strategy.formatDropTable(table.name, true)));
+      statements.push(...this.generateDropTypeStatements(tables, true));
+    }
+
+    // Rows go in before the foreign keys that close a cycle, so both sides of the cycle exist when it is checked
+    const { typeStatements, createStatements, alterStatements } = this.generateTableStatements(tables, relationships);
+    statements.push(...typeStatements, ...createStatements
+      .map(sql => options.ifNotExists && this.dialect !== 'oracle' ? sql.replace(/^CREATE TABLE /, 'CREATE TABLE IF NOT EXISTS ') : sql));
+    if (options.includeData) {
+      statements.push(...orderTablesByDependencies(tables, relationships).tables.flatMap(table => this.generateSeedDataSQL(table)));
+    }
+    statements.push(...alterStatements);
+
+    if (options.includeIndexes) {
+      const indexIfNotExists = options.ifNotExists && ['postgresql', 'sqlite', 'mariadb'].includes(this.dialect);
+      statements.push(...project.indexes
+        .filter(index => tableIds.has(index.tableId) && index.type !== 'PRIMARY')
+        .map(index => this.generateCreateIndexSQL(index, tableName(index.tableId)))
+        .map(sql => indexIfNotExists ? sql.replace(/^CREATE ((?:UNIQUE )?INDEX) /, 'CREATE $1 IF NOT EXISTS ') : sql));
+    }
+
+    if (options.includeViews) {
+      statements.push(...views.map(view => this.generateCreateViewSQL(view, options.ifNotExists)));
+    }
+
+    const routines = [
+      ...(options.includeRoutines ? procedures.map(procedure => this.generateCreateProcedureSQL(procedure, options.ifNotExists)) : []),
+      ...(options.includeTriggers ? project.triggers
+        .filter(trigger => tableIds.has(trigger.tableId))
+        .map(trigger => this.generateCreateTriggerSQL(trigger, tableName(trigger.tableId), options.ifNotExists)) : []),
+    ];
+    // The mysql client splits statements at semicolons, so bodies need another delimiter
+    if (this.isMySQLFamily() && routines.length > 0) {
+      statements.push(['DELIMITER $$', ...routines.map(sql => sql.replace(/;$/, () => '$$')), 'DELIMITER ;'].join('\n\n'));
+    } else {
+      statements.push(...routines);
+    }
+
+    if (options.includeUsers && this.dialect !== 'sqlite') {
+      project.users.forEach(user => {
+        if (this.dialect === 'oracle') {
+          statements.push(...tables.map(table => this.generateGrantPrivilegesSQL(user, undefined, table.name)));
+        } else {
+          statements.push(this.generateGrantPrivilegesSQL(user, database?.name));
+        }
       });
     }
 
-    return sql;
+    const body = statements.join('\n\n');
+    const script = options.useTransaction && this.strategy.transactionalDDL ? `BEGIN;\n\n${body}\n\nCOMMIT;` : body;
+    return [...header, script].join('\n\n');
   }
 
   generateFullSQL(tables: TableData[], relationships: RelationshipData[]): string {
-    const sqlStatements = tables.map(table => 
-      this.generateCreateTableSQL(table, relationships, tables)
+    return this.generateFullStatements(tables, relationships).join('\n\n');
+  }
+
+  // The statements of generateFullSQL one by one; a CREATE TABLE keeps the statements that belong to it,
+  // such as its comments
+  generateFullStatements(tables: TableData[], relationships: RelationshipData[]): string[] {
+    const { typeStatements, createStatements, alterStatements } = this.generateTableStatements(tables, relationships);
+    return [...typeStatements, ...createStatements, ...alterStatements];
+  }
+
+  // The catalog types the tables use, CREATE TABLE statements in dependency order, and the foreign
+  // keys that close a cycle, which are added once all tables exist
+  private generateTableStatements(tables: TableData[], relationships: RelationshipData[]) {
+    const typeStatements = customTypesUsedBy(tables, this.customTypes)
+      .flatMap(type => this.strategy.formatCreateType?.(type) ?? []);
+    const deferred = this.getDeferredForeignKeys(tables, relationships);
+    const inlineRelationships = relationships.filter(rel => !deferred.some(({ relationship }) => relationship === rel));
+
+    const createStatements = orderTablesByDependencies(tables, relationships).tables.map(table =>
+      this.generateCreateTableSQL(table, inlineRelationships, tables)
     );
-    
-    return sqlStatements.join('\n\n');
+    const alterStatements = deferred.map(({ table, foreignKey }) =>
+      this.generateAlterTableSQL(table, 'ADD_FOREIGN_KEY', { foreignKey })
+    );
+
+    return { typeStatements, createStatements, alterStatements };
   }
 
-  // Private helper methods
-  private quoteIdentifier(identifier: string): string {
-    switch (this.dialect) {
-      case 'mysql':
-      case 'mariadb':
-        return `\`${identifier}\``;
-      case 'postgresql':
-      case 'sqlite':
-        return `"${identifier}"`;
-      case 'oracle':
-        return `"${identifier.toUpperCase()}"`;
-      default:
-        return identifier;
+  private generateDropTypeStatements(tables: TableData[], ifExists: boolean): string[] {
+    return customTypesUsedBy(tables, this.customTypes)
+      .reverse()
+      .flatMap(type => this.strategy.formatDropType?.(type, ifExists) ?? []);
+  }
+
+  // Drops tables in reverse creation order, after removing the foreign keys that form cycles
+  generateDropSQL(tables: TableData[], relationships: RelationshipData[]): string {
+    const dropForeignKeys = this.getDeferredForeignKeys(tables, relationships).map(({ table, foreignKey }) =>
+      this.generateAlterTableSQL(table, 'DROP_FOREIGN_KEY', { foreignKey })
+    );
+    const dropTables = orderTablesByDependencies(tables, relationships).tables
+      .reverse()
+      .map(table => this.generateDropTableSQL(table.name));
+
+    return [...dropForeignKeys, ...dropTables, ...this.generateDropTypeStatements(tables, false)].join('\n');
+  }
+
+  // SQLite cannot add foreign keys to existing tables, but it only checks them when rows are written,
+  // so there every foreign key stays inline
+  private getDeferredForeignKeys(tables: TableData[], relationships: RelationshipData[]) {
+    if (this.dialect === 'sqlite') {
+      return [];
     }
+    return orderTablesByDependencies(tables, relationships).deferredRelationships.flatMap(relationship => {
+      const table = tables.find(t => t.id === relationship.sourceTable);
+      const foreignKey = getForeignKeyDefinition(relationship, tables, this.naming);
+      return table && foreignKey ? [{ relationship, table, foreignKey }] : [];
+    });
   }
 
-  private formatDataType(column: any): string {
-    let dataType = column.dataType;
-    
-    if (column.length && ['VARCHAR', 'CHAR', 'VARBINARY', 'BINARY'].includes(column.dataType)) {
-      dataType += `(${column.length})`;
+  // Migrations
+  generateMigrationSQL(schemaChanges: SchemaChange[]): string {
+    // Without catalog types the dialect spells types out in the columns, whose changes are listed separately
+    const changes = this.strategy.formatCreateType
+      ? schemaChanges
+      : schemaChanges.filter(change => !['CREATE_TYPE', 'DROP_TYPE', 'ALTER_TYPE'].includes(change.type));
+    if (changes.length === 0) {
+      return '-- No schema changes detected';
     }
-    
-    if (column.dataType === 'DECIMAL' || column.dataType === 'NUMERIC') {
-      if (column.length) {
-        dataType += `(${column.length})`;
-      }
+
+    // SQLite cannot add constraints to existing tables, so foreign keys of new tables are declared inline
+    const inlineForeignKeys = this.dialect === 'sqlite'
+      ? changes.filter((change): change is Extract<SchemaChange, { type: 'ADD_FOREIGN_KEY' }> =>
+          change.type === 'ADD_FOREIGN_KEY' &&
+          changes.some(other => other.type === 'CREATE_TABLE' && other.table.name === change.foreignKey.tableName))
+      : [];
+
+    // ...and dropping a table takes its foreign keys with it
+    const droppedForeignKeys = this.dialect === 'sqlite'
+      ? changes.filter(change =>
+          change.type === 'DROP_FOREIGN_KEY' &&
+          changes.some(other => other.type === 'DROP_TABLE' && other.table.name === change.foreignKey.tableName))
+      : [];
+
+    return changes
+      .filter(change => !inlineForeignKeys.includes(change as Extract<SchemaChange, { type: 'ADD_FOREIGN_KEY' }>))
+      .filter(change => !droppedForeignKeys.includes(change))
+      .map(change => {
+        if (change.type === 'CREATE_TABLE') {
+          const foreignKeys = inlineForeignKeys
+            .filter(fk => fk.foreignKey.tableName === change.table.name)
+            .map(fk => fk.foreignKey);
+          return this.buildCreateTableSQL(change.table, foreignKeys);
+        }
+        return this.generateSchemaChangeSQL(change);
+      })
+      .join('\n');
+  }
+
+  private generateSchemaChangeSQL(change: SchemaChange): string {
+    // CREATE TABLE declares UNIQUE inline, where only rebuilding the table removes it
+    const unsupportedInSQLite = ['MODIFY_COLUMN', 'ADD_PRIMARY_KEY', 'DROP_PRIMARY_KEY', 'DROP_UNIQUE', 'ADD_FOREIGN_KEY', 'DROP_FOREIGN_KEY'];
+    if (this.dialect === 'sqlite' && unsupportedInSQLite.includes(change.type)) {
+      const tableName = 'foreignKey' in change ? change.foreignKey.tableName : 'table' in change ? change.table.name : 'to' in change ? change.to.name : '';
+      return `-- SQLite does not support ${change.type.replace(/_/g, ' ')} on an existing table; rebuild ${this.quoteIdentifier(tableName)} instead`;
     }
 
-    if (column.dataType === 'ENUM' || column.dataType === 'SET') {
-      if (column.length) {
-        const values = column.length.split(',').map((val: string) => `'${val.trim()}'`).join(', ');
-        dataType += `(${values})`;
+    switch (change.type) {
+      case 'CREATE_TABLE':
+        return this.buildCreateTableSQL(change.table, []);
+      case 'DROP_TABLE':
+        return this.generateDropTableSQL(change.table.name);
+      case 'RENAME_TABLE': {
+        const rename = this.generateAlterTableSQL(change.from, 'RENAME_TABLE', { newName: change.to.name });
+        // PostgreSQL keeps the <table>_pkey name of the old table, so a key that survives the migration is
+        // renamed to match the new one; a changed key was dropped before the rename and is added after it
+        const keyOf = (table: TableData) => table.columns.filter(c => c.isPrimaryKey).map(c => c.id).join(',');
+        if (this.dialect === 'postgresql' && !change.from.primaryKeyName && !change.to.primaryKeyName &&
+          keyOf(change.from) !== '' && keyOf(change.from) === keyOf(change.to)) {
+          const constraint = `${this.quoteIdentifier(`${change.from.name}_pkey`)} TO ${this.quoteIdentifier(`${change.to.name}_pkey`)}`;
+          return `${rename}\nALTER TABLE ${this.quoteIdentifier(change.to.name)} RENAME CONSTRAINT ${constraint};`;
+        }
+        return rename;
+      }
+      case 'ADD_COLUMN':
+        // SQLite computes stored columns when rows are written, so it can only add virtual ones
+        if (this.dialect === 'sqlite' && isGeneratedColumn(change.column) && change.column.generatedStorage !== 'VIRTUAL') {
+          return `-- SQLite cannot add the stored generated column ${this.quoteIdentifier(change.column.name)} to an existing table; rebuild ${this.quoteIdentifier(change.table.name)} instead`;
+        }
+        if (requiresBackfill(change.column)) {
+          return this.generateAddRequiredColumnSQL(change.table, change.column);
+        }
+        return this.generateAlterTableSQL(change.table, 'ADD_COLUMN', { column: change.column });
+      case 'DROP_COLUMN':
+        return this.generateAlterTableSQL(change.table, 'DROP_COLUMN', { columnName: change.column.name });
+      case 'MODIFY_COLUMN':
+        // Only MySQL can turn an existing column into a generated one; elsewhere it is dropped and added again
+        if (!this.isMySQLFamily() && isGeneratedColumn(change.to) && !isGeneratedColumn(change.from)) {
+          return [
+            this.generateAlterTableSQL(change.table, 'DROP_COLUMN', { columnName: change.from.name }),
+            this.generateAlterTableSQL(change.table, 'ADD_COLUMN', { column: change.to }),
+          ].join('\n');
+        }
+        return this.generateAlterTableSQL(change.table, 'MODIFY_COLUMN', { column: change.to, previousColumn: change.from });
+      case 'RENAME_COLUMN':
+        return this.generateAlterTableSQL(change.table, 'RENAME_COLUMN', { oldName: change.from.name, newName: change.to.name });
+      case 'ADD_PRIMARY_KEY':
+        return this.generateAlterTableSQL(change.table, 'ADD_PRIMARY_KEY', { columns: change.columns });
+      case 'DROP_PRIMARY_KEY':
+        return this.generateAlterTableSQL(change.table, 'DROP_PRIMARY_KEY', {});
+      case 'ADD_UNIQUE':
+      case 'DROP_UNIQUE': {
+        const { constraintName } = change;
+        // SQLite can only add one to an existing table as a unique index
+        if (this.dialect === 'sqlite' && change.type === 'ADD_UNIQUE') {
+          return `CREATE UNIQUE INDEX ${this.quoteIdentifier(constraintName)} ON ${this.quoteIdentifier(change.table.name)} (${this.quoteIdentifier(change.column.name)});`;
+        }
+        return this.generateAlterTableSQL(change.table, change.type, { constraintName, columnName: change.column.name });
       }
+      case 'ADD_CONSTRAINT':
+        return this.generateAddConstraintSQL(change.table, change.constraint);
+      case 'DROP_CONSTRAINT':
+        return this.generateDropConstraintSQL(change.table, change.constraint);
+      case 'ADD_INDEX':
+        return this.generateCreateIndexSQL(change.index, change.table.name);
+      case 'DROP_INDEX':
+        return this.generateDropIndexSQL(change.index.name, change.table.name);
+      case 'ADD_FOREIGN_KEY':
+        return `ALTER TABLE ${this.quoteIdentifier(change.foreignKey.tableName)} ADD ${this.strategy.formatForeignKeyConstraint(change.foreignKey)};`;
+      case 'DROP_FOREIGN_KEY':
+        return `ALTER TABLE ${this.quoteIdentifier(change.foreignKey.tableName)}${this.strategy.formatDropForeignKey(change.foreignKey.name)};`;
+      case 'CREATE_TYPE':
+        return this.strategy.formatCreateType?.(change.customType) ?? '';
+      case 'DROP_TYPE':
+        return this.strategy.formatDropType?.(change.customType, false) ?? '';
+      case 'ALTER_TYPE':
+        return (this.strategy.formatAlterType?.(change.from, change.to) ?? []).join('\n');
     }
-
-    return dataType;
   }
 
-  private getAutoIncrementSyntax(): string {
-    switch (this.dialect) {
-      case 'mysql':
-      case 'mariadb':
-        return ' AUTO_INCREMENT';
-      case 'postgresql':
-        return ''; // PostgreSQL uses SERIAL types
-      case 'sqlite':
-        return ' AUTOINCREMENT';
-      default:
-        return ' AUTO_INCREMENT';
+  // Existing rows have no value for the column, so it is added nullable and made NOT NULL once they are
+  // backfilled; SQLite rejects the column outright and cannot add NOT NULL later
+  private generateAddRequiredColumnSQL(table: TableData, column: Column): string {
+    const tableName = this.quoteIdentifier(table.name);
+    const columnName = this.quoteIdentifier(column.name);
+    if (this.dialect === 'sqlite') {
+      return `-- SQLite cannot add the NOT NULL column ${columnName} without a default to an existing table; rebuild ${tableName} instead`;
     }
+    const nullable = { ...column, isNotNull: false };
+    return [
+      this.generateAlterTableSQL(table, 'ADD_COLUMN', { column: nullable }),
+      `-- ${columnName} is NOT NULL without a default; backfill the existing rows first, e.g.`,
+      `-- UPDATE ${tableName} SET ${columnName} = ... WHERE ${columnName} IS NULL;`,
+      this.generateAlterTableSQL(table, 'MODIFY_COLUMN', { column, previousColumn: nullable }),
+    ].join('\n');
+  }
+
+  // SQLite can only add a UNIQUE constraint to an existing table, as a unique index
+  private generateAddConstraintSQL(table: TableData, constraint: TableConstraint): string {
+    const tableName = this.quoteIdentifier(table.name);
+    if (this.dialect === 'sqlite' && constraint.kind === 'UNIQUE') {
+      return `CREATE UNIQUE INDEX ${this.quoteIdentifier(constraint.name)} ON ${tableName} (${(constraint.columns ?? []).map(c => this.quoteIdentifier(c)).join(', ')});`;
+    }
+    if (this.dialect === 'sqlite') {
+      return `-- SQLite does not support ADD ${constraint.kind} on an existing table; rebuild ${tableName} instead`;
+    }
+    const definition = this.strategy.formatTableConstraint(constraint);
+    return definition
+      ? `ALTER TABLE ${tableName} ADD ${definition};`
+      : `-- ${constraint.kind} constraint ${constraint.name} is not supported by ${this.dialect} and was left out`;
   }
 
-  private formatDefaultValue(value: string): string {
-    const upperValue = value.toUpperCase();
-    
-    if (['NOW()', 'CURRENT_TIMESTAMP', 'CURRENT_DATE', 'CURRENT_TIME'].includes(upperValue)) {
-      return value;
+  private generateDropConstraintSQL(table: TableData, constraint: TableConstraint): string {
+    const tableName = this.quoteIdentifier(table.name);
+    if (this.dialect === 'sqlite') {
+      return `-- SQLite does not support DROP ${constraint.kind} on an existing table; rebuild ${tableName} instead`;
     }
-    
-    if (value === 'NULL') {
-      return value;
-    }
-    
-    // Check if it's a number
-    if (!isNaN(Number(value))) {
-      return value;
+    if (this.strategy.formatTableConstraint(constraint) === null) {
+      return `-- ${constraint.kind} constraint ${constraint.name} is not supported by ${this.dialect}; nothing to drop`;
     }
-    
-    // String values should be quoted
-    return `'${value.replace(/'/g, "''")}'`;
+    return `ALTER TABLE ${tableName}${this.strategy.formatDropConstraint(constraint)};`;
+  }
+
+  // Private helper methods
+  private isMySQLFamily(): boolean {
+    return this.dialect === 'mysql' || this.dialect === 'mariadb';
+  }
+
+  // Oracle has no IF EXISTS on DROP; its drops ignore the error instead
+  private ifExists(ifExists: boolean): string {
+    return ifExists && this.dialect !== 'oracle' ? 'IF EXISTS ' : '';
+  }
+
+  private quoteIdentifier(identifier: string): string {
+    return this.strategy.quoteIdentifier(identifier);
   }
 
   private formatValue(value: any): string {
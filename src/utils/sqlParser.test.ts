@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectData, SQLDialect } from '../types';
+import { SQLParser } from './sqlParser';
+import { DEFAULT_DUMP_OPTIONS, SQLGenerator } from './sqlGenerator';
+import { column, primaryKey, project, relationship, table } from '../test/fixtures';
+
+// The types each dialect reads back as it wrote them
+const TYPES: Record<string, { integer: string; text: string; length?: string }> = {
+  mysql: { integer: 'INT', text: 'VARCHAR', length: '255' },
+  postgresql: { integer: 'integer', text: 'varchar', length: '255' },
+  sqlite: { integer: 'INTEGER', text: 'TEXT' },
+};
+
+const accounts = (dialect: SQLDialect) => {
+  const { integer, text, length } = TYPES[dialect];
+  return project({
+    dialect,
+    customTypes: [{ id: 'status', name: 'status', kind: 'ENUM', values: ['active', 'banned'] }],
+    tables: [
+      table('tenants', [
+        primaryKey('id', { dataType: integer, isAutoIncrement: true }),
+        column('name', { dataType: text, length, isNotNull: true, isUnique: true }),
+      ]),
+      table('users', [
+        primaryKey('id', { dataType: integer, isAutoIncrement: true }),
+        column('tenant_id', { dataType: integer, isNotNull: true }),
+        column('email', { dataType: text, length, isNotNull: true }),
+        column('status', { dataType: 'status', customTypeId: 'status', isNotNull: true, defaultValue: 'active' }),
+      ], {
+        constraints: [
+          { id: 'uq', name: 'uq_t_email', kind: 'UNIQUE', columns: ['tenant_id', 'email'] },
+          { id: 'ck', name: 'chk_users_email', kind: 'CHECK', expression: "email LIKE '%@%'" },
+        ],
+      }),
+    ],
+    relationships: [relationship('users', 'tenant_id', 'tenants', 'id', { onDelete: 'CASCADE' })],
+    indexes: [{ id: 'ix', name: 'idx_users_email', tableId: 'users', columns: ['email'], type: 'INDEX' }],
+  });
+};
+
+const dump = (source: ProjectData) =>
+  new SQLGenerator(source.dialect, undefined, source.customTypes)
+    .generateExportSQL(source, { ...DEFAULT_DUMP_OPTIONS, includeData: false })
+    .replace(/-- Generated on .*\n/, '');
+
+describe('SQL round trip', () => {
+  it.each(['mysql', 'postgresql', 'sqlite'] as SQLDialect[])('%s reads back the SQL it generates', dialect => {
+    const sql = dump(accounts(dialect));
+    const parsed = new SQLParser(dialect).parse(sql);
+
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.indexes.map(index => index.name)).toEqual(['idx_users_email']);
+    expect(parsed.tables[1].constraints).toEqual([
+      expect.objectContaining({ name: 'uq_t_email', kind: 'UNIQUE', columns: ['tenant_id', 'email'] }),
+      expect.objectContaining({ name: 'chk_users_email', kind: 'CHECK' }),
+    ]);
+    expect(dump(project({ dialect, ...parsed }))).toBe(sql);
+  });
+
+  it('reads back an Oracle script whose drops and routines are PL/SQL blocks ending at /', () => {
+    const oracle = project({
+      dialect: 'oracle',
+      tables: [
+        table('tenants', [primaryKey('id', { dataType: 'NUMBER', length: '10', isAutoIncrement: true })], { seedRows: [{ id: '1' }] }),
+        table('users', [primaryKey('id', { dataType: 'NUMBER', length: '10' }), column('tenant_id', { dataType: 'NUMBER', length: '10' })]),
+      ],
+      relationships: [relationship('users', 'tenant_id', 'tenants', 'id')],
+      triggers: [{ id: 't', name: 'users_bi', tableId: 'users', timing: 'BEFORE', event: 'INSERT', body: ':NEW.id := 1;\nNULL;' }],
+    });
+    const sql = new SQLGenerator('oracle').generateExportSQL(oracle, { ...DEFAULT_DUMP_OPTIONS, dropIfExists: true });
+    const parsed = new SQLParser('oracle').parse(sql);
+
+    expect(parsed.tables.map(t => t.name)).toEqual(['TENANTS', 'USERS']);
+    expect(parsed.tables[0].columns[0].isAutoIncrement).toBe(true);
+    expect(parsed.relationships).toEqual([expect.objectContaining({ sourceTable: parsed.tables[1].id, targetTable: parsed.tables[0].id })]);
+    expect(parsed.warnings).toEqual(['Skipped CREATE TRIGGER statement']);
+  });
+
+  it('keeps the names of foreign keys for the DDL that recreates or drops them', () => {
+    const parsed = new SQLParser('postgresql').parse(`
+      CREATE TABLE tenants (id integer PRIMARY KEY);
+      CREATE TABLE users (id integer PRIMARY KEY, tenant_id integer CONSTRAINT users_tenant_fkey REFERENCES tenants (id), invited_by integer);
+      ALTER TABLE users ADD CONSTRAINT users_inviter_fkey FOREIGN KEY (invited_by) REFERENCES users (id);
+    `);
+    expect(parsed.relationships.map(r => r.name)).toEqual(['users_tenant_fkey', 'users_inviter_fkey']);
+
+    const generator = new SQLGenerator('postgresql');
+    expect(generator.generateFullSQL(parsed.tables, parsed.relationships)).toContain('CONSTRAINT "users_tenant_fkey" FOREIGN KEY ("tenant_id")');
+    expect(generator.generateDropSQL(parsed.tables, parsed.relationships)).toContain('DROP CONSTRAINT "users_inviter_fkey"');
+  });
+
+  it('restores the enum behind a SQLite CHECK on the column', () => {
+    const parsed = new SQLParser('sqlite').parse(`CREATE TABLE "t" ("size" TEXT CHECK ("size" IN ('S', 'M')), "n" INTEGER CHECK (n IN (1, 2)));`);
+
+    expect(parsed.customTypes).toEqual([expect.objectContaining({ kind: 'ENUM', values: ['S', 'M'] })]);
+    expect(parsed.tables[0].columns[0].customTypeId).toBe(parsed.customTypes[0].id);
+    expect(parsed.tables[0].constraints).toEqual([expect.objectContaining({ kind: 'CHECK', expression: 'n IN(1, 2)' })]);
+  });
+});
@@ -0,0 +1,1199 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TableData, Column, IndexData, RelationshipData, ReferentialAction, SQLDialect, DATA_TYPES, TableConstraint, CustomTypeData } from '../types';
+import { columnPairFields, isUniqueKey } from './relationshipColumns';
+import { markJunctionTables } from './junctionTables';
+import { DEFAULT_CONSTRAINT_NAMING, suggestConstraintName } from './tableConstraints';
+import { formatValueList } from './customTypes';
+import { claimName } from './naming';
+
+// A terminator is a line holding only /, which ends a statement and is all that ends an Oracle PL/SQL block
+type TokenType = 'word' | 'identifier' | 'string' | 'number' | 'symbol' | 'terminator';
+
+interface Token {
+  type: TokenType;
+  value: string;
+}
+
+interface PendingForeignKey {
+  name?: string;
+  tableName: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onUpdate: ReferentialAction;
+  onDelete: ReferentialAction;
+}
+
+export interface ParsedSchema {
+  tables: TableData[];
+  relationships: RelationshipData[];
+  indexes: IndexData[];
+  customTypes: CustomTypeData[];
+  warnings: string[];
+}
+
+// Keywords that end a column's data type and start its constraint list
+const COLUMN_CONSTRAINT_KEYWORDS = new Set([
+  'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'UNIQUE', 'KEY', 'AUTO_INCREMENT', 'AUTOINCREMENT',
+  'IDENTITY', 'GENERATED', 'REFERENCES', 'CHECK', 'COMMENT', 'CONSTRAINT', 'COLLATE',
+  'CHARACTER', 'CHARSET', 'ON', 'UNSIGNED', 'SIGNED', 'ZEROFILL', 'AS', 'VIRTUAL', 'STORED'
+]);
+
+const TABLE_CONSTRAINT_KEYWORDS = new Set([
+  'CONSTRAINT', 'PRIMARY', 'UNIQUE', 'KEY', 'INDEX', 'FOREIGN', 'CHECK', 'FULLTEXT', 'SPATIAL', 'EXCLUDE'
+]);
+
+// Oracle statements whose body has semicolons of its own, so only a terminator ends them
+const PLSQL_UNITS = ['PROCEDURE', 'FUNCTION', 'TRIGGER', 'PACKAGE', 'TYPE'];
+
+// Statements that carry no schema information and are skipped without a warning
+const IGNORED_STATEMENTS = new Set([
+  'SET', 'USE', 'DROP', 'INSERT', 'REPLACE', 'UPDATE', 'DELETE', 'LOCK', 'UNLOCK', 'BEGIN',
+  'START', 'COMMIT', 'ROLLBACK', 'SELECT', 'PRAGMA', 'GRANT', 'REVOKE', 'ANALYZE', 'VACUUM'
+]);
+
+const TYPE_ALIASES: Partial<Record<SQLDialect, Record<string, string>>> = {
+  mysql: {
+    'BOOL': 'TINYINT',
+    'BOOLEAN': 'TINYINT',
+    'DOUBLE PRECISION': 'DOUBLE',
+    'CHARACTER VARYING': 'VARCHAR',
+    'CHARACTER': 'CHAR',
+    'DEC': 'DECIMAL'
+  },
+  postgresql: {
+    'int': 'integer',
+    'int2': 'smallint',
+    'int4': 'integer',
+    'int8': 'bigint',
+    'serial4': 'serial',
+    'serial8': 'bigserial',
+    'float4': 'real',
+    'float8': 'double precision',
+    'bool': 'boolean',
+    'character varying': 'varchar',
+    'character': 'char',
+    'timestamp without time zone': 'timestamp',
+    'time without time zone': 'time'
+  },
+  oracle: {
+    'VARCHAR': 'VARCHAR2',
+    'NVARCHAR': 'NVARCHAR2',
+    'INT': 'NUMBER',
+    'INTEGER': 'NUMBER',
+    'SMALLINT': 'NUMBER',
+    'DECIMAL': 'NUMBER',
+    'NUMERIC': 'NUMBER'
+  }
+};
+TYPE_ALIASES.mariadb = TYPE_ALIASES.mysql;
+
+const SERIAL_TYPES: Record<string, string> = {
+  smallint: 'smallserial',
+  integer: 'serial',
+  bigint: 'bigserial'
+};
+
+class TokenCursor {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  get done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  rest(): Token[] {
+    const rest = this.tokens.slice(this.position);
+    this.position = this.tokens.length;
+    return rest;
+  }
+
+  isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  isSymbol(symbol: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === 'symbol' && token.value === symbol;
+  }
+
+  acceptKeyword(...keywords: string[]): boolean {
+    if (keywords.every((keyword, i) => this.isKeyword(keyword, i))) {
+      this.position += keywords.length;
+      return true;
+    }
+    return false;
+  }
+
+  acceptSymbol(symbol: string): boolean {
+    if (this.isSymbol(symbol)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  // Consumes a parenthesized group and returns the tokens between the parentheses
+  collectGroup(): Token[] {
+    if (!this.acceptSymbol('(')) return [];
+    const start = this.position;
+    let depth = 1;
+    while (!this.done) {
+      const token = this.next()!;
+      if (token.type === 'symbol' && token.value === '(') depth++;
+      if (token.type === 'symbol' && token.value === ')' && --depth === 0) {
+        return this.tokens.slice(start, this.position - 1);
+      }
+    }
+    return this.tokens.slice(start);
+  }
+}
+
+const splitByComma = (tokens: Token[]): Token[][] => {
+  const parts: Token[][] = [];
+  let current: Token[] = [];
+  let depth = 0;
+
+  tokens.forEach(token => {
+    if (token.type === 'symbol' && token.value === '(') depth++;
+    if (token.type === 'symbol' && token.value === ')') depth--;
+    if (token.type === 'symbol' && token.value === ',' && depth === 0) {
+      parts.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  });
+
+  if (current.length > 0) parts.push(current);
+  return parts;
+};
+
+const renderTokens = (tokens: Token[]): string => {
+  return tokens
+    .map(token => token.type === 'string' ? `'${token.value.replace(/'/g, "''")}'` : token.value)
+    .join(' ')
+    .replace(/\s*([().]|::)\s*/g, '$1')
+    .replace(/\s*,\s*/g, ', ')
+    // Operators such as >=, <> and || arrive as one token per character
+    .replace(/([<>!=|&]) (?=[=<>|&])/g, '$1');
+};
+
+// Places imported tables on a grid, sizing each row by its tallest table
+export const layoutTables = (tables: TableData[]) => {
+  const perRow = Math.max(1, Math.ceil(Math.sqrt(tables.length)));
+  let y = 50;
+
+  for (let start = 0; start < tables.length; start += perRow) {
+    const row = tables.slice(start, start + perRow);
+    row.forEach((table, i) => {
+      table.position = { x: 50 + i * 320, y };
+    });
+    y += 140 + Math.max(...row.map(table => table.columns.length)) * 37;
+  }
+};
+
+export class SQLParser {
+  private dialect: SQLDialect;
+  private tables: TableData[] = [];
+  private indexes: IndexData[] = [];
+  private pendingForeignKeys: PendingForeignKey[] = [];
+  private customTypes: CustomTypeData[] = [];
+  private warnings: string[] = [];
+
+  constructor(dialect: SQLDialect) {
+    this.dialect = dialect;
+  }
+
+  parse(sql: string): ParsedSchema {
+    this.tables = [];
+    this.indexes = [];
+    this.pendingForeignKeys = [];
+    this.customTypes = [];
+    this.warnings = [];
+
+    this.splitStatements(this.tokenize(sql)).forEach(statement => {
+      const cursor = new TokenCursor(statement);
+      if (cursor.acceptKeyword('CREATE')) {
+        this.parseCreate(cursor);
+      } else if (cursor.acceptKeyword('ALTER', 'TABLE')) {
+        this.parseAlterTable(cursor);
+      } else if (cursor.acceptKeyword('COMMENT', 'ON')) {
+        this.parseCommentOn(cursor);
+      } else {
+        const keyword = cursor.peek()?.value.toUpperCase() || '';
+        if (!IGNORED_STATEMENTS.has(keyword)) {
+          this.warnings.push(`Skipped unsupported statement: ${renderTokens(statement.slice(0, 4))}...`);
+        }
+      }
+    });
+
+    const relationships = this.resolveForeignKeys();
+    markJunctionTables(this.tables, relationships);
+    layoutTables(this.tables);
+
+    return {
+      tables: this.tables,
+      relationships,
+      indexes: this.indexes,
+      customTypes: this.customTypes,
+      warnings: this.warnings
+    };
+  }
+
+  // Tokenizer
+  private tokenize(sql: string): Token[] {
+    const tokens: Token[] = [];
+    const isMySQL = this.dialect === 'mysql' || this.dialect === 'mariadb';
+    const identifierQuotes = isMySQL ? ['`'] : this.dialect === 'sqlite' ? ['"', '`', '['] : ['"'];
+    let delimiter = ';';
+    let i = 0;
+
+    while (i < sql.length) {
+      const char = sql[i];
+      const next = sql[i + 1];
+
+      // MySQL client DELIMITER directive, only valid at the start of a line
+      if ((i === 0 || sql[i - 1] === '\n') && /^DELIMITER[ \t]/i.test(sql.slice(i, i + 10))) {
+        const end = sql.indexOf('\n', i);
+        delimiter = sql.slice(i + 9, end === -1 ? sql.length : end).trim() || ';';
+        i = end === -1 ? sql.length : end;
+        continue;
+      }
+
+      if (delimiter !== ';' && sql.startsWith(delimiter, i)) {
+        tokens.push({ type: 'symbol', value: ';' });
+        i += delimiter.length;
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if ((char === '-' && next === '-') || (char === '#' && isMySQL)) {
+        const end = sql.indexOf('\n', i);
+        i = end === -1 ? sql.length : end;
+        continue;
+      }
+
+      if (char === '/' && /^[ \t]*(\r?\n|$)/.test(sql.slice(i + 1)) && /(^|\n)[ \t]*$/.test(sql.slice(0, i))) {
+        tokens.push({ type: 'terminator', value: '/' });
+        i++;
+        continue;
+      }
+
+      if (char === '/' && next === '*') {
+        const end = sql.indexOf('*/', i + 2);
+        i = end === -1 ? sql.length : end + 2;
+        continue;
+      }
+
+      if (char === "'" || (char === '"' && isMySQL)) {
+        let value = '';
+        i++;
+        while (i < sql.length) {
+          if (sql[i] === '\\' && isMySQL) {
+            value += sql[i + 1] ?? '';
+            i += 2;
+          } else if (sql[i] === char && sql[i + 1] === char) {
+            value += char;
+            i += 2;
+          } else if (sql[i] === char) {
+            i++;
+            break;
+          } else {
+            value += sql[i++];
+          }
+        }
+        tokens.push({ type: 'string', value });
+        continue;
+      }
+
+      if (identifierQuotes.includes(char)) {
+        const closing = char === '[' ? ']' : char;
+        let value = '';
+        i++;
+        while (i < sql.length) {
+          if (sql[i] === closing && sql[i + 1] === closing && closing !== ']') {
+            value += closing;
+            i += 2;
+          } else if (sql[i] === closing) {
+            i++;
+            break;
+          } else {
+            value += sql[i++];
+          }
+        }
+        tokens.push({ type: 'identifier', value });
+        continue;
+      }
+
+      // PostgreSQL dollar-quoted strings ($$ ... $$ or $tag$ ... $tag$)
+      if (char === '$' && this.dialect === 'postgresql') {
+        const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i));
+        if (tag) {
+          const end = sql.indexOf(tag[0], i + tag[0].length);
+          const stop = end === -1 ? sql.length : end;
+          tokens.push({ type: 'string', value: sql.slice(i + tag[0].length, stop) });
+          i = end === -1 ? sql.length : end + tag[0].length;
+          continue;
+        }
+      }
+
+      const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(sql.slice(i));
+      if (number) {
+        tokens.push({ type: 'number', value: number[0] });
+        i += number[0].length;
+        continue;
+      }
+
+      const word = /^[A-Za-z_\u0080-\uFFFF][\w$\u0080-\uFFFF]*/.exec(sql.slice(i));
+      if (word) {
+        tokens.push({ type: 'word', value: word[0] });
+        i += word[0].length;
+        continue;
+      }
+
+      if (char === ':' && next === ':') {
+        tokens.push({ type: 'symbol', value: '::' });
+        i += 2;
+        continue;
+      }
+
+      // Semicolons inside a DELIMITER block belong to routine bodies, not statement ends
+      const inRoutineBody = char === ';' && delimiter !== ';';
+      tokens.push({ type: 'symbol', value: inRoutineBody ? ';;' : char });
+      i++;
+    }
+
+    return tokens;
+  }
+
+  private splitStatements(tokens: Token[]): Token[][] {
+    const statements: Token[][] = [];
+    let current: Token[] = [];
+
+    tokens.forEach(token => {
+      const isEnd = token.type === 'terminator' || (token.type === 'symbol' && token.value === ';' && !this.isPLSQLBlock(current));
+      if (isEnd) {
+        if (current.length > 0) statements.push(current);
+        current = [];
+      } else {
+        current.push(token);
+      }
+    });
+
+    if (current.length > 0) statements.push(current);
+    return statements;
+  }
+
+  // An anonymous BEGIN or DECLARE block, or a CREATE PROCEDURE, TRIGGER and the like, in Oracle
+  private isPLSQLBlock(statement: Token[]): boolean {
+    if (this.dialect !== 'oracle' || statement.length === 0) return false;
+    const cursor = new TokenCursor(statement);
+    if (cursor.acceptKeyword('BEGIN') || cursor.acceptKeyword('DECLARE')) return true;
+    if (!cursor.acceptKeyword('CREATE')) return false;
+    cursor.acceptKeyword('OR', 'REPLACE');
+    if (!cursor.acceptKeyword('EDITIONABLE')) cursor.acceptKeyword('NONEDITIONABLE');
+    // CREATE TYPE ... AS TABLE OF or AS OBJECT ends at a terminator too
+    return PLSQL_UNITS.some(unit => cursor.isKeyword(unit));
+  }
+
+  // Statement parsers
+  private parseCreate(cursor: TokenCursor) {
+    cursor.acceptKeyword('OR', 'REPLACE');
+    while (['TEMPORARY', 'TEMP', 'UNLOGGED', 'GLOBAL', 'LOCAL'].some(keyword => cursor.acceptKeyword(keyword)));
+
+    if (cursor.acceptKeyword('TABLE')) {
+      this.parseCreateTable(cursor);
+      return;
+    }
+
+    if (cursor.acceptKeyword('TYPE')) {
+      this.parseCreateType(cursor);
+      return;
+    }
+
+    if (cursor.acceptKeyword('DOMAIN')) {
+      this.parseCreateDomain(cursor);
+      return;
+    }
+
+    let indexType: IndexData['type'] = 'INDEX';
+    if (cursor.acceptKeyword('UNIQUE')) indexType = 'UNIQUE';
+    else if (cursor.acceptKeyword('FULLTEXT')) indexType = 'FULLTEXT';
+    else if (cursor.acceptKeyword('SPATIAL')) indexType = 'SPATIAL';
+
+    if (cursor.acceptKeyword('INDEX')) {
+      this.parseCreateIndex(cursor, indexType);
+      return;
+    }
+
+    this.warnings.push(`Skipped CREATE ${cursor.peek()?.value.toUpperCase() || ''} statement`);
+  }
+
+  private parseCreateTable(cursor: TokenCursor) {
+    cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+    const name = this.readQualifiedName(cursor);
+
+    if (!name || !cursor.isSymbol('(')) {
+      this.warnings.push(`Skipped CREATE TABLE ${name || ''}: only column definitions are supported`);
+      return;
+    }
+
+    const table: TableData = {
+      id: uuidv4(),
+      name,
+      columns: [],
+      position: { x: 0, y: 0 }
+    };
+    this.tables.push(table);
+
+    splitByComma(cursor.collectGroup()).forEach(definition => {
+      const definitionCursor = new TokenCursor(definition);
+      const first = definitionCursor.peek();
+      if (first?.type === 'word' && TABLE_CONSTRAINT_KEYWORDS.has(first.value.toUpperCase())) {
+        this.parseTableConstraint(definitionCursor, table);
+      } else {
+        const column = this.parseColumn(definitionCursor, table);
+        if (column) table.columns.push(column);
+      }
+    });
+
+    this.parseTableOptions(cursor, table);
+  }
+
+  // PostgreSQL enums and composite types; range and base types have no equivalent in the catalog
+  private parseCreateType(cursor: TokenCursor) {
+    const name = this.readQualifiedName(cursor);
+    if (cursor.acceptKeyword('AS', 'ENUM')) {
+      const values = splitByComma(cursor.collectGroup()).map(part => part.map(token => token.value).join(''));
+      this.customTypes.push({ id: uuidv4(), name, kind: 'ENUM', values });
+    } else if (cursor.acceptKeyword('AS') && cursor.isSymbol('(')) {
+      const fields = splitByComma(cursor.collectGroup()).map(part => {
+        const fieldCursor = new TokenCursor(part);
+        const fieldName = this.identifierValue(fieldCursor.next()!);
+        return { name: fieldName, ...this.readTypeName(fieldCursor) };
+      });
+      this.customTypes.push({ id: uuidv4(), name, kind: 'COMPOSITE', fields });
+    } else {
+      this.warnings.push(`Skipped CREATE TYPE ${name}: only enums and composite types are supported`);
+    }
+  }
+
+  private parseCreateDomain(cursor: TokenCursor) {
+    const name = this.readQualifiedName(cursor);
+    cursor.acceptKeyword('AS');
+    const { dataType, length } = this.readTypeName(cursor);
+    const domain: CustomTypeData = { id: uuidv4(), name, kind: 'DOMAIN', baseType: dataType, length };
+    const checks: string[] = [];
+    while (!cursor.done) {
+      if (cursor.acceptKeyword('NOT', 'NULL')) {
+        domain.isNotNull = true;
+      } else if (cursor.acceptKeyword('NULL')) {
+        domain.isNotNull = false;
+      } else if (cursor.acceptKeyword('DEFAULT')) {
+        const tokens = this.readExpression(cursor);
+        domain.defaultValue = tokens.length === 1 && tokens[0].type === 'string' ? tokens[0].value : renderTokens(tokens);
+      } else if (cursor.acceptKeyword('CHECK')) {
+        checks.push(renderTokens(cursor.collectGroup()));
+      } else {
+        // Constraint names and collations are not kept
+        cursor.next();
+      }
+    }
+    if (checks.length > 0) domain.check = checks.join(' AND ');
+    this.customTypes.push(domain);
+  }
+
+  private parseColumn(cursor: TokenCursor, table: TableData): Column | null {
+    const nameToken = cursor.next();
+    if (!nameToken) return null;
+
+    const column: Column = {
+      id: uuidv4(),
+      name: this.identifierValue(nameToken),
+      dataType: '',
+      isPrimaryKey: false,
+      isNotNull: false,
+      isAutoIncrement: false,
+      isUnique: false
+    };
+
+    const typeWords: string[] = [];
+    let typeArguments: Token[] | undefined;
+    const readTypeWords = () => {
+      while (cursor.peek()?.type === 'word') {
+        const keyword = cursor.peek()!.value.toUpperCase();
+        // CHARACTER starts a constraint only as CHARACTER SET, otherwise it is a type (CHARACTER VARYING)
+        if (COLUMN_CONSTRAINT_KEYWORDS.has(keyword) && !(keyword === 'CHARACTER' && !cursor.isKeyword('SET', 1))) break;
+        typeWords.push(cursor.next()!.value);
+      }
+    };
+
+    // A quoted type name can only be a catalog type
+    if (cursor.peek()?.type === 'identifier') typeWords.push(cursor.next()!.value);
+    readTypeWords();
+    if (cursor.isSymbol('(')) {
+      typeArguments = cursor.collectGroup();
+      // e.g. PostgreSQL "timestamp(3) with time zone"
+      readTypeWords();
+    }
+    if (cursor.isSymbol('[')) {
+      this.warnings.push(`Column ${table.name}.${column.name}: array types are not supported, imported as the element type`);
+      while (cursor.isSymbol('[') || cursor.isSymbol(']') || cursor.peek()?.type === 'number') cursor.next();
+    }
+
+    this.applyDataType(column, typeWords, typeArguments, table);
+    this.parseColumnConstraints(cursor, column, table);
+
+    return column;
+  }
+
+  private parseColumnConstraints(cursor: TokenCursor, column: Column, table: TableData) {
+    let constraintName: string | undefined;
+    while (!cursor.done) {
+      if (cursor.acceptKeyword('NOT', 'NULL')) {
+        column.isNotNull = true;
+      } else if (cursor.acceptKeyword('NULL')) {
+        column.isNotNull = false;
+      } else if (cursor.acceptKeyword('PRIMARY', 'KEY')) {
+        column.isPrimaryKey = true;
+        column.isNotNull = true;
+        if (constraintName) table.primaryKeyName = constraintName;
+        constraintName = undefined;
+        if (!cursor.acceptKeyword('ASC')) cursor.acceptKeyword('DESC');
+      } else if (cursor.acceptKeyword('UNIQUE')) {
+        cursor.acceptKeyword('KEY');
+        column.isUnique = true;
+      } else if (cursor.acceptKeyword('AUTO_INCREMENT') || cursor.acceptKeyword('AUTOINCREMENT')) {
+        column.isAutoIncrement = true;
+      } else if (cursor.acceptKeyword('IDENTITY')) {
+        column.isAutoIncrement = true;
+        cursor.collectGroup();
+      } else if (cursor.acceptKeyword('GENERATED')) {
+        if (!cursor.acceptKeyword('ALWAYS')) cursor.acceptKeyword('BY', 'DEFAULT');
+        if (cursor.acceptKeyword('AS', 'IDENTITY')) {
+          column.isAutoIncrement = true;
+          cursor.collectGroup();
+        } else if (cursor.acceptKeyword('AS')) {
+          this.readGeneratedColumn(cursor, column);
+        }
+      } else if (cursor.isKeyword('AS') && cursor.isSymbol('(', 1)) {
+        cursor.next();
+        this.readGeneratedColumn(cursor, column);
+      } else if (cursor.acceptKeyword('DEFAULT')) {
+        this.applyDefaultValue(column, this.readExpression(cursor));
+      } else if (cursor.acceptKeyword('COMMENT')) {
+        column.comment = cursor.next()?.value;
+      } else if (cursor.acceptKeyword('COLLATE')) {
+        column.collation = cursor.next()?.value;
+      } else if (cursor.acceptKeyword('CHARACTER', 'SET') || cursor.acceptKeyword('CHARSET')) {
+        column.charset = cursor.next()?.value;
+      } else if (cursor.acceptKeyword('REFERENCES')) {
+        this.pendingForeignKeys.push(this.readReferences(cursor, table.name, [column.name], constraintName));
+        constraintName = undefined;
+      } else if (cursor.acceptKeyword('CONSTRAINT')) {
+        constraintName = this.identifierValue(cursor.next()!);
+      } else if (cursor.acceptKeyword('CHECK')) {
+        const expression = cursor.collectGroup();
+        // Dialects without enum types get an enum as text with a CHECK listing its values
+        const values = this.dialect === 'sqlite' || this.dialect === 'oracle' ? this.readEnumCheck(column, expression) : null;
+        if (values && !column.customTypeId) {
+          this.applyInlineEnum(column, values, table);
+        } else {
+          this.addCheckConstraint(table, expression, constraintName);
+        }
+        constraintName = undefined;
+      } else if (cursor.acceptKeyword('ON', 'UPDATE')) {
+        this.readExpression(cursor);
+      } else if (cursor.acceptKeyword('UNSIGNED')) {
+        column.isUnsigned = true;
+      } else {
+        cursor.next();
+      }
+    }
+  }
+
+  private parseTableConstraint(cursor: TokenCursor, table: TableData) {
+    let constraintName: string | undefined;
+    if (cursor.acceptKeyword('CONSTRAINT') && !TABLE_CONSTRAINT_KEYWORDS.has(cursor.peek()?.value.toUpperCase() || '')) {
+      constraintName = this.identifierValue(cursor.next()!);
+    }
+
+    if (cursor.acceptKeyword('PRIMARY', 'KEY')) {
+      if (constraintName) table.primaryKeyName = constraintName;
+      this.readColumnList(cursor).forEach(columnName => {
+        const column = this.findColumn(table, columnName);
+        if (column) {
+          column.isPrimaryKey = true;
+          column.isNotNull = true;
+        }
+      });
+      return;
+    }
+
+    let indexType: IndexData['type'] | null = null;
+    if (cursor.acceptKeyword('UNIQUE')) indexType = 'UNIQUE';
+    else if (cursor.acceptKeyword('FULLTEXT')) indexType = 'FULLTEXT';
+    else if (cursor.acceptKeyword('SPATIAL')) indexType = 'SPATIAL';
+
+    if (indexType || cursor.isKeyword('KEY') || cursor.isKeyword('INDEX')) {
+      if (!cursor.acceptKeyword('KEY')) cursor.acceptKeyword('INDEX');
+      const indexName = !cursor.isSymbol('(') && !cursor.isKeyword('USING')
+        ? this.identifierValue(cursor.next()!)
+        : constraintName;
+      const method = this.readIndexMethod(cursor);
+      const columns = this.readColumnList(cursor);
+      const trailingMethod = this.readIndexMethod(cursor);
+
+      if (indexType === 'UNIQUE' && columns.length === 1) {
+        const column = this.findColumn(table, columns[0]);
+        if (column) column.isUnique = true;
+        return;
+      }
+      // A unique key over several columns is a constraint; CREATE UNIQUE INDEX makes an index
+      if (indexType === 'UNIQUE' && !method && !trailingMethod) {
+        this.addConstraint(table, {
+          name: indexName || suggestConstraintName(DEFAULT_CONSTRAINT_NAMING, table, 'UNIQUE', columns),
+          kind: 'UNIQUE',
+          columns,
+        });
+        return;
+      }
+
+      const type = indexType || 'INDEX';
+      this.indexes.push({
+        id: uuidv4(),
+        name: indexName || `${type === 'UNIQUE' ? 'uk' : 'idx'}_${table.name}_${columns.join('_')}`,
+        tableId: table.id,
+        columns,
+        type,
+        method: method || trailingMethod
+      });
+      return;
+    }
+
+    if (cursor.acceptKeyword('FOREIGN', 'KEY')) {
+      // MySQL names the constraint after the index when CONSTRAINT gives no name
+      const indexName = !cursor.isSymbol('(') ? this.identifierValue(cursor.next()!) : undefined;
+      const columns = this.readColumnList(cursor);
+      if (cursor.acceptKeyword('REFERENCES')) {
+        this.pendingForeignKeys.push(this.readReferences(cursor, table.name, columns, constraintName ?? indexName));
+      }
+      return;
+    }
+
+    if (cursor.acceptKeyword('CHECK')) {
+      this.addCheckConstraint(table, cursor.collectGroup(), constraintName);
+      return;
+    }
+
+    // EXCLUDE [USING method] (element WITH operator, ...); a WHERE predicate is not kept
+    if (cursor.acceptKeyword('EXCLUDE')) {
+      const using = cursor.acceptKeyword('USING') ? cursor.next()?.value.toLowerCase() : undefined;
+      const exclusions = splitByComma(cursor.collectGroup()).map(element => {
+        const withIndex = element.findIndex(token => token.type === 'word' && token.value.toUpperCase() === 'WITH');
+        return {
+          column: renderTokens(withIndex === -1 ? element : element.slice(0, withIndex)),
+          operator: withIndex === -1 ? '=' : element.slice(withIndex + 1).map(token => token.value).join(''),
+        };
+      });
+      if (cursor.acceptKeyword('WHERE')) {
+        this.warnings.push(`Table ${table.name}: WHERE predicate of an EXCLUDE constraint was dropped`);
+      }
+      this.addConstraint(table, {
+        name: constraintName || suggestConstraintName(DEFAULT_CONSTRAINT_NAMING, table, 'EXCLUDE', exclusions.map(e => e.column)),
+        kind: 'EXCLUDE',
+        exclusions,
+        using,
+      });
+      return;
+    }
+
+    this.warnings.push(`Table ${table.name}: unsupported constraint ${renderTokens(cursor.rest())}`);
+  }
+
+  // The expression of GENERATED ALWAYS AS (...) and its storage; MySQL, MariaDB and SQLite default to VIRTUAL
+  private readGeneratedColumn(cursor: TokenCursor, column: Column) {
+    column.generatedExpression = renderTokens(cursor.collectGroup());
+    column.generatedStorage = cursor.acceptKeyword('STORED') || cursor.acceptKeyword('PERSISTENT') ? 'STORED' : 'VIRTUAL';
+    cursor.acceptKeyword('VIRTUAL');
+  }
+
+  private addCheckConstraint(table: TableData, expression: Token[], name?: string) {
+    this.addConstraint(table, {
+      name: name || suggestConstraintName(DEFAULT_CONSTRAINT_NAMING, table, 'CHECK', []),
+      kind: 'CHECK',
+      expression: renderTokens(expression),
+    });
+  }
+
+  // The values of a CHECK (column IN ('a', 'b')) on the column itself, or null for any other expression
+  private readEnumCheck(column: Column, expression: Token[]): string[] | null {
+    const cursor = new TokenCursor(expression);
+    const name = cursor.next();
+    if (!name || this.identifierValue(name).toLowerCase() !== column.name.toLowerCase()) return null;
+    if (!cursor.acceptKeyword('IN') || !cursor.isSymbol('(')) return null;
+    const values = splitByComma(cursor.collectGroup());
+    return cursor.done && values.length > 0 && values.every(value => value.length === 1 && value[0].type === 'string')
+      ? values.map(value => value[0].value)
+      : null;
+  }
+
+  private addConstraint(table: TableData, constraint: Omit<TableConstraint, 'id'>) {
+    table.constraints = [...(table.constraints ?? []), { id: uuidv4(), ...constraint }];
+  }
+
+  private parseTableOptions(cursor: TokenCursor, table: TableData) {
+    while (!cursor.done) {
+      if (cursor.acceptKeyword('ENGINE')) {
+        cursor.acceptSymbol('=');
+        table.engine = cursor.next()?.value;
+      } else if (cursor.acceptKeyword('DEFAULT')) {
+        continue;
+      } else if (cursor.acceptKeyword('CHARACTER', 'SET') || cursor.acceptKeyword('CHARSET')) {
+        cursor.acceptSymbol('=');
+        table.charset = cursor.next()?.value;
+      } else if (cursor.acceptKeyword('COLLATE')) {
+        cursor.acceptSymbol('=');
+        table.collation = cursor.next()?.value;
+      } else if (cursor.acceptKeyword('COMMENT')) {
+        cursor.acceptSymbol('=');
+        table.comment = cursor.next()?.value;
+      } else if (cursor.acceptKeyword('AUTO_INCREMENT')) {
+        cursor.acceptSymbol('=');
+        table.autoIncrement = parseInt(cursor.next()?.value || '', 10) || undefined;
+      } else {
+        cursor.next();
+      }
+    }
+  }
+
+  private parseCreateIndex(cursor: TokenCursor, type: IndexData['type']) {
+    cursor.acceptKeyword('CONCURRENTLY');
+    cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+    const name = cursor.isKeyword('ON') ? '' : this.readQualifiedName(cursor);
+
+    if (!cursor.acceptKeyword('ON')) {
+      this.warnings.push(`Skipped CREATE INDEX ${name}: missing ON clause`);
+      return;
+    }
+    cursor.acceptKeyword('ONLY');
+
+    const tableName = this.readQualifiedName(cursor);
+    const table = this.findTable(tableName);
+    if (!table) {
+      this.warnings.push(`Skipped index ${name}: table ${tableName} was not found`);
+      return;
+    }
+
+    const method = this.readIndexMethod(cursor);
+    const columns = this.readColumnList(cursor);
+    const trailingMethod = this.readIndexMethod(cursor);
+
+    this.indexes.push({
+      id: uuidv4(),
+      name: name || `${type === 'UNIQUE' ? 'uk' : 'idx'}_${table.name}_${columns.join('_')}`,
+      tableId: table.id,
+      columns,
+      type,
+      method: method || trailingMethod
+    });
+  }
+
+  private parseAlterTable(cursor: TokenCursor) {
+    cursor.acceptKeyword('ONLY');
+    cursor.acceptKeyword('IF', 'EXISTS');
+    const tableName = this.readQualifiedName(cursor);
+    const table = this.findTable(tableName);
+    if (!table) {
+      this.warnings.push(`Skipped ALTER TABLE ${tableName}: table was not found`);
+      return;
+    }
+
+    splitByComma(cursor.rest()).forEach(clause => {
+      const clauseCursor = new TokenCursor(clause);
+
+      if (clauseCursor.acceptKeyword('ADD')) {
+        const first = clauseCursor.peek();
+        if (first?.type === 'word' && TABLE_CONSTRAINT_KEYWORDS.has(first.value.toUpperCase())) {
+          this.parseTableConstraint(clauseCursor, table);
+        } else {
+          clauseCursor.acceptKeyword('COLUMN');
+          clauseCursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+          const column = this.parseColumn(clauseCursor, table);
+          if (column) table.columns.push(column);
+        }
+      } else if (clauseCursor.acceptKeyword('MODIFY') || clauseCursor.acceptKeyword('CHANGE')) {
+        // MySQL dumps declare AUTO_INCREMENT in a trailing MODIFY clause
+        clauseCursor.acceptKeyword('COLUMN');
+        const isChange = clause[0].value.toUpperCase() === 'CHANGE';
+        if (!isChange && clauseCursor.isSymbol('(')) {
+          // Oracle modifies a parenthesized list of columns
+          splitByComma(clauseCursor.collectGroup()).forEach(part => this.modifyColumn(new TokenCursor(part), table));
+        } else {
+          this.modifyColumn(clauseCursor, table, isChange);
+        }
+      } else if (clauseCursor.acceptKeyword('ALTER')) {
+        clauseCursor.acceptKeyword('COLUMN');
+        const column = this.findColumn(table, this.identifierValue(clauseCursor.next()!));
+        if (!column) return;
+        if (clauseCursor.acceptKeyword('SET', 'DEFAULT')) {
+          this.applyDefaultValue(column, this.readExpression(clauseCursor));
+        } else if (clauseCursor.acceptKeyword('SET', 'NOT', 'NULL')) {
+          column.isNotNull = true;
+        } else if (clauseCursor.acceptKeyword('DROP', 'NOT', 'NULL')) {
+          column.isNotNull = false;
+        } else if (clauseCursor.acceptKeyword('ADD', 'GENERATED')) {
+          column.isAutoIncrement = true;
+        }
+      } else if (!clauseCursor.isKeyword('OWNER')) {
+        this.warnings.push(`Skipped ALTER TABLE ${table.name} clause: ${renderTokens(clause.slice(0, 4))}`);
+      }
+    });
+  }
+
+  private modifyColumn(cursor: TokenCursor, table: TableData, isChange = false) {
+    const existing = this.findColumn(table, this.identifierValue(isChange ? cursor.next()! : cursor.peek()!));
+    // Oracle restarts an identity without repeating the type, as the seed data export does
+    if (existing && cursor.isKeyword('GENERATED', 1)) {
+      existing.isAutoIncrement = true;
+      return;
+    }
+    const column = this.parseColumn(cursor, table);
+    if (existing && column) {
+      Object.assign(existing, {
+        ...column,
+        id: existing.id,
+        isPrimaryKey: existing.isPrimaryKey || column.isPrimaryKey,
+        isUnique: existing.isUnique || column.isUnique
+      });
+    }
+  }
+
+  private parseCommentOn(cursor: TokenCursor) {
+    const target = cursor.next()?.value.toUpperCase();
+    const path: string[] = [];
+    do {
+      const token = cursor.next();
+      if (token) path.push(this.identifierValue(token));
+    } while (cursor.acceptSymbol('.'));
+
+    if (!cursor.acceptKeyword('IS')) return;
+    const comment = cursor.next();
+    const value = comment?.type === 'string' ? comment.value : undefined;
+
+    if (target === 'TABLE') {
+      const table = this.findTable(path[path.length - 1]);
+      if (table) table.comment = value;
+    } else if (target === 'TYPE' || target === 'DOMAIN') {
+      const customType = this.findCustomType(path[path.length - 1]);
+      if (customType) customType.comment = value;
+    } else if (target === 'COLUMN' && path.length >= 2) {
+      const table = this.findTable(path[path.length - 2]);
+      const column = table && this.findColumn(table, path[path.length - 1]);
+      if (column) column.comment = value;
+    }
+  }
+
+  // Clause readers
+  private readQualifiedName(cursor: TokenCursor): string {
+    let name = '';
+    do {
+      const token = cursor.next();
+      if (!token) break;
+      name = this.identifierValue(token);
+    } while (cursor.acceptSymbol('.'));
+    return name;
+  }
+
+  private readColumnList(cursor: TokenCursor): string[] {
+    return splitByComma(cursor.collectGroup())
+      .map(part => part.find(token => token.type === 'word' || token.type === 'identifier'))
+      .filter((token): token is Token => !!token)
+      .map(token => this.identifierValue(token));
+  }
+
+  // A type name with its arguments, such as character varying(200)
+  private readTypeName(cursor: TokenCursor): { dataType: string; length?: string } {
+    const words: string[] = [];
+    const readWords = () => {
+      while (cursor.peek()?.type === 'word' && !COLUMN_CONSTRAINT_KEYWORDS.has(cursor.peek()!.value.toUpperCase())) {
+        words.push(cursor.next()!.value);
+      }
+    };
+    readWords();
+    const argumentParts = cursor.isSymbol('(') ? splitByComma(cursor.collectGroup()) : [];
+    readWords();
+    const type = this.dialect === 'postgresql' ? words.join(' ').toLowerCase() : words.join(' ').toUpperCase();
+    return {
+      dataType: TYPE_ALIASES[this.dialect]?.[type] ?? type,
+      length: argumentParts.length > 0 ? argumentParts.map(part => part.map(token => token.value).join('')).join(',') : undefined,
+    };
+  }
+
+  private readIndexMethod(cursor: TokenCursor): IndexData['method'] {
+    if (!cursor.acceptKeyword('USING')) return undefined;
+    const method = cursor.next()?.value.toUpperCase();
+    return method === 'BTREE' || method === 'HASH' ? method : undefined;
+  }
+
+  private readReferences(cursor: TokenCursor, tableName: string, columns: string[], name?: string): PendingForeignKey {
+    const foreignKey: PendingForeignKey = {
+      name,
+      tableName,
+      columns,
+      referencedTable: this.readQualifiedName(cursor),
+      referencedColumns: cursor.isSymbol('(') ? this.readColumnList(cursor) : [],
+      onUpdate: 'NO ACTION',
+      onDelete: 'NO ACTION'
+    };
+
+    while (!cursor.done) {
+      if (cursor.acceptKeyword('ON', 'DELETE')) {
+        foreignKey.onDelete = this.readReferentialAction(cursor);
+      } else if (cursor.acceptKeyword('ON', 'UPDATE')) {
+        foreignKey.onUpdate = this.readReferentialAction(cursor);
+      } else if (cursor.acceptKeyword('MATCH') || cursor.acceptKeyword('INITIALLY') || cursor.acceptKeyword('NOT')) {
+        cursor.next();
+      } else if (cursor.acceptKeyword('DEFERRABLE')) {
+        continue;
+      } else {
+        break;
+      }
+    }
+
+    return foreignKey;
+  }
+
+  private readReferentialAction(cursor: TokenCursor): ReferentialAction {
+    if (cursor.acceptKeyword('CASCADE')) return 'CASCADE';
+    if (cursor.acceptKeyword('RESTRICT')) return 'RESTRICT';
+    if (cursor.acceptKeyword('SET', 'NULL')) return 'SET NULL';
+    if (cursor.acceptKeyword('SET', 'DEFAULT')) return 'SET DEFAULT';
+    cursor.acceptKeyword('NO', 'ACTION');
+    return 'NO ACTION';
+  }
+
+  // Reads an expression up to the next column constraint keyword
+  private readExpression(cursor: TokenCursor): Token[] {
+    const tokens: Token[] = [];
+    while (!cursor.done) {
+      const token = cursor.peek()!;
+      const keyword = token.type === 'word' ? token.value.toUpperCase() : '';
+      if (COLUMN_CONSTRAINT_KEYWORDS.has(keyword) && !(keyword === 'NULL' && tokens.length === 0)) break;
+      if (token.type === 'symbol' && token.value === '(') {
+        tokens.push(token, ...cursor.collectGroup(), { type: 'symbol', value: ')' });
+        continue;
+      }
+      tokens.push(cursor.next()!);
+    }
+    return tokens;
+  }
+
+  // Column helpers
+  private applyDataType(column: Column, typeWords: string[], typeArguments: Token[] | undefined, table: TableData) {
+    const argumentParts = typeArguments ? splitByComma(typeArguments) : [];
+    const rawType = typeWords.join(' ');
+
+    const customType = this.findCustomType(rawType);
+    if (customType) {
+      column.dataType = customType.name;
+      column.customTypeId = customType.id;
+      return;
+    }
+    let dataType = this.dialect === 'postgresql' ? rawType.toLowerCase() : rawType.toUpperCase();
+
+    if (this.dialect === 'sqlite') {
+      dataType = this.sqliteAffinity(dataType);
+    } else {
+      dataType = TYPE_ALIASES[this.dialect]?.[dataType] ?? dataType;
+    }
+
+    if (this.dialect === 'postgresql' && /^(timestamp|time) with time zone$|^timestamptz$|^timetz$/.test(dataType)) {
+      this.warnings.push(`Column ${table.name}.${column.name}: ${dataType} was imported without the time zone`);
+      dataType = dataType.startsWith('timestamp') ? 'timestamp' : 'time';
+    }
+
+    if ((this.dialect === 'mysql' || this.dialect === 'mariadb') && ['BOOL', 'BOOLEAN'].includes(rawType.toUpperCase())) {
+      column.length = '1';
+    }
+
+    column.dataType = dataType;
+    if (Object.values(SERIAL_TYPES).includes(dataType)) {
+      column.isAutoIncrement = true;
+    }
+
+    const isMySQL = this.dialect === 'mysql' || this.dialect === 'mariadb';
+    if (isMySQL && dataType === 'ENUM' && argumentParts.length > 0) {
+      this.applyInlineEnum(column, argumentParts.map(part => part.map(token => token.value).join('')), table);
+      return;
+    }
+
+    if (argumentParts.length > 0 && (this.dialect !== 'sqlite' || dataType === 'NUMERIC')) {
+      // SET values are stored comma-separated, like the table editor does
+      const values = argumentParts.map(part => part.map(token => token.value).join(''));
+      column.length = dataType === 'SET' ? formatValueList(values) : values.join(',');
+    }
+
+    const knownTypes: string[] = DATA_TYPES[this.dialect];
+    if (dataType && !knownTypes.includes(dataType)) {
+      this.warnings.push(`Column ${table.name}.${column.name}: type ${dataType} is not a known ${this.dialect} type`);
+    }
+  }
+
+  // An inline MySQL enum, or the CHECK other dialects write for one, becomes a catalog enum shared by
+  // the columns with the same values
+  private applyInlineEnum(column: Column, values: string[], table: TableData) {
+    let customType = this.customTypes.find(t => t.kind === 'ENUM' && JSON.stringify(t.values) === JSON.stringify(values));
+    if (!customType) {
+      const name = claimName(`${table.name}_${column.name}`, new Set(this.customTypes.map(t => t.name)));
+      customType = { id: uuidv4(), name, kind: 'ENUM', values };
+      this.customTypes.push(customType);
+    }
+    column.dataType = customType.name;
+    column.customTypeId = customType.id;
+  }
+
+  private applyDefaultValue(column: Column, tokens: Token[]) {
+    if (tokens.length === 0) return;
+
+    // PostgreSQL dumps expand serial columns to nextval('..._seq'::regclass)
+    if (tokens[0].type === 'word' && tokens[0].value.toLowerCase() === 'nextval') {
+      column.isAutoIncrement = true;
+      column.dataType = SERIAL_TYPES[column.dataType] ?? column.dataType;
+      column.defaultValue = undefined;
+      return;
+    }
+
+    // Strip a type cast such as 'active'::character varying
+    const castIndex = tokens.findIndex(token => token.type === 'symbol' && token.value === '::');
+    const expression = castIndex === -1 ? tokens : tokens.slice(0, castIndex);
+
+    if (expression.length === 1 && expression[0].type === 'string') {
+      column.defaultValue = expression[0].value;
+      return;
+    }
+
+    const rendered = renderTokens(this.unwrapParentheses(expression)).replace(/^-\s+/, '-');
+    column.defaultValue = rendered.toUpperCase() === 'NULL' ? undefined : rendered;
+  }
+
+  // Removes parentheses that wrap the whole expression, e.g. DEFAULT (now())
+  private unwrapParentheses(tokens: Token[]): Token[] {
+    const isOpen = (token?: Token) => token?.type === 'symbol' && token.value === '(';
+    const isClose = (token?: Token) => token?.type === 'symbol' && token.value === ')';
+    if (!isOpen(tokens[0]) || !isClose(tokens[tokens.length - 1])) return tokens;
+
+    let depth = 0;
+    for (let i = 0; i < tokens.length - 1; i++) {
+      if (isOpen(tokens[i])) depth++;
+      if (isClose(tokens[i])) depth--;
+      if (depth === 0) return tokens;
+    }
+    return this.unwrapParentheses(tokens.slice(1, -1));
+  }
+
+  // SQLite type affinity rules (https://www.sqlite.org/datatype3.html, section 3.1)
+  private sqliteAffinity(type: string): string {
+    if (type.includes('INT')) return 'INTEGER';
+    if (type.includes('CHAR') || type.includes('CLOB') || type.includes('TEXT')) return 'TEXT';
+    if (type === '' || type.includes('BLOB')) return 'BLOB';
+    if (type.includes('REAL') || type.includes('FLOA') || type.includes('DOUB')) return 'REAL';
+    return 'NUMERIC';
+  }
+
+  private identifierValue(token: Token): string {
+    // Unquoted identifiers are folded to lower case by PostgreSQL
+    if (token.type === 'word' && this.dialect === 'postgresql') {
+      return token.value.toLowerCase();
+    }
+    return token.value;
+  }
+
+  private findTable(name: string): TableData | undefined {
+    return this.tables.find(t => t.name === name) ||
+      this.tables.find(t => t.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private findCustomType(name: string): CustomTypeData | undefined {
+    return this.customTypes.find(t => t.name === name) ||
+      this.customTypes.find(t => t.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private findColumn(table: TableData, name: string): Column | undefined {
+    return table.columns.find(c => c.name === name) ||
+      table.columns.find(c => c.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private resolveForeignKeys(): RelationshipData[] {
+    const relationships: RelationshipData[] = [];
+
+    this.pendingForeignKeys.forEach(foreignKey => {
+      const sourceTable = this.findTable(foreignKey.tableName);
+      const targetTable = this.findTable(foreignKey.referencedTable);
+      if (!sourceTable || !targetTable) {
+        this.warnings.push(`Skipped foreign key ${foreignKey.tableName} -> ${foreignKey.referencedTable}: table was not found`);
+        return;
+      }
+
+      const referencedColumns = foreignKey.referencedColumns.length > 0
+        ? foreignKey.referencedColumns
+        : targetTable.columns.filter(c => c.isPrimaryKey).map(c => c.name);
+
+      if (foreignKey.columns.length !== referencedColumns.length) {
+        this.warnings.push(`Skipped foreign key ${sourceTable.name}(${foreignKey.columns.join(', ')}): it references ${referencedColumns.length} column${referencedColumns.length !== 1 ? 's' : ''}`);
+        return;
+      }
+
+      const pairs = foreignKey.columns.map((name, i) => ({
+        source: this.findColumn(sourceTable, name),
+        target: this.findColumn(targetTable, referencedColumns[i]),
+      }));
+      const missing = pairs.findIndex(pair => !pair.source || !pair.target);
+      if (missing !== -1) {
+        this.warnings.push(`Skipped foreign key ${sourceTable.name}.${foreignKey.columns[missing]}: column was not found`);
+        return;
+      }
+
+      const columnPairs = pairs.map(pair => {
+        const sourceColumn = pair.source!;
+        sourceColumn.isForeignKey = true;
+        sourceColumn.referencesTable = targetTable.id;
+        sourceColumn.referencesColumn = pair.target!.id;
+        return { sourceColumn: sourceColumn.id, targetColumn: pair.target!.id };
+      });
+
+      // A key that is itself unique allows one child row per parent
+      const isOneToOne = isUniqueKey(sourceTable, columnPairs.map(pair => pair.sourceColumn), this.indexes);
+      relationships.push({
+        id: uuidv4(),
+        sourceTable: sourceTable.id,
+        targetTable: targetTable.id,
+        ...columnPairFields(columnPairs),
+        type: isOneToOne ? 'one-to-one' : 'one-to-many',
+        onUpdate: foreignKey.onUpdate,
+        onDelete: foreignKey.onDelete,
+        name: foreignKey.name
+      });
+    });
+
+    return relationships;
+  }
+}
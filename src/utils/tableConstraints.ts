@@ -0,0 +1,86 @@
+import { ConstraintKind, ConstraintNaming, TableConstraint, TableData } from '../types';
+import { claimName } from './naming';
+
+// The names the generators always used: uk_<col> and fk_<table>_<cols>
+export const DEFAULT_CONSTRAINT_NAMING: ConstraintNaming = {
+  unique: 'uk_{columns}',
+  foreignKey: 'fk_{table}_{columns}',
+  check: 'chk_{table}_{n}',
+  exclude: 'ex_{table}_{columns}',
+};
+
+// Enough of a table to name its constraints, so editors can pass the table they are building
+type ConstrainedTable = Pick<TableData, 'name' | 'columns' | 'constraints'>;
+
+const TEMPLATES: Record<ConstraintKind, keyof ConstraintNaming> = {
+  CHECK: 'check',
+  UNIQUE: 'unique',
+  EXCLUDE: 'exclude',
+};
+
+// The project's templates, falling back to the defaults for blank ones
+export const getConstraintNaming = (naming?: Partial<ConstraintNaming>): ConstraintNaming => {
+  const resolved = { ...DEFAULT_CONSTRAINT_NAMING };
+  (Object.keys(resolved) as (keyof ConstraintNaming)[]).forEach(key => {
+    if (naming?.[key]?.trim()) resolved[key] = naming[key]!.trim();
+  });
+  return resolved;
+};
+
+export const formatConstraintName = (template: string, tableName: string, columns: string[], n = 1) =>
+  template
+    .replace(/\{table\}/g, tableName)
+    .replace(/\{columns\}/g, columns.join('_'))
+    .replace(/\{n\}/g, String(n));
+
+// Whether the constraint has what its kind needs to be written out
+export const isCompleteConstraint = (constraint: TableConstraint) => {
+  switch (constraint.kind) {
+    case 'CHECK':
+      return !!constraint.expression?.trim();
+    case 'UNIQUE':
+      return (constraint.columns ?? []).length > 0;
+    case 'EXCLUDE':
+      return (constraint.exclusions ?? []).length > 0 && constraint.exclusions!.every(e => e.column && e.operator.trim());
+  }
+};
+
+// The table's constraints, led by the UNIQUE constraints of single columns flagged unique
+export const getTableConstraints = (table: ConstrainedTable, naming: ConstraintNaming): TableConstraint[] => [
+  ...table.columns
+    .filter(column => column.isUnique && !column.isPrimaryKey)
+    .map((column): TableConstraint => ({
+      id: column.id,
+      name: formatConstraintName(naming.unique, table.name, [column.name]),
+      kind: 'UNIQUE',
+      columns: [column.name],
+    })),
+  ...(table.constraints ?? []),
+];
+
+const tableConstraintNames = (table: ConstrainedTable, naming: ConstraintNaming) =>
+  getTableConstraints(table, naming).map(constraint => constraint.name);
+
+// A name for a new constraint of the table that none of its constraints uses yet
+export const suggestConstraintName = (naming: ConstraintNaming, table: ConstrainedTable, kind: ConstraintKind, columns: string[]) => {
+  const template = naming[TEMPLATES[kind]];
+  const taken = new Set(tableConstraintNames(table, naming));
+  if (!template.includes('{n}')) {
+    return claimName(formatConstraintName(template, table.name, columns), taken);
+  }
+  let n = 1;
+  while (taken.has(formatConstraintName(template, table.name, columns, n))) n++;
+  return formatConstraintName(template, table.name, columns, n);
+};
+
+// The constraint's definition in a line, for documentation
+export const describeConstraint = (constraint: TableConstraint) => {
+  switch (constraint.kind) {
+    case 'CHECK':
+      return constraint.expression ?? '';
+    case 'UNIQUE':
+      return (constraint.columns ?? []).join(', ');
+    case 'EXCLUDE':
+      return `USING ${constraint.using || 'gist'} (${(constraint.exclusions ?? []).map(e => `${e.column} WITH ${e.operator}`).join(', ')})`;
+  }
+};
@@ -0,0 +1,79 @@
+import { GeneratedFile } from '../types';
+
+const CRC_TABLE = Array.from(Array(256).keys(), n => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  data.forEach(byte => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date, the only timestamp format the base ZIP headers have
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Bit 11 marks file names as UTF-8
+const UTF8_FLAG = 0x0800;
+
+// Builds a ZIP archive with the files stored uncompressed, which every unzip tool reads
+export const createZipArchive = (files: GeneratedFile[]): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const entries = files.map(file => {
+    const data = encoder.encode(file.content);
+    return { name: encoder.encode(file.path), data, crc: crc32(data) };
+  });
+
+  const localSize = entries.reduce((size, entry) => size + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = entries.reduce((size, entry) => size + 46 + entry.name.length, 0);
+  const buffer = new ArrayBuffer(localSize + centralSize + 22);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // Fields shared by the local header and the central directory entry, from the version needed on
+  const writeCommonFields = (at: number, entry: typeof entries[number]) => {
+    view.setUint16(at, 20, true);
+    view.setUint16(at + 2, UTF8_FLAG, true);
+    view.setUint16(at + 4, 0, true);
+    view.setUint16(at + 6, time, true);
+    view.setUint16(at + 8, date, true);
+    view.setUint32(at + 10, entry.crc, true);
+    view.setUint32(at + 14, entry.data.length, true);
+    view.setUint32(at + 18, entry.data.length, true);
+    view.setUint16(at + 22, entry.name.length, true);
+  };
+
+  let offset = 0;
+  let centralOffset = localSize;
+  entries.forEach(entry => {
+    view.setUint32(offset, 0x04034b50, true);
+    writeCommonFields(offset + 4, entry);
+    bytes.set(entry.name, offset + 30);
+    bytes.set(entry.data, offset + 30 + entry.name.length);
+
+    view.setUint32(centralOffset, 0x02014b50, true);
+    view.setUint16(centralOffset + 4, 20, true);
+    writeCommonFields(centralOffset + 6, entry);
+    view.setUint32(centralOffset + 42, offset, true);
+    bytes.set(entry.name, centralOffset + 46);
+
+    offset += 30 + entry.name.length + entry.data.length;
+    centralOffset += 46 + entry.name.length;
+  });
+
+  view.setUint32(centralOffset, 0x06054b50, true);
+  view.setUint16(centralOffset + 8, entries.length, true);
+  view.setUint16(centralOffset + 10, entries.length, true);
+  view.setUint32(centralOffset + 12, centralSize, true);
+  view.setUint32(centralOffset + 16, localSize, true);
+
+  return new Blob([buffer], { type: 'application/zip' });
+};
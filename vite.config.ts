@@ -5,6 +5,10 @@ import react from '@vitejs/plugin-react';
 // in a containerized environment by providing explicit paths to the modules.
 export default defineConfig({
   plugins: [react()],
+  // PGlite loads its WASM and data bundle relative to its own module, which pre-bundling breaks.
+  optimizeDeps: {
+    exclude: ['@electric-sql/pglite'],
+  },
   // By removing the 'resolve.alias' section, we allow Vite to use its
   // default, more reliable module resolution to find the packages.
   server: {